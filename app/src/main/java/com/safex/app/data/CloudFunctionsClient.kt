@@ -82,6 +82,53 @@ class CloudFunctionsClient(
         }
     }
 
+    /**
+     * Call `submitVerdictFeedback` when the user says a verdict was wrong (or right).
+     * @param kind "alert" (explainAlert) or "link" (checkLink)
+     * @param userVerdict "safe" or "scam"
+     * @param promptVersion the `promptVersion` returned with the verdict
+     * Only the verdict, the correction and the on-device scores are sent; never the message text.
+     * Returns true if successful.
+     */
+    suspend fun submitVerdictFeedback(
+        kind: String,
+        originalRiskLevel: String,
+        originalCategory: String,
+        userVerdict: String,
+        url: String? = null,
+        heuristicScore: Float? = null,
+        tfliteScore: Float? = null,
+        tactics: List<String> = emptyList(),
+        promptVersion: String? = null
+    ): Boolean {
+        FirebaseAuthHelper.ensureSignedIn()
+
+        return try {
+            withTimeout(10_000) {
+                functions
+                    .getHttpsCallable("submitVerdictFeedback")
+                    .call(
+                        mapOf(
+                            "kind" to kind,
+                            "originalRiskLevel" to originalRiskLevel,
+                            "originalCategory" to originalCategory,
+                            "userVerdict" to userVerdict,
+                            "url" to url,
+                            "heuristicScore" to heuristicScore,
+                            "tfliteScore" to tfliteScore,
+                            "tactics" to tactics,
+                            "promptVersion" to promptVersion
+                        )
+                    )
+                    .await()
+                true
+            }
+        } catch (e: Exception) {
+            Log.e("SafeX:Functions", "submitVerdictFeedback failed", e)
+            false
+        }
+    }
+
     /**
      * Call `checkLink` for manual scan.
      * @param language BCP-47 locale code: "en", "zh", "ms"
@@ -111,6 +158,36 @@ class CloudFunctionsClient(
         }
     }
 
+    /**
+     * Call `checkEntity` before the user calls a number or pays into an account.
+     * @param type "phone" or "bankAccount"
+     */
+    suspend fun checkEntity(type: String, value: String): com.safex.app.data.models.CheckEntityResponse {
+        FirebaseAuthHelper.ensureSignedIn()
+
+        return try {
+            withTimeout(15_000) {
+                val result = functions
+                    .getHttpsCallable("checkEntity")
+                    .call(com.safex.app.data.models.ScamEntity(type, value).toMap())
+                    .await()
+
+                @Suppress("UNCHECKED_CAST")
+                val data = result.data as? Map<String, Any?> ?: emptyMap()
+                com.safex.app.data.models.CheckEntityResponse.fromMap(data)
+            }
+        } catch (e: Exception) {
+            Log.e("SafeX:Functions", "checkEntity failed", e)
+            com.safex.app.data.models.CheckEntityResponse(
+                type = type,
+                value = value,
+                riskLevel = "UNKNOWN",
+                headline = "Check failed: ${e.message}",
+                reasons = listOf("Network or server error.")
+            )
+        }
+    }
+
     /**
      * Call `getScamNewsDigest` to fetches summarized news in English.
      */
@@ -127,7 +204,8 @@ class CloudFunctionsClient(
                 
                 @Suppress("UNCHECKED_CAST")
                 val data = result.data as? Map<String, Any?> ?: emptyMap()
-                val articlesList = data["articles"] as? List<Map<String, Any?>> ?: emptyList()
+                // One entry per story (syndicated copies merged); older backends sent "articles".
+                val articlesList = (data["stories"] ?: data["articles"]) as? List<Map<String, Any?>> ?: emptyList()
                 
                 articlesList.mapNotNull { map ->
                     val url = map["url"] as? String ?: return@mapNotNull null
@@ -157,6 +235,25 @@ class CloudFunctionsClient(
         }
     }
 
+    /**
+     * Call `getInsights` for the community trends shown on the Insights tab.
+     * Throws on failure; [InsightsRepository] turns errors into its Result type.
+     */
+    suspend fun getInsights(weeks: Int = 8): InsightsWeekly {
+        FirebaseAuthHelper.ensureSignedIn()
+
+        return withTimeout(15_000) {
+            val result = functions
+                .getHttpsCallable("getInsights")
+                .call(mapOf("weeks" to weeks))
+                .await()
+
+            @Suppress("UNCHECKED_CAST")
+            val data = result.data as? Map<String, Any?> ?: emptyMap()
+            InsightsWeekly.fromMap(data)
+        }
+    }
+
     companion object {
         // Singleton for simplicity in this MVP
         val INSTANCE by lazy { CloudFunctionsClient() }
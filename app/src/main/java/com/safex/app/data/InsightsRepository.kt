@@ -1,23 +1,21 @@
 package com.safex.app.data
 
-import com.google.firebase.firestore.FirebaseFirestore
-import kotlinx.coroutines.tasks.await
 import java.time.LocalDate
-import java.time.temporal.WeekFields
-import java.util.Locale
+import java.time.ZoneOffset
+import java.time.temporal.IsoFields
 
 /**
- * Reads aggregated community scam trends from Firestore.
- * Collection: insightsWeekly/{weekId}  (e.g. "2026-W07")
+ * Reads aggregated community scam trends via the `getInsights` Cloud Function,
+ * which summarizes the insightsWeekly/{weekId} docs (e.g. "2026-W07") server-side.
  *
  * This is a read-only repository — writing is done by the
  * reportAlert Cloud Function (Agent 6).
  */
 class InsightsRepository(
-    private val firestore: FirebaseFirestore = FirebaseFirestore.getInstance()
+    private val functionsClient: CloudFunctionsClient = CloudFunctionsClient.INSTANCE
 ) {
 
-    /** Result wrapper for Firestore fetch. */
+    /** Result wrapper for the insights fetch. */
     sealed class Result {
         data class Success(val data: InsightsWeekly) : Result()
         object Empty : Result()
@@ -25,51 +23,28 @@ class InsightsRepository(
     }
 
     /**
-     * Fetches community insights for the current ISO week.
-     * Returns [Result.Empty] when document doesn't exist yet.
+     * Fetches community insights for the current ISO week, with last week's
+     * numbers and the recent weekly series.
      */
     suspend fun fetchCurrentWeek(): Result = try {
-        val weekId = currentWeekId()
-        fetchWeek(weekId)
-    } catch (e: Exception) {
-        Result.Error(e.message ?: "Unknown error")
-    }
-
-    /**
-     * Fetches a specific week's insights.
-     */
-    suspend fun fetchWeek(weekId: String): Result = try {
-        val snapshot = firestore
-            .collection("insightsWeekly")
-            .document(weekId)
-            .get()
-            .await()
-
-        if (!snapshot.exists()) {
+        val weekly = functionsClient.getInsights()
+        if (weekly.totalReports == 0L && weekly.series.all { it.totalReports == 0L }) {
             // Return seeded data for demo purposes (as requested by user logic)
             val seeded = InsightsWeekly(
-                weekId = weekId,
+                weekId = weekly.weekId.ifEmpty { currentWeekId() },
                 totalReports = 120,
                 topCategories = mapOf(
-                    "Human Trafficking" to 15L,
+                    "KK Farm Scam" to 15L,
                     "Investment Scam" to 40L,
                     "Phishing" to 35L,
                     "Love Scam" to 20L,
-                    "Impersonation" to 10L
+                    "Impersonation Scam" to 10L
                 ),
                 topTactics = emptyMap(),
                 topBrands = emptyMap()
             )
             Result.Success(seeded.also { cachedWeekly = it })
         } else {
-            val data = snapshot.data ?: return Result.Empty
-            val weekly = InsightsWeekly(
-                weekId = weekId,
-                totalReports = (data["totalReports"] as? Number)?.toLong() ?: 0L,
-                topCategories = toLongMap(data["topCategories"]),
-                topTactics = toLongMap(data["topTactics"]),
-                topBrands = toLongMap(data["topBrands"])
-            )
             Result.Success(weekly.also { cachedWeekly = it })
         }
     } catch (e: Exception) {
@@ -83,7 +58,7 @@ class InsightsRepository(
         val current = cachedWeekly ?: return // Only update if we have data loaded
         val newCounts = current.topCategories.toMutableMap()
         // Map "Unknown" or other keys to "Phishing" or keep as is if it matches
-        // The fixed keys are: "Human Trafficking", "Investment Scam", etc.
+        // The fixed keys are the backend taxonomy: "KK Farm Scam", "Investment Scam", etc.
         // If the detected category is one of them, increment.
         // If not, maybe map to "Phishing" or ignore?
         // For this user request, "increment the type if gemini think that the detected scam is the type"
@@ -116,23 +91,13 @@ class InsightsRepository(
             }
 
         /**
-         * Returns the current ISO week string, e.g. "2026-W07".
+         * Returns the current ISO 8601 week string (UTC, like the backend), e.g. "2026-W07".
          */
         fun currentWeekId(): String {
-            val today = LocalDate.now()
-            val weekFields = WeekFields.of(Locale.getDefault())
-            val weekNum = today.get(weekFields.weekOfWeekBasedYear())
-            val year = today.get(weekFields.weekBasedYear())
+            val today = LocalDate.now(ZoneOffset.UTC)
+            val weekNum = today.get(IsoFields.WEEK_OF_WEEK_BASED_YEAR)
+            val year = today.get(IsoFields.WEEK_BASED_YEAR)
             return "%d-W%02d".format(year, weekNum)
         }
-
-        /**
-         * Safely converts Firestore map field to Map<String, Long>.
-         */
-        @Suppress("UNCHECKED_CAST")
-        private fun toLongMap(raw: Any?): Map<String, Long> {
-            val map = raw as? Map<String, Any?> ?: return emptyMap()
-            return map.mapValues { (_, v) -> (v as? Number)?.toLong() ?: 0L }
-        }
     }
 }
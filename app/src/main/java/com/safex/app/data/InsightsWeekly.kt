@@ -1,13 +1,74 @@
 package com.safex.app.data
 
 /**
- * Mirrors the Firestore document at insightsWeekly/{weekId}.
- * All maps are category/tactic/brand → count.
+ * Community insights for one ISO week, as returned by the `getInsights` Cloud Function.
+ * The top maps are category/tactic/brand → count for this week; the trend lists
+ * compare it with the previous week.
  */
 data class InsightsWeekly(
     val weekId: String,
     val totalReports: Long = 0,
     val topCategories: Map<String, Long> = emptyMap(),
     val topTactics: Map<String, Long> = emptyMap(),
-    val topBrands: Map<String, Long> = emptyMap()
+    val topBrands: Map<String, Long> = emptyMap(),
+    val previousTotalReports: Long = 0,
+    val totalChangePct: Double? = null,
+    val categoryTrends: List<InsightsTrend> = emptyList(),
+    val risingTactics: List<InsightsTrend> = emptyList(),
+    val risingDomainPatterns: List<InsightsTrend> = emptyList(),
+    val series: List<InsightsWeekPoint> = emptyList()
+) {
+    companion object {
+        fun fromMap(map: Map<String, Any?>): InsightsWeekly {
+            val categories = trendList(map["categories"])
+            val risingTactics = trendList(map["risingTactics"])
+            return InsightsWeekly(
+                weekId = map["weekId"] as? String ?: "",
+                totalReports = (map["totalReports"] as? Number)?.toLong() ?: 0L,
+                topCategories = categories.filter { it.count > 0 }.associate { it.key to it.count },
+                topTactics = risingTactics.associate { it.key to it.count },
+                previousTotalReports = (map["previousTotalReports"] as? Number)?.toLong() ?: 0L,
+                totalChangePct = (map["totalChangePct"] as? Number)?.toDouble(),
+                categoryTrends = categories,
+                risingTactics = risingTactics,
+                risingDomainPatterns = trendList(map["risingDomainPatterns"]),
+                series = (map["series"] as? List<*>).orEmpty().mapNotNull { raw ->
+                    val week = raw as? Map<*, *> ?: return@mapNotNull null
+                    InsightsWeekPoint(
+                        weekId = week["weekId"] as? String ?: return@mapNotNull null,
+                        weekStart = week["weekStart"] as? String,
+                        totalReports = (week["totalReports"] as? Number)?.toLong() ?: 0L
+                    )
+                }
+            )
+        }
+
+        private fun trendList(raw: Any?): List<InsightsTrend> =
+            (raw as? List<*>).orEmpty().mapNotNull { item ->
+                val entry = item as? Map<*, *> ?: return@mapNotNull null
+                InsightsTrend(
+                    key = entry["key"] as? String ?: return@mapNotNull null,
+                    count = (entry["count"] as? Number)?.toLong() ?: 0L,
+                    previous = (entry["previous"] as? Number)?.toLong() ?: 0L,
+                    changePct = (entry["changePct"] as? Number)?.toDouble()
+                )
+            }
+    }
+}
+
+/** One key's count this week against last week; [changePct] is null when last week had none. */
+data class InsightsTrend(
+    val key: String,
+    val count: Long,
+    val previous: Long,
+    val changePct: Double?
+) {
+    val delta: Long get() = count - previous
+}
+
+/** Total reports of one week, for the trend chart (oldest first). */
+data class InsightsWeekPoint(
+    val weekId: String,
+    val weekStart: String?,
+    val totalReports: Long
 )
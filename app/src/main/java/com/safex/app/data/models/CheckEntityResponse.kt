@@ -0,0 +1,31 @@
+package com.safex.app.data.models
+
+/**
+ * Parsed response from the `checkEntity` callable function.
+ * @param value the normalized number (E.164) or account digits
+ * @param totalReports community reports of it, 0 when never reported
+ */
+data class CheckEntityResponse(
+    val type: String,
+    val value: String,
+    val riskLevel: String,
+    val headline: String,
+    val reasons: List<String>,
+    val totalReports: Int = 0,
+    val namedInNews: Boolean = false
+) {
+    companion object {
+        fun fromMap(data: Map<String, Any?>): CheckEntityResponse {
+            val reputation = data["reputation"] as? Map<*, *>
+            return CheckEntityResponse(
+                type = data["type"] as? String ?: "",
+                value = data["value"] as? String ?: "",
+                riskLevel = data["riskLevel"] as? String ?: "UNKNOWN",
+                headline = data["headline"] as? String ?: "",
+                reasons = (data["reasons"] as? List<*>)?.mapNotNull { it as? String } ?: emptyList(),
+                totalReports = (reputation?.get("totalReports") as? Number)?.toInt() ?: 0,
+                namedInNews = (data["threatIntel"] as? List<*>)?.isNotEmpty() ?: false
+            )
+        }
+    }
+}
@@ -9,7 +9,8 @@ data class CheckLinkResponse(
     val whatToDoNow: List<String> = emptyList(),
     val whatNotToDo: List<String> = emptyList(),
     val category: String = "unknown",
-    val confidence: Double = 0.5
+    val confidence: Double = 0.5,
+    val promptVersion: String? = null
 ) {
     companion object {
         fun fromMap(data: Map<String, Any?>): CheckLinkResponse {
@@ -22,7 +23,8 @@ data class CheckLinkResponse(
                 whatToDoNow = (data["whatToDoNow"] as? List<*>)?.mapNotNull { it as? String } ?: emptyList(),
                 whatNotToDo = (data["whatNotToDo"] as? List<*>)?.mapNotNull { it as? String } ?: emptyList(),
                 category = data["category"] as? String ?: "unknown",
-                confidence = (data["confidence"] as? Number)?.toDouble() ?: 0.5
+                confidence = (data["confidence"] as? Number)?.toDouble() ?: 0.5,
+                promptVersion = data["promptVersion"] as? String
             )
         }
     }
@@ -40,7 +40,11 @@ data class ExplainAlertResponse(
     val whatToDoNow: List<String>,
     val whatNotToDo: List<String>,
     val confidence: Double,
-    val notes: String
+    val notes: String,
+    /** Server prompt version behind the verdict; sent back with reports and feedback. */
+    val promptVersion: String? = null,
+    /** Language of the text fields ("en", "ms" or "zh"); category and riskLevel stay English keys. */
+    val language: String = "en"
 ) {
     companion object {
         /** Parse the raw Map returned by the callable into a typed response. */
@@ -56,7 +60,9 @@ data class ExplainAlertResponse(
             whatNotToDo = (map["whatNotToDo"] as? List<*>)?.mapNotNull { it?.toString() }
                 ?: listOf("Do not share OTP or banking details.", "Do not send money."),
             confidence = (map["confidence"] as? Number)?.toDouble() ?: 0.5,
-            notes = (map["notes"] as? String) ?: ""
+            notes = (map["notes"] as? String) ?: "",
+            promptVersion = map["promptVersion"] as? String,
+            language = (map["language"] as? String) ?: "en"
         )
 
         /** Fallback when the function call fails entirely. */
@@ -7,15 +7,34 @@ package com.safex.app.data.models
 data class ReportAlertRequest(
     val category: String,
     val tactics: List<String> = emptyList(),
-    val domainPattern: String? = null
+    val domainPattern: String? = null,
+    /** The reported link; the server counts its domain in `reputation_domains`. */
+    val url: String? = null,
+    val promptVersion: String? = null,
+    /** Phone numbers and bank accounts the scam used; the server keeps only a keyed hash. */
+    val entities: List<ScamEntity> = emptyList()
 ) {
     fun toMap(): Map<String, Any?> = buildMap {
         put("category", category)
         put("tactics", tactics)
         if (domainPattern != null) put("domainPattern", domainPattern.take(120))
+        if (url != null) put("url", url.take(2000))
+        if (promptVersion != null) put("promptVersion", promptVersion)
+        if (entities.isNotEmpty()) put("entities", entities.take(5).map { it.toMap() })
     }
 }
 
+/**
+ * A phone number or bank account, as sent to `reportAlert` and `checkEntity`.
+ * @param type "phone" or "bankAccount"
+ */
+data class ScamEntity(
+    val type: String,
+    val value: String
+) {
+    fun toMap(): Map<String, Any?> = mapOf("type" to type, "value" to value.take(40))
+}
+
 /**
  * Parsed response from the `reportAlert` callable function.
  */
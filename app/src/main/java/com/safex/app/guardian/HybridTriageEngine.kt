@@ -123,7 +123,9 @@ class HybridTriageEngine(private val context: Context) : TriageEngine {
                 riskProbability = finalProbability,
                 heuristicScore  = hScore,
                 tfliteScore     = tScore,
-                tactics         = response.whyFlagged.ifEmpty { tactics },
+                // The heuristic codes, not whyFlagged: that is free text in the user's language,
+                // and the alert's tactics are what reportAlert counts.
+                tactics         = tactics,
                 category        = response.category.ifBlank { category },
                 headline        = response.headline,
                 containsUrl     = containsUrl,
@@ -160,6 +162,8 @@ class HybridTriageEngine(private val context: Context) : TriageEngine {
                 put("whyFlagged",  org.json.JSONArray(response.whyFlagged))
                 put("whatToDoNow", org.json.JSONArray(response.whatToDoNow))
                 put("whatNotToDo", org.json.JSONArray(response.whatNotToDo))
+                if (response.promptVersion != null) put("promptVersion", response.promptVersion)
+                put("language",    response.language)
             }.toString()
         } catch (e: Exception) {
             Log.e(TAG, "Failed to serialize Gemini response", e)
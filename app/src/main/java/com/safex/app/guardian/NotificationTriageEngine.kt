@@ -223,6 +223,9 @@ class HeuristicTriageEngine : TriageEngine {
             "suspicious_url" to "Phishing",
             "typosquat_url"  to "Phishing",
         )
+
+        /** Every tactic code scoreText() can report; the only tactics reportAlert sends. */
+        val TACTIC_CODES: Set<String> = CATEGORY_MAP.keys
     }
 
     /**
@@ -11,6 +11,7 @@ import com.safex.app.data.AlertRepository
 import com.safex.app.data.UserPrefs
 import com.safex.app.data.local.SafeXDatabase
 import kotlinx.coroutines.flow.first
+import org.json.JSONArray
 
 class ScanTextWorker(
     appContext: Context,
@@ -84,7 +85,7 @@ class ScanTextWorker(
                             type = "gallery",
                             riskLevel = result.riskLevel,
                             category = result.category,
-                            tacticsJson = result.tactics.toString(),
+                            tacticsJson = JSONArray(result.tactics).toString(),
                             snippetRedacted = fullText.take(500),
                             extractedUrl = if (result.containsUrl) "URL detected" else null,
                             headline = result.headline,
@@ -9,6 +9,7 @@ import com.safex.app.data.local.AlertEntity
 import com.safex.app.data.models.ExplainAlertRequest
 import com.safex.app.data.models.ExplainAlertResponse
 import com.safex.app.data.models.ReportAlertRequest
+import com.safex.app.guardian.HeuristicTriageEngine
 import kotlinx.coroutines.flow.MutableStateFlow
 import kotlinx.coroutines.flow.StateFlow
 import kotlinx.coroutines.flow.asStateFlow
@@ -50,11 +51,11 @@ class AlertDetailViewModel(
             }
             currentAlert = alert
 
-            // 2. Use cached English Gemini analysis if stored
+            // 2. Use the cached Gemini analysis if stored (in the language it was requested in)
             val cachedJson = alert.geminiAnalysis
             if (!cachedJson.isNullOrBlank()) {
                 val explanation = parseCachedGemini(cachedJson)
-                if (explanation != null) {
+                if (explanation != null && explanation.language in setOf("en", languageCode.take(2))) {
                     baseExplanation = explanation
                     _uiState.value = AlertDetailUiState.Success(alert, ensureTranslated(explanation))
                     return@launch
@@ -98,10 +99,12 @@ class AlertDetailViewModel(
     }
 
     /**
-     * Fallback ML Kit translation. If Gemini failed to follow the language prompt,
-     * or if the database cached an English result, this provides an instant local translation guarantee.
+     * Fallback ML Kit translation. The server answers in the requested language; if the database
+     * cached an English result, this provides an instant local translation guarantee.
+     * ML Kit only translates from English, so a Malay or Chinese analysis is shown as is.
      */
     private suspend fun ensureTranslated(explanation: ExplainAlertResponse): ExplainAlertResponse {
+        if (explanation.language != "en" || languageCode.take(2) == "en") return explanation
         val hl = com.safex.app.data.MlKitTranslator.translate(explanation.headline, languageCode)
         val wf = explanation.whyFlagged.map { com.safex.app.data.MlKitTranslator.translate(it, languageCode) }
         val wtdn = explanation.whatToDoNow.map { com.safex.app.data.MlKitTranslator.translate(it, languageCode) }
@@ -135,7 +138,9 @@ class AlertDetailViewModel(
                 whatToDoNow = jsonArrayToList("whatToDoNow"),
                 whatNotToDo = jsonArrayToList("whatNotToDo"),
                 confidence  = obj.optDouble("confidence", 0.5),
-                notes       = obj.optString("notes", "")
+                notes       = obj.optString("notes", ""),
+                promptVersion = obj.optString("promptVersion").ifEmpty { null },
+                language    = obj.optString("language", "en")
             )
         } catch (e: Exception) {
             null  // fall through to live Gemini call
@@ -148,7 +153,10 @@ class AlertDetailViewModel(
             functionsClient.reportAlert(
                 ReportAlertRequest(
                     category = state.explanation.category,
-                    tactics = state.explanation.whyFlagged
+                    tactics = reportedTactics(state.alert),
+                    // Notification and gallery alerts only store a "URL detected" placeholder.
+                    url = state.alert.extractedUrl?.takeIf { it.contains('.') },
+                    promptVersion = state.explanation.promptVersion
                 )
             )
             repository.deleteAlert(alertId)
@@ -156,6 +164,16 @@ class AlertDetailViewModel(
         }
     }
 
+    /**
+     * The heuristic tactic codes stored with the alert (e.g. "credential"), which the server counts
+     * for insights and trends. whyFlagged is free text, and translated, so it is never reported.
+     */
+    private fun reportedTactics(alert: AlertEntity): List<String> =
+        alert.tacticsJson.trim().removeSurrounding("[", "]").split(",")
+            .map { it.trim().removeSurrounding("\"") }
+            .filter { it in HeuristicTriageEngine.TACTIC_CODES }
+            .distinct()
+
     fun markSafe(onComplete: () -> Unit) {
         viewModelScope.launch {
             repository.deleteAlert(alertId)
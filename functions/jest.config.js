@@ -0,0 +1,13 @@
+// Unit tests always run; tests that need Firestore run only under the emulator
+// (`npm run test:emulator`), which sets FIRESTORE_EMULATOR_HOST.
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  transform: {
+    // Jest loads CommonJS; the build's NodeNext output is CommonJS too.
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { module: "commonjs", moduleResolution: "node10", esModuleInterop: true } }],
+  },
+  setupFiles: ["<rootDir>/test/env.ts"],
+  setupFilesAfterEnv: ["<rootDir>/test/setup.ts"],
+  testTimeout: 30000,
+};
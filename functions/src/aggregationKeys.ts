@@ -0,0 +1,59 @@
+import { createHash } from "crypto";
+
+// ---- Aggregation keys ----
+// Counters keyed by client input (tactics, domain patterns) must not let the client shape the
+// document. Keys are lowercased, truncated and percent-encoded so they never contain dots,
+// slashes or the reserved `__name__` form, and every map is capped: once it holds MAX keys,
+// new keys are counted in the OVERFLOW_KEY bucket instead. Categories don't go through here;
+// they are whitelisted by normalizeScamCategory (see insights.ts).
+
+// Encoded keys are lowercase and every "%" in them starts a hex escape, so no client input
+// (encoded, or decoded for the API) can ever equal this key and land in the bucket by name.
+export const OVERFLOW_KEY = "%OVERFLOW";
+
+const MAX_RAW_LENGTH = 100;
+
+// Null for input with nothing left to count.
+export function encodeAggregationKey(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const value = raw.trim().toLowerCase().slice(0, MAX_RAW_LENGTH);
+  if (!value) return null;
+  const encoded = encodeURIComponent(value).replace(/[.!'()*~]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  // Firestore reserves field names like __foo__.
+  return /^__.*__$/.test(encoded) ? `%5F${encoded.slice(1)}` : encoded;
+}
+
+export function decodeAggregationKey(key: string): string {
+  try {
+    return decodeURIComponent(key);
+  } catch (e) {
+    return key;
+  }
+}
+
+// Whether `key` may be counted in a map that already has `existing` keys (plus the ones
+// this write adds), or has to go to the overflow bucket.
+export function fitsInMap(key: string, existing: Set<string>, maxKeys: number): boolean {
+  return key === OVERFLOW_KEY || existing.has(key) || existing.size < maxKeys;
+}
+
+// Splits counters into the `maxKeys` largest and the rest (for migrations).
+export function boundCounters(
+  counts: Record<string, number>, maxKeys: number
+): { kept: Record<string, number>; overflow: Record<string, number> } {
+  const kept: Record<string, number> = {};
+  const overflow: Record<string, number> = {};
+  const entries = Object.entries(counts).filter(([key]) => key !== OVERFLOW_KEY).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  entries.forEach(([key, n], i) => {
+    if (i < maxKeys) kept[key] = n;
+    else overflow[key] = n;
+  });
+  const overflowTotal = Object.values(overflow).reduce((a, b) => a + b, 0) + (counts[OVERFLOW_KEY] ?? 0);
+  if (overflowTotal > 0) kept[OVERFLOW_KEY] = overflowTotal;
+  return { kept, overflow };
+}
+
+// Stable shard for a long-tail key, so the same key always lands in the same counter doc.
+export function shardOf(key: string, shards: number): string {
+  return String(parseInt(createHash("sha1").update(key).digest("hex").slice(0, 8), 16) % shards);
+}
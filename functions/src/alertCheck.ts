@@ -0,0 +1,222 @@
+import * as logger from "firebase-functions/logger";
+import {
+  EXPLAIN_ALERT_MODEL_FALLBACK, EXPLAIN_ALERT_MODEL_OUTPUT, ExplainAlertModelOutput, NEWS_CATEGORIES, NewsCategory, NewsLanguage,
+  RedactionType, repairToSchema,
+} from "./contracts";
+import { normalizeScamCategory } from "./insights";
+import { languageLabel } from "./linkCheck";
+import { mergeRedactions, redactUrlSecrets, sanitizeForModel } from "./redaction";
+import { describeReputation, DomainReputation } from "./reputation";
+import {
+  AppliedOverride, maxRiskLevel, normalizeRiskLevel, RiskLevel, RiskVerdict, ScoringConfig, ScoringInput, scoreRisk, SignalName,
+  VERDICT_HEADLINES, verdictReasons,
+} from "./scoring";
+import { safeBrowsingThreatTypes } from "./safeBrowsing";
+import { describeThreatIntel, ThreatIntelMatch } from "./threatIntel";
+
+// ---- Alert check decision logic ----
+// Shared by explainAlert and the offline evaluation (see evaluation.ts): the variables of the
+// explainAlert prompt, the local signals, and the verdict made from the model's answer and
+// those signals.
+// Verdicts are written in the user's language (en/ms/zh): Gemini writes its own text in it, and
+// the server's text (fallback, override headlines and reasons) comes from ALERT_TEXT below.
+// category and riskLevel stay English keys, since reportAlert and the insights count them.
+
+export interface AlertContext {
+  language: NewsLanguage;
+  alertType: string;
+  snippet: string;
+  category: string;
+  tactics: string[];
+  heuristicScore: number | null;
+  tfliteScore: number | null;
+  extractedUrl: string | null;
+  safeBrowsing: unknown | null;
+  reputation: DomainReputation | null;
+  threatIntel: ThreatIntelMatch[];
+}
+
+// The alert as the model may see it: the snippet through the injection guard and PII
+// redaction, the URL without its secrets (see redaction.ts). Local signals use the original.
+export function redactAlertForModel(alert: AlertContext): { alert: AlertContext; redactions: RedactionType[] } {
+  const snippet = sanitizeForModel(alert.snippet);
+  const url = alert.extractedUrl ? redactUrlSecrets(alert.extractedUrl) : null;
+  return {
+    alert: { ...alert, snippet: snippet.text, extractedUrl: url?.text ?? null },
+    redactions: mergeRedactions(snippet.redactions, url?.redactions ?? []),
+  };
+}
+
+// Variables of the explainAlert prompt (see promptRegistry.ts).
+export function alertPromptVars(alert: AlertContext): Record<string, string> {
+  const { reputation, threatIntel } = alert;
+  return {
+    language: languageLabel(alert.language),
+    categories: NEWS_CATEGORIES.map((c) => `- ${c}`).join("\n"),
+    alertType: alert.alertType,
+    snippet: alert.snippet,
+    context: [
+      `- Local category guess: ${alert.category}`,
+      `- Local tactics matched: ${JSON.stringify(alert.tactics)}`,
+      `- Heuristic keyword score: ${alert.heuristicScore ?? "N/A"}`,
+      `- TFLite AI model score: ${alert.tfliteScore ?? "N/A"}`,
+      alert.extractedUrl ? `- Extracted URL: ${alert.extractedUrl}` : "",
+      alert.safeBrowsing ? `- Safe Browsing result: ${JSON.stringify(alert.safeBrowsing)}` : "",
+      reputation ? `- Community reports for ${reputation.domain}: ${describeReputation(reputation)} Treat MEDIUM/HIGH community reputation as strong scam evidence.` : "",
+      threatIntel.map((m) => `- Scam news: ${m.value}: ${describeThreatIntel(m)} Treat this as strong scam evidence.`).join("\n"),
+    ].join("\n"),
+  };
+}
+
+export function alertSignals(alert: AlertContext, urlHeuristics: ScoringInput["urlHeuristics"]): ScoringInput {
+  const intel = alert.threatIntel[0];
+  return {
+    urlHeuristics,
+    safeBrowsingThreats: safeBrowsingThreatTypes(alert.safeBrowsing),
+    reputation: alert.reputation,
+    threatIntel: intel ? { confidence: intel.confidence, detail: describeThreatIntel(intel) } : null,
+    heuristicScore: alert.heuristicScore,
+    tfliteScore: alert.tfliteScore,
+  };
+}
+
+// ---- Server text in the user's language ----
+interface AlertText {
+  headlines: Record<RiskLevel, string>;
+  fallback: Omit<ExplainAlertModelOutput, "category" | "riskLevel" | "confidence">;
+  overrides: Record<AppliedOverride["rule"], string>;
+  signals: Record<SignalName, string>;
+}
+
+// English keeps the detailed reasons from scoring.ts; the others name the signal in plain words.
+const ALERT_TEXT: Record<Exclude<NewsLanguage, "en">, AlertText> = {
+  ms: {
+    headlines: {
+      HIGH: "Ini kelihatan berbahaya",
+      MEDIUM: "Berhati-hati dengan mesej ini",
+      LOW: "Tiada tanda amaran yang jelas",
+    },
+    fallback: {
+      headline: "Mesej mencurigakan dikesan",
+      whyFlagged: ["Mesej ini sepadan dengan corak manipulasi penipuan yang diketahui."],
+      whatToDoNow: ["Jangan balas dahulu.", "Gunakan SafeX Scan untuk menyemak sebarang pautan.", "Tanya orang yang dipercayai jika tidak pasti."],
+      whatNotToDo: ["Jangan kongsi OTP atau butiran perbankan.", "Jangan hantar wang."],
+      notes: "Jawapan sandaran (analisis AI tidak tersedia).",
+    },
+    overrides: {
+      reputationHigh: "Domain ini telah dilaporkan oleh ramai pengguna SafeX",
+      threatIntelMatch: "Disebut dalam amaran penipuan dalam berita",
+      officialDomainCap: "Ini domain rasmi yang disahkan",
+      safeBrowsingMatch: "Disenaraikan sebagai berbahaya oleh Google Safe Browsing",
+    },
+    signals: {
+      urlHeuristics: "Pautan ini mempunyai corak yang mencurigakan",
+      safeBrowsing: "Disenaraikan sebagai berbahaya oleh Google Safe Browsing",
+      reputation: "Pernah dilaporkan oleh pengguna SafeX",
+      threatIntel: "Disebut dalam amaran penipuan dalam berita",
+      onDeviceHeuristic: "Mengandungi kata kunci penipuan yang biasa",
+      onDeviceTflite: "Model AI pada telefon menilai mesej ini berisiko",
+      gemini: "Analisis AI",
+    },
+  },
+  zh: {
+    headlines: {
+      HIGH: "这看起来很危险",
+      MEDIUM: "请小心处理这条信息",
+      LOW: "未发现明显的危险迹象",
+    },
+    fallback: {
+      headline: "检测到可疑信息",
+      whyFlagged: ["这条信息符合已知的诈骗操纵手法。"],
+      whatToDoNow: ["先不要回复。", "使用 SafeX 扫描检查信息中的链接。", "如有疑问，请询问您信任的人。"],
+      whatNotToDo: ["不要透露 OTP 或银行资料。", "不要汇款。"],
+      notes: "备用回复（AI 分析暂不可用）。",
+    },
+    overrides: {
+      reputationHigh: "此域名已被许多 SafeX 用户举报",
+      threatIntelMatch: "曾在新闻的诈骗警告中被点名",
+      officialDomainCap: "这是经过验证的官方域名",
+      safeBrowsingMatch: "被 Google 安全浏览列为危险网站",
+    },
+    signals: {
+      urlHeuristics: "该链接具有可疑特征",
+      safeBrowsing: "被 Google 安全浏览列为危险网站",
+      reputation: "曾被 SafeX 用户举报",
+      threatIntel: "曾在新闻的诈骗警告中被点名",
+      onDeviceHeuristic: "包含常见的诈骗关键词",
+      onDeviceTflite: "手机上的 AI 模型认为这条信息有风险",
+      gemini: "AI 分析",
+    },
+  },
+};
+
+function headlineFor(level: RiskLevel, language: NewsLanguage): string {
+  return language === "en" ? VERDICT_HEADLINES[level] : ALERT_TEXT[language].headlines[level];
+}
+
+// Same selection as verdictReasons (overrides, then risky signals), without repeats.
+function reasonsFor(scoring: RiskVerdict, language: NewsLanguage): string[] {
+  if (language === "en") return verdictReasons(scoring);
+  const text = ALERT_TEXT[language];
+  return Array.from(new Set([
+    ...scoring.overrides.map((o) => text.overrides[o.rule]),
+    ...scoring.breakdown.filter((b) => b.signal !== "gemini" && b.value >= 0.5).map((b) => text.signals[b.signal]),
+  ]));
+}
+
+// The model's category as an English key: a scam category from the taxonomy, or "Legitimate".
+export function canonicalAlertCategory(raw: unknown): NewsCategory | "Legitimate" {
+  return typeof raw === "string" && raw.trim().toLowerCase() === "legitimate" ? "Legitimate" : normalizeScamCategory(raw);
+}
+
+export type AlertVerdict = Omit<ExplainAlertModelOutput, "riskLevel"> & {
+  riskLevel: RiskLevel;
+  modelRiskLevel: RiskLevel | null;
+  scoring: RiskVerdict;
+};
+
+// The model's JSON (null when the call failed) repaired to the contract and fused with the
+// local signals. Unusable output gets the generic fallback: at least MEDIUM unless an override
+// decided it. `parsed` tells the two apart; fallbacks are not cached.
+export function alertVerdict(
+  modelJson: unknown, signals: ScoringInput, config: ScoringConfig, language: NewsLanguage = "en"
+): { verdict: AlertVerdict; parsed: boolean } {
+  const repaired = repairToSchema<ExplainAlertModelOutput>(EXPLAIN_ALERT_MODEL_OUTPUT, modelJson, EXPLAIN_ALERT_MODEL_FALLBACK);
+  if (repaired.replaced) {
+    const scoring = scoreRisk(signals, config);
+    return {
+      verdict: {
+        ...EXPLAIN_ALERT_MODEL_FALLBACK,
+        ...(language === "en" ? {} : ALERT_TEXT[language].fallback),
+        riskLevel: scoring.overrides.length > 0 ? scoring.riskLevel : maxRiskLevel("MEDIUM", scoring.riskLevel),
+        modelRiskLevel: null,
+        scoring,
+      },
+      parsed: false,
+    };
+  }
+  if (repaired.repairs.length > 0) {
+    logger.warn("Repaired explainAlert model output", { repairs: repaired.repairs });
+  }
+
+  const parsed = repaired.value;
+  const modelRiskLevel = normalizeRiskLevel(parsed.riskLevel);
+  const confidence = typeof parsed.confidence === "number" ? parsed.confidence : 0.5;
+  const scoring = scoreRisk({ ...signals, gemini: { riskLevel: modelRiskLevel, confidence } }, config);
+
+  // The fused verdict is final; if it disagrees with Gemini, say why first.
+  const overridden = scoring.riskLevel !== modelRiskLevel;
+  const whyFlagged = Array.isArray(parsed.whyFlagged) ? parsed.whyFlagged : [];
+  return {
+    verdict: {
+      ...parsed,
+      category: canonicalAlertCategory(parsed.category),
+      riskLevel: scoring.riskLevel,
+      headline: overridden ? headlineFor(scoring.riskLevel, language) : parsed.headline,
+      whyFlagged: overridden ? [...reasonsFor(scoring, language), ...whyFlagged] : whyFlagged,
+      modelRiskLevel,
+      scoring,
+    },
+    parsed: true,
+  };
+}
@@ -0,0 +1,204 @@
+import * as admin from "firebase-admin";
+import { FeedItem } from "./feedParser";
+import { NewsSource } from "./newsSources";
+import { NewsArticleOutcome } from "./newsStories";
+
+// ---- News backfill jobs ----
+// A backfill fetches a long window of news once, queues every article as an item of
+// `backfill_jobs/{jobId}/items/{articleId}`, then processes the queue in chunks (see
+// newsBackfillWorker in index.ts). The job doc holds the counts, so progress survives a
+// timeout: the next worker run takes the lease and carries on with the pending items.
+// Item IDs are the article IDs, so an article is queued once per job; articles a previous
+// job or the hourly scraper already stored are counted as skipped. An item that fails (model
+// quota, a flaky page) is parked as "retry" and requeued by the next worker run; only after
+// MAX_ITEM_ATTEMPTS failures is it counted as failed.
+
+export const BACKFILL_JOBS_COLLECTION = "backfill_jobs";
+
+// A worker holds the job for at most this long; longer than the worker's own timeout, so a
+// crashed run can't overlap the next one.
+const LEASE_MS = 10 * 60 * 1000;
+
+const MAX_ITEM_ATTEMPTS = 3;
+
+export type BackfillJobStatus = "running" | "completed" | "failed";
+
+export interface BackfillItem {
+  id: string;
+  item: FeedItem;
+  source: NewsSource;
+}
+
+export interface BackfillJob {
+  jobId: string;
+  status: BackfillJobStatus;
+  region: string;
+  window: string;
+  total: number;
+  processed: number;
+  accepted: number;
+  rejected: number;
+  failed: number;
+  skipped: number;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt: number | null;
+  lastError: string | null;
+}
+
+const jobs = () => admin.firestore().collection(BACKFILL_JOBS_COLLECTION);
+
+// ---- Read path: one job, or the newest when no ID is given ----
+export async function getBackfillJob(jobId: string | null): Promise<BackfillJob | null> {
+  if (jobId) {
+    const snap = await jobs().doc(jobId).get();
+    return snap.exists ? toJob(snap) : null;
+  }
+  const snapshot = await jobs().orderBy("createdAt", "desc").limit(1).get();
+  return snapshot.empty ? null : toJob(snapshot.docs[0]);
+}
+
+// An unfinished job for the same region and window; starting it twice must not double the work.
+export async function findRunningBackfillJob(region: string, window: string): Promise<BackfillJob | null> {
+  const snapshot = await jobs()
+    .where("status", "==", "running").where("region", "==", region).where("window", "==", window)
+    .limit(1).get();
+  return snapshot.empty ? null : toJob(snapshot.docs[0]);
+}
+
+function toJob(snap: admin.firestore.DocumentSnapshot): BackfillJob {
+  const d = snap.data() ?? {};
+  return {
+    jobId: snap.id,
+    status: d.status,
+    region: String(d.region ?? ""),
+    window: String(d.window ?? ""),
+    total: Number(d.total ?? 0),
+    processed: Number(d.processed ?? 0),
+    accepted: Number(d.accepted ?? 0),
+    rejected: Number(d.rejected ?? 0),
+    failed: Number(d.failed ?? 0),
+    skipped: Number(d.skipped ?? 0),
+    createdBy: String(d.createdBy ?? ""),
+    createdAt: Number(d.createdAt ?? 0),
+    updatedAt: Number(d.updatedAt ?? 0),
+    completedAt: d.completedAt ?? null,
+    lastError: d.lastError ?? null,
+  };
+}
+
+// ---- Write path: a new job with its queue ----
+// A job whose feed could not be fetched is stored as failed, so the admin sees why.
+export async function createBackfillJob(
+  params: { region: string; window: string; createdBy: string }, items: BackfillItem[], error: string | null,
+  now: number = Date.now()
+): Promise<BackfillJob> {
+  const db = admin.firestore();
+  const jobRef = jobs().doc();
+  const unique = Array.from(new Map(items.map((i) => [i.id, i])).values());
+
+  const writer = db.bulkWriter();
+  for (const { id, item, source } of unique) {
+    writer.set(jobRef.collection("items").doc(id), { item, source, status: "pending", attempts: 0, queuedAt: now });
+  }
+  await writer.close();
+
+  const failed = error !== null;
+  await jobRef.set({
+    ...params,
+    status: failed ? "failed" : unique.length === 0 ? "completed" : "running",
+    total: unique.length,
+    processed: 0,
+    accepted: 0,
+    rejected: 0,
+    failed: 0,
+    skipped: 0,
+    leaseUntil: 0,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: failed || unique.length > 0 ? null : now,
+    lastError: error,
+  });
+  return toJob(await jobRef.get());
+}
+
+// ---- Worker: take the lease of the oldest running job that nobody else holds ----
+export async function claimBackfillJob(now: number = Date.now()): Promise<string | null> {
+  const db = admin.firestore();
+  const snapshot = await jobs().where("status", "==", "running").orderBy("createdAt", "asc").limit(5).get();
+  for (const doc of snapshot.docs) {
+    const claimed = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(doc.ref);
+      if (snap.get("status") !== "running" || Number(snap.get("leaseUntil") ?? 0) > now) return false;
+      tx.update(doc.ref, { leaseUntil: now + LEASE_MS, updatedAt: now });
+      return true;
+    });
+    if (claimed) return doc.id;
+  }
+  return null;
+}
+
+export async function releaseBackfillJob(jobId: string): Promise<void> {
+  await jobs().doc(jobId).update({ leaseUntil: 0 });
+}
+
+// Puts the items that failed in an earlier run back in the queue; returns how many.
+export async function requeueBackfillRetries(jobId: string): Promise<number> {
+  const snapshot = await jobs().doc(jobId).collection("items").where("status", "==", "retry").get();
+  const writer = admin.firestore().bulkWriter();
+  for (const doc of snapshot.docs) writer.update(doc.ref, { status: "pending" });
+  await writer.close();
+  return snapshot.size;
+}
+
+export async function nextBackfillItems(jobId: string, limit: number): Promise<BackfillItem[]> {
+  const snapshot = await jobs().doc(jobId).collection("items").where("status", "==", "pending").limit(limit).get();
+  return snapshot.docs.map((d) => ({ id: d.id, item: d.get("item"), source: d.get("source") }));
+}
+
+// ---- Worker: store the outcome of one chunk; completes the job when the queue is empty ----
+// A failed item with attempts left goes to "retry" and is not counted yet.
+export async function recordBackfillChunk(
+  jobId: string, outcomes: Map<string, NewsArticleOutcome>, now: number = Date.now()
+): Promise<BackfillJob> {
+  const db = admin.firestore();
+  const jobRef = jobs().doc(jobId);
+  const counts: Record<NewsArticleOutcome, number> = { accepted: 0, rejected: 0, failed: 0, skipped: 0 };
+
+  const failedRefs = Array.from(outcomes)
+    .filter(([, outcome]) => outcome === "failed")
+    .map(([id]) => jobRef.collection("items").doc(id));
+  const failedSnaps = failedRefs.length ? await db.getAll(...failedRefs) : [];
+  const attempts = new Map(failedSnaps.map((d) => [d.id, Number(d.get("attempts") ?? 0) + 1]));
+
+  const batch = db.batch();
+  let processed = 0;
+  for (const [id, outcome] of outcomes) {
+    const itemRef = jobRef.collection("items").doc(id);
+    const attempt = attempts.get(id) ?? 0;
+    if (outcome === "failed" && attempt < MAX_ITEM_ATTEMPTS) {
+      batch.update(itemRef, { status: "retry", attempts: attempt, lastFailedAt: now });
+      continue;
+    }
+    counts[outcome]++;
+    processed++;
+    batch.update(itemRef, { status: outcome, ...(outcome === "failed" ? { attempts: attempt } : {}), processedAt: now });
+  }
+  const inc = admin.firestore.FieldValue.increment;
+  batch.update(jobRef, {
+    processed: inc(processed),
+    accepted: inc(counts.accepted),
+    rejected: inc(counts.rejected),
+    failed: inc(counts.failed),
+    skipped: inc(counts.skipped),
+    updatedAt: now,
+  });
+  await batch.commit();
+
+  const remaining = await jobRef.collection("items").where("status", "in", ["pending", "retry"]).limit(1).get();
+  if (remaining.empty) {
+    await jobRef.update({ status: "completed", completedAt: now, leaseUntil: 0 });
+  }
+  return toJob(await jobRef.get());
+}
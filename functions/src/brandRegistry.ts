@@ -0,0 +1,200 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+
+// ---- Brand & official-domain registry ----
+// Brands commonly impersonated in Malaysia, with their official domains and the names
+// scammers imitate. Built-in defaults ship with the code; admins add or override entries
+// in Firestore (`threat_intel/brand_{id}`, type "brand") without a redeploy.
+
+export interface BrandEntry {
+  id: string; // e.g. "maybank"
+  name: string; // display name, e.g. "Maybank"
+  aliases: string[]; // lowercase labels scammers imitate, e.g. ["maybank", "maybank2u"]
+  officialDomains: string[]; // registrable domains or hostnames; subdomains are official too
+  maxEditDistance: number; // typo tolerance for fuzzy matching (0 = exact/look-alike only)
+  country: string; // ISO 3166 alpha-2, or "GLOBAL"
+  active: boolean;
+}
+
+export interface RegistryBrand extends BrandEntry {
+  source: "default" | "firestore";
+}
+
+const THREAT_INTEL_COLLECTION = "threat_intel";
+const BRAND_DOC_PREFIX = "brand_";
+
+// How long an instance keeps the merged registry before reading Firestore again.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const brand = (
+  id: string, name: string, aliases: string[], officialDomains: string[], maxEditDistance: number, country = "MY"
+): BrandEntry => ({ id, name, aliases, officialDomains, maxEditDistance, country, active: true });
+
+export const DEFAULT_BRANDS: BrandEntry[] = [
+  // Banks & e-wallets
+  brand("maybank", "Maybank", ["maybank", "maybank2u"], ["maybank2u.com.my", "maybank.com.my", "maybank.com"], 1),
+  brand("cimb", "CIMB", ["cimb", "cimbclicks"], ["cimb.com.my", "cimbclicks.com.my", "cimb.com"], 1),
+  brand("rhb", "RHB", ["rhb", "rhbbank", "rhbnow"], ["rhbbank.com.my", "rhbgroup.com"], 0),
+  brand("publicbank", "Public Bank", ["publicbank", "pbebank"], ["pbebank.com", "publicbank.com.my"], 2),
+  brand("hongleongbank", "Hong Leong Bank", ["hongleongbank", "hongleong", "hlb", "hlbconnect"], ["hlb.com.my", "hongleong.com.my"], 1),
+  brand("ambank", "AmBank", ["ambank", "amonline"], ["ambank.com.my", "ambankgroup.com"], 1),
+  brand("bsn", "BSN", ["bsn", "mybsn"], ["mybsn.com.my", "bsn.com.my"], 0),
+  brand("touchngo", "Touch 'n Go", ["touchngo", "tngdigital", "tngo"], ["touchngo.com.my", "tngdigital.com.my"], 1),
+  brand("grabpay", "GrabPay", ["grabpay"], ["grab.com"], 1),
+  brand("boost", "Boost", ["boost", "myboost"], ["myboost.com.my"], 1),
+  brand("mypay", "MyPay", ["mypay"], [], 1),
+  brand("mycash", "MyCash", ["mycash"], [], 1),
+  // Government
+  brand("bnm", "Bank Negara Malaysia", ["bnm", "banknegara"], ["bnm.gov.my"], 1),
+  brand("pdrm", "PDRM", ["pdrm"], ["pdrm.gov.my", "rmp.gov.my"], 1),
+  brand("lhdn", "LHDN", ["lhdn", "mytax"], ["hasil.gov.my", "lhdn.gov.my"], 1),
+  brand("jpj", "JPJ", ["jpj", "mysikap"], ["jpj.gov.my"], 0),
+  // Delivery, shopping & telco
+  brand("poslaju", "Pos Laju", ["poslaju", "posmalaysia"], ["pos.com.my", "poslaju.com.my", "posmalaysia.com.my"], 1),
+  brand("shopee", "Shopee", ["shopee"], ["shopee.com.my", "shopee.com"], 1),
+  brand("lazada", "Lazada", ["lazada"], ["lazada.com.my", "lazada.com"], 1),
+  brand("celcomdigi", "CelcomDigi", ["celcomdigi", "celcom", "digi"], ["celcomdigi.com", "celcom.com.my", "digi.com.my"], 1),
+  brand("maxis", "Maxis", ["maxis", "hotlink"], ["maxis.com.my", "hotlink.com.my"], 1),
+  brand("unifi", "unifi / TM", ["unifi", "tmnet"], ["unifi.com.my", "tm.com.my"], 1),
+  // Global platforms
+  brand("whatsapp", "WhatsApp", ["whatsapp"], ["whatsapp.com", "whatsapp.net", "wa.me"], 1, "GLOBAL"),
+  brand("telegram", "Telegram", ["telegram"], ["telegram.org", "t.me", "telegram.me"], 1, "GLOBAL"),
+  brand("facebook", "Facebook", ["facebook"], ["facebook.com", "fb.com", "messenger.com"], 1, "GLOBAL"),
+  brand("instagram", "Instagram", ["instagram"], ["instagram.com"], 1, "GLOBAL"),
+  brand("paypal", "PayPal", ["paypal"], ["paypal.com", "paypal.me", "paypalobjects.com"], 1, "GLOBAL"),
+  brand("amazon", "Amazon", ["amazon"], ["amazon.com"], 1, "GLOBAL"),
+  brand("apple", "Apple", ["apple", "icloud", "appleid"], ["apple.com", "icloud.com"], 1, "GLOBAL"),
+  brand("microsoft", "Microsoft", ["microsoft", "outlook"], ["microsoft.com", "microsoftonline.com", "live.com", "outlook.com", "office.com"], 1, "GLOBAL"),
+  brand("google", "Google", ["google", "gmail"], ["google.com", "google.com.my", "gmail.com"], 1, "GLOBAL"),
+  brand("netflix", "Netflix", ["netflix"], ["netflix.com"], 1, "GLOBAL"),
+];
+
+let cache: { brands: RegistryBrand[]; expiresAt: number } | null = null;
+let inflight: Promise<RegistryBrand[]> | null = null;
+
+// ---- Helper: merge Firestore entries over the defaults (Firestore wins by id) ----
+export function mergeBrands(defaults: BrandEntry[], stored: BrandEntry[]): RegistryBrand[] {
+  const merged = new Map<string, RegistryBrand>();
+  for (const b of defaults) merged.set(b.id, { ...b, source: "default" });
+  for (const b of stored) merged.set(b.id, { ...b, source: "firestore" });
+  return Array.from(merged.values());
+}
+
+function fromDoc(data: any): BrandEntry | null {
+  try {
+    return validateBrandEntry(data);
+  } catch {
+    return null;
+  }
+}
+
+// ---- Read path: active brands, cached per instance ----
+// On a Firestore failure the built-in defaults are used, so link checks never break.
+export async function getBrandRegistry(includeInactive = false): Promise<RegistryBrand[]> {
+  const now = Date.now();
+  let brands: RegistryBrand[];
+
+  if (cache && cache.expiresAt > now) {
+    brands = cache.brands;
+  } else {
+    inflight = inflight ?? loadRegistry();
+    try {
+      brands = await inflight;
+    } finally {
+      inflight = null;
+    }
+  }
+
+  return includeInactive ? brands : brands.filter((b) => b.active);
+}
+
+async function loadRegistry(): Promise<RegistryBrand[]> {
+  try {
+    const snap = await admin.firestore().collection(THREAT_INTEL_COLLECTION).where("type", "==", "brand").get();
+    const stored = snap.docs.map((d) => fromDoc(d.data())).filter((b): b is BrandEntry => b !== null);
+    const brands = mergeBrands(DEFAULT_BRANDS, stored);
+    cache = { brands, expiresAt: Date.now() + CACHE_TTL_MS };
+    return brands;
+  } catch (e) {
+    logger.warn("Brand registry load failed, using built-in defaults", e);
+    // Don't cache the failure for long; try Firestore again in a minute.
+    const brands = mergeBrands(DEFAULT_BRANDS, []);
+    cache = { brands, expiresAt: Date.now() + 60 * 1000 };
+    return brands;
+  }
+}
+
+export function invalidateBrandRegistryCache() {
+  cache = null;
+}
+
+// ---- Validation (admin input and stored docs) ----
+const HOSTNAME_RE = /^(?=.{3,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export class BrandValidationError extends Error {}
+
+export function validateBrandEntry(input: any): BrandEntry {
+  const fail = (msg: string): never => {
+    throw new BrandValidationError(msg);
+  };
+
+  const id = String(input?.id ?? "").trim().toLowerCase();
+  if (!/^[a-z0-9-]{2,40}$/.test(id)) fail("id must be 2-40 chars of a-z, 0-9 or '-'.");
+
+  const name = String(input?.name ?? id).trim().slice(0, 80);
+
+  const aliases = Array.isArray(input?.aliases) ? input.aliases.map((a: any) => String(a).trim().toLowerCase()) : [id];
+  if (aliases.length === 0 || aliases.length > 20) fail("aliases must contain 1-20 entries.");
+  for (const a of aliases) {
+    if (!/^[a-z0-9]{2,40}$/.test(a)) fail(`Invalid alias "${a}".`);
+  }
+
+  const officialDomains = Array.isArray(input?.officialDomains) ?
+    input.officialDomains.map((d: any) => String(d).trim().toLowerCase().replace(/\.$/, "")) :
+    [];
+  if (officialDomains.length > 30) fail("officialDomains may contain at most 30 entries.");
+  for (const d of officialDomains) {
+    if (!HOSTNAME_RE.test(d)) fail(`Invalid official domain "${d}".`);
+  }
+
+  const maxEditDistance = input?.maxEditDistance === undefined ? 1 : Number(input.maxEditDistance);
+  if (!Number.isInteger(maxEditDistance) || maxEditDistance < 0 || maxEditDistance > 3) fail("maxEditDistance must be an integer 0-3.");
+
+  const country = String(input?.country ?? "MY").trim().toUpperCase();
+  if (!/^([A-Z]{2}|GLOBAL)$/.test(country)) fail("country must be an ISO alpha-2 code or GLOBAL.");
+
+  return {
+    id,
+    name,
+    aliases: Array.from(new Set<string>(aliases)),
+    officialDomains: Array.from(new Set<string>(officialDomains)),
+    maxEditDistance,
+    country,
+    active: input?.active !== false,
+  };
+}
+
+// ---- Write path: admin add / edit ----
+// Partial edits are merged over the current entry (the stored doc, else the default) before
+// validation. The doc is read in the transaction, not from the cache, so concurrent edits on
+// other instances are never lost. The doc is public: who edited it goes to the logs only.
+export async function upsertBrand(input: any): Promise<RegistryBrand> {
+  const id = String(input?.id ?? "").trim().toLowerCase();
+  const db = admin.firestore();
+  const ref = db.collection(THREAT_INTEL_COLLECTION).doc(`${BRAND_DOC_PREFIX}${id}`);
+
+  const entry = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const current = (snap.exists ? fromDoc(snap.data()) : null) ?? DEFAULT_BRANDS.find((b) => b.id === id);
+    const merged = validateBrandEntry({ ...(current ?? {}), ...input, id });
+    tx.set(ref, {
+      type: "brand",
+      ...merged,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return merged;
+  });
+
+  invalidateBrandRegistryCache();
+  return { ...entry, source: "firestore" };
+}
@@ -0,0 +1,1068 @@
+// ---- Callable contracts ----
+// Request/response types for the callables, their JSON Schemas, and a small validator for
+// the subset of JSON Schema we use. The schemas are the source of truth: requests are
+// checked against them, Gemini output is repaired to them, and `npm run export-schemas`
+// prints them so the Kotlin models in data/models can be checked against the same contract.
+// No Firebase imports here, so the export script runs outside the functions runtime.
+
+type JsonType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null";
+
+export interface JsonSchema {
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  enum?: readonly (string | number | boolean | null)[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Thrown by parseRequest; callables turn it into `invalid-argument` with the field errors.
+export class ContractError extends Error {
+  constructor(public readonly errors: FieldError[]) {
+    super(errors.map((e) => `${e.field || "request"}: ${e.message}`).join("; "));
+  }
+}
+
+// ---- Validator ----
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return (actual === "number" || actual === "integer") && Number.isFinite(value);
+  return actual === type;
+}
+
+const fieldPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export function validateSchema(schema: JsonSchema, value: unknown, path = ""): FieldError[] {
+  const errors: FieldError[] = [];
+  const fail = (message: string) => errors.push({ field: path, message });
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      fail(`must be ${types.join(" or ")}`);
+      return errors;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    fail(`must be one of ${schema.enum.join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must contain at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must contain at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items as JsonSchema, item, fieldPath(path, i))));
+    }
+  }
+  if (typeOf(value) === "object" && schema.properties) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push({ field: fieldPath(path, key), message: "is required" });
+    }
+    for (const [key, v] of Object.entries(obj)) {
+      const propSchema = schema.properties[key];
+      if (propSchema) {
+        if (v !== undefined) errors.push(...validateSchema(propSchema, v, fieldPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: fieldPath(path, key), message: "is not allowed" });
+      }
+    }
+  }
+  return errors;
+}
+
+// ---- Requests: validate strictly, then fill in defaults ----
+export function parseRequest<T>(schema: JsonSchema, data: unknown): T {
+  const errors = validateSchema(schema, data ?? {});
+  if (errors.length > 0) throw new ContractError(errors);
+
+  const result: Record<string, unknown> = { ...((data ?? {}) as Record<string, unknown>) };
+  for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+    if (result[key] === undefined && propSchema.default !== undefined) {
+      result[key] = JSON.parse(JSON.stringify(propSchema.default));
+    }
+  }
+  return result as T;
+}
+
+// ---- Model output: repair field by field, or replace with the fallback ----
+// Fixable values are coerced (clamped numbers, upper-cased enums, a lone string wrapped in an
+// array, invalid array items dropped); anything else takes the fallback's value. Output that
+// isn't an object, or misses every required field, is replaced wholesale (`replaced: true`).
+function coerce(schema: JsonSchema, value: unknown): unknown {
+  const types = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : [];
+
+  if (types.includes("number") || types.includes("integer")) {
+    const n = typeof value === "string" && value.trim() ? Number(value) : value;
+    if (typeof n === "number" && Number.isFinite(n)) {
+      return Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, n));
+    }
+  }
+  if (types.includes("string")) {
+    let s = typeof value === "number" || typeof value === "boolean" ? String(value) : value;
+    if (typeof s === "string") {
+      if (schema.enum) {
+        const match = schema.enum.find((e) => typeof e === "string" && e.toUpperCase() === (s as string).trim().toUpperCase());
+        if (match !== undefined) return match;
+      }
+      if (schema.maxLength !== undefined) s = s.slice(0, schema.maxLength);
+      return s;
+    }
+  }
+  if (types.includes("array")) {
+    const arr = Array.isArray(value) ? value : typeof value === "string" && value.trim() ? [value] : null;
+    if (arr) {
+      const items = schema.items ?
+        arr.map((item) => coerce(schema.items as JsonSchema, item)).filter((item) => validateSchema(schema.items as JsonSchema, item).length === 0) :
+        arr;
+      return schema.maxItems !== undefined ? items.slice(0, schema.maxItems) : items;
+    }
+  }
+  if (types.includes("boolean") && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return value;
+}
+
+export function repairToSchema<T>(
+  schema: JsonSchema, value: unknown, fallback: T
+): { value: T; repairs: FieldError[]; replaced: boolean } {
+  if (typeOf(value) !== "object") {
+    return { value: fallback, repairs: [{ field: "", message: "not a JSON object" }], replaced: true };
+  }
+
+  const obj = value as Record<string, unknown>;
+  const required = schema.required ?? [];
+  if (required.length > 0 && required.every((key) => obj[key] === undefined)) {
+    return { value: fallback, repairs: [{ field: "", message: "no required field present" }], replaced: true };
+  }
+
+  const repairs: FieldError[] = [];
+  const result: Record<string, unknown> = {};
+  const fallbackObj = fallback as Record<string, unknown>;
+  for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+    const v = obj[key];
+    if (v === undefined && !required.includes(key)) continue;
+    if (v !== undefined && validateSchema(propSchema, v).length === 0) {
+      result[key] = v;
+      continue;
+    }
+    const coerced = v === undefined ? undefined : coerce(propSchema, v);
+    if (coerced !== undefined && validateSchema(propSchema, coerced).length === 0) {
+      result[key] = coerced;
+      repairs.push({ field: key, message: "coerced to schema" });
+    } else {
+      result[key] = fallbackObj[key];
+      repairs.push({ field: key, message: v === undefined ? "missing, used fallback" : "invalid, used fallback" });
+    }
+  }
+  for (const key of Object.keys(obj)) {
+    if (!schema.properties?.[key]) repairs.push({ field: key, message: "unknown field dropped" });
+  }
+  return { value: result as T, repairs, replaced: false };
+}
+
+// ---- Shared pieces ----
+const RISK_LEVELS = ["LOW", "MEDIUM", "HIGH"] as const;
+export type ContractRiskLevel = typeof RISK_LEVELS[number];
+
+// Languages explainAlert and the news digest are served in; anything else gets English.
+export const NEWS_LANGUAGES = ["en", "ms", "zh"] as const;
+export type NewsLanguage = typeof NEWS_LANGUAGES[number];
+
+const LANGUAGE: JsonSchema = { type: "string", maxLength: 10, default: "en", description: "Response language: en, zh or ms." };
+const URL_STRING: JsonSchema = { type: "string", minLength: 1, maxLength: 2000 };
+const stringList = (maxItems: number, maxLength: number, description?: string): JsonSchema =>
+  ({ type: "array", items: { type: "string", maxLength }, maxItems, default: [], description });
+
+// Structured indicators named in a scam article (see threatIntel.ts).
+export const THREAT_INDICATOR_TYPES = ["domain", "phone", "bankAccount", "app", "impersonatedBrand"] as const;
+export type ThreatIndicatorType = typeof THREAT_INDICATOR_TYPES[number];
+
+// Threat intel entries a checked link or message matched, strongest first.
+const THREAT_INTEL_MATCHES: JsonSchema = {
+  type: "array",
+  description: "Indicators named in scam news that this input matched.",
+  items: {
+    type: "object",
+    required: ["type", "value", "confidence", "sourceCount"],
+    properties: {
+      type: { type: "string", enum: THREAT_INDICATOR_TYPES },
+      value: { type: "string" },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      category: { type: ["string", "null"] },
+      sourceCount: { type: "integer" },
+      sources: {
+        type: "array",
+        items: { type: "object", properties: { url: { type: "string" }, title: { type: "string" }, sourceName: { type: "string" } } },
+      },
+    },
+  },
+};
+
+// Phone numbers and bank accounts users report and check (see scamEntities.ts).
+export const SCAM_ENTITY_TYPES = ["phone", "bankAccount"] as const;
+export type ScamEntityType = typeof SCAM_ENTITY_TYPES[number];
+
+const SCAM_ENTITY: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["type", "value"],
+  properties: {
+    type: { type: "string", enum: SCAM_ENTITY_TYPES },
+    value: { type: "string", minLength: 1, maxLength: 40, description: "As the user saw it; only a keyed hash is stored." },
+  },
+};
+
+const ENTITY_REPUTATION: JsonSchema = {
+  type: ["object", "null"],
+  description: "Community reports of the number or account, decayed like domain reputation.",
+  properties: {
+    type: { type: "string", enum: SCAM_ENTITY_TYPES },
+    firstSeen: { type: "integer" },
+    lastSeen: { type: "integer" },
+    totalReports: { type: "integer" },
+    categories: { type: "object" },
+    score: { type: "number" },
+    level: { type: "string", enum: ["NONE", "LOW", "MEDIUM", "HIGH"] },
+  },
+};
+
+// Version of a registry prompt (see promptRegistry.ts) that produced a verdict.
+const PROMPT_VERSION: JsonSchema = { type: ["string", "null"], maxLength: 20, default: null };
+
+// What the server masked or removed from user text before it reached the model (see redaction.ts):
+// personal data by type, and "instructions" when instruction-like text was stripped.
+export const REDACTION_TYPES = ["ic", "phone", "account", "otp", "email", "urlSecret", "instructions"] as const;
+export type RedactionType = typeof REDACTION_TYPES[number];
+
+const REDACTIONS: JsonSchema = {
+  type: "array",
+  items: { type: "string", enum: REDACTION_TYPES },
+  description: "Redactions applied to the input before it was sent to Gemini.",
+};
+
+// ---- explainAlert ----
+export interface ExplainAlertRequest {
+  alertType: string;
+  language: string;
+  category: string;
+  tactics: string[];
+  snippet: string; // already redacted on-device
+  extractedUrl: string | null;
+  doSafeBrowsingCheck: boolean;
+  heuristicScore: number | null;
+  tfliteScore: number | null;
+}
+
+export const EXPLAIN_ALERT_REQUEST: JsonSchema = {
+  title: "ExplainAlertRequest",
+  type: "object",
+  additionalProperties: false,
+  required: ["alertType"],
+  properties: {
+    alertType: { type: "string", minLength: 1, maxLength: 40, description: "Where the alert came from, e.g. NOTIFICATION or SMS." },
+    language: LANGUAGE,
+    category: { type: "string", maxLength: 60, default: "unknown" },
+    tactics: stringList(20, 200),
+    snippet: { type: "string", maxLength: 500, default: "", description: "Message text, redacted on-device." },
+    extractedUrl: { type: ["string", "null"], maxLength: 2000, default: null },
+    doSafeBrowsingCheck: {
+      type: "boolean",
+      default: false,
+      description: "The user scanned this link: it may be sent to the Safe Browsing Lookup API while the local list isn't ready.",
+    },
+    heuristicScore: { type: ["number", "null"], default: null },
+    tfliteScore: { type: ["number", "null"], default: null },
+  },
+};
+
+// What Gemini must return for explainAlert.
+export interface ExplainAlertModelOutput {
+  category: string;
+  riskLevel: ContractRiskLevel;
+  headline: string;
+  whyFlagged: string[];
+  whatToDoNow: string[];
+  whatNotToDo: string[];
+  confidence: number;
+  notes: string;
+}
+
+export const EXPLAIN_ALERT_MODEL_OUTPUT: JsonSchema = {
+  title: "ExplainAlertModelOutput",
+  type: "object",
+  required: ["category", "riskLevel", "headline", "whyFlagged", "whatToDoNow", "whatNotToDo", "confidence"],
+  properties: {
+    category: { type: "string", maxLength: 60 },
+    riskLevel: { type: "string", enum: RISK_LEVELS },
+    headline: { type: "string", minLength: 1, maxLength: 200 },
+    whyFlagged: stringList(10, 500),
+    whatToDoNow: stringList(10, 500),
+    whatNotToDo: stringList(10, 500),
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    notes: { type: "string", maxLength: 1000 },
+  },
+};
+
+// The documented fallback: used field by field for invalid values, or whole when the output is unusable.
+export const EXPLAIN_ALERT_MODEL_FALLBACK: ExplainAlertModelOutput = {
+  category: "Other",
+  riskLevel: "MEDIUM",
+  headline: "Suspicious message detected",
+  whyFlagged: ["Message matched known scam manipulation patterns."],
+  whatToDoNow: ["Do not respond yet.", "Use SafeX Scan to test any links.", "Ask a trusted person if unsure."],
+  whatNotToDo: ["Do not share OTP or banking details.", "Do not send money."],
+  confidence: 0.5,
+  notes: "Fallback response (model output was not valid JSON).",
+};
+
+export interface ExplainAlertResponse extends ExplainAlertModelOutput {
+  modelRiskLevel: ContractRiskLevel | null;
+  scoring: Record<string, unknown>;
+  reputation: Record<string, unknown> | null;
+  threatIntel?: Record<string, unknown>[];
+  promptVersion: string;
+  redactions: RedactionType[];
+  language: NewsLanguage;
+  cached: boolean;
+}
+
+export const EXPLAIN_ALERT_RESPONSE: JsonSchema = {
+  title: "ExplainAlertResponse",
+  type: "object",
+  required: [...EXPLAIN_ALERT_MODEL_OUTPUT.required ?? [], "modelRiskLevel", "promptVersion", "redactions", "language", "cached"],
+  properties: {
+    ...EXPLAIN_ALERT_MODEL_OUTPUT.properties,
+    modelRiskLevel: { type: ["string", "null"], enum: [...RISK_LEVELS, null], description: "Gemini's own verdict before score fusion." },
+    scoring: { type: "object", description: "Breakdown of the fused risk score." },
+    reputation: { type: ["object", "null"], description: "Community reputation of the extracted URL's domain." },
+    threatIntel: THREAT_INTEL_MATCHES,
+    promptVersion: { type: "string", description: "explainAlert prompt version that produced the verdict." },
+    redactions: REDACTIONS,
+    language: { type: "string", enum: NEWS_LANGUAGES, description: "Language of the text fields; category and riskLevel stay English keys." },
+    cached: { type: "boolean" },
+  },
+};
+
+// ---- reportAlert ----
+export interface ReportAlertRequest {
+  category: string;
+  tactics: string[];
+  domainPattern: string | null;
+  url: string | null;
+  promptVersion: string | null;
+  entities: { type: ScamEntityType; value: string }[];
+}
+
+export const MAX_REPORTED_ENTITIES = 5;
+
+export const REPORT_ALERT_REQUEST: JsonSchema = {
+  title: "ReportAlertRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    category: { type: "string", maxLength: 60, default: "unknown" },
+    tactics: stringList(20, 200),
+    domainPattern: { type: ["string", "null"], maxLength: 120, default: null },
+    url: { type: ["string", "null"], maxLength: 2000, default: null, description: "The reported link, if any." },
+    promptVersion: { ...PROMPT_VERSION, description: "promptVersion of the explainAlert verdict being reported." },
+    entities: {
+      type: "array",
+      items: SCAM_ENTITY,
+      maxItems: MAX_REPORTED_ENTITIES,
+      default: [],
+      description: "Phone numbers and bank accounts the scam used.",
+    },
+  },
+};
+
+export interface ReportAlertResponse {
+  ok: boolean;
+  weekId: string;
+  duplicate: boolean;
+  reputation: Record<string, unknown> | null;
+  entities?: { type: ScamEntityType; counted: boolean; reputation: Record<string, unknown> | null }[];
+}
+
+export const REPORT_ALERT_RESPONSE: JsonSchema = {
+  title: "ReportAlertResponse",
+  type: "object",
+  required: ["ok", "weekId", "duplicate"],
+  properties: {
+    ok: { type: "boolean" },
+    weekId: { type: "string" },
+    duplicate: { type: "boolean", description: "True when this user already reported the domain recently." },
+    reputation: { type: ["object", "null"] },
+    entities: {
+      type: "array",
+      description: "One entry per valid reported entity; counted is false for this user's repeats.",
+      items: {
+        type: "object",
+        required: ["type", "counted", "reputation"],
+        properties: { type: { type: "string", enum: SCAM_ENTITY_TYPES }, counted: { type: "boolean" }, reputation: ENTITY_REPUTATION },
+      },
+    },
+  },
+};
+
+// ---- submitVerdictFeedback / adminExportVerdictFeedback ----
+export interface SubmitVerdictFeedbackRequest {
+  kind: "alert" | "link";
+  originalRiskLevel: ContractRiskLevel | "UNKNOWN";
+  modelRiskLevel: ContractRiskLevel | null;
+  originalCategory: string;
+  userVerdict: "safe" | "scam";
+  correctedCategory: string | null;
+  url: string | null;
+  alertType: string | null;
+  heuristicScore: number | null;
+  tfliteScore: number | null;
+  tactics: string[];
+  language: string;
+  promptVersion: string | null;
+}
+
+const SCORE: JsonSchema = { type: ["number", "null"], minimum: 0, maximum: 1, default: null };
+
+export const SUBMIT_VERDICT_FEEDBACK_REQUEST: JsonSchema = {
+  title: "SubmitVerdictFeedbackRequest",
+  type: "object",
+  additionalProperties: false,
+  required: ["kind", "originalRiskLevel", "userVerdict"],
+  properties: {
+    kind: { type: "string", enum: ["alert", "link"], description: "explainAlert or checkLink verdict." },
+    originalRiskLevel: {
+      type: "string", enum: [...RISK_LEVELS, "UNKNOWN"],
+      description: "The riskLevel the user was shown; UNKNOWN for the app's fallback when no verdict came back.",
+    },
+    modelRiskLevel: { type: ["string", "null"], enum: [...RISK_LEVELS, null], default: null },
+    originalCategory: { type: "string", maxLength: 60, default: "unknown" },
+    userVerdict: { type: "string", enum: ["safe", "scam"], description: "What the user says it really was." },
+    correctedCategory: { type: ["string", "null"], maxLength: 60, default: null },
+    url: { type: ["string", "null"], maxLength: 2000, default: null, description: "Only its domain is stored." },
+    alertType: { type: ["string", "null"], maxLength: 40, default: null },
+    heuristicScore: SCORE,
+    tfliteScore: SCORE,
+    tactics: stringList(20, 200),
+    language: LANGUAGE,
+    promptVersion: { ...PROMPT_VERSION, description: "promptVersion of the verdict, as returned with it." },
+  },
+};
+
+export const SUBMIT_VERDICT_FEEDBACK_RESPONSE: JsonSchema = {
+  title: "SubmitVerdictFeedbackResponse",
+  type: "object",
+  required: ["ok", "feedbackId", "disagreement"],
+  properties: {
+    ok: { type: "boolean" },
+    feedbackId: { type: "string" },
+    disagreement: { type: ["string", "null"], enum: ["falsePositive", "falseNegative", null] },
+  },
+};
+
+export interface ExportVerdictFeedbackRequest {
+  since: number | null;
+  limit: number;
+  cursor: string | null;
+}
+
+export const EXPORT_VERDICT_FEEDBACK_REQUEST: JsonSchema = {
+  title: "ExportVerdictFeedbackRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    since: { type: ["integer", "null"], minimum: 0, default: null, description: "Epoch ms; submissions from then on." },
+    limit: { type: "integer", minimum: 1, maximum: 1000, default: 500 },
+    cursor: { type: ["string", "null"], maxLength: 200, default: null, description: "nextCursor of the previous page." },
+  },
+};
+
+// ---- getInsights ----
+export interface GetInsightsRequest {
+  weeks: number;
+}
+
+export const GET_INSIGHTS_REQUEST: JsonSchema = {
+  title: "GetInsightsRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    weeks: { type: "integer", minimum: 2, maximum: 12, default: 8, description: "Length of the time series, this week included." },
+  },
+};
+
+const TREND_ENTRIES: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["key", "count", "previous", "delta", "changePct"],
+    properties: {
+      key: { type: "string" },
+      count: { type: "integer", description: "Reports this week." },
+      previous: { type: "integer", description: "Reports last week." },
+      delta: { type: "integer" },
+      changePct: { type: ["number", "null"], description: "Null when last week had none." },
+    },
+  },
+};
+
+export const GET_INSIGHTS_RESPONSE: JsonSchema = {
+  title: "GetInsightsResponse",
+  type: "object",
+  required: ["weekId", "totalReports", "previousTotalReports", "totalDelta", "categories", "risingTactics", "risingDomainPatterns", "series"],
+  properties: {
+    weekId: { type: "string", description: "ISO 8601 week, e.g. 2026-W05." },
+    weekStart: { type: ["string", "null"], description: "Monday of the week, YYYY-MM-DD (UTC)." },
+    totalReports: { type: "integer" },
+    previousTotalReports: { type: "integer" },
+    totalDelta: { type: "integer" },
+    totalChangePct: { type: ["number", "null"] },
+    categories: { ...TREND_ENTRIES, description: "Every category reported this week or last, most reported first." },
+    risingTactics: TREND_ENTRIES,
+    risingDomainPatterns: TREND_ENTRIES,
+    series: {
+      type: "array",
+      description: "One entry per week, oldest first.",
+      items: {
+        type: "object",
+        required: ["weekId", "totalReports", "categories"],
+        properties: {
+          weekId: { type: "string" },
+          weekStart: { type: ["string", "null"] },
+          totalReports: { type: "integer" },
+          categories: { type: "object" },
+        },
+      },
+    },
+  },
+};
+
+// ---- checkLink / checkLinks ----
+export interface CheckLinkRequest {
+  url: string;
+  language: string;
+}
+
+export const CHECK_LINK_REQUEST: JsonSchema = {
+  title: "CheckLinkRequest",
+  type: "object",
+  additionalProperties: false,
+  required: ["url"],
+  properties: {
+    url: URL_STRING,
+    language: LANGUAGE,
+  },
+};
+
+export const MAX_BATCH_URLS = 50;
+
+export interface CheckLinksRequest {
+  urls: string[];
+  language: string;
+}
+
+export const CHECK_LINKS_REQUEST: JsonSchema = {
+  title: "CheckLinksRequest",
+  type: "object",
+  additionalProperties: false,
+  required: ["urls"],
+  properties: {
+    urls: { type: "array", items: { type: "string", maxLength: 2000 }, minItems: 1, maxItems: MAX_BATCH_URLS },
+    language: LANGUAGE,
+  },
+};
+
+// What Gemini must return for a link check.
+export interface CheckLinkModelOutput {
+  safe: boolean;
+  riskLevel: ContractRiskLevel;
+  headline: string;
+  reasons: string[];
+  whyFlagged: string[];
+  whatToDoNow: string[];
+  whatNotToDo: string[];
+  category: string;
+  confidence: number;
+}
+
+export const CHECK_LINK_MODEL_OUTPUT: JsonSchema = {
+  title: "CheckLinkModelOutput",
+  type: "object",
+  required: ["safe", "riskLevel", "headline", "reasons", "confidence"],
+  properties: {
+    safe: { type: "boolean" },
+    riskLevel: { type: "string", enum: RISK_LEVELS },
+    headline: { type: "string", minLength: 1, maxLength: 200 },
+    reasons: stringList(10, 500),
+    whyFlagged: stringList(10, 500),
+    whatToDoNow: stringList(10, 500),
+    whatNotToDo: stringList(10, 500),
+    category: { type: "string", maxLength: 60 },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  },
+};
+
+export const CHECK_LINK_MODEL_FALLBACK: CheckLinkModelOutput = {
+  safe: false,
+  riskLevel: "MEDIUM",
+  headline: "Could not fully analyze URL",
+  reasons: ["AI analysis returned an unexpected format. Treat with caution."],
+  whyFlagged: [],
+  whatToDoNow: ["Do not click the link until verified.", "Ask someone you trust."],
+  whatNotToDo: ["Do not enter any personal information."],
+  category: "unknown",
+  confidence: 0.5,
+};
+
+export interface CheckLinkResponse extends Omit<CheckLinkModelOutput, "riskLevel"> {
+  riskLevel: ContractRiskLevel | "UNKNOWN";
+  modelRiskLevel?: ContractRiskLevel | null;
+  findings?: { code: string; severity: string; reason: string }[];
+  redirectChain?: string[];
+  threatIntel?: Record<string, unknown>[];
+  promptVersion?: string | null;
+  redactions?: RedactionType[];
+  cached: boolean;
+}
+
+export const CHECK_LINK_RESPONSE: JsonSchema = {
+  title: "CheckLinkResponse",
+  type: "object",
+  required: ["safe", "riskLevel", "headline", "reasons", "cached"],
+  properties: {
+    ...CHECK_LINK_MODEL_OUTPUT.properties,
+    riskLevel: { type: "string", enum: [...RISK_LEVELS, "UNKNOWN"] },
+    modelRiskLevel: { type: ["string", "null"], enum: [...RISK_LEVELS, null] },
+    findings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["code", "severity", "reason"],
+        properties: { code: { type: "string" }, severity: { type: "string" }, reason: { type: "string" } },
+      },
+    },
+    redirectChain: { type: "array", items: { type: "string" } },
+    threatIntel: THREAT_INTEL_MATCHES,
+    promptVersion: { type: ["string", "null"], description: "checkLink prompt version; null when Gemini was not asked." },
+    redactions: REDACTIONS,
+    cached: { type: "boolean" },
+  },
+};
+
+export const CHECK_LINKS_RESPONSE: JsonSchema = {
+  title: "CheckLinksResponse",
+  type: "object",
+  required: ["results"],
+  properties: {
+    results: {
+      type: "array",
+      description: "One entry per input URL, in order: a CheckLinkResponse plus input, url, duplicate and source.",
+      items: {
+        type: "object",
+        required: [...CHECK_LINK_RESPONSE.required ?? [], "input", "url", "duplicate", "source"],
+        properties: {
+          ...CHECK_LINK_RESPONSE.properties,
+          input: { type: "string" },
+          url: { type: "string" },
+          duplicate: { type: "boolean" },
+          source: { type: "string", enum: ["local", "gemini", "cache"] },
+        },
+      },
+    },
+  },
+};
+
+// ---- checkEntity ----
+export interface CheckEntityRequest {
+  type: ScamEntityType;
+  value: string;
+}
+
+export const CHECK_ENTITY_REQUEST: JsonSchema = {
+  title: "CheckEntityRequest",
+  ...SCAM_ENTITY,
+};
+
+export interface CheckEntityResponse {
+  type: ScamEntityType;
+  value: string;
+  riskLevel: ContractRiskLevel;
+  headline: string;
+  reasons: string[];
+  reputation: Record<string, unknown> | null;
+  threatIntel: Record<string, unknown>[];
+  scoring: Record<string, unknown>;
+}
+
+export const CHECK_ENTITY_RESPONSE: JsonSchema = {
+  title: "CheckEntityResponse",
+  type: "object",
+  required: ["type", "value", "riskLevel", "headline", "reasons", "reputation", "threatIntel"],
+  properties: {
+    type: { type: "string", enum: SCAM_ENTITY_TYPES },
+    value: { type: "string", description: "Normalized: E.164 for phone numbers (+60..., +65...), digits for accounts." },
+    riskLevel: { type: "string", enum: RISK_LEVELS },
+    headline: { type: "string" },
+    reasons: { type: "array", items: { type: "string" } },
+    reputation: ENTITY_REPUTATION,
+    threatIntel: THREAT_INTEL_MATCHES,
+    scoring: { type: "object", description: "Breakdown of the fused risk score." },
+  },
+};
+
+// ---- getScamNewsDigest ----
+// Scam categories used for news stories; the same list explainAlert asks Gemini to choose from.
+export const NEWS_CATEGORIES = [
+  "Spam", "Phishing", "Investment Scam", "Love Scam", "Job Scam", "E-commerce Scam", "Impersonation Scam",
+  "Loan Scam", "Giveaway Scam", "Tech Support Scam", "Deepfake", "KK Farm Scam", "Other",
+] as const;
+export type NewsCategory = typeof NEWS_CATEGORIES[number];
+
+export const MAX_NEWS_PAGE_SIZE = 20;
+
+export interface GetScamNewsDigestRequest {
+  region: "GLOBAL" | "ASIA" | "MY";
+  category: NewsCategory | null;
+  language: string;
+  pageSize: number;
+  cursor: string | null;
+}
+
+export const GET_SCAM_NEWS_DIGEST_REQUEST: JsonSchema = {
+  title: "GetScamNewsDigestRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    region: { type: "string", enum: ["GLOBAL", "ASIA", "MY"], default: "GLOBAL" },
+    category: { type: ["string", "null"], enum: [...NEWS_CATEGORIES, null], default: null },
+    language: LANGUAGE,
+    pageSize: { type: "integer", minimum: 1, maximum: MAX_NEWS_PAGE_SIZE, default: 3 },
+    cursor: { type: ["string", "null"], maxLength: 1500, default: null, description: "nextCursor of the previous page." },
+  },
+};
+
+export interface ThreatIndicator {
+  type: ThreatIndicatorType;
+  value: string;
+  confidence?: number; // how sure the model is that the article names this as part of the scam
+}
+
+// What Gemini must return when screening and summarizing a scraped article.
+export interface NewsDigestModelOutput {
+  reject: boolean;
+  title: string;
+  summary: string;
+  warningsAndTips: string;
+  category: NewsCategory;
+  indicators?: ThreatIndicator[];
+}
+
+export const NEWS_DIGEST_MODEL_OUTPUT: JsonSchema = {
+  title: "NewsDigestModelOutput",
+  type: "object",
+  required: ["reject"],
+  properties: {
+    reject: { type: "boolean" },
+    title: { type: "string", maxLength: 300 },
+    summary: { type: "string", maxLength: 2000 },
+    warningsAndTips: { type: "string", maxLength: 2000 },
+    category: { type: "string", enum: NEWS_CATEGORIES },
+    indicators: {
+      type: "array",
+      maxItems: 20,
+      items: {
+        type: "object",
+        required: ["type", "value"],
+        properties: {
+          type: { type: "string", enum: THREAT_INDICATOR_TYPES },
+          value: { type: "string", minLength: 1, maxLength: 200 },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+        },
+      },
+    },
+  },
+};
+
+// An unreadable `reject` means we can't vouch for the article: leave it out.
+export const NEWS_DIGEST_MODEL_FALLBACK: NewsDigestModelOutput = {
+  reject: true,
+  title: "",
+  summary: "",
+  warningsAndTips: "",
+  category: "Other",
+  indicators: [],
+};
+
+// What Gemini must return when translating a stored article.
+export interface NewsTranslationModelOutput {
+  title: string;
+  summary: string;
+  warningsAndTips: string;
+}
+
+export const NEWS_TRANSLATION_MODEL_OUTPUT: JsonSchema = {
+  title: "NewsTranslationModelOutput",
+  type: "object",
+  required: ["title", "summary", "warningsAndTips"],
+  properties: {
+    title: { type: "string", minLength: 1, maxLength: 300 },
+    summary: { type: "string", minLength: 1, maxLength: 2000 },
+    warningsAndTips: { type: "string", maxLength: 2000 },
+  },
+};
+
+export interface NewsStorySource {
+  url: string;
+  domain: string;
+  sourceName: string;
+  title: string; // the outlet's own headline
+  seenDate: string;
+}
+
+// One story, however many outlets reported it; title/summary are the canonical (first) article's.
+export interface NewsStory {
+  id: string;
+  url: string; // canonical article
+  title: string;
+  summary: string;
+  warningsAndTips: string;
+  category: NewsCategory;
+  language: NewsLanguage; // language of title/summary/warningsAndTips
+  domain: string;
+  seenDate: string;
+  imageUrl: string;
+  region: string;
+  sourceCount: number;
+  sources: NewsStorySource[]; // the first few; sourceCount has the total
+}
+
+export interface GetScamNewsDigestResponse {
+  stories: NewsStory[];
+  nextCursor: string | null;
+}
+
+export const GET_SCAM_NEWS_DIGEST_RESPONSE: JsonSchema = {
+  title: "GetScamNewsDigestResponse",
+  type: "object",
+  required: ["stories", "nextCursor"],
+  properties: {
+    stories: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "url", "title", "language", "sourceCount", "sources"],
+        properties: {
+          id: { type: "string" },
+          url: { type: "string" },
+          title: { type: "string" },
+          summary: { type: "string" },
+          warningsAndTips: { type: "string" },
+          category: { type: "string", enum: NEWS_CATEGORIES },
+          language: { type: "string", enum: NEWS_LANGUAGES },
+          domain: { type: "string" },
+          seenDate: { type: "string" },
+          imageUrl: { type: "string" },
+          region: { type: "string" },
+          sourceCount: { type: "integer", minimum: 1, description: "Outlets that reported this story." },
+          sources: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["url"],
+              properties: {
+                url: { type: "string" },
+                domain: { type: "string" },
+                sourceName: { type: "string" },
+                title: { type: "string" },
+                seenDate: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+    nextCursor: { type: ["string", "null"], description: "Pass back as `cursor` for the next page; null on the last page." },
+  },
+};
+
+// ---- adminStartNewsBackfill / adminGetNewsBackfillStatus ----
+
+export interface StartNewsBackfillRequest {
+  region: "GLOBAL" | "ASIA" | "MY";
+  window: "1y" | "2y" | "3y";
+  maxItems: number;
+}
+
+export const MAX_BACKFILL_ITEMS = 250;
+
+export const START_NEWS_BACKFILL_REQUEST: JsonSchema = {
+  title: "StartNewsBackfillRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    region: { type: "string", enum: ["GLOBAL", "ASIA", "MY"], default: "GLOBAL" },
+    window: { type: "string", enum: ["1y", "2y", "3y"], default: "3y", description: "How far back to search." },
+    maxItems: { type: "integer", minimum: 1, maximum: MAX_BACKFILL_ITEMS, default: MAX_BACKFILL_ITEMS },
+  },
+};
+
+export interface GetNewsBackfillStatusRequest {
+  jobId: string | null;
+}
+
+export const GET_NEWS_BACKFILL_STATUS_REQUEST: JsonSchema = {
+  title: "GetNewsBackfillStatusRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    jobId: { type: ["string", "null"], minLength: 1, maxLength: 128, default: null, description: "Omit for the newest job." },
+  },
+};
+
+const COUNT: JsonSchema = { type: "integer", minimum: 0 };
+
+export const NEWS_BACKFILL_JOB_RESPONSE: JsonSchema = {
+  title: "NewsBackfillJobResponse",
+  type: "object",
+  required: ["jobId", "status", "total", "processed", "accepted", "rejected", "failed", "skipped", "progress"],
+  properties: {
+    jobId: { type: "string" },
+    status: { type: "string", enum: ["running", "completed", "failed"] },
+    region: { type: "string" },
+    window: { type: "string" },
+    total: { ...COUNT, description: "Articles queued by the job." },
+    processed: COUNT,
+    accepted: { ...COUNT, description: "New stories, or new sources of a known story." },
+    rejected: COUNT,
+    failed: COUNT,
+    skipped: { ...COUNT, description: "Articles stored before the job reached them." },
+    progress: { type: "number", minimum: 0, maximum: 1 },
+    existing: { type: "boolean", description: "adminStartNewsBackfill only: the same backfill was already running." },
+    createdBy: { type: "string" },
+    createdAt: { type: "integer" },
+    updatedAt: { type: "integer" },
+    completedAt: { type: ["integer", "null"] },
+    lastError: { type: ["string", "null"] },
+  },
+};
+
+// ---- adminListPrompts ----
+export interface ListPromptsRequest {
+  days: number;
+}
+
+export const LIST_PROMPTS_REQUEST: JsonSchema = {
+  title: "ListPromptsRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    days: { type: "integer", minimum: 1, maximum: 90, default: 14, description: "Days of prompt stats to compare, today included." },
+  },
+};
+
+// ---- adminListTrendAlerts / adminReviewTrendAlert ----
+// Spikes found by trendingScamDetector (see trending.ts), and what became of their push.
+export const TREND_ALERT_STATUSES = ["pending", "published", "failed", "rejected", "expired"] as const;
+export type TrendAlertStatus = typeof TREND_ALERT_STATUSES[number];
+
+export interface ListTrendAlertsRequest {
+  status: TrendAlertStatus | null;
+  limit: number;
+}
+
+export const LIST_TREND_ALERTS_REQUEST: JsonSchema = {
+  title: "ListTrendAlertsRequest",
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    status: { type: ["string", "null"], enum: [...TREND_ALERT_STATUSES, null], default: "pending" },
+    limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+  },
+};
+
+export interface ReviewTrendAlertRequest {
+  alertId: string;
+  action: "approve" | "reject";
+}
+
+export const REVIEW_TREND_ALERT_REQUEST: JsonSchema = {
+  title: "ReviewTrendAlertRequest",
+  type: "object",
+  additionalProperties: false,
+  required: ["alertId", "action"],
+  properties: {
+    alertId: { type: "string", minLength: 1, maxLength: 300 },
+    action: { type: "string", enum: ["approve", "reject"], description: "approve publishes the warning to its FCM topics." },
+  },
+};
+
+// ---- JSON Schema export ----
+export const CONTRACT_SCHEMAS: JsonSchema[] = [
+  EXPLAIN_ALERT_REQUEST,
+  EXPLAIN_ALERT_MODEL_OUTPUT,
+  EXPLAIN_ALERT_RESPONSE,
+  REPORT_ALERT_REQUEST,
+  REPORT_ALERT_RESPONSE,
+  SUBMIT_VERDICT_FEEDBACK_REQUEST,
+  SUBMIT_VERDICT_FEEDBACK_RESPONSE,
+  EXPORT_VERDICT_FEEDBACK_REQUEST,
+  GET_INSIGHTS_REQUEST,
+  GET_INSIGHTS_RESPONSE,
+  CHECK_LINK_REQUEST,
+  CHECK_LINKS_REQUEST,
+  CHECK_LINK_MODEL_OUTPUT,
+  CHECK_LINK_RESPONSE,
+  CHECK_LINKS_RESPONSE,
+  CHECK_ENTITY_REQUEST,
+  CHECK_ENTITY_RESPONSE,
+  GET_SCAM_NEWS_DIGEST_REQUEST,
+  NEWS_DIGEST_MODEL_OUTPUT,
+  NEWS_TRANSLATION_MODEL_OUTPUT,
+  GET_SCAM_NEWS_DIGEST_RESPONSE,
+  START_NEWS_BACKFILL_REQUEST,
+  GET_NEWS_BACKFILL_STATUS_REQUEST,
+  NEWS_BACKFILL_JOB_RESPONSE,
+  LIST_PROMPTS_REQUEST,
+  LIST_TREND_ALERTS_REQUEST,
+  REVIEW_TREND_ALERT_REQUEST,
+];
+
+export function exportJsonSchemas(): Record<string, unknown> {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: "safex-callables.schema.json",
+    title: "SafeX callable contracts",
+    definitions: Object.fromEntries(CONTRACT_SCHEMAS.map((s) => [s.title as string, s])),
+  };
+}
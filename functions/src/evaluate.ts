@@ -0,0 +1,75 @@
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  fixtureBackend, loadSamples, ModelBackend, providerBackend, recordedBackend, recordingBackend, runEvaluation,
+} from "./evaluation";
+import { createLlmProvider } from "./llm";
+import { parseScoringConfig } from "./scoring";
+
+// ---- Runs the offline evaluation and writes the report ----
+// Usage: npm run -s evaluate -- [--backend fixture|recorded|vertex] [--recordings answers.json]
+//          [--record answers.json] [--prompts candidate.json] [--out eval-report.json]
+// --recordings replays answers saved with --record; --prompts is a JSON file of
+// { "explainAlert"?: {version, system, user}, "checkLink"?: {...} } to evaluate instead of the
+// built-in prompts. The vertex backend reads GCLOUD_PROJECT, GEMINI_MODEL and VERTEX_LOCATION.
+const DATA_DIR = join(__dirname, "..", "..", "data");
+
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+const readJson = (path: string) => JSON.parse(readFileSync(path, "utf8"));
+
+async function main() {
+  const backendName = flag("backend") ?? "fixture";
+  let backend: ModelBackend;
+  if (backendName === "fixture") {
+    backend = fixtureBackend();
+  } else if (backendName === "recorded") {
+    const path = flag("recordings");
+    if (!path) throw new Error("--backend recorded needs --recordings <file>");
+    backend = recordedBackend(readJson(path));
+  } else if (backendName === "vertex") {
+    backend = providerBackend(createLlmProvider({
+      kind: "vertex",
+      model: process.env.GEMINI_MODEL || "gemini-2.5-flash",
+      location: process.env.VERTEX_LOCATION || "asia-southeast1",
+    }));
+  } else {
+    throw new Error(`Unknown backend "${backendName}"`);
+  }
+
+  const recordPath = flag("record");
+  const recordings: Record<string, unknown> = {};
+  if (recordPath) backend = recordingBackend(backend, recordings);
+
+  const promptsPath = flag("prompts");
+  const report = await runEvaluation({
+    backend,
+    backendName,
+    alertsBinary: loadSamples(join(DATA_DIR, "test_binary.csv"), "text", "label"),
+    alertsCategory: loadSamples(join(DATA_DIR, "test_multiclass.csv"), "text", "label"),
+    links: loadSamples(join(DATA_DIR, "test_urls.csv"), "url", "label"),
+    prompts: promptsPath ? readJson(promptsPath) : undefined,
+    scoringConfig: parseScoringConfig(process.env.RISK_SCORING_CONFIG),
+    concurrency: backendName === "vertex" ? 2 : 8,
+  });
+
+  const out = flag("out") ?? "eval-report.json";
+  writeFileSync(out, JSON.stringify(report, null, 2) + "\n");
+  if (recordPath) writeFileSync(recordPath, JSON.stringify(recordings, null, 2) + "\n");
+
+  for (const [name, dataset] of Object.entries(report.datasets)) {
+    process.stderr.write(
+      `${name}: accuracy ${dataset.metrics.accuracy}, macro F1 ${dataset.metrics.macroF1}, ` +
+      `fallback ${dataset.fallbackRate}, parse failures ${dataset.parseFailureRate}\n`
+    );
+  }
+  process.stderr.write(`Report written to ${out}\n`);
+}
+
+main().catch((e) => {
+  process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,321 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { AlertContext, alertPromptVars, alertSignals, alertVerdict, redactAlertForModel } from "./alertCheck";
+import { DEFAULT_BRANDS } from "./brandRegistry";
+import { mapWithConcurrency } from "./concurrency";
+import { normalizeScamCategory } from "./insights";
+import {
+  checkLinkPromptVars, deterministicLinkResult, failedLinkResult, linkSignals, linkVerdict, prepareLink,
+} from "./linkCheck";
+import { DEFAULT_LLM_FIXTURES, LlmProvider, LlmRequest, LlmResult, stripJsonFences } from "./llm";
+import { DEFAULT_PROMPTS, PromptTemplate, renderPrompt } from "./promptRegistry";
+import { DEFAULT_SCORING_CONFIG, isForcedHigh, ScoringConfig } from "./scoring";
+import { checkUrlHeuristics } from "./urlAnalyzer";
+
+// ---- Offline evaluation ----
+// Runs labeled samples through the same decision logic as explainAlert (alertCheck.ts) and
+// checkLink (linkCheck.ts), with a pluggable model backend: the deterministic fixtures, answers
+// recorded from an earlier run, or Gemini itself. Nothing touches Firestore or the network
+// (besides the model): no reputation, threat intel, Safe Browsing or redirect expansion.
+// The report is plain JSON with stable key order and no timestamps, so a regression in prompts,
+// heuristics or score fusion shows up as a diff against the previous report.
+//
+// Rates are per sample row: fallbackRate counts rows answered with a fallback verdict (model
+// error or unusable output); parseFailureRate counts, among rows where the model answered,
+// those whose output didn't match the contract. Identical texts are evaluated once.
+
+// One model answer per task and sample; the sample ID is a hash of its text or URL, so
+// recordings survive reordering the datasets.
+export type ModelBackend = (request: LlmRequest, sampleId: string) => Promise<LlmResult>;
+
+export type EvaluatedPrompt = "explainAlert" | "checkLink";
+
+export interface EvaluationSample {
+  id: string;
+  input: string; // message text, or the URL
+  label: string;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface ClassificationReport {
+  labels: string[];
+  confusion: Record<string, Record<string, number>>; // expected -> predicted -> rows
+  perClass: Record<string, ClassMetrics>;
+  accuracy: number;
+  macroF1: number;
+}
+
+export interface DatasetReport {
+  samples: number;
+  uniqueSamples: number;
+  modelErrors: number;
+  parseFailures: number;
+  fallbackRate: number;
+  parseFailureRate: number;
+  metrics: ClassificationReport;
+}
+
+export interface EvaluationReport {
+  backend: string;
+  prompts: Record<EvaluatedPrompt, string>;
+  datasets: Record<string, DatasetReport>;
+}
+
+// The dataset's category labels (data/test_multiclass.csv) for each scam category; a verdict
+// of LOW is BENIGN whatever the category. Categories without a label count as OTHER.
+const DATASET_CATEGORIES: Partial<Record<string, string>> = {
+  "Job Scam": "JOB",
+  "Investment Scam": "INVESTMENT",
+  "Love Scam": "ROMANCE",
+  "Impersonation Scam": "IMPERSONATION",
+  "Phishing": "DELIVERY",
+  "E-commerce Scam": "DELIVERY",
+};
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+// ---- Datasets ----
+export function sampleId(input: string): string {
+  return createHash("sha256").update(input).digest("hex").slice(0, 12);
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks.
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (c === "\"") {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === "\"") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((r) => r.some((f) => f !== ""));
+  return (body ?? []).map((r) => Object.fromEntries((header ?? []).map((name, i) => [name, r[i] ?? ""])));
+}
+
+export function loadSamples(csvPath: string, inputColumn: string, labelColumn: string): EvaluationSample[] {
+  return parseCsv(readFileSync(csvPath, "utf8")).map((r) => ({ id: sampleId(r[inputColumn]), input: r[inputColumn], label: r[labelColumn] }));
+}
+
+// ---- Metrics ----
+export function classificationReport(rows: { expected: string; predicted: string }[], labels: string[]): ClassificationReport {
+  const all = Array.from(new Set([...labels, ...rows.flatMap((r) => [r.expected, r.predicted]).sort()]));
+  const confusion = Object.fromEntries(all.map((e) => [e, Object.fromEntries(all.map((p) => [p, 0]))]));
+  for (const r of rows) confusion[r.expected][r.predicted]++;
+
+  const perClass: Record<string, ClassMetrics> = {};
+  const f1s: Record<string, number> = {};
+  for (const label of all) {
+    const truePositives = confusion[label][label];
+    const predicted = all.reduce((sum, e) => sum + confusion[e][label], 0);
+    const support = all.reduce((sum, p) => sum + confusion[label][p], 0);
+    const precision = predicted > 0 ? truePositives / predicted : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    f1s[label] = f1;
+    perClass[label] = { precision: round(precision), recall: round(recall), f1: round(f1), support };
+  }
+
+  const supported = all.filter((label) => perClass[label].support > 0);
+  return {
+    labels: all,
+    confusion,
+    perClass,
+    accuracy: rows.length > 0 ? round(rows.filter((r) => r.expected === r.predicted).length / rows.length) : 0,
+    macroF1: supported.length > 0 ? round(supported.reduce((sum, label) => sum + f1s[label], 0) / supported.length) : 0,
+  };
+}
+
+// ---- Model backends ----
+function resultOf(task: LlmRequest["task"], provider: string, answer: unknown): LlmResult {
+  const text = stripJsonFences(typeof answer === "string" ? answer : JSON.stringify(answer));
+  let json: unknown = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = null;
+  }
+  const usage = { provider, model: provider, task, promptTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, attempts: 1 };
+  return { text, json, usage };
+}
+
+// The built-in fixture answers: the same for every sample, so the report measures the local
+// signals and the score fusion.
+export function fixtureBackend(): ModelBackend {
+  return async (request) => resultOf(request.task, "fixture", DEFAULT_LLM_FIXTURES[request.task]);
+}
+
+export function providerBackend(provider: LlmProvider): ModelBackend {
+  return (request) => provider.generateJson(request);
+}
+
+const recordingKey = (request: LlmRequest, id: string) => `${request.task}:${id}`;
+
+// Answers keyed `task:sampleId` (JSON objects, or raw strings for unusable output). A sample
+// without a recording fails like a model error.
+export function recordedBackend(recordings: Record<string, unknown>): ModelBackend {
+  return async (request, id) => {
+    const answer = recordings[recordingKey(request, id)];
+    if (answer === undefined) throw new Error(`No recorded answer for ${recordingKey(request, id)}`);
+    return resultOf(request.task, "recorded", answer);
+  };
+}
+
+// Wraps a backend and keeps every answer in `recordings`, for replaying with recordedBackend.
+export function recordingBackend(backend: ModelBackend, recordings: Record<string, unknown>): ModelBackend {
+  return async (request, id) => {
+    const result = await backend(request, id);
+    recordings[recordingKey(request, id)] = result.json ?? result.text;
+    return result;
+  };
+}
+
+// ---- Runner ----
+interface SampleOutcome {
+  riskLevel: string;
+  category: string;
+  answered: boolean;
+  parsed: boolean;
+}
+
+export interface EvaluationOptions {
+  backend: ModelBackend;
+  backendName: string;
+  alertsBinary: EvaluationSample[];
+  alertsCategory: EvaluationSample[];
+  links: EvaluationSample[];
+  // Candidate prompts to evaluate instead of the built-in active versions.
+  prompts?: Partial<Record<EvaluatedPrompt, { version: string } & PromptTemplate>>;
+  scoringConfig?: ScoringConfig;
+  concurrency?: number;
+}
+
+const firstUrl = (text: string) => text.match(/https?:\/\/[^\s]+/i)?.[0].replace(/[).,;!?]+$/, "") ?? null;
+
+export async function runEvaluation(options: EvaluationOptions): Promise<EvaluationReport> {
+  const config = options.scoringConfig ?? DEFAULT_SCORING_CONFIG;
+  const prompt = (id: EvaluatedPrompt) => {
+    const candidate = options.prompts?.[id];
+    if (candidate) return { id, version: candidate.version, template: candidate };
+    const defaults = DEFAULT_PROMPTS[id];
+    return { id, version: defaults.active, template: defaults.templates[defaults.active] };
+  };
+  const alertPrompt = prompt("explainAlert");
+  const linkPrompt = prompt("checkLink");
+
+  const evaluateAlert = async (sample: EvaluationSample): Promise<SampleOutcome> => {
+    const extractedUrl = firstUrl(sample.input);
+    const alert: AlertContext = {
+      language: "en", alertType: "SMS", snippet: sample.input, category: "unknown", tactics: [], heuristicScore: null, tfliteScore: null,
+      extractedUrl, safeBrowsing: null, reputation: null, threatIntel: [],
+    };
+    let json: unknown = null;
+    let answered = false;
+    try {
+      json = (await options.backend({ task: "explainAlert", ...renderPrompt(alertPrompt, alertPromptVars(redactAlertForModel(alert).alert)) }, sample.id)).json;
+      answered = true;
+    } catch {
+      // A failed call takes the fallback, as in explainAlert.
+    }
+    const urlHeuristics = extractedUrl ? checkUrlHeuristics(extractedUrl) : null;
+    const { verdict, parsed } = alertVerdict(json, alertSignals(alert, urlHeuristics), config);
+    return { riskLevel: verdict.riskLevel, category: verdict.category, answered, parsed };
+  };
+
+  const evaluateLink = async (sample: EvaluationSample): Promise<SampleOutcome> => {
+    const link = await prepareLink(sample.input, DEFAULT_BRANDS, { resolveRedirects: false });
+    const signals = linkSignals(link, null, null);
+    if (isForcedHigh(signals)) {
+      const result = deterministicLinkResult(link, signals, null, config);
+      return { riskLevel: result.riskLevel, category: result.category, answered: false, parsed: true };
+    }
+    try {
+      const generated = await options.backend(
+        { task: "checkLink", ...renderPrompt(linkPrompt, checkLinkPromptVars(link, null, "English")) }, sample.id
+      );
+      const { result, parsed } = linkVerdict(link, generated.json, generated.text, signals, null, config);
+      return { riskLevel: result.riskLevel, category: result.category, answered: true, parsed };
+    } catch (e) {
+      const result = failedLinkResult(e);
+      return { riskLevel: result.riskLevel, category: result.category, answered: false, parsed: false };
+    }
+  };
+
+  // Each distinct text or URL is evaluated once, whichever dataset it appears in.
+  const outcomes = new Map<string, SampleOutcome>();
+  const evaluateAll = async (samples: EvaluationSample[], kind: EvaluatedPrompt) => {
+    const unique = Array.from(new Map(samples.map((s) => [`${kind}:${s.id}`, s])).entries())
+      .filter(([key]) => !outcomes.has(key));
+    const results = await mapWithConcurrency(unique, options.concurrency ?? 4,
+      ([, sample]) => kind === "explainAlert" ? evaluateAlert(sample) : evaluateLink(sample));
+    unique.forEach(([key], i) => outcomes.set(key, results[i]));
+  };
+  await evaluateAll([...options.alertsBinary, ...options.alertsCategory], "explainAlert");
+  await evaluateAll(options.links, "checkLink");
+
+  const binary = (o: SampleOutcome) => o.riskLevel === "LOW" ? "BENIGN" : "SCAM";
+  const category = (o: SampleOutcome) =>
+    o.riskLevel === "LOW" ? "BENIGN" : DATASET_CATEGORIES[normalizeScamCategory(o.category)] ?? "OTHER";
+
+  const report = (samples: EvaluationSample[], kind: EvaluatedPrompt, predict: (o: SampleOutcome) => string): DatasetReport => {
+    const rows = samples.map((s) => ({ sample: s, outcome: outcomes.get(`${kind}:${s.id}`) as SampleOutcome }));
+    const answered = rows.filter((r) => r.outcome.answered);
+    const parseFailures = answered.filter((r) => !r.outcome.parsed).length;
+    const modelErrors = rows.filter((r) => !r.outcome.answered && !r.outcome.parsed).length;
+    return {
+      samples: rows.length,
+      uniqueSamples: new Set(samples.map((s) => s.id)).size,
+      modelErrors,
+      parseFailures,
+      fallbackRate: rows.length > 0 ? round((parseFailures + modelErrors) / rows.length) : 0,
+      parseFailureRate: answered.length > 0 ? round(parseFailures / answered.length) : 0,
+      metrics: classificationReport(
+        rows.map((r) => ({ expected: r.sample.label, predicted: predict(r.outcome) })),
+        Array.from(new Set(samples.map((s) => s.label))).sort()
+      ),
+    };
+  };
+
+  return {
+    backend: options.backendName,
+    prompts: { explainAlert: alertPrompt.version, checkLink: linkPrompt.version },
+    datasets: {
+      alertsBinary: report(options.alertsBinary, "explainAlert", binary),
+      alertsCategory: report(options.alertsCategory, "explainAlert", category),
+      links: report(options.links, "checkLink", binary),
+    },
+  };
+}
@@ -0,0 +1,5 @@
+import { exportJsonSchemas } from "./contracts";
+
+// ---- Prints the callable contracts as one JSON Schema document ----
+// Usage: npm run -s export-schemas > safex-callables.schema.json
+process.stdout.write(JSON.stringify(exportJsonSchemas(), null, 2) + "\n");
@@ -0,0 +1,21 @@
+import * as admin from "firebase-admin";
+
+// ---- Firebase Cloud Messaging ----
+// Kept apart so tests can replace it (see test/setup.ts): the Admin SDK doesn't go through fetch.
+
+export interface TopicMessage {
+  topic: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+// Returns the FCM message ID.
+export async function sendToTopic(message: TopicMessage): Promise<string> {
+  return admin.messaging().send({
+    topic: message.topic,
+    notification: { title: message.title, body: message.body },
+    data: message.data,
+    android: { priority: "normal" },
+  });
+}
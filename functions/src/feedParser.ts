@@ -0,0 +1,148 @@
+import { XMLParser } from "fast-xml-parser";
+
+// ---- RSS 2.0 / Atom feed parsing ----
+// Google News and the outlet feeds use RSS 2.0; some agency feeds use Atom. Titles arrive
+// HTML-escaped, double-escaped or in CDATA depending on the publisher, so everything goes
+// through a real XML parser and text is decoded once more before use.
+
+export interface FeedItem {
+  title: string;
+  link: string;
+  publishedAt: number | null; // epoch ms, null when the feed has no usable date
+  description: string; // plain text
+  sourceName: string | null; // publisher, for aggregators like Google News
+  sourceUrl: string | null;
+  imageUrl: string | null;
+}
+
+export class FeedParseError extends Error {}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  parseTagValue: false,
+  parseAttributeValue: false,
+  processEntities: true,
+  htmlEntities: true,
+  trimValues: true,
+  isArray: (name) => ["item", "entry", "link", "category", "media:content", "media:thumbnail", "enclosure"].includes(name),
+});
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ndash: "–", mdash: "—",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", hellip: "…",
+};
+
+// Entities left over after XML decoding (double-escaped titles like "&amp;amp;").
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : whole;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? whole;
+  });
+}
+
+function stripTags(s: string): string {
+  return s.replace(/<[^>]*>/g, " ");
+}
+
+// Text content of a parsed node: plain string, { "#text": ... } with attributes, or absent.
+function text(node: unknown): string {
+  if (node === undefined || node === null) return "";
+  if (Array.isArray(node)) return text(node[0]);
+  if (typeof node === "object") return text((node as Record<string, unknown>)["#text"]);
+  return String(node);
+}
+
+function cleanText(node: unknown): string {
+  return decodeEntities(stripTags(decodeEntities(text(node)))).replace(/\s+/g, " ").trim();
+}
+
+function attr(node: unknown, name: string): string | null {
+  if (!node || typeof node !== "object") return null;
+  const value = (node as Record<string, unknown>)[`@_${name}`];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function parseDate(value: string): number | null {
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function httpUrl(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    const u = new URL(value.trim());
+    return u.protocol === "http:" || u.protocol === "https:" ? u.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function firstImage(item: Record<string, any>): string | null {
+  const candidates = [
+    ...(item["media:content"] ?? []).filter((m: any) => !attr(m, "medium") || attr(m, "medium") === "image"),
+    ...(item["media:thumbnail"] ?? []),
+    ...(item.enclosure ?? []).filter((e: any) => (attr(e, "type") ?? "").startsWith("image/")),
+  ];
+  for (const c of candidates) {
+    const url = httpUrl(attr(c, "url"));
+    if (url) return url;
+  }
+  return null;
+}
+
+function parseRssItem(item: Record<string, any>): FeedItem | null {
+  const title = cleanText(item.title);
+  const link = httpUrl(text(item.link)) ?? httpUrl(text(item.guid));
+  if (!title || !link) return null;
+  return {
+    title,
+    link,
+    publishedAt: parseDate(text(item.pubDate) || text(item["dc:date"])),
+    description: cleanText(item.description),
+    sourceName: cleanText(item.source) || null,
+    sourceUrl: httpUrl(attr(item.source, "url")),
+    imageUrl: firstImage(item),
+  };
+}
+
+function parseAtomEntry(entry: Record<string, any>): FeedItem | null {
+  const title = cleanText(entry.title);
+  const links: any[] = entry.link ?? [];
+  const alternate = links.find((l) => (attr(l, "rel") ?? "alternate") === "alternate") ?? links[0];
+  const link = httpUrl(attr(alternate, "href"));
+  if (!title || !link) return null;
+  return {
+    title,
+    link,
+    publishedAt: parseDate(text(entry.published) || text(entry.updated)),
+    description: cleanText(entry.summary ?? entry.content),
+    sourceName: cleanText(entry.source?.title ?? entry.author?.name) || null,
+    sourceUrl: httpUrl(attr((entry.source?.link ?? [])[0], "href")),
+    imageUrl: firstImage(entry),
+  };
+}
+
+// ---- Parse an RSS 2.0 or Atom document; throws FeedParseError for anything else ----
+export function parseFeed(xml: string): FeedItem[] {
+  let doc: any;
+  try {
+    doc = parser.parse(xml);
+  } catch (e: any) {
+    throw new FeedParseError(`Invalid XML: ${e?.message ?? String(e)}`);
+  }
+
+  if (doc?.rss || doc?.["rdf:RDF"]) {
+    const items: any[] = doc.rss?.channel?.item ?? doc.rss?.item ?? doc["rdf:RDF"]?.item ?? [];
+    return items.map(parseRssItem).filter((i): i is FeedItem => i !== null);
+  }
+  if (doc?.feed) {
+    const entries: any[] = doc.feed.entry ?? [];
+    return entries.map(parseAtomEntry).filter((i): i is FeedItem => i !== null);
+  }
+  throw new FeedParseError("Not an RSS or Atom feed");
+}
@@ -0,0 +1,10 @@
+import { promises as dns } from "dns";
+
+// ---- DNS resolution for outbound requests to user-supplied hosts ----
+// Kept apart so tests can replace it (see test/setup.ts), like the fetch-based fakes.
+
+// Every address the host resolves to (IPv4 and IPv6).
+export async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  return addresses.map((a) => a.address);
+}
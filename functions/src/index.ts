@@ -1,10 +1,70 @@
-import { onCall, HttpsError, onRequest } from "firebase-functions/v2/https";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import { setGlobalOptions } from "firebase-functions/v2";
-import { defineSecret, defineString } from "firebase-functions/params";
+import { defineInt, defineSecret, defineString } from "firebase-functions/params";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
-import { GoogleGenAI } from "@google/genai";
+import {
+  DomainReputation, getDomainReputation, getDomainReputations, normalizeDomain, recordDomainReport,
+} from "./reputation";
+import { isForcedHigh, parseScoringConfig, ScoringConfig, ScoringInput } from "./scoring";
+import { BrandValidationError, getBrandRegistry, upsertBrand } from "./brandRegistry";
+import { analyzeUrl, checkUrlHeuristics } from "./urlAnalyzer";
+import { safeBrowsingThreatsByUrl, safeBrowsingThreatTypes } from "./safeBrowsing";
+import { safeBrowsingCheck, updateSafeBrowsingLists } from "./safeBrowsingUpdate";
+import {
+  checkLinkPromptVars, deterministicLinkResult, failedLinkResult, invalidLinkResult, isAmbiguousLink, languageLabel,
+  linkSignals, linkVerdict, PreparedLink, prepareLink, redactLinkForModel, threatIntelLookups,
+} from "./linkCheck";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  alertCacheKey, getCachedVerdict, getCachedVerdicts, invalidateAllVerdicts, invalidateDomainVerdicts, linkCacheKey,
+  parseVerdictCacheConfig, putCachedVerdict,
+} from "./verdictCache";
+import { claimReport, consumeGeminiBudget, consumeToken, RateLimitError } from "./rateLimit";
+import {
+  CHECK_ENTITY_REQUEST, CHECK_LINK_REQUEST, CHECK_LINKS_REQUEST, CheckEntityRequest, CheckLinkRequest, CheckLinksRequest, ContractError, EXPLAIN_ALERT_REQUEST,
+  EXPORT_VERDICT_FEEDBACK_REQUEST, ExplainAlertRequest, ExportVerdictFeedbackRequest, GET_INSIGHTS_REQUEST,
+  GET_NEWS_BACKFILL_STATUS_REQUEST, GET_SCAM_NEWS_DIGEST_REQUEST, GetInsightsRequest, GetNewsBackfillStatusRequest,
+  GetScamNewsDigestRequest, JsonSchema, LIST_PROMPTS_REQUEST, LIST_TREND_ALERTS_REQUEST, ListPromptsRequest,
+  ListTrendAlertsRequest, NEWS_CATEGORIES, NEWS_DIGEST_MODEL_FALLBACK, NEWS_DIGEST_MODEL_OUTPUT, NewsDigestModelOutput,
+  parseRequest, REPORT_ALERT_REQUEST, ReportAlertRequest, repairToSchema, REVIEW_TREND_ALERT_REQUEST,
+  ReviewTrendAlertRequest, ScamEntityType, START_NEWS_BACKFILL_REQUEST, StartNewsBackfillRequest,
+  SUBMIT_VERDICT_FEEDBACK_REQUEST, SubmitVerdictFeedbackRequest,
+} from "./contracts";
+import { attemptTimeoutMs, createLlmProvider, LlmProvider } from "./llm";
+import { FeedItem } from "./feedParser";
+import {
+  backfillSource, fetchNewsSource, NEWS_REGIONS, NewsSource, parseNewsSources, recordSourceStatus, sourcesForRegion,
+} from "./newsSources";
+import { isRegionEmpty, localizeNewsStories, NewsCursorError, newsLanguage, queryNewsPage } from "./newsDigest";
+import {
+  addStorySources, createStory, isLegacyArticle, loadRecentStories, migrateLegacyArticle, migrateLegacyArticles, NEWS_COLLECTION,
+  NewsArticleOutcome, StorySource,
+} from "./newsStories";
+import { clusterArticles, StoryCluster, StorySignature, storySignature } from "./storyClustering";
+import { lookupIndicatorsInText, lookupThreatIntel, recordIndicators, ThreatIntelMatch } from "./threatIntel";
+import {
+  BackfillJob, claimBackfillJob, createBackfillJob, findRunningBackfillJob, getBackfillJob, nextBackfillItems,
+  recordBackfillChunk, releaseBackfillJob, requeueBackfillRetries,
+} from "./backfillJobs";
+import {
+  exportVerdictFeedback, FeedbackCursorError, loadFeedbackStats, recordVerdictFeedback,
+} from "./verdictFeedback";
+import { AlertContext, alertPromptVars, alertSignals, alertVerdict, redactAlertForModel } from "./alertCheck";
+import { isoWeekId, loadInsights, migrateAllWeeklyDocs, normalizeScamCategory, recordWeeklyReport } from "./insights";
+import {
+  getPromptRegistry, loadPromptStats, PROMPT_IDS, PromptValidationError, recordPromptOutcome, recordPromptSignal,
+  renderPrompt, SelectedPrompt, selectPrompt, upsertPrompt,
+} from "./promptRegistry";
+import { guardPromptInjection, sanitizeForModel } from "./redaction";
+import {
+  EntityReputation, entityId, entityVerdict, getEntityReputation, normalizeEntity, recordEntityReport, threatIntelValue,
+} from "./scamEntities";
+import {
+  detectTrends, expireTrendAlerts, listTrendAlerts, parseTrendAlertMode, recordTrendAlerts, reviewTrendAlert,
+  TrendAlertNotFoundError, TrendAlertStateError,
+} from "./trending";
 
 admin.initializeApp();
 
@@ -14,128 +74,92 @@ setGlobalOptions({ region: "asia-southeast1" });
 // ---- Config / params ----
 const SAFE_BROWSING_API_KEY = defineSecret("SAFE_BROWSING_API_KEY");
 
-// Google Gen AI SDK with Vertex AI
-// Note: We'll use Vertex AI backend by setting vertexai: true and providing project+location.
+// Key for the HMAC that replaces reported phone numbers and bank accounts (see scamEntities.ts).
+// Rotating it orphans every existing entity report.
+const ENTITY_HASH_SECRET = defineSecret("ENTITY_HASH_SECRET");
+
+// Gemini on Vertex AI (see llm.ts), called with project + location.
 // location "asia-southeast1" is supported by Gemini 2.5 Flash on Vertex AI.
 const VERTEX_LOCATION = defineString("VERTEX_LOCATION", { default: "asia-southeast1" });
 const GEMINI_MODEL = defineString("GEMINI_MODEL", { default: "gemini-2.5-flash" });
 
-// ---- Helper: safe browsing lookup (manual scan use-case) ----
-async function safeBrowsingLookup(urls: string[], apiKey: string) {
-  // Google Safe Browsing Lookup API v4: threatMatches.find
-  const endpoint = `https://safebrowsing.googleapis.com/v4/threatMatches:find?key=${apiKey}`;
-
-  const body = {
-    client: { clientId: "safex", clientVersion: "1.0.0" },
-    threatInfo: {
-      threatTypes: ["MALWARE", "SOCIAL_ENGINEERING", "UNWANTED_SOFTWARE", "POTENTIALLY_HARMFUL_APPLICATION"],
-      platformTypes: ["ALL_PLATFORMS"],
-      threatEntryTypes: ["URL"],
-      threatEntries: urls.slice(0, 500).map((u) => ({ url: u })),
-    },
-  };
+// LLM backend: "vertex" (Gemini) or "fixture" (deterministic, offline; for the emulator and tests).
+// LLM_FIXTURES_PATH optionally points the fixture backend at a JSON file of canned answers per task.
+const LLM_PROVIDER = defineString("LLM_PROVIDER", { default: "vertex" });
+const LLM_FIXTURES_PATH = defineString("LLM_FIXTURES_PATH", { default: "" });
 
-  const res = await fetch(endpoint, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+// Optional JSON override for the risk-scoring weights/thresholds, e.g. {"weights":{"gemini":2}}.
+const RISK_SCORING_CONFIG = defineString("RISK_SCORING_CONFIG", { default: "" });
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`SafeBrowsing error ${res.status}: ${text}`);
-  }
+// Optional JSON override for the verdict cache, e.g. {"ttlSeconds":{"HIGH":172800}} or {"enabled":false}.
+const VERDICT_CACHE_CONFIG = defineString("VERDICT_CACHE_CONFIG", { default: "" });
+
+// Optional JSON array overriding/adding news feed sources by id (see newsSources.ts),
+// e.g. [{"id":"fmt-nation","enabled":false}].
+const NEWS_SOURCES = defineString("NEWS_SOURCES", { default: "" });
+
+// Trending-scam warnings (see trending.ts): "approval" (an admin approves each push), "auto" or "off".
+const TREND_ALERT_MODE = defineString("TREND_ALERT_MODE", { default: "approval" });
 
-  return await res.json(); // either {} or { matches: [...] }
+// Global cap on user-facing Gemini calls per UTC day (0 = unlimited).
+const GEMINI_DAILY_BUDGET = defineInt("GEMINI_DAILY_BUDGET", { default: 20000 });
+
+// ---- Helper: admin-only callables (custom claim `admin: true`) ----
+function requireAdmin(auth: { uid: string; token: Record<string, any> } | undefined): string {
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "Auth required.");
+  }
+  if (auth.token?.admin !== true) {
+    throw new HttpsError("permission-denied", "Admin only.");
+  }
+  return auth.uid;
 }
 
-// ---- Helper: local heuristic check for typosquatting / brand impersonation ----
-// ---- Helper: Levenshtein distance (for fuzzy brand matching) ----
-function levenshtein(a: string, b: string): number {
-  const m = a.length, n = b.length;
-  const dp: number[][] = Array.from({ length: m + 1 }, (_, i) => Array(n + 1).fill(0).map((_, j) => i === 0 ? j : j === 0 ? i : 0));
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      dp[i][j] = a[i - 1] === b[j - 1] ? dp[i - 1][j - 1] : 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
-    }
+// ---- Helper: the LLM provider, created once per instance ----
+let llmProvider: LlmProvider | null = null;
+
+function getLlmProvider(): LlmProvider {
+  if (!llmProvider) {
+    llmProvider = createLlmProvider({
+      kind: LLM_PROVIDER.value(),
+      model: GEMINI_MODEL.value(),
+      location: VERTEX_LOCATION.value(),
+      fixturesPath: LLM_FIXTURES_PATH.value() || undefined,
+    });
   }
-  return dp[m][n];
+  return llmProvider;
+}
+
+// ---- Helper: the deadline for a callable's model calls ----
+// Leaves the handler time to serve its fallback (and write caches and outcomes) when the model
+// is slow, before the platform kills it at `timeoutSeconds`.
+const MODEL_DEADLINE_MARGIN_MS = 8000;
+
+function modelDeadline(startedAt: number, timeoutSeconds: number): number {
+  return startedAt + timeoutSeconds * 1000 - MODEL_DEADLINE_MARGIN_MS;
 }
 
-// ---- Helper: local heuristic check for typosquatting / brand impersonation ----
-function checkUrlHeuristics(url: string): { suspicious: boolean; brand: string | null; reason: string | null } {
+// ---- Helper: validate a callable payload; bad input gets `invalid-argument` with field errors ----
+function parseCallableRequest<T>(schema: JsonSchema, data: unknown): T {
   try {
-    const parsed = new URL(url.startsWith("http") ? url : `https://${url}`);
-    const hostname = parsed.hostname.toLowerCase();
-    // Use second-level domain (e.g. "whtasapp-a" from "whtasapp-a.com")
-    const parts = hostname.split(".");
-    const sld = parts.slice(0, -1).join("."); // everything before the last dot
-
-    // Known brand names commonly impersonated in Malaysia
-    const brands = [
-      "whatsapp", "telegram", "maybank", "cimb", "rhb", "publicbank",
-      "bnm", "banknegara", "pdrm", "lhdn", "mypay", "touchngo",
-      "grabpay", "shopee", "lazada", "poslaju", "celcom", "maxis", "digi",
-      "unifi", "tmnet", "facebook", "instagram", "paypal", "amazon", "apple", "microsoft",
-      "google", "netflix", "boost", "mycash"
-    ];
-
-    // Official domain allowlist (exact hostname match)
-    const officialDomains = new Set([
-      "whatsapp.com", "web.whatsapp.com", "telegram.org", "t.me",
-      "maybank2u.com.my", "maybank.com.my", "cimb.com.my", "www.rhbbank.com.my",
-      "bnm.gov.my", "pdrm.gov.my", "lhdn.gov.my",
-      "facebook.com", "instagram.com", "paypal.com", "amazon.com",
-      "apple.com", "microsoft.com", "google.com", "netflix.com",
-      "shopee.com.my", "lazada.com.my", "touchngo.com.my", "tngdigital.com.my"
-    ]);
-
-    if (officialDomains.has(hostname)) {
-      return { suspicious: false, brand: null, reason: null };
-    }
-
-    // Suspicious TLDs
-    const suspiciousTlds = [".xyz", ".top", ".club", ".online", ".site", ".info", ".biz", ".store", ".vip", ".pw", ".cc"];
-    const hasSuspiciousTld = suspiciousTlds.some(tld => hostname.endsWith(tld));
-    if (hasSuspiciousTld) {
-      return { suspicious: true, brand: null, reason: `Domain uses a high-risk TLD (.${parts[parts.length - 1]}) commonly used in phishing.` };
-    }
-
-    // Fuzzy brand matching — catch typosquatting like whtasapp, telegr4m, maybonk etc.
-    // Split SLD on hyphens/numbers and check each token
-    const tokens = sld.split(/[-_0-9]/).filter(t => t.length >= 4);
-    for (const token of tokens) {
-      for (const brand of brands) {
-        if (token.length < 4) continue;
-        const dist = levenshtein(token, brand);
-        // Allow 1 edit per 5 characters of the brand name (e.g. brand "whatsapp" len=8 → max dist 1)
-        const maxDist = Math.max(1, Math.floor(brand.length / 5));
-        if (dist <= maxDist && token !== brand) {
-          return {
-            suspicious: true,
-            brand,
-            reason: `Domain "${hostname}" appears to impersonate "${brand}" (typosquatting — very similar spelling).`
-          };
-        }
-        // Also catch exact substring match for longer brand names
-        if (brand.length >= 6 && sld.includes(brand)) {
-          return {
-            suspicious: true,
-            brand,
-            reason: `Domain "${hostname}" contains the brand name "${brand}" but is not the official website.`
-          };
-        }
-      }
+    return parseRequest<T>(schema, data);
+  } catch (e) {
+    if (e instanceof ContractError) {
+      throw new HttpsError("invalid-argument", e.message, { errors: e.errors });
     }
+    throw e;
+  }
+}
 
-    // Excessive hyphens in SLD
-    if ((sld.match(/-/g) || []).length >= 2) {
-      return { suspicious: true, brand: null, reason: "Domain has multiple hyphens, a common pattern in phishing URLs." };
+// ---- Helper: rate limits surface as `resource-exhausted` with retry-after details ----
+async function enforceRateLimit(check: () => Promise<void>): Promise<void> {
+  try {
+    await check();
+  } catch (e) {
+    if (e instanceof RateLimitError) {
+      throw new HttpsError("resource-exhausted", e.message, { retryAfterSeconds: e.retryAfterSeconds });
     }
-
-    return { suspicious: false, brand: null, reason: null };
-  } catch {
-    return { suspicious: false, brand: null, reason: null };
+    throw e;
   }
 }
 
@@ -149,168 +173,167 @@ export const explainAlert = onCall(
     memory: "256MiB",
   },
   async (request) => {
+    const deadline = modelDeadline(Date.now(), 30);
+
     // Security: require auth (anonymous auth is fine)
     if (!request.auth) {
       throw new HttpsError("unauthenticated", "Auth required.");
     }
 
-    const data = request.data as any;
+    // Minimal, privacy-first payload (the snippet is redacted on-device, and again below before
+    // it reaches Gemini)
+    const {
+      alertType, language, category, tactics, snippet, extractedUrl, doSafeBrowsingCheck, heuristicScore, tfliteScore,
+    } = parseCallableRequest<ExplainAlertRequest>(EXPLAIN_ALERT_REQUEST, request.data);
+    const lang = newsLanguage(language);
 
-    // Minimal, privacy-first payload
-    const alertType = String(data?.alertType ?? "");
-    const category = String(data?.category ?? "unknown");
-    const tactics = Array.isArray(data?.tactics) ? data.tactics.map(String) : [];
-    const snippet = String(data?.snippet ?? "").slice(0, 500); // already redacted on-device
-    const extractedUrl = data?.extractedUrl ? String(data.extractedUrl).slice(0, 500) : null;
-    const heuristicScore = typeof data?.heuristicScore === 'number' ? data.heuristicScore : null;
-    const tfliteScore = typeof data?.tfliteScore === 'number' ? data.tfliteScore : null;
+    await enforceRateLimit(() => consumeToken("explainAlert", request.auth!.uid));
 
-    if (!alertType) {
-      throw new HttpsError("invalid-argument", "alertType is required.");
+    // The prompt version this user is served (A/B experiments bucket by uid).
+    const selectedPrompt = await selectPrompt("explainAlert", request.auth.uid);
+    const promptVersion = selectedPrompt.version;
+
+    // Same message seen before (viral scams): answer from the verdict cache.
+    const cacheConfig = parseVerdictCacheConfig(VERDICT_CACHE_CONFIG.value());
+    const cacheKey = alertCacheKey({
+      alertType, redactedSnippet: sanitizeForModel(snippet).text, extractedUrl, withSafeBrowsing: doSafeBrowsingCheck,
+      category, tactics, heuristicScore, tfliteScore, promptVersion, language: lang,
+    });
+    const cachedVerdict = await getCachedVerdict(cacheKey, cacheConfig);
+    if (cachedVerdict) {
+      // Verdicts cached before redaction was reported have no `redactions`.
+      return { redactions: [], ...cachedVerdict, cached: true };
     }
 
-    // If this request includes a URL and user explicitly scanned it, we can optionally check Safe Browsing.
-    // IMPORTANT: per your product decision, we do NOT auto-check links from notifications.
+    // Every link is checked against the local Safe Browsing database, which doesn't disclose it.
+    // The Lookup API (which does) is only a fallback, and only for links the user explicitly scanned.
     let safeBrowsing = null;
-    if (extractedUrl && data?.doSafeBrowsingCheck === true) {
+    if (extractedUrl) {
       try {
-        safeBrowsing = await safeBrowsingLookup([extractedUrl], SAFE_BROWSING_API_KEY.value());
+        safeBrowsing = await safeBrowsingCheck([extractedUrl], SAFE_BROWSING_API_KEY.value(), { allowLookupApi: doSafeBrowsingCheck });
       } catch (e: any) {
         logger.warn("SafeBrowsing failed", e);
         safeBrowsing = { error: String(e?.message ?? e) };
       }
     }
 
-    const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-    if (!project) {
-      throw new HttpsError("internal", "Missing project id in environment.");
+    const urlHeuristics = extractedUrl ? checkUrlHeuristics(extractedUrl, { brands: await getBrandRegistry() }) : null;
+
+    // Community reputation of the extracted link's domain (read-only, no URL leaves our project).
+    let reputation: DomainReputation | null = null;
+    const extractedDomain = normalizeDomain(extractedUrl);
+    if (extractedDomain) {
+      try {
+        reputation = await getDomainReputation(extractedDomain);
+      } catch (e) {
+        logger.warn("Reputation lookup failed", e);
+      }
     }
 
-    const ai = new GoogleGenAI({
-      vertexai: true,
-      project,
-      location: VERTEX_LOCATION.value(),
-    });
+    // Domains, phone numbers and accounts named in scam news (the snippet's and the link's).
+    let threatIntel: ThreatIntelMatch[] = [];
+    try {
+      threatIntel = await lookupThreatIntel([
+        ...(extractedDomain ? [{ type: "domain" as const, value: extractedDomain }] : []),
+        ...lookupIndicatorsInText(snippet),
+      ]);
+    } catch (e) {
+      logger.warn("Threat intel lookup failed", e);
+    }
 
-    // System instruction: enforce safe, calm, elder-friendly language and JSON output
-    const system = `
-You are SafeX, an anti-scam safety assistant. Your job is to be the FINAL JUDGE on whether a message is a scam.
-
-CRITICAL: You MUST default to "LOW" risk. Most messages people receive are LEGITIMATE.
-Only set riskLevel to "MEDIUM" or "HIGH" if the message contains CLEAR, SPECIFIC scam indicators — not just because it mentions money, banks, or links.
-
-Return ONLY valid JSON. No markdown.
-
-## BENIGN messages you MUST classify as LOW (examples):
-- Standard OTP/TAC codes from banks or apps (e.g., "Your TAC is 482913. Do not share this code.")
-- Delivery tracking notifications (e.g., "Your parcel has arrived at sorting center")
-- Transaction receipts (e.g., "Card purchase RM35.90 at MYDIN. Ref: 123456")
-- University/school announcements, committee recruitment
-- Normal marketing or promotional messages from legitimate brands
-- A friend/colleague asking you to send a file or call them back
-- App update notifications, system alerts
-- Payment confirmations from legitimate services (Grab, Shopee, GoPay)
-
-## Messages you SHOULD classify as MEDIUM or HIGH:
-- Demands for OTP/PIN/password with a suspicious link
-- Urgent threats about account suspension with links to fake websites
-- Job offers promising easy money with registration links
-- Authority impersonation (police/tax) threatening arrest
-- Links to domains that mimic real brands (typosquatting)
-- Requests to transfer money to unknown accounts
-
-Determine the specific scam category from this list:
-- Spam
-- Phishing
-- Investment Scam
-- Love Scam
-- Job Scam
-- E-commerce Scam
-- Impersonation Scam
-- Loan Scam
-- Giveaway Scam
-- Tech Support Scam
-- Deepfake
-- KK Farm Scam
-- Other
-
-JSON schema:
-{
-  "category": "string (one of the above, or 'Legitimate' if not a scam)",
-  "riskLevel": "LOW" | "MEDIUM" | "HIGH",
-  "headline": string,
-  "whyFlagged": string[],
-  "whatToDoNow": string[],
-  "whatNotToDo": string[],
-  "confidence": number, // 0 to 1
-  "notes": string
-}
+    await enforceRateLimit(() => consumeGeminiBudget(GEMINI_DAILY_BUDGET.value()));
 
-Rules:
-- The on-device system flagged this message with a heuristicScore (keyword rules) and tfliteScore (AI pattern model). These are provided for context ONLY.
-- You are the ULTIMATE JUDGE. IGNORE the local scores if the actual message text is clearly benign.
-- If the message is a standard notification from a legitimate service, you MUST return riskLevel "LOW" regardless of what the local scores say.
-- Use simple language suitable for elders.
-- Output language: You MUST return the ENTIRE JSON response in English. Do not translate it.
-`;
-
-    const userPrompt = `Read the following message and determine if it is a scam or legitimate.
-
---- MESSAGE TEXT (from a ${alertType}) ---
-${snippet}
---- END MESSAGE TEXT ---
-
-Context from on-device analysis (for reference only — YOU decide the final verdict):
-- Local category guess: ${category}
-- Local tactics matched: ${JSON.stringify(tactics)}
-- Heuristic keyword score: ${heuristicScore ?? "N/A"}
-- TFLite AI model score: ${tfliteScore ?? "N/A"}
-${extractedUrl ? `- Extracted URL: ${extractedUrl}` : ""}
-${safeBrowsing ? `- Safe Browsing result: ${JSON.stringify(safeBrowsing)}` : ""}
-`;
-
-    const response = await ai.models.generateContent({
-      model: GEMINI_MODEL.value(),
-      // Keep output short-ish for mobile UI.
-      contents: [
-        {
-          role: "user",
-          parts: [{ text: userPrompt }],
-        },
-      ],
-      config: {
-        systemInstruction: system,
-        responseMimeType: "application/json",
-      },
-    });
+    // The system instruction (safe, calm, elder-friendly language and JSON output) and the
+    // message template come from the prompt registry. The verdict text is written in `lang`.
+    const alert: AlertContext = {
+      language: lang, alertType, snippet, category, tactics, heuristicScore, tfliteScore, extractedUrl, safeBrowsing, reputation, threatIntel,
+    };
+    // Don't rely on the client: personal data, URL secrets and instructions aimed at the model are
+    // removed from what Gemini sees (see redaction.ts). Only the types are logged.
+    const { alert: modelAlert, redactions } = redactAlertForModel(alert);
+    if (redactions.length > 0) {
+      logger.info("Redacted explainAlert input", { redactions });
+    }
+    const { systemInstruction, prompt } = renderPrompt(selectedPrompt, alertPromptVars(modelAlert));
 
-    const text = response.text ?? "";
-    // Best-effort JSON parse
+    // A failed or timed-out model call falls through to the fallback response below.
+    let text = "";
+    let modelJson: unknown = null;
+    const started = Date.now();
     try {
-      const parsed = JSON.parse(text);
-      return parsed;
+      const generated = await getLlmProvider().generateJson({ task: "explainAlert", systemInstruction, prompt, deadline });
+      text = generated.text;
+      modelJson = generated.json;
     } catch (e) {
-      logger.error("Gemini returned non-JSON", { text });
-      // Fallback: return structured but generic
-      return {
-        category: "Spam", // Default fallback
-        riskLevel: "MEDIUM",
-        headline: "Suspicious message detected",
-        whyFlagged: ["Message matched known scam manipulation patterns."],
-        whatToDoNow: ["Do not respond yet.", "Use SafeX Scan to test any links.", "Ask a trusted person if unsure."],
-        whatNotToDo: ["Do not share OTP or banking details.", "Do not send money."],
-        confidence: 0.5,
-        notes: "Fallback response (model output was not valid JSON).",
-      };
+      logger.error("explainAlert model call failed", e);
+    }
+    const latencyMs = Date.now() - started;
+
+    // Repair the model's JSON to the contract and fuse it with the local signals.
+    const signals = alertSignals(alert, urlHeuristics);
+    const { verdict, parsed } = alertVerdict(modelJson, signals, parseScoringConfig(RISK_SCORING_CONFIG.value()), lang);
+    await recordPromptOutcome({ id: "explainAlert", version: promptVersion, latencyMs, riskLevel: verdict.modelRiskLevel, parsed });
+    const result = { ...verdict, reputation, threatIntel, promptVersion, redactions, language: lang };
+    if (parsed) {
+      await putCachedVerdict(cacheKey, "alert", extractedDomain, result, cacheConfig);
+    } else {
+      logger.error("Gemini returned unusable output", { text });
+    }
+    return { ...result, cached: false };
+  }
+);
+
+// ---- Admin Callable: adminUpsertPrompt ----
+// Adds prompt versions, switches the active one or runs an experiment, e.g.
+// { id: "explainAlert", templates: { v2: { system, user } }, experiment: { version: "v2", percent: 10 } }.
+// Cached verdicts are keyed by prompt version, so nothing needs invalidating.
+export const adminUpsertPrompt = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    const uid = requireAdmin(request.auth);
+
+    try {
+      const prompt = await upsertPrompt(request.data, uid);
+      logger.info(`Prompt registry updated: ${prompt.id}`, { uid, active: prompt.active, experiment: prompt.experiment });
+      return { ok: true, prompt };
+    } catch (e: any) {
+      if (e instanceof PromptValidationError) {
+        throw new HttpsError("invalid-argument", e.message);
+      }
+      logger.error("adminUpsertPrompt failed", e);
+      throw new HttpsError("internal", "Could not update the prompt registry.");
     }
   }
 );
 
+// ---- Admin Callable: adminListPrompts ----
+// Every prompt with its versions, plus per-version stats (calls, parse failures, latency,
+// riskLevels, reports and feedback) over the last `days` days.
+export const adminListPrompts = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 30,
+    memory: "256MiB",
+  },
+  async (request) => {
+    requireAdmin(request.auth);
+    const { days } = parseCallableRequest<ListPromptsRequest>(LIST_PROMPTS_REQUEST, request.data);
+
+    const [registry, stats] = await Promise.all([getPromptRegistry(), loadPromptStats(days)]);
+    return { prompts: PROMPT_IDS.map((id) => registry[id]), stats };
+  }
+);
+
 // ---- Callable: reportAlert ----
 // Called when user taps Report on alert detail screen.
-// Stores only aggregated counters (no raw content).
+// Stores only aggregated counters (no raw content), per ISO week (see insights.ts).
 export const reportAlert = onCall(
   {
+    secrets: [ENTITY_HASH_SECRET],
     cors: true,
     timeoutSeconds: 15,
     memory: "256MiB",
@@ -320,361 +343,962 @@ export const reportAlert = onCall(
       throw new HttpsError("unauthenticated", "Auth required.");
     }
 
-    const data = request.data as any;
-    const category = String(data?.category ?? "unknown");
-    const tactics = Array.isArray(data?.tactics) ? data.tactics.map(String) : [];
-    const domainPattern = data?.domainPattern ? String(data.domainPattern).slice(0, 120) : null;
+    const { category: rawCategory, tactics, domainPattern, url, promptVersion, entities } =
+      parseCallableRequest<ReportAlertRequest>(REPORT_ALERT_REQUEST, request.data);
+    // The reported link (or a domainPattern that is a plain hostname) feeds reputation_domains.
+    const reportedDomain = normalizeDomain(url ?? domainPattern);
 
-    // Use a weekly doc ID, e.g. 2026-W05
-    const now = new Date();
-    const year = now.getUTCFullYear();
-    const oneJan = new Date(Date.UTC(year, 0, 1));
-    const week = Math.ceil((((now.getTime() - oneJan.getTime()) / 86400000) + oneJan.getUTCDay() + 1) / 7);
-    const weekId = `${year}-W${String(week).padStart(2, "0")}`;
+    await enforceRateLimit(() => consumeToken("reportAlert", request.auth!.uid));
 
-    const docRef = admin.firestore().collection("insightsWeekly").doc(weekId);
+    // Numbers and accounts are deduplicated on their own, so they count even when the domain doesn't.
+    const category = normalizeScamCategory(rawCategory);
+    const entityResults = await recordReportedEntities(request.auth.uid, entities, category);
 
-    const inc = admin.firestore.FieldValue.increment(1);
+    // One report per user and domain: repeats are acknowledged but not counted again.
+    if (reportedDomain && !(await claimReport(request.auth.uid, reportedDomain))) {
+      return { ok: true, weekId: isoWeekId(new Date()), duplicate: true, reputation: null, entities: entityResults };
+    }
 
-    const updates: any = {
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      totalReports: inc,
-      [`categories.${category}`]: inc,
-    };
+    // Trend detection counts each user once a week (see insights.ts).
+    const newReporter = await claimReport(request.auth.uid, `trend:${isoWeekId(new Date())}`);
+    const weekId = await recordWeeklyReport({ category, tactics, domainPattern, newReporter });
+    await recordPromptSignal("explainAlert", promptVersion, "reports");
 
-    for (const t of tactics.slice(0, 8)) {
-      updates[`tactics.${t}`] = inc;
+    let reputation: DomainReputation | null = null;
+    if (reportedDomain) {
+      try {
+        const recorded = await recordDomainReport(reportedDomain, { category, tactics });
+        reputation = recorded.reputation;
+        // Cached verdicts for this domain were based on the old level.
+        if (recorded.previousLevel !== reputation.level) {
+          await invalidateDomainVerdicts(reportedDomain);
+        }
+      } catch (e) {
+        logger.warn("Failed to update domain reputation", e);
+      }
+    }
+
+    return { ok: true, weekId, duplicate: false, reputation, entities: entityResults };
+  }
+);
+
+// ---- Helper: reportAlert's phone numbers and bank accounts into reputation_entities ----
+// Invalid values are dropped; failures are logged, never thrown, like domain reputation.
+async function recordReportedEntities(
+  uid: string, entities: { type: ScamEntityType; value: string }[], category: string
+): Promise<{ type: ScamEntityType; counted: boolean; reputation: EntityReputation | null }[]> {
+  const ids = new Map<string, ScamEntityType>();
+  for (const entity of entities) {
+    const value = normalizeEntity(entity.type, entity.value);
+    if (value) ids.set(entityId(entity.type, value, ENTITY_HASH_SECRET.value()), entity.type);
+  }
+
+  return Promise.all(Array.from(ids.entries()).map(async ([id, type]) => {
+    if (!(await claimReport(uid, id))) return { type, counted: false, reputation: null };
+    try {
+      return { type, counted: true, reputation: await recordEntityReport(type, id, { category }) };
+    } catch (e) {
+      logger.warn(`Failed to record ${type} report`, e);
+      return { type, counted: true, reputation: null };
+    }
+  }));
+}
+
+// ---- Callable: checkEntity ----
+// Called from Home -> Check a number / account, before the user calls or pays.
+// Answered from community reports and scam news only; Gemini isn't involved.
+export const checkEntity = onCall(
+  {
+    secrets: [ENTITY_HASH_SECRET],
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Auth required.");
     }
 
-    if (domainPattern) {
-      updates[`domainPatterns.${domainPattern}`] = inc;
+    const { type, value: rawValue } = parseCallableRequest<CheckEntityRequest>(CHECK_ENTITY_REQUEST, request.data);
+    const value = normalizeEntity(type, rawValue);
+    if (!value) {
+      const message = type === "phone" ? "must be a Malaysian or Singaporean phone number" : "must be 8 to 20 digits";
+      throw new HttpsError("invalid-argument", `Invalid ${type}.`, { errors: [{ field: "value", message }] });
     }
 
-    await docRef.set(updates, { merge: true });
+    await enforceRateLimit(() => consumeToken("checkEntity", request.auth!.uid));
 
-    return { ok: true, weekId };
+    let reputation: EntityReputation | null = null;
+    try {
+      reputation = await getEntityReputation(type, entityId(type, value, ENTITY_HASH_SECRET.value()));
+    } catch (e) {
+      logger.warn("Entity reputation lookup failed", e);
+    }
+
+    let threatIntel: ThreatIntelMatch[] = [];
+    try {
+      threatIntel = await lookupThreatIntel([{ type, value: threatIntelValue(type, value) }]);
+    } catch (e) {
+      logger.warn("Threat intel lookup failed", e);
+    }
+
+    const verdict = entityVerdict(type, reputation, threatIntel, parseScoringConfig(RISK_SCORING_CONFIG.value()));
+    return { type, value, ...verdict, reputation, threatIntel };
   }
 );
 
+// ---- Callable: submitVerdictFeedback ----
+// Called when the user says an explainAlert or checkLink verdict was wrong (or right).
+// Stores the verdict, the correction and the on-device signals, never the content (see verdictFeedback.ts).
+export const submitVerdictFeedback = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const feedback = parseCallableRequest<SubmitVerdictFeedbackRequest>(SUBMIT_VERDICT_FEEDBACK_REQUEST, request.data);
+
+    await enforceRateLimit(() => consumeToken("submitVerdictFeedback", request.auth!.uid));
+
+    const { feedbackId, disagreement } = await recordVerdictFeedback(request.auth.uid, feedback);
+    await recordPromptSignal(feedback.kind === "alert" ? "explainAlert" : "checkLink", feedback.promptVersion, disagreement ?? "agreements");
+    return { ok: true, feedbackId, disagreement };
+  }
+);
+
+// ---- Admin Callable: adminExportVerdictFeedback ----
+// Pages through the feedback, oldest first, for retraining the TFLite model and tuning prompts.
+// The first page also carries the disagreement rates per category and domain.
+export const adminExportVerdictFeedback = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 60,
+    memory: "512MiB",
+  },
+  async (request) => {
+    requireAdmin(request.auth);
+    const { since, limit, cursor } =
+      parseCallableRequest<ExportVerdictFeedbackRequest>(EXPORT_VERDICT_FEEDBACK_REQUEST, request.data);
+
+    try {
+      const page = await exportVerdictFeedback({ since, limit, cursor });
+      return cursor ? page : { ...page, stats: await loadFeedbackStats() };
+    } catch (e) {
+      if (e instanceof FeedbackCursorError) {
+        throw new HttpsError("invalid-argument", e.message, { errors: [{ field: "cursor", message: e.message }] });
+      }
+      logger.error("adminExportVerdictFeedback failed", e);
+      throw new HttpsError("internal", "Could not export the feedback.");
+    }
+  }
+);
+
+// ---- Callable: getInsights ----
+// Community trends for InsightsScreen: this ISO week against the last, the tactics and domain
+// patterns rising fastest, and a per-week series (see insights.ts).
+export const getInsights = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+    const { weeks } = parseCallableRequest<GetInsightsRequest>(GET_INSIGHTS_REQUEST, request.data);
+
+    try {
+      return await loadInsights(weeks);
+    } catch (e) {
+      logger.error("Failed to load insights", e);
+      throw new HttpsError("unavailable", "Insights are unavailable, try again later.");
+    }
+  }
+);
+
+// ---- Admin Callable: adminMigrateInsights ----
+// One-off: rewrites insightsWeekly docs written before aggregation keys were encoded and
+// bounded (see migrateWeeklyDoc in insights.ts). Safe to run again.
+export const adminMigrateInsights = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 300,
+    memory: "256MiB",
+  },
+  async (request) => {
+    const uid = requireAdmin(request.auth);
+    try {
+      const result = await migrateAllWeeklyDocs();
+      logger.info(`Migrated ${result.migrated} insights week(s)`, { uid, ...result });
+      return { ok: true, ...result };
+    } catch (e) {
+      logger.error("adminMigrateInsights failed", e);
+      throw new HttpsError("internal", "Could not migrate the insights.");
+    }
+  }
+);
+
+// ---- Admin Callable: adminMigrateNewsStories ----
+// One-off: turns every scam_news article summarized before stories existed into a story (see
+// migrateLegacyArticle in newsStories.ts), so it stays in the digest. Run again until `done`.
+export const adminMigrateNewsStories = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 300,
+    memory: "256MiB",
+  },
+  async (request) => {
+    const uid = requireAdmin(request.auth);
+    try {
+      const result = await migrateLegacyArticles(Date.now() + 240 * 1000);
+      logger.info(`Migrated ${result.migrated} legacy news article(s)`, { uid, ...result });
+      return { ok: true, ...result };
+    } catch (e) {
+      logger.error("adminMigrateNewsStories failed", e);
+      throw new HttpsError("internal", "Could not migrate the news articles.");
+    }
+  }
+);
+
+// ---- Helper: ask Gemini about one prepared link and fuse the answer ----
+async function askGeminiAboutLink(
+  link: PreparedLink, reputation: DomainReputation | null, signals: ScoringInput,
+  scoringConfig: ScoringConfig, targetLang: string, selectedPrompt: SelectedPrompt, deadline: number
+) {
+  const outcome = { id: "checkLink" as const, version: selectedPrompt.version };
+  const { redactions } = redactLinkForModel(link);
+  if (redactions.length > 0) {
+    logger.info("Redacted checkLink input", { redactions });
+  }
+  const started = Date.now();
+  let generated;
+  try {
+    generated = await getLlmProvider().generateJson({
+      task: "checkLink",
+      ...renderPrompt(selectedPrompt, checkLinkPromptVars(link, reputation, targetLang)),
+      deadline,
+    });
+  } catch (e) {
+    await recordPromptOutcome({ ...outcome, latencyMs: Date.now() - started, riskLevel: null, parsed: false });
+    throw e;
+  }
+  const latencyMs = Date.now() - started;
+
+  const { result, parsed } = linkVerdict(link, generated.json, generated.text, signals, reputation, scoringConfig);
+  await recordPromptOutcome({ ...outcome, latencyMs, riskLevel: result.modelRiskLevel, parsed });
+  return { ...result, promptVersion: selectedPrompt.version, redactions };
+}
+
 // ---- Callable: checkLink ----
 // Called from Home -> Manual Link Scan.
 // Uses Gemini 2.5 Flash to analyze URLs for phishing, typosquatting, and scam patterns.
 export const checkLink = onCall(
   {
+    secrets: [SAFE_BROWSING_API_KEY],
     cors: true,
     timeoutSeconds: 30,
     memory: "256MiB",
   },
   async (request) => {
+    const deadline = modelDeadline(Date.now(), 30);
     if (!request.auth) {
       throw new HttpsError("unauthenticated", "Auth required.");
     }
 
-    const data = request.data as any;
-    const url = String(data?.url ?? "").trim();
-    const language = String(data?.language ?? "en");
+    const parsedRequest = parseCallableRequest<CheckLinkRequest>(CHECK_LINK_REQUEST, request.data);
+    const url = parsedRequest.url.trim();
+    const language = parsedRequest.language;
 
     if (!url) {
-      throw new HttpsError("invalid-argument", "URL is required.");
+      throw new HttpsError("invalid-argument", "URL is required.", { errors: [{ field: "url", message: "must not be blank" }] });
     }
 
+    await enforceRateLimit(() => consumeToken("checkLink", request.auth!.uid));
+
     // Language label for Gemini
-    const langLabel: Record<string, string> = {
-      zh: "Simplified Chinese (中文)",
-      ms: "Bahasa Melayu",
-      en: "English",
-    };
-    const targetLang = langLabel[language] ?? "English";
+    const targetLang = languageLabel(language);
+
+    try {
+      const brands = await getBrandRegistry();
+      const selectedPrompt = await selectPrompt("checkLink", request.auth.uid);
+
+      // Popular links are answered from the verdict cache (keyed by normalized URL, language and prompt version).
+      const cacheConfig = parseVerdictCacheConfig(VERDICT_CACHE_CONFIG.value());
+      const normalizedUrl = analyzeUrl(url, { brands }).normalizedUrl;
+      const cacheKey = normalizedUrl ? linkCacheKey(normalizedUrl, language, selectedPrompt.version) : null;
+      if (cacheKey) {
+        const cachedVerdict = await getCachedVerdict(cacheKey, cacheConfig);
+        if (cachedVerdict) {
+          return { ...cachedVerdict, cached: true };
+        }
+      }
+
+      // Offline URL analysis (PSL-aware domain parsing, homographs, shorteners, deceptive paths...)
+      const link = await prepareLink(url, brands);
+
+      // Community reputation: a domain many users reported is flagged without asking Gemini.
+      let reputation: DomainReputation | null = null;
+      if (link.domain) {
+        try {
+          reputation = await getDomainReputation(link.domain);
+        } catch (e) {
+          logger.warn("Reputation lookup failed", e);
+        }
+      }
 
-    const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-    if (!project) {
-      throw new HttpsError("internal", "Missing project id in environment.");
+      // A domain named in a scam warning in the news is flagged on sight.
+      try {
+        link.threatIntel = await lookupThreatIntel(threatIntelLookups(link));
+      } catch (e) {
+        logger.warn("Threat intel lookup failed", e);
+      }
+
+      // Manual scan: the user explicitly asked, so the Lookup API is allowed when the local database isn't ready.
+      let safeBrowsingThreats: string[] | null = null;
+      try {
+        safeBrowsingThreats = safeBrowsingThreatTypes(
+          await safeBrowsingCheck([url, ...link.redirectChain.slice(-1)], SAFE_BROWSING_API_KEY.value(), { allowLookupApi: true })
+        );
+      } catch (e) {
+        logger.warn("SafeBrowsing failed", e);
+      }
+
+      const signals = linkSignals(link, reputation, safeBrowsingThreats);
+      const scoringConfig = parseScoringConfig(RISK_SCORING_CONFIG.value());
+
+      // Hard overrides already decide HIGH: no need to ask Gemini.
+      let result;
+      if (isForcedHigh(signals)) {
+        result = { ...deterministicLinkResult(link, signals, reputation, scoringConfig), promptVersion: null };
+      } else {
+        await enforceRateLimit(() => consumeGeminiBudget(GEMINI_DAILY_BUDGET.value()));
+        result = await askGeminiAboutLink(link, reputation, signals, scoringConfig, targetLang, selectedPrompt, deadline);
+      }
+
+      // Don't cache the "unexpected format" fallback; the next request may get a real answer.
+      if (cacheKey && (result.modelRiskLevel !== null || isForcedHigh(signals))) {
+        await putCachedVerdict(cacheKey, "link", link.domain, result, cacheConfig);
+      }
+      return { ...result, cached: false };
+    } catch (e: any) {
+      if (e instanceof HttpsError) throw e;
+      logger.error("checkLink failed", e);
+      return { ...failedLinkResult(e), promptVersion: null, cached: false };
     }
+  }
+);
+
+// ---- Callable: checkLinks ----
+// Batch link scan for SMS threads and gallery QR sweeps. Heuristics, reputation and a single
+// Safe Browsing request cover every URL; only the ambiguous ones are escalated to Gemini.
+// Returns one result per input URL, in the same order (duplicates share a result).
+const MAX_BATCH_GEMINI_CALLS = 10;
 
+export const checkLinks = onCall(
+  {
+    secrets: [SAFE_BROWSING_API_KEY],
+    cors: true,
+    timeoutSeconds: 120,
+    memory: "512MiB",
+  },
+  async (request) => {
+    // Shared by every model call in the batch: calls that would start too late are decided locally.
+    const deadline = modelDeadline(Date.now(), 120);
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Auth required.");
+    }
+
+    // CHECK_LINKS_REQUEST caps the batch at MAX_BATCH_URLS.
+    const { urls, language } = parseCallableRequest<CheckLinksRequest>(CHECK_LINKS_REQUEST, request.data);
+    const inputs: string[] = urls.map((u) => u.trim());
+
+    await enforceRateLimit(() => consumeToken("checkLinks", request.auth!.uid));
+
+    // Normalize and deduplicate: each distinct URL is analyzed once.
+    const brands = await getBrandRegistry();
+    const selectedPrompt = await selectPrompt("checkLink", request.auth.uid);
+    const normalizedUrls = inputs.map((input) => analyzeUrl(input, { brands }).normalizedUrl);
+    const keys = inputs.map((input, i) => normalizedUrls[i] ?? input);
+    const uniqueKeys = Array.from(new Set(keys));
+
+    // Verdicts already in the cache skip the whole pipeline.
+    const cacheConfig = parseVerdictCacheConfig(VERDICT_CACHE_CONFIG.value());
+    const cacheKeyOf = (key: string) => normalizedUrls.includes(key) ? linkCacheKey(key, language, selectedPrompt.version) : null;
+    const cachedVerdicts = await getCachedVerdicts(
+      uniqueKeys.map(cacheKeyOf).filter((k): k is string => k !== null), cacheConfig
+    );
+    const uncachedKeys = uniqueKeys.filter((key) => {
+      const cacheKey = cacheKeyOf(key);
+      return !cacheKey || !cachedVerdicts.has(cacheKey);
+    });
+    const links = await mapWithConcurrency(uncachedKeys, 5, (key) => prepareLink(inputs[keys.indexOf(key)], brands));
+
+    let reputations = new Map<string, DomainReputation>();
     try {
-      // Also run local heuristic check to give Gemini extra context
-      const heuristic = checkUrlHeuristics(url);
+      reputations = await getDomainReputations(links.map((l) => l.domain).filter((d): d is string => !!d));
+    } catch (e) {
+      logger.warn("Reputation batch lookup failed", e);
+    }
 
-      const ai = new GoogleGenAI({
-        vertexai: true,
-        project,
-        location: VERTEX_LOCATION.value(),
-      });
+    try {
+      const matches = await lookupThreatIntel(links.flatMap(threatIntelLookups));
+      for (const link of links) {
+        const domains = threatIntelLookups(link).map((l) => l.value);
+        link.threatIntel = matches.filter((m) => domains.includes(m.value));
+      }
+    } catch (e) {
+      logger.warn("Threat intel batch lookup failed", e);
+    }
 
-      const system = `
-You are SafeX, an expert cybersecurity and anti-phishing assistant.
-Your job is to analyze a URL and determine if it is safe, suspicious, or dangerous.
-Return ONLY valid JSON. No markdown.
-
-You must analyze the URL by examining:
-1. Domain structure — is it a legitimate domain or does it mimic a known brand (typosquatting)?
-2. TLD — does it use suspicious TLDs (.xyz, .top, .click, .club, .online, .site, .info, .biz, .vip, .pw)?
-3. Subdomain/path patterns — does it use misleading subdomains or paths to impersonate legitimate services?
-4. Brand impersonation — does the domain name closely resemble well-known brands (e.g. maybank, whatsapp, telegram, cimb, rhb, poslaju, shopee, lazada, touchngo)?
-5. Excessive hyphens, random strings, or IP addresses in domain.
-6. Whether the URL structure follows known phishing URL patterns.
-7. Your knowledge of known scam/phishing domains and patterns.
-
-JSON schema:
-{
-  "safe": boolean,
-  "riskLevel": "LOW" | "MEDIUM" | "HIGH",
-  "headline": string,
-  "reasons": string[],
-  "whyFlagged": string[],
-  "whatToDoNow": string[],
-  "whatNotToDo": string[],
-  "category": string,
-  "confidence": number
-}
+    // One Safe Browsing check for every URL and every redirect target.
+    const lookupUrls = Array.from(new Set(links.filter((l) => l.analysis.normalizedUrl).flatMap((l) => [l.url, ...l.redirectChain.slice(-1)])));
+    let threatsByUrl: Map<string, string[]> | null = null;
+    if (lookupUrls.length > 0) {
+      try {
+        const result = await safeBrowsingCheck(lookupUrls, SAFE_BROWSING_API_KEY.value(), { allowLookupApi: true });
+        threatsByUrl = result ? safeBrowsingThreatsByUrl(result, lookupUrls) : null;
+      } catch (e) {
+        logger.warn("SafeBrowsing batch lookup failed", e);
+      }
+    }
 
-Rules:
-- If the URL is from a well-known, legitimate domain (e.g. google.com, maybank2u.com.my, whatsapp.com), set safe=true, riskLevel="LOW".
-- If the URL uses a suspicious TLD, fake brand name, or known phishing pattern, set safe=false, riskLevel="HIGH".
-- If uncertain but something looks off, set safe=false, riskLevel="MEDIUM".
-- Provide clear, actionable explanations in "reasons" and "whyFlagged".
-- Output language: Respond entirely in ${targetLang}.
-`;
-
-      const userPrompt = `Analyze this URL for safety and phishing risk:\n\nURL: ${url}\n\nLocal heuristic analysis: ${JSON.stringify(heuristic)}`;
-
-      const response = await ai.models.generateContent({
-        model: GEMINI_MODEL.value(),
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: userPrompt }],
-          },
-        ],
-        config: {
-          systemInstruction: system,
-          responseMimeType: "application/json",
-        },
-      });
+    const scoringConfig = parseScoringConfig(RISK_SCORING_CONFIG.value());
+    let geminiBudget = MAX_BATCH_GEMINI_CALLS;
+
+    const results = await mapWithConcurrency(links, 4, async (link): Promise<Record<string, any>> => {
+      if (!link.analysis.normalizedUrl) {
+        return { ...invalidLinkResult(link), promptVersion: null, source: "local", cached: false };
+      }
+      const cacheKey = linkCacheKey(link.url, language, selectedPrompt.version);
+
+      const reputation = link.domain ? reputations.get(link.domain) ?? null : null;
+      const safeBrowsingThreats = threatsByUrl ?
+        Array.from(new Set([link.url, ...link.redirectChain.slice(-1)].flatMap((u) => threatsByUrl?.get(u) ?? []))) :
+        null;
+      const signals = linkSignals(link, reputation, safeBrowsingThreats);
+
+      const ambiguous = isAmbiguousLink(link, signals);
+      if (ambiguous && geminiBudget > 0) {
+        geminiBudget--;
+        try {
+          await consumeGeminiBudget(GEMINI_DAILY_BUDGET.value());
+          const result = await askGeminiAboutLink(link, reputation, signals, scoringConfig, languageLabel(language), selectedPrompt, deadline);
+          if (result.modelRiskLevel !== null) {
+            await putCachedVerdict(cacheKey, "link", link.domain, result, cacheConfig);
+          }
+          return { ...result, source: "gemini", cached: false };
+        } catch (e) {
+          // Out of global budget: the rest of the batch is decided locally.
+          if (e instanceof RateLimitError) geminiBudget = 0;
+          logger.warn(`Gemini failed for batch link ${link.url}`, e);
+        }
+      }
+      const result = { ...deterministicLinkResult(link, signals, reputation, scoringConfig), promptVersion: null };
+      // An ambiguous link that missed Gemini (budget or error) gets a weaker verdict: don't cache it.
+      if (!ambiguous) {
+        await putCachedVerdict(cacheKey, "link", link.domain, result, cacheConfig);
+      }
+      return { ...result, source: "local", cached: false };
+    });
 
-      // Strip markdown fences if Gemini wraps the JSON anyway
-      let text = (response.text ?? "").trim();
-      text = text.replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "").trim();
+    const byKey = new Map<string, Record<string, any>>(uncachedKeys.map((key, i) => [key, results[i]]));
+    for (const key of uniqueKeys) {
+      const cacheKey = cacheKeyOf(key);
+      const cachedVerdict = cacheKey ? cachedVerdicts.get(cacheKey) : undefined;
+      if (cachedVerdict) byKey.set(key, { ...cachedVerdict, source: "cache", cached: true });
+    }
+    return {
+      results: inputs.map((input, i) => ({
+        input,
+        url: keys[i],
+        duplicate: keys.indexOf(keys[i]) !== i,
+        ...byKey.get(keys[i]),
+      })),
+    };
+  }
+);
 
+// ---- Admin Callable: adminUpsertBrand ----
+// Adds a brand to the registry or edits one (partial fields are merged over the current entry).
+// Set `active: false` to disable a brand, including a built-in one.
+export const adminUpsertBrand = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    const uid = requireAdmin(request.auth);
+
+    try {
+      const brand = await upsertBrand(request.data);
+      logger.info(`Brand registry updated: ${brand.id}`, { uid });
+      // Official domains and look-alike rules changed: no cached verdict can be trusted.
       try {
-        const parsed = JSON.parse(text);
-        return {
-          safe: parsed.safe ?? false,
-          riskLevel: parsed.riskLevel ?? "MEDIUM",
-          headline: parsed.headline ?? "Analysis complete",
-          reasons: parsed.reasons ?? [],
-          whyFlagged: parsed.whyFlagged ?? [],
-          whatToDoNow: parsed.whatToDoNow ?? [],
-          whatNotToDo: parsed.whatNotToDo ?? [],
-          category: parsed.category ?? "unknown",
-          confidence: parsed.confidence ?? 0.5,
-        };
+        await invalidateAllVerdicts();
       } catch (e) {
-        logger.error("Gemini returned non-JSON for checkLink", { text });
-        return {
-          safe: false,
-          riskLevel: "MEDIUM",
-          headline: "Could not fully analyze URL",
-          reasons: ["AI analysis returned an unexpected format. Treat with caution.", `Raw: ${text.substring(0, 200)}`],
-          whyFlagged: ["Analysis format error"],
-          whatToDoNow: ["Do not click the link until verified.", "Ask someone you trust."],
-          whatNotToDo: ["Do not enter any personal information."],
-          category: "unknown",
-          confidence: 0.3,
-        };
+        logger.warn("Verdict cache invalidation failed", e);
       }
+      return { ok: true, brand };
     } catch (e: any) {
-      logger.error("checkLink failed", e);
-      return {
-        safe: false,
-        riskLevel: "MEDIUM",
-        headline: "Could not fully verify URL",
-        reasons: ["Analysis encountered an error. Treat with caution.", `Details: ${e?.message ?? String(e)}`],
-        whyFlagged: [],
-        whatToDoNow: ["Do not click the link.", "Try again later."],
-        whatNotToDo: ["Do not enter any personal info on unknown sites."],
-        category: "unknown",
-        confidence: 0.3,
-      };
+      if (e instanceof BrandValidationError) {
+        throw new HttpsError("invalid-argument", e.message);
+      }
+      logger.error("adminUpsertBrand failed", e);
+      throw new HttpsError("internal", "Could not update the brand registry.");
     }
   }
 );
 
+// ---- Admin Callable: adminListBrands ----
+export const adminListBrands = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    requireAdmin(request.auth);
+    const brands = await getBrandRegistry(true);
+    return { brands: brands.sort((a, b) => a.id.localeCompare(b.id)) };
+  }
+);
+
 // ---- Shared Scraping Logic ----
-async function scrapeAndProcessNews(region: string = "GLOBAL", customUrl?: string) {
-  const db = admin.firestore();
-  const newsColl = db.collection("scam_news");
+// Fetches every source of a region (see newsSources.ts) and processes the articles found.
+// Each source's outcome is recorded in `news_sources`. With a `deadline` (an interactive caller),
+// stories not summarized by then are left to the scheduled run.
+async function scrapeAndProcessNews(region = "GLOBAL", deadline?: number) {
+  const now = Date.now();
+  const regionSources = sourcesForRegion(parseNewsSources(NEWS_SOURCES.value()), region);
+  const fetched = await Promise.all(regionSources.map((src) => fetchNewsSource(src)));
+
+  // The same URL often appears in several feeds: keep the first copy.
+  const articles: ScrapedArticle[] = [];
+  const seenUrls = new Set<string>();
+  for (const result of fetched) {
+    for (const item of result.items) {
+      if (seenUrls.has(item.link)) continue;
+      seenUrls.add(item.link);
+      articles.push(scrapedArticle(item, result.source, now));
+    }
+  }
 
-  const query = buildNewsQuery(region);
-  const searchUrl = customUrl || `https://news.google.com/rss/search?q=${encodeURIComponent(query)}+when:30d&hl=en-US&gl=US&ceid=US:en`;
+  const outcomes = await processNewsArticles(region, articles, now, deadline);
 
-  let articles: any[] = [];
-  try {
-    const res = await fetch(searchUrl, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 SafeXBot/1.0",
-        "Accept": "application/rss+xml, application/xml"
-      },
-      signal: AbortSignal.timeout(20000)
-    });
+  const newCounts = new Map<string, number>();
+  for (const article of articles) {
+    if (outcomes.get(article.id) === "skipped") continue;
+    newCounts.set(article.source.id, (newCounts.get(article.source.id) ?? 0) + 1);
+  }
+  await Promise.all(fetched.map((r) => recordSourceStatus(r, newCounts.get(r.source.id) ?? 0)));
+}
 
-    if (res.ok) {
-      const xml = await res.text();
-      const itemRegex = /<item>([\s\S]*?)<\/item>/g;
-      let match;
-      const limit = customUrl ? 250 : 100;
-
-      while ((match = itemRegex.exec(xml)) !== null) {
-        if (articles.length >= limit) break;
-        const chunk = match[1];
-
-        const titleMatch = chunk.match(/<title>(.*?)<\/title>/);
-        const linkMatch = chunk.match(/<link>(.*?)<\/link>/);
-        const dateMatch = chunk.match(/<pubDate>(.*?)<\/pubDate>/);
-        const sourceMatch = chunk.match(/<source.*?url="([^"]*)">(.*?)<\/source>/);
-
-        if (titleMatch && linkMatch) {
-          articles.push({
-            title: titleMatch[1].trim()
-              .replace(/&apos;/g, "'")
-              .replace(/&amp;/g, "&")
-              .replace(/&quot;/g, '"')
-              .replace(/&lt;/g, "<")
-              .replace(/&gt;/g, ">"),
-            url: linkMatch[1].trim(),
-            seendate: dateMatch ? dateMatch[1].trim() : new Date().toUTCString(),
-            domain: sourceMatch ? sourceMatch[1].trim() : "",
-            sourceName: sourceMatch ? sourceMatch[2].trim() : "News Provider",
-          });
-        }
+// ---- Shared Processing Logic ----
+// Clusters the articles not seen before into stories (see storyClustering.ts). Only the first
+// article of a new story is screened and summarized by Gemini, which also extracts the scam's
+// indicators into `threat_intel` (see threatIntel.ts); articles joining a known story are just
+// listed as its sources. Returns every article's outcome. Failed articles are not stored, so
+// the next run tries them again.
+interface ScrapedArticle {
+  id: string;
+  item: FeedItem;
+  source: NewsSource;
+  storySource: StorySource;
+  signature: StorySignature;
+}
+
+// New stories summarized in parallel by one run.
+const NEWS_CONCURRENCY = 4;
+
+function scrapedArticle(item: FeedItem, source: NewsSource, now: number): ScrapedArticle {
+  const sourceName = item.sourceName ?? source.name;
+  return {
+    id: Buffer.from(item.link).toString('base64').replace(/\//g, '_').slice(0, 200),
+    item,
+    source,
+    storySource: {
+      url: item.link,
+      domain: item.sourceUrl ?? new URL(item.link).origin,
+      sourceName,
+      title: item.title,
+      seenDate: new Date(item.publishedAt ?? now).toUTCString(),
+    },
+    signature: storySignature(item.title, item.description, item.publishedAt ?? now, sourceName),
+  };
+}
+
+async function processNewsArticles(
+  region: string, articles: ScrapedArticle[], now: number = Date.now(), deadline?: number
+): Promise<Map<string, NewsArticleOutcome>> {
+  const db = admin.firestore();
+  const newsColl = db.collection(NEWS_COLLECTION);
+  const outcomes = new Map<string, NewsArticleOutcome>();
+  const settle = (members: ScrapedArticle[], outcome: NewsArticleOutcome) => members.forEach((m) => outcomes.set(m.id, outcome));
+
+  // Skip URLs processed before. Articles summarized before stories existed become stories now.
+  const snaps = articles.length ? await db.getAll(...articles.map((a) => newsColl.doc(a.id))) : [];
+  const fresh: ScrapedArticle[] = [];
+  await Promise.all(articles.map(async (article, i) => {
+    const snap = snaps[i];
+    if (!snap.exists) {
+      fresh.push(article);
+      return;
+    }
+    outcomes.set(article.id, "skipped");
+    if (isLegacyArticle(snap.data())) {
+      try {
+        await migrateLegacyArticle(snap, region);
+      } catch (e) {
+        logger.warn(`Failed to migrate legacy article ${snap.id}`, e);
       }
-    } else {
-      logger.error(`News fetch returned ${res.status} ${res.statusText}`);
     }
+  }));
+
+  if (fresh.length === 0) return outcomes;
+
+  let clusters: StoryCluster<ScrapedArticle>[];
+  try {
+    clusters = clusterArticles(fresh, (a) => a.signature, await loadRecentStories(region, now));
   } catch (e) {
-    logger.error("News fetch failed", e);
-  }
-
-  if (articles.length === 0) return;
-
-  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
-  if (!project) {
-    logger.error("Missing project id.");
-    return;
-  }
-
-  const ai = new GoogleGenAI({ vertexai: true, project, location: VERTEX_LOCATION.value() });
-
-  await Promise.all(articles.map(async (article: any) => {
-    const url = article.url;
-    if (!url) return;
-
-    const id = Buffer.from(url).toString('base64').replace(/\//g, '_').slice(0, 200);
-    const docRef = newsColl.doc(id);
-
-    const docSnap = await docRef.get();
-    if (docSnap.exists) return;
-
-    const title = article.title;
-    const domain = article.domain;
-    const imageUrl = article.socialimage || "";
-    const seenDate = article.seendate;
-
-    const prompt = `
-      Task: 
-      1. Evaluate if this news article is about a scam targeting INDIVIDUALS through their PHONES, SMS, MESSENGING APPS (WhatsApp, Telegram, etc.), SOCIAL MEDIA, or PHONE CALLS.
-      - Examples of ACCEPTED scams: fake apps, banking trojans on Android/iOS, SMS phishing (smishing), WhatsApp job scams, investment groups on Telegram, impersonation calls, romance scams via dating apps.
-      - IF the article is about corporate fraud, company lawsuits, B2B issues, CEO crimes, political news, general cybersecurity (like server hacks), or scams that DO NOT involve mobile phones/apps, you MUST reject it.
-      
-      2. IF you accept it, generate IN ENGLISH:
-      - A concise title.
-      - A helpful 2-sentence anti-scam summary.
-      - 2-3 bullet points of preventative warnings or tips specifically related to this type of scam.
-      
-      Input:
-      Title: ${title}
-      Source: ${domain}
-      
-      Output ONLY valid JSON:
-      {
-        "reject": boolean,
-        "title": "string (or empty if rejected)",
-        "summary": "string (or empty if rejected)",
-        "warningsAndTips": "string (bullet points starting with •, or empty if rejected)"
+    logger.error(`Failed to load recent ${region} stories`, e);
+    settle(fresh, "failed");
+    return outcomes;
+  }
+
+  // One small doc per article URL; accepted ones point to their story.
+  const saveMembers = async (storyId: string, members: ScrapedArticle[]) => {
+    const batch = db.batch();
+    for (const { id, item, source, storySource } of members) {
+      batch.set(newsColl.doc(id), {
+        ...storySource,
+        rejected: false,
+        storyId,
+        sourceId: source.id,
+        imageUrl: item.imageUrl ?? "",
+        region,
+        createdAt: now,
+      });
+    }
+    await batch.commit();
+  };
+
+  let llm: LlmProvider | null = null;
+  const newStories = clusters.filter((c) => c.storyId === null);
+  if (newStories.length > 0) {
+    try {
+      llm = getLlmProvider();
+    } catch (e) {
+      logger.error("LLM provider unavailable, new stories are skipped until the next run", e);
+    }
+  }
+
+  await mapWithConcurrency(clusters, NEWS_CONCURRENCY, async ({ storyId, members }) => {
+    if (storyId) {
+      try {
+        await addStorySources(storyId, members.map((m) => m.storySource), now);
+        await saveMembers(storyId, members);
+        settle(members, "accepted");
+        logger.info(`${members.length} more source(s) for story ${storyId}`);
+      } catch (e) {
+        settle(members, "failed");
+        logger.warn(`Failed to add sources to story ${storyId}`, e);
       }
-    `;
+      return;
+    }
+    // No model call fits before the caller's deadline: the story waits for the next run.
+    if (!llm || attemptTimeoutMs(Infinity, deadline, Date.now()) === null) {
+      settle(members, "failed");
+      return;
+    }
+
+    const representative = members[0];
+    const { item, storySource } = representative;
+    const title = item.title;
+
+    // Articles are bucketed by the representative's ID for prompt experiments.
+    const selectedPrompt = await selectPrompt("newsDigest", representative.id);
+    const started = Date.now();
+    let outcomeRecorded = false;
+    const recordOutcome = async (parsed: boolean) => {
+      outcomeRecorded = true;
+      await recordPromptOutcome({ id: "newsDigest", version: selectedPrompt.version, latencyMs: Date.now() - started, riskLevel: null, parsed });
+    };
 
     try {
-      const resp = await ai.models.generateContent({
-        model: GEMINI_MODEL.value(),
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        config: { responseMimeType: "application/json" }
+      const { json } = await llm.generateJson({
+        task: "newsDigest",
+        deadline,
+        // Feed titles are third-party text: instructions aimed at the model are stripped, but phone
+        // numbers and accounts stay, since they are the indicators extracted below.
+        ...renderPrompt(selectedPrompt, {
+          title: guardPromptInjection(title).text, source: storySource.sourceName, domain: storySource.domain,
+          categories: NEWS_CATEGORIES.join(", "),
+        }),
       });
-
-      const result = JSON.parse(resp.text ?? "{}");
+      const repaired = repairToSchema<NewsDigestModelOutput>(NEWS_DIGEST_MODEL_OUTPUT, json, NEWS_DIGEST_MODEL_FALLBACK);
+      await recordOutcome(!repaired.replaced);
+      if (repaired.replaced) throw new Error("Model output does not match the news digest schema");
+      const result = repaired.value;
 
       if (result.reject === true) {
-        logger.info(`Rejected irrelevant news: ${title}`);
-        await docRef.set({ rejected: true, createdAt: Date.now() });
+        logger.info(`Rejected irrelevant news (${members.length} article(s)): ${title}`);
+        const batch = db.batch();
+        for (const m of members) batch.set(newsColl.doc(m.id), { rejected: true, createdAt: now });
+        await batch.commit();
+        settle(members, "rejected");
         return;
       }
 
-      const finalObj = {
-        url,
+      // The representative's article ID doubles as the story ID.
+      await createStory(representative.id, region, {
         title: result.title || title,
         summary: result.summary || "No summary available.",
         warningsAndTips: result.warningsAndTips || "• Be careful.\n• Do not share personal information.",
-        domain,
-        seenDate,
-        imageUrl,
-        region,
-        createdAt: Date.now()
-      };
-
-      await docRef.set(finalObj);
-      logger.info(`Saved new verified scam news: ${finalObj.title}`);
+        category: result.category ?? "Other",
+        imageUrl: members.map((m) => m.item.imageUrl).find((u) => u) ?? "",
+        promptVersion: selectedPrompt.version,
+      }, representative.signature, members.map((m) => m.storySource), now);
+      await saveMembers(representative.id, members);
+      settle(members, "accepted");
+      logger.info(`Saved new verified scam story (${members.length} source(s)): ${result.title || title}`);
+
+      if (result.indicators?.length) {
+        const recorded = await recordIndicators(result.indicators, {
+          category: result.category ?? "Other",
+          region,
+          source: {
+            url: storySource.url, storyId: representative.id, title: storySource.title,
+            sourceName: storySource.sourceName, seenDate: storySource.seenDate,
+          },
+        }, await getBrandRegistry());
+        logger.info(`Recorded ${recorded} threat indicator(s) from story ${representative.id}`);
+      }
     } catch (e) {
-      logger.warn(`AI processing failed for ${url}`, e);
+      if (!outcomeRecorded) await recordOutcome(false);
+      // Accepted stories keep their outcome when only the threat intel step failed.
+      for (const m of members) if (!outcomes.has(m.id)) outcomes.set(m.id, "failed");
+      logger.warn(`AI processing failed for ${storySource.url}`, e);
     }
-  }));
+  });
+
+  return outcomes;
 }
 
 // ---- Background Worker: Runs continuously every 1 hour ----
 export const periodicScamNewsScraper = onSchedule(
   {
     schedule: "every 1 hours",
-    timeoutSeconds: 300, // Increased timeout given higher volume
+    timeoutSeconds: 540, // Every region and source in one run
     memory: "512MiB",
   },
   async (event) => {
     logger.info("Starting background periodic scam news scraper...");
-    await scrapeAndProcessNews("GLOBAL");
+    // One region at a time: an article found by several regions is processed only once.
+    for (const region of NEWS_REGIONS) {
+      await scrapeAndProcessNews(region);
+    }
     logger.info("Finished background periodic scam news scraper.");
   }
 );
 
-// ---- One-Time Backfill Trigger (via HTTP URL) ----
-export const backfillHistoricalScams = onRequest(
+// ---- Admin Callable: adminStartNewsBackfill ----
+// Queues a long window of Google News (default: 3 years) as a backfill job; newsBackfillWorker
+// processes it in chunks. Starting the same backfill while it runs returns the running job.
+export const adminStartNewsBackfill = onCall(
   {
+    cors: true,
+    timeoutSeconds: 60,
+    memory: "512MiB",
+  },
+  async (request) => {
+    const uid = requireAdmin(request.auth);
+    const { region, window, maxItems } =
+      parseCallableRequest<StartNewsBackfillRequest>(START_NEWS_BACKFILL_REQUEST, request.data);
+
+    try {
+      const running = await findRunningBackfillJob(region, window);
+      if (running) return backfillJobResponse(running, true);
+
+      const now = Date.now();
+      const fetched = await fetchNewsSource(backfillSource(region, window, maxItems));
+      const items = fetched.items.map((item) => scrapedArticle(item, fetched.source, now));
+      const job = await createBackfillJob(
+        { region, window, createdBy: uid },
+        items.map(({ id, item, source }) => ({ id, item, source })),
+        fetched.ok ? null : fetched.error ?? "Feed could not be fetched",
+        now
+      );
+      logger.info(`News backfill ${job.jobId} queued ${job.total} article(s)`, { uid, region, window, status: job.status });
+      return backfillJobResponse(job, false);
+    } catch (e) {
+      logger.error("adminStartNewsBackfill failed", e);
+      throw new HttpsError("internal", "Could not start the backfill.");
+    }
+  }
+);
+
+// ---- Admin Callable: adminGetNewsBackfillStatus ----
+export const adminGetNewsBackfillStatus = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    requireAdmin(request.auth);
+    const { jobId } = parseCallableRequest<GetNewsBackfillStatusRequest>(GET_NEWS_BACKFILL_STATUS_REQUEST, request.data);
+
+    const job = await getBackfillJob(jobId);
+    if (!job) throw new HttpsError("not-found", jobId ? `No backfill job ${jobId}.` : "No backfill job yet.");
+    return backfillJobResponse(job);
+  }
+);
+
+function backfillJobResponse(job: BackfillJob, existing?: boolean) {
+  const progress = job.total > 0 ? Math.round((job.processed / job.total) * 1000) / 1000 : 1;
+  return existing === undefined ? { ...job, progress } : { ...job, progress, existing };
+}
+
+// ---- Background Worker: processes backfill jobs ----
+// Each run takes the lease of one running job and works through its queue chunk by chunk,
+// recording the counts after every chunk. It stops well before its own timeout; the next run
+// resumes with the items still pending, and retries the ones that failed.
+const BACKFILL_CHUNK_SIZE = 20;
+const BACKFILL_TIME_BUDGET_MS = 420 * 1000;
+
+export const newsBackfillWorker = onSchedule(
+  {
+    schedule: "every 5 minutes",
     timeoutSeconds: 540,
     memory: "1GiB",
   },
-  async (req, res) => {
-    logger.info("Starting massive historical backfill via Google News...");
-    const query = buildNewsQuery("GLOBAL");
+  async () => {
+    const startedAt = Date.now();
+    const jobId = await claimBackfillJob(startedAt);
+    if (!jobId) return;
 
-    // Grabs max records from the past 3 years.
-    const searchUrl = `https://news.google.com/rss/search?q=${encodeURIComponent(query)}+when:3y&hl=en-US&gl=US&ceid=US:en`;
+    try {
+      const job = await getBackfillJob(jobId);
+      if (!job) return;
+      const retries = await requeueBackfillRetries(jobId);
+      logger.info(`Resuming news backfill ${jobId}: ${job.processed}/${job.total} processed, ${retries} retried`);
+
+      while (Date.now() - startedAt < BACKFILL_TIME_BUDGET_MS) {
+        const items = await nextBackfillItems(jobId, BACKFILL_CHUNK_SIZE);
+        const now = Date.now();
+        const outcomes = await processNewsArticles(
+          job.region, items.map((i) => scrapedArticle(i.item, i.source, now)), now
+        );
+        // Every item gets an outcome, so the queue always shrinks; failures wait for the next run.
+        const progress = await recordBackfillChunk(jobId, new Map(items.map((i) => [i.id, outcomes.get(i.id) ?? "failed"])), now);
+        if (progress.status !== "running") {
+          logger.info(`News backfill ${jobId} completed`, progress);
+          return;
+        }
+        if (items.length === 0) break;
+      }
+      logger.info(`News backfill ${jobId} paused, the next run resumes it`);
+    } catch (e) {
+      logger.error(`News backfill ${jobId} failed, the next run retries`, e);
+    } finally {
+      await releaseBackfillJob(jobId);
+    }
+  }
+);
+
+// ---- Background Worker: keeps the local Safe Browsing database current ----
+// Runs often, but only calls Google once the minimum wait it asked for has passed (see safeBrowsingUpdate.ts).
+export const safeBrowsingListUpdater = onSchedule(
+  {
+    schedule: "every 10 minutes",
+    secrets: [SAFE_BROWSING_API_KEY],
+    timeoutSeconds: 300,
+    memory: "1GiB",
+  },
+  async () => {
+    try {
+      if (await updateSafeBrowsingLists(SAFE_BROWSING_API_KEY.value())) {
+        logger.info("Safe Browsing lists updated");
+      }
+    } catch (e) {
+      logger.error("Safe Browsing list update failed, the next run retries", e);
+    }
+  }
+);
+
+// ---- Background Worker: flags trending scams and queues (or publishes) topic warnings ----
+export const trendingScamDetector = onSchedule(
+  {
+    schedule: "every 3 hours",
+    timeoutSeconds: 120,
+    memory: "512MiB",
+  },
+  async () => {
+    const mode = parseTrendAlertMode(TREND_ALERT_MODE.value());
+    if (mode === "off") return;
+    try {
+      const now = Date.now();
+      const expired = await expireTrendAlerts(now);
+      const spikes = await detectTrends(now);
+      const { created, published } = await recordTrendAlerts(spikes, mode, now);
+      logger.info(`Trending scams: ${spikes.length} spike(s), ${created.length} new alert(s), ${published.length} published`, {
+        mode, expired, created, published,
+      });
+    } catch (e) {
+      logger.error("Trending scam detection failed, the next run retries", e);
+    }
+  }
+);
 
-    await scrapeAndProcessNews("GLOBAL", searchUrl);
+// ---- Admin Callable: adminListTrendAlerts ----
+export const adminListTrendAlerts = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 15,
+    memory: "256MiB",
+  },
+  async (request) => {
+    requireAdmin(request.auth);
+    const { status, limit } = parseCallableRequest<ListTrendAlertsRequest>(LIST_TREND_ALERTS_REQUEST, request.data);
+    return { alerts: await listTrendAlerts(status, limit) };
+  }
+);
+
+// ---- Admin Callable: adminReviewTrendAlert ----
+// "approve" publishes a pending alert to its topics now (regardless of the topic cooldown);
+// "reject" drops it.
+export const adminReviewTrendAlert = onCall(
+  {
+    cors: true,
+    timeoutSeconds: 30,
+    memory: "256MiB",
+  },
+  async (request) => {
+    const uid = requireAdmin(request.auth);
+    const { alertId, action } = parseCallableRequest<ReviewTrendAlertRequest>(REVIEW_TREND_ALERT_REQUEST, request.data);
 
-    logger.info("Historical backfill complete.");
-    res.send({ success: true, message: "Historical 3y backfill complete via Google News!" });
+    try {
+      const alert = await reviewTrendAlert(alertId, action, uid);
+      logger.info(`Trend alert ${alertId}: ${action} by ${uid}`, { status: alert?.status });
+      return { alert };
+    } catch (e) {
+      if (e instanceof TrendAlertNotFoundError) throw new HttpsError("not-found", e.message);
+      if (e instanceof TrendAlertStateError) throw new HttpsError("failed-precondition", e.message);
+      logger.error("adminReviewTrendAlert failed", e);
+      throw new HttpsError("internal", "Could not review the trend alert.");
+    }
   }
 );
 
 // ---- Callable: getScamNewsDigest ----
-// Returns the incredibly fast, pre-processed Master English articles from Firestore.
+// Pages through the stories in Firestore (see newsDigest.ts), filtered by region and optionally
+// scam category, in the user's language (en/ms/zh). Each story lists the outlets that reported it.
 export const getScamNewsDigest = onCall(
   {
     secrets: [],
@@ -683,38 +1307,31 @@ export const getScamNewsDigest = onCall(
     memory: "256MiB",
   },
   async (request) => {
+    const deadline = modelDeadline(Date.now(), 20);
     if (!request.auth) throw new HttpsError("unauthenticated", "Auth required.");
 
-    const data = request.data as any;
-    const region = String(data?.region ?? "GLOBAL");
-
-    const db = admin.firestore();
-    const newsColl = db.collection("scam_news");
+    const { region, category, language, pageSize, cursor } =
+      parseCallableRequest<GetScamNewsDigestRequest>(GET_SCAM_NEWS_DIGEST_REQUEST, request.data);
+    const lang = newsLanguage(language);
 
     try {
-      let snapshot = await newsColl.orderBy("createdAt", "desc").limit(30).get();
-      let validNews = snapshot.docs.map(d => d.data()).filter(d => d.rejected !== true);
-
-      // If the database is completely empty (first run), force an emergency synchronous scrape
-      if (validNews.length === 0) {
-        logger.info("Database empty, performing emergency synchronous scrape.");
-        await scrapeAndProcessNews(region);
-        snapshot = await newsColl.orderBy("createdAt", "desc").limit(30).get();
-        validNews = snapshot.docs.map(d => d.data()).filter(d => d.rejected !== true);
+      let page = await queryNewsPage({ region, category, pageSize, cursor });
+
+      // If the region has no stories yet (first run), force an emergency synchronous scrape
+      if (!cursor && page.docs.length === 0 && await isRegionEmpty(region)) {
+        logger.info(`No ${region} stories yet, performing emergency synchronous scrape.`);
+        await scrapeAndProcessNews(region, deadline);
+        page = await queryNewsPage({ region, category, pageSize, cursor });
       }
 
-      return { articles: validNews.slice(0, 3) };
+      const stories = await localizeNewsStories(getLlmProvider, page.docs, lang, GEMINI_DAILY_BUDGET.value(), deadline);
+      return { stories, nextCursor: page.nextCursor };
     } catch (e) {
-      logger.error("Failed to query scam_news", e);
-      return { articles: [] };
+      if (e instanceof NewsCursorError) {
+        throw new HttpsError("invalid-argument", e.message, { errors: [{ field: "cursor", message: e.message }] });
+      }
+      logger.error("Failed to query scam_stories", e);
+      return { stories: [], nextCursor: null };
     }
   }
 );
-
-function buildNewsQuery(region: string): string {
-  const baseKeywords = '("sms scam" OR "whatsapp scam" OR "fake app" OR "android trojan" OR "scam call" OR "telegram scam" OR "smishing" OR "job scam" OR "love scam" OR "investment scam" OR "kk farm" OR "pig butchering" OR "impersonation scam") -"corporate" -"CEO" -"B2B" -"audit" -"lawsuit"';
-  if (region === "ASIA") {
-    return `${baseKeywords} (Malaysia OR Singapore OR Indonesia OR Thailand OR Philippines OR Asia OR sourcecountry:MY OR sourcecountry:SG)`;
-  }
-  return baseKeywords;
-}
@@ -0,0 +1,361 @@
+import * as admin from "firebase-admin";
+import { NEWS_CATEGORIES, NewsCategory } from "./contracts";
+import {
+  boundCounters, decodeAggregationKey, encodeAggregationKey, fitsInMap, OVERFLOW_KEY, shardOf,
+} from "./aggregationKeys";
+
+// ---- Community insights ----
+// reportAlert counts every report in `insightsWeekly/{weekId}`, one doc per ISO 8601 week
+// (UTC), e.g. "2026-W05". getInsights reads the last few weeks and turns the raw counters into
+// what InsightsScreen shows: week-over-week deltas, the tactics and domain patterns rising
+// fastest, and a per-week time series. Categories are normalized to the scam taxonomy the
+// explainAlert prompt uses (NEWS_CATEGORIES), both when counting and when reading older docs.
+
+export const INSIGHTS_COLLECTION = "insightsWeekly";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rising tactics and domain patterns returned per list.
+const MAX_RISING = 5;
+
+// ---- Helper: ISO 8601 week calendar ----
+// Weeks start on Monday; week 1 is the week with the year's first Thursday, so 2027-01-01
+// (a Friday) belongs to 2026-W53 and 2024-12-30 (a Monday) to 2025-W01.
+export function isoWeek(date: Date): { year: number; week: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - weekday); // the Thursday of this week decides the year
+  const year = d.getUTCFullYear();
+  const week = Math.floor((d.getTime() - Date.UTC(year, 0, 1)) / DAY_MS / 7) + 1;
+  return { year, week };
+}
+
+export function isoWeekId(date: Date): string {
+  const { year, week } = isoWeek(date);
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+// Monday (UTC) of an ISO week, as YYYY-MM-DD; null for a malformed ID.
+export function isoWeekStart(weekId: string): string | null {
+  const m = /^(\d{4})-W(\d{2})$/.exec(weekId);
+  if (!m) return null;
+  const jan4 = new Date(Date.UTC(Number(m[1]), 0, 4));
+  const monday = jan4.getTime() - ((jan4.getUTCDay() || 7) - 1) * DAY_MS + (Number(m[2]) - 1) * 7 * DAY_MS;
+  return new Date(monday).toISOString().slice(0, 10);
+}
+
+// The `count` weeks up to and including the one containing `now`, oldest first.
+export function recentWeekIds(now: number, count: number): string[] {
+  const ids: string[] = [];
+  for (let i = count - 1; i >= 0; i--) ids.push(isoWeekId(new Date(now - i * 7 * DAY_MS)));
+  return ids;
+}
+
+// ---- Helper: map a reported category onto the taxonomy ----
+// The app sends its own heuristic labels ("Impersonation", "unknown") as well as Gemini's.
+const CATEGORY_ALIASES: Record<string, NewsCategory> = {
+  "impersonation": "Impersonation Scam",
+  "macau scam": "Impersonation Scam",
+  "romance scam": "Love Scam",
+  "romance": "Love Scam",
+  "smishing": "Phishing",
+  "ecommerce scam": "E-commerce Scam",
+  "online shopping scam": "E-commerce Scam",
+  "human trafficking": "KK Farm Scam",
+  "kk farm": "KK Farm Scam",
+};
+
+export function normalizeScamCategory(raw: unknown): NewsCategory {
+  const key = typeof raw === "string" ? raw.trim().toLowerCase().replace(/\s+/g, " ") : "";
+  if (!key) return "Other";
+  const exact = NEWS_CATEGORIES.find((c) => c.toLowerCase() === key || c.toLowerCase() === `${key} scam`);
+  return exact ?? CATEGORY_ALIASES[key] ?? "Other";
+}
+
+// The signals the app's heuristic engine reports as tactics (NotificationTriageEngine). Only
+// these are counted per reporter, for trend detection: other tactics are free text.
+export const TREND_TACTICS = [
+  "credential", "money_transfer", "account_threat", "legal_threat", "delivery_scam", "job_scam", "suspicious_url", "typosquat_url",
+] as const;
+export type TrendTactic = typeof TREND_TACTICS[number];
+
+export const isTrendTactic = (tactic: string): tactic is TrendTactic => (TREND_TACTICS as readonly string[]).includes(tactic);
+
+// ---- Write path: one report ----
+// Counters are written as nested maps under encoded keys (see aggregationKeys.ts). Each map is
+// capped; domain patterns past the cap are counted in sharded docs of the week's
+// `domainPatternShards` subcollection (capped too), and in the overflow bucket of the week doc.
+// New week docs get the current schemaVersion, so the migration below leaves them alone.
+// `newReporter` (the user's first report this week) also counts the report under `reporters`:
+// reporters per category and per TREND_TACTICS tactic, which no single user can inflate.
+const MAX_TACTIC_KEYS = 50;
+const MAX_DOMAIN_PATTERN_KEYS = 100;
+const DOMAIN_PATTERN_SHARDS = 10;
+const MAX_SHARD_KEYS = 500;
+const SCHEMA_VERSION = 2;
+
+const weekDoc = (weekId: string) => admin.firestore().collection(INSIGHTS_COLLECTION).doc(weekId);
+const shardDoc = (weekId: string, key: string) =>
+  weekDoc(weekId).collection("domainPatternShards").doc(shardOf(key, DOMAIN_PATTERN_SHARDS));
+
+export async function recordWeeklyReport(
+  report: { category: string; tactics: string[]; domainPattern: string | null; newReporter?: boolean }, now: number = Date.now()
+): Promise<string> {
+  const weekId = isoWeekId(new Date(now));
+  const db = admin.firestore();
+  const inc = admin.firestore.FieldValue.increment(1);
+
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(weekDoc(weekId));
+    const tacticKeys = new Set(Object.keys(snap.get("tactics") ?? {}));
+    const patternKeys = new Set(Object.keys(snap.get("domainPatterns") ?? {}));
+    const pattern = encodeAggregationKey(report.domainPattern);
+    const shardSnap = pattern && !fitsInMap(pattern, patternKeys, MAX_DOMAIN_PATTERN_KEYS) ?
+      await tx.get(shardDoc(weekId, pattern)) :
+      null;
+
+    const tactics: Record<string, admin.firestore.FieldValue> = {};
+    for (const t of report.tactics.slice(0, 8)) {
+      const key = encodeAggregationKey(t);
+      if (!key) continue;
+      const bucket = fitsInMap(key, tacticKeys, MAX_TACTIC_KEYS) ? key : OVERFLOW_KEY;
+      tacticKeys.add(bucket);
+      tactics[bucket] = inc;
+    }
+
+    const domainPatterns: Record<string, admin.firestore.FieldValue> = {};
+    if (pattern && !shardSnap) {
+      domainPatterns[pattern] = inc;
+    } else if (pattern && shardSnap) {
+      domainPatterns[OVERFLOW_KEY] = inc;
+      const shardKey = fitsInMap(pattern, new Set(Object.keys(shardSnap.get("counts") ?? {})), MAX_SHARD_KEYS) ? pattern : OVERFLOW_KEY;
+      tx.set(shardSnap.ref, { counts: { [shardKey]: inc } }, { merge: true });
+    }
+
+    const reporterTactics: Record<string, admin.firestore.FieldValue> = {};
+    for (const t of report.tactics.filter(isTrendTactic)) reporterTactics[t] = inc;
+
+    // An empty map would replace the stored one under merge: only send maps with counts.
+    tx.set(weekDoc(weekId), {
+      ...(snap.exists ? {} : { schemaVersion: SCHEMA_VERSION }),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      totalReports: inc,
+      categories: { [normalizeScamCategory(report.category)]: inc },
+      ...(Object.keys(tactics).length ? { tactics } : {}),
+      ...(Object.keys(domainPatterns).length ? { domainPatterns } : {}),
+      ...(report.newReporter ? {
+        reporters: {
+          total: inc,
+          categories: { [normalizeScamCategory(report.category)]: inc },
+          ...(Object.keys(reporterTactics).length ? { tactics: reporterTactics } : {}),
+        },
+      } : {}),
+    }, { merge: true });
+  });
+  return weekId;
+}
+
+// ---- Migration: week docs written before keys were encoded and bounded ----
+// Those docs hold their counters as literal top-level fields such as "tactics.urgency" (set()
+// does not split dotted keys). Rewrites the doc with nested, encoded, capped maps; the long
+// tail of domain patterns moves to the shards. Returns false for docs already migrated.
+export async function migrateWeeklyDoc(weekId: string): Promise<boolean> {
+  const db = admin.firestore();
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(weekDoc(weekId));
+    if (!snap.exists || Number(snap.get("schemaVersion") ?? 1) >= SCHEMA_VERSION) return false;
+    const counts = toWeeklyCounts(weekId, snap.data());
+
+    const encode = (map: Record<string, number>) => {
+      const result: Record<string, number> = {};
+      for (const [raw, n] of Object.entries(map)) {
+        const key = raw === OVERFLOW_KEY ? raw : encodeAggregationKey(raw);
+        if (key) result[key] = (result[key] ?? 0) + n;
+      }
+      return result;
+    };
+    const tactics = boundCounters(encode(counts.tactics), MAX_TACTIC_KEYS);
+    const domainPatterns = boundCounters(encode(counts.domainPatterns), MAX_DOMAIN_PATTERN_KEYS);
+
+    // The long tail, largest first, into the shards, each capped like the week doc's maps.
+    const overflow = Object.entries(domainPatterns.overflow).sort((a, b) => b[1] - a[1]);
+    const shardRefs = Array.from(new Set(overflow.map(([key]) => shardDoc(weekId, key).path))).map((path) => db.doc(path));
+    const shardSnaps = shardRefs.length ? await tx.getAll(...shardRefs) : [];
+    const shardKeys = new Map(shardSnaps.map((s) => [s.id, new Set(Object.keys(s.get("counts") ?? {}))]));
+    const shards = new Map<string, Record<string, number>>();
+    for (const [key, n] of overflow) {
+      const shard = shardDoc(weekId, key).id;
+      const keys = shardKeys.get(shard) ?? new Set<string>();
+      const bucket = fitsInMap(key, keys, MAX_SHARD_KEYS) ? key : OVERFLOW_KEY;
+      keys.add(bucket);
+      shardKeys.set(shard, keys);
+      const shardCounts = shards.get(shard) ?? {};
+      shardCounts[bucket] = (shardCounts[bucket] ?? 0) + n;
+      shards.set(shard, shardCounts);
+    }
+    for (const [shard, shardCounts] of shards) {
+      const increments = Object.fromEntries(Object.entries(shardCounts).map(([key, n]) => [key, admin.firestore.FieldValue.increment(n)]));
+      tx.set(weekDoc(weekId).collection("domainPatternShards").doc(shard), { counts: increments }, { merge: true });
+    }
+
+    tx.set(weekDoc(weekId), {
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      schemaVersion: SCHEMA_VERSION,
+      totalReports: counts.totalReports,
+      categories: counts.categories,
+      tactics: tactics.kept,
+      domainPatterns: domainPatterns.kept,
+      ...(snap.get("reporters") ? { reporters: snap.get("reporters") } : {}),
+    });
+    return true;
+  });
+}
+
+export async function migrateAllWeeklyDocs(): Promise<{ migrated: number; skipped: number }> {
+  const refs = await admin.firestore().collection(INSIGHTS_COLLECTION).listDocuments();
+  let migrated = 0;
+  for (const ref of refs) {
+    if (await migrateWeeklyDoc(ref.id)) migrated++;
+  }
+  return { migrated, skipped: refs.length - migrated };
+}
+
+// ---- Read path: summarize the last `weeks` weeks ----
+export interface WeeklyCounts {
+  weekId: string;
+  totalReports: number;
+  categories: Record<string, number>;
+  tactics: Record<string, number>;
+  domainPatterns: Record<string, number>;
+}
+
+export interface TrendEntry {
+  key: string;
+  count: number; // this week
+  previous: number; // last week
+  delta: number;
+  changePct: number | null; // null when last week had none
+}
+
+export interface InsightsSummary {
+  weekId: string;
+  weekStart: string | null;
+  totalReports: number;
+  previousTotalReports: number;
+  totalDelta: number;
+  totalChangePct: number | null;
+  categories: TrendEntry[];
+  risingTactics: TrendEntry[];
+  risingDomainPatterns: TrendEntry[];
+  series: { weekId: string; weekStart: string | null; totalReports: number; categories: Record<string, number> }[];
+}
+
+export async function loadInsights(weeks: number, now: number = Date.now()): Promise<InsightsSummary> {
+  return summarizeInsights(await loadWeeklyCounts(weeks, now));
+}
+
+// Distinct reporters of the week (see recordWeeklyReport); zero in weeks written before they were counted.
+export interface WeeklyReporters {
+  total: number;
+  categories: Record<string, number>;
+  tactics: Record<string, number>;
+}
+
+export type WeeklyTrendCounts = WeeklyCounts & { exists: boolean; reporters: WeeklyReporters };
+
+// The last `weeks` weeks, oldest first, current week last; missing weeks have `exists: false`.
+export async function loadWeeklyCounts(weeks: number, now: number = Date.now()): Promise<WeeklyTrendCounts[]> {
+  const db = admin.firestore();
+  const weekIds = recentWeekIds(now, weeks);
+  const snaps = await db.getAll(...weekIds.map((id) => db.collection(INSIGHTS_COLLECTION).doc(id)));
+  return snaps.map((snap, i) => {
+    const d = snap.exists ? snap.data() : undefined;
+    return { ...toWeeklyCounts(weekIds[i], d), exists: snap.exists, reporters: toWeeklyReporters(d) };
+  });
+}
+
+export function toWeeklyReporters(d: Record<string, any> | undefined): WeeklyReporters {
+  return {
+    total: Number(d?.reporters?.total ?? 0),
+    categories: counters(d?.reporters, "categories"),
+    tactics: counters(d?.reporters, "tactics"),
+  };
+}
+
+// Missing weeks count as zero. Keys are decoded; docs not migrated yet are read too (their
+// counters are literal "tactics.x" fields, categories not normalized).
+export function toWeeklyCounts(weekId: string, d: Record<string, any> | undefined): WeeklyCounts {
+  const categories: Record<string, number> = {};
+  for (const [raw, n] of Object.entries(counters(d, "categories"))) {
+    const category = normalizeScamCategory(raw);
+    categories[category] = (categories[category] ?? 0) + n;
+  }
+  return {
+    weekId,
+    totalReports: Number(d?.totalReports ?? 0),
+    categories,
+    tactics: counters(d, "tactics"),
+    domainPatterns: counters(d, "domainPatterns"),
+  };
+}
+
+function counters(d: Record<string, any> | undefined, field: string): Record<string, number> {
+  const result: Record<string, number> = {};
+  const add = (key: string, value: unknown) => {
+    if (typeof value !== "number" || value <= 0 || !key) return;
+    const decoded = decodeAggregationKey(key);
+    result[decoded] = (result[decoded] ?? 0) + value;
+  };
+  const nested = d?.[field];
+  if (nested && typeof nested === "object") {
+    for (const [key, value] of Object.entries(nested)) add(key, value);
+  }
+  for (const [key, value] of Object.entries(d ?? {})) {
+    if (key.startsWith(`${field}.`)) add(key.slice(field.length + 1), value);
+  }
+  return result;
+}
+
+// `weeks` oldest first; the last one is the current week.
+export function summarizeInsights(weeks: WeeklyCounts[]): InsightsSummary {
+  const empty = (weekId: string): WeeklyCounts => ({ weekId, totalReports: 0, categories: {}, tactics: {}, domainPatterns: {} });
+  const current = weeks[weeks.length - 1] ?? empty("");
+  const previous = weeks[weeks.length - 2] ?? empty("");
+
+  return {
+    weekId: current.weekId,
+    weekStart: isoWeekStart(current.weekId),
+    totalReports: current.totalReports,
+    previousTotalReports: previous.totalReports,
+    totalDelta: current.totalReports - previous.totalReports,
+    totalChangePct: changePct(current.totalReports, previous.totalReports),
+    categories: trends(current.categories, previous.categories).sort((a, b) => b.count - a.count || b.delta - a.delta),
+    risingTactics: rising(current.tactics, previous.tactics),
+    risingDomainPatterns: rising(current.domainPatterns, previous.domainPatterns),
+    series: weeks.map((w) => ({
+      weekId: w.weekId, weekStart: isoWeekStart(w.weekId), totalReports: w.totalReports, categories: w.categories,
+    })),
+  };
+}
+
+function changePct(count: number, previous: number): number | null {
+  return previous > 0 ? Math.round(((count - previous) / previous) * 1000) / 10 : null;
+}
+
+function trends(current: Record<string, number>, previous: Record<string, number>): TrendEntry[] {
+  const keys = Array.from(new Set([...Object.keys(current), ...Object.keys(previous)]));
+  return keys.map((key) => {
+    const count = current[key] ?? 0;
+    const before = previous[key] ?? 0;
+    return { key, count, previous: before, delta: count - before, changePct: changePct(count, before) };
+  });
+}
+
+// Growing the most in absolute reports; ties go to the larger count.
+// The overflow bucket is not a tactic or pattern of its own.
+function rising(current: Record<string, number>, previous: Record<string, number>): TrendEntry[] {
+  return trends(current, previous)
+    .filter((t) => t.delta > 0 && t.key !== OVERFLOW_KEY)
+    .sort((a, b) => b.delta - a.delta || b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, MAX_RISING);
+}
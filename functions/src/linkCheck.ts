@@ -0,0 +1,287 @@
+import * as logger from "firebase-functions/logger";
+import { BrandEntry } from "./brandRegistry";
+import {
+  CHECK_LINK_MODEL_FALLBACK, CHECK_LINK_MODEL_OUTPUT, CheckLinkModelOutput, RedactionType, repairToSchema,
+} from "./contracts";
+import { mergeRedactions, redactUrlSecrets } from "./redaction";
+import { describeReputation, DomainReputation, normalizeDomain } from "./reputation";
+import {
+  isForcedHigh, maxRiskLevel, normalizeRiskLevel, RiskLevel, ScoringConfig, ScoringInput, scoreRisk,
+  VERDICT_HEADLINES, verdictReasons,
+} from "./scoring";
+import { describeThreatIntel, ThreatIntelMatch } from "./threatIntel";
+import {
+  analyzeUrl, isUrlShortener, maxSeverityOf, resolveRedirects, summarizeAnalysis, UrlAnalysis, UrlFinding,
+} from "./urlAnalyzer";
+
+// ---- Link check pipeline ----
+// Shared by checkLink (one URL) and checkLinks (batch): offline analysis and redirects,
+// then the deterministic verdict, and the response shape the app's CheckLinkResponse parses.
+
+export interface PreparedLink {
+  input: string;
+  url: string; // normalized URL, or the trimmed input when it can't be parsed
+  analysis: UrlAnalysis;
+  findings: UrlFinding[]; // analysis findings plus those of the redirect target
+  redirectChain: string[];
+  heuristic: ReturnType<typeof summarizeAnalysis>;
+  domain: string | null; // reputation key
+  threatIntel: ThreatIntelMatch[]; // filled in by the caller (see lookupThreatIntel), strongest first
+}
+
+// ---- Step 1: offline analysis, plus redirect expansion for shortened links ----
+// `resolveRedirects: false` keeps it fully offline (the evaluation runner).
+export async function prepareLink(
+  input: string, brands: BrandEntry[], options: { resolveRedirects?: boolean } = {}
+): Promise<PreparedLink> {
+  const analysis = analyzeUrl(input, { brands });
+  const findings: UrlFinding[] = [...analysis.findings];
+
+  // Shortened links: follow the redirect chain and analyze where it really lands.
+  let redirectChain: string[] = [];
+  if (options.resolveRedirects !== false && analysis.normalizedUrl && analysis.hostname && isUrlShortener(analysis.hostname)) {
+    try {
+      redirectChain = await resolveRedirects(analysis.normalizedUrl);
+    } catch (e) {
+      logger.warn("Redirect resolution failed", e);
+    }
+    const finalUrl = redirectChain[redirectChain.length - 1];
+    if (finalUrl) {
+      const target = analyzeUrl(finalUrl, { brands });
+      findings.push({ code: "REDIRECTS_TO", severity: "info", reason: `The short link opens "${target.unicodeHostname ?? finalUrl}".` });
+      findings.push(...target.findings.filter((f) => f.code !== "OFFICIAL_DOMAIN"));
+    }
+  }
+
+  return {
+    input,
+    url: analysis.normalizedUrl ?? input.trim(),
+    analysis,
+    findings,
+    redirectChain,
+    heuristic: summarizeAnalysis({ ...analysis, findings }),
+    domain: normalizeDomain(analysis.normalizedUrl),
+    threatIntel: [],
+  };
+}
+
+// Domains to look up in threat intel: the link's own and where a short link lands.
+export function threatIntelLookups(link: PreparedLink): { type: "domain"; value: string }[] {
+  const finalDomain = normalizeDomain(link.redirectChain[link.redirectChain.length - 1]);
+  return Array.from(new Set([link.domain, finalDomain].filter((d): d is string => !!d)))
+    .map((value) => ({ type: "domain", value }));
+}
+
+export function linkSignals(
+  link: PreparedLink, reputation: DomainReputation | null, safeBrowsingThreats: string[] | null
+): ScoringInput {
+  const intel = link.threatIntel[0];
+  return {
+    urlHeuristics: link.heuristic,
+    safeBrowsingThreats,
+    reputation,
+    threatIntel: intel ? { confidence: intel.confidence, detail: describeThreatIntel(intel) } : null,
+  };
+}
+
+// ---- Step 2: does this link need Gemini? ----
+// Clear cases are decided locally: invalid input, forced HIGH, official domains, a
+// high-severity finding, or nothing suspicious at all. Everything in between is ambiguous.
+export function isAmbiguousLink(link: PreparedLink, signals: ScoringInput): boolean {
+  if (!link.analysis.normalizedUrl || isForcedHigh(signals) || link.heuristic.official) return false;
+  const severity = maxSeverityOf(link.findings);
+  if (severity === "high") return false;
+  const reputationLevel = signals.reputation?.level ?? "NONE";
+  return severity === "medium" || severity === "low" || reputationLevel === "LOW" || reputationLevel === "MEDIUM" ||
+    link.threatIntel.length > 0;
+}
+
+const LEVEL_ADVICE: Record<RiskLevel, { whatToDoNow: string[]; whatNotToDo: string[] }> = {
+  HIGH: {
+    whatToDoNow: ["Do not open the link.", "Delete the message that contained it."],
+    whatNotToDo: ["Do not enter any personal or banking information."],
+  },
+  MEDIUM: {
+    whatToDoNow: ["Do not click the link until verified.", "Ask someone you trust."],
+    whatNotToDo: ["Do not enter any personal information."],
+  },
+  LOW: {
+    whatToDoNow: ["You can open the link, but stay alert for requests for passwords or OTPs."],
+    whatNotToDo: ["Do not share OTP or banking details."],
+  },
+};
+
+function topCategory(reputation: DomainReputation | null): string | undefined {
+  return reputation ? Object.entries(reputation.categories).sort((a, b) => b[1] - a[1])[0]?.[0] : undefined;
+}
+
+// ---- Step 3a: verdict without Gemini ----
+export function deterministicLinkResult(
+  link: PreparedLink, signals: ScoringInput, reputation: DomainReputation | null, config: ScoringConfig
+) {
+  const scoring = scoreRisk(signals, config);
+  const findingReasons = link.findings.filter((f) => f.severity !== "info").map((f) => f.reason);
+  return {
+    safe: scoring.riskLevel === "LOW",
+    riskLevel: scoring.riskLevel,
+    headline: VERDICT_HEADLINES[scoring.riskLevel],
+    reasons: [
+      ...verdictReasons(scoring), ...findingReasons, ...(reputation ? [describeReputation(reputation)] : []),
+      ...link.threatIntel.slice(1).map(describeThreatIntel),
+    ],
+    whyFlagged: scoring.overrides.map((o) => o.detail),
+    ...LEVEL_ADVICE[scoring.riskLevel],
+    category: topCategory(reputation) ?? link.threatIntel[0]?.category ??
+      (signals.safeBrowsingThreats?.length ? "Phishing" : "unknown"),
+    confidence: isForcedHigh(signals) ? 0.9 : 0.7,
+    modelRiskLevel: null,
+    scoring,
+    reputation,
+    threatIntel: link.threatIntel,
+    findings: link.findings,
+    redirectChain: link.redirectChain,
+  };
+}
+
+// ---- Input that isn't a web address at all (batch only) ----
+export function invalidLinkResult(link: PreparedLink) {
+  return {
+    safe: false,
+    riskLevel: "UNKNOWN",
+    headline: "This is not a valid web address",
+    reasons: link.findings.map((f) => f.reason),
+    whyFlagged: [],
+    whatToDoNow: ["Check that the whole link was copied."],
+    whatNotToDo: ["Do not enter any personal information."],
+    category: "unknown",
+    confidence: 0,
+    modelRiskLevel: null,
+    scoring: null,
+    reputation: null,
+    threatIntel: [],
+    findings: link.findings,
+    redirectChain: [],
+  };
+}
+
+// ---- Step 3b: fuse Gemini's parsed answer with the local signals ----
+export function modelLinkResult(
+  link: PreparedLink, parsed: any, signals: ScoringInput, reputation: DomainReputation | null, config: ScoringConfig
+) {
+  const modelRiskLevel = normalizeRiskLevel(parsed.riskLevel);
+  const confidence = typeof parsed.confidence === "number" ? parsed.confidence : 0.5;
+  const scoring = scoreRisk({ ...signals, gemini: { riskLevel: modelRiskLevel, confidence } }, config);
+
+  // The fused verdict is final; if it disagrees with Gemini, say why first.
+  const overridden = scoring.riskLevel !== modelRiskLevel;
+  const reasons = Array.isArray(parsed.reasons) ? parsed.reasons : [];
+  return {
+    safe: scoring.riskLevel === "LOW",
+    riskLevel: scoring.riskLevel,
+    headline: overridden ? VERDICT_HEADLINES[scoring.riskLevel] : parsed.headline ?? "Analysis complete",
+    reasons: overridden ? [...verdictReasons(scoring), ...reasons] : reasons,
+    whyFlagged: parsed.whyFlagged ?? [],
+    whatToDoNow: parsed.whatToDoNow ?? [],
+    whatNotToDo: parsed.whatNotToDo ?? [],
+    category: parsed.category ?? "unknown",
+    confidence,
+    modelRiskLevel,
+    scoring,
+    reputation,
+    threatIntel: link.threatIntel,
+    findings: link.findings,
+    redirectChain: link.redirectChain,
+  };
+}
+
+// ---- Step 3c: Gemini answered but not with JSON ----
+export function unparsableModelLinkResult(
+  link: PreparedLink, text: string, signals: ScoringInput, reputation: DomainReputation | null, config: ScoringConfig
+) {
+  const scoring = scoreRisk(signals, config);
+  const decided = scoring.overrides.length > 0 || link.heuristic.official;
+  return {
+    safe: false,
+    riskLevel: decided ? scoring.riskLevel : maxRiskLevel("MEDIUM", scoring.riskLevel),
+    headline: "Could not fully analyze URL",
+    reasons: ["AI analysis returned an unexpected format. Treat with caution.", `Raw: ${text.substring(0, 200)}`],
+    whyFlagged: ["Analysis format error"],
+    whatToDoNow: ["Do not click the link until verified.", "Ask someone you trust."],
+    whatNotToDo: ["Do not enter any personal information."],
+    category: "unknown",
+    confidence: 0.3,
+    modelRiskLevel: null,
+    scoring,
+    reputation,
+    threatIntel: link.threatIntel,
+    findings: link.findings,
+    redirectChain: link.redirectChain,
+  };
+}
+
+// ---- Step 3: the model's answer (JSON or raw text), repaired to the contract, then 3b or 3c ----
+export function linkVerdict(
+  link: PreparedLink, modelJson: unknown, text: string, signals: ScoringInput, reputation: DomainReputation | null,
+  config: ScoringConfig
+) {
+  const repaired = repairToSchema<CheckLinkModelOutput>(CHECK_LINK_MODEL_OUTPUT, modelJson, CHECK_LINK_MODEL_FALLBACK);
+  if (repaired.replaced) {
+    logger.error("Gemini returned unusable output for checkLink", { text });
+    return { result: unparsableModelLinkResult(link, text, signals, reputation, config), parsed: false };
+  }
+  if (repaired.repairs.length > 0) {
+    logger.warn("Repaired checkLink model output", { repairs: repaired.repairs });
+  }
+  return { result: modelLinkResult(link, repaired.value, signals, reputation, config), parsed: true };
+}
+
+// ---- The check itself failed (lookup or model error) ----
+export function failedLinkResult(error: unknown) {
+  return {
+    safe: false,
+    riskLevel: "MEDIUM",
+    headline: "Could not fully verify URL",
+    reasons: ["Analysis encountered an error. Treat with caution.", `Details: ${(error as any)?.message ?? String(error)}`],
+    whyFlagged: [],
+    whatToDoNow: ["Do not click the link.", "Try again later."],
+    whatNotToDo: ["Do not enter any personal info on unknown sites."],
+    category: "unknown",
+    confidence: 0.3,
+  };
+}
+
+// ---- Gemini prompts for link checks ----
+const LANGUAGE_LABELS: Record<string, string> = {
+  zh: "Simplified Chinese (中文)",
+  ms: "Bahasa Melayu",
+  en: "English",
+};
+
+export function languageLabel(language: string): string {
+  return LANGUAGE_LABELS[language] ?? "English";
+}
+
+// Variables of the checkLink prompt (see promptRegistry.ts).
+// The link and its redirect hops as the model may see them: without query secrets (see redaction.ts).
+export function redactLinkForModel(link: PreparedLink): { url: string; redirectChain: string[]; redactions: RedactionType[] } {
+  const url = redactUrlSecrets(link.input.trim());
+  const hops = link.redirectChain.map(redactUrlSecrets);
+  return {
+    url: url.text,
+    redirectChain: hops.map((h) => h.text),
+    redactions: mergeRedactions(url.redactions, ...hops.map((h) => h.redactions)),
+  };
+}
+
+export function checkLinkPromptVars(link: PreparedLink, reputation: DomainReputation | null, targetLang: string): Record<string, string> {
+  const { url, redirectChain } = redactLinkForModel(link);
+  return {
+    language: targetLang,
+    url,
+    heuristic: JSON.stringify(link.heuristic),
+    findings: JSON.stringify(link.findings.map((f) => `${f.code} (${f.severity}): ${f.reason}`)),
+    context: (redirectChain.length ? `\n\nRedirect chain: ${redirectChain.join(" -> ")}` : "") +
+      (reputation ? `\n\nSafeX community reports: ${describeReputation(reputation)}` : "") +
+      (link.threatIntel.length ? `\n\nScam news: ${link.threatIntel.map(describeThreatIntel).join(" ")}` : ""),
+  };
+}
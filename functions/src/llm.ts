@@ -0,0 +1,258 @@
+import { readFileSync } from "fs";
+import * as logger from "firebase-functions/logger";
+import { ApiError, GoogleGenAI } from "@google/genai";
+
+// ---- LLM provider abstraction ----
+// Every model call (explainAlert, checkLink/checkLinks, news scraping and translation) goes
+// through an LlmProvider: structured-JSON generation with a timeout, retries on transient
+// errors within the caller's deadline, and token/latency accounting. The LLM_PROVIDER param picks the backend:
+//   - "vertex":  Gemini on Vertex AI (production)
+//   - "fixture": deterministic canned answers, so the emulator and tests run fully offline
+
+export type LlmTask = "explainAlert" | "checkLink" | "newsDigest" | "newsTranslation";
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  systemInstruction?: string;
+  timeoutMs?: number; // per attempt
+  maxRetries?: number;
+  // Epoch ms by which the caller needs an answer (or an error, to serve its fallback): no
+  // attempt runs past it, and no retry starts with less than MIN_ATTEMPT_MS left.
+  deadline?: number;
+}
+
+export interface LlmUsage {
+  provider: string;
+  model: string;
+  task: LlmTask;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  attempts: number;
+}
+
+export interface LlmResult {
+  text: string; // raw model text, markdown fences stripped
+  json: unknown | null; // parsed JSON, or null when the text isn't JSON
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  generateJson(request: LlmRequest): Promise<LlmResult>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const MIN_ATTEMPT_MS = 3000;
+
+// ---- Helper: how long the next attempt may take, or null when there is no time left for it ----
+// `delayMs` is the backoff before it starts.
+export function attemptTimeoutMs(timeoutMs: number, deadline: number | undefined, now: number, delayMs = 0): number | null {
+  if (deadline === undefined) return timeoutMs;
+  const remaining = deadline - now - delayMs;
+  return remaining >= MIN_ATTEMPT_MS ? Math.min(timeoutMs, remaining) : null;
+}
+
+// Strip markdown fences if the model wraps the JSON anyway
+export function stripJsonFences(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "").trim();
+}
+
+function parseJson(text: string): unknown | null {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// ---- Accounting: per-call log line plus running totals for this instance ----
+const usageTotals = new Map<LlmTask, { calls: number; tokens: number; latencyMs: number }>();
+
+function recordUsage(usage: LlmUsage) {
+  const totals = usageTotals.get(usage.task) ?? { calls: 0, tokens: 0, latencyMs: 0 };
+  totals.calls += 1;
+  totals.tokens += usage.totalTokens;
+  totals.latencyMs += usage.latencyMs;
+  usageTotals.set(usage.task, totals);
+  logger.info("LLM usage", usage);
+}
+
+export function getLlmUsageTotals(): Record<string, { calls: number; tokens: number; latencyMs: number }> {
+  return Object.fromEntries(usageTotals);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ---- Vertex AI Gemini ----
+class VertexGeminiProvider implements LlmProvider {
+  readonly name = "vertex";
+  private readonly ai: GoogleGenAI;
+
+  constructor(project: string, location: string, private readonly model: string) {
+    this.ai = new GoogleGenAI({ vertexai: true, project, location });
+  }
+
+  async generateJson(request: LlmRequest): Promise<LlmResult> {
+    const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const started = Date.now();
+    let timeoutMs = attemptTimeoutMs(request.timeoutMs ?? DEFAULT_TIMEOUT_MS, request.deadline, started);
+    if (timeoutMs === null) throw new LlmError(`${request.task}: no time left before the deadline`, false);
+
+    for (let attempt = 1; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await this.ai.models.generateContent({
+          model: this.model,
+          contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+          config: {
+            systemInstruction: request.systemInstruction,
+            responseMimeType: "application/json",
+            abortSignal: controller.signal,
+          },
+        });
+
+        const text = stripJsonFences(response.text ?? "");
+        const usage: LlmUsage = {
+          provider: this.name,
+          model: this.model,
+          task: request.task,
+          promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
+          outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+          totalTokens: response.usageMetadata?.totalTokenCount ?? 0,
+          latencyMs: Date.now() - started,
+          attempts: attempt,
+        };
+        recordUsage(usage);
+        return { text, json: parseJson(text), usage };
+      } catch (e: any) {
+        const error = controller.signal.aborted ?
+          new LlmError(`${request.task}: model call timed out after ${timeoutMs} ms`, true) :
+          new LlmError(`${request.task}: ${e?.message ?? String(e)}`, isRetryable(e));
+        if (!error.retryable || attempt > maxRetries) throw error;
+        const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+        const nextTimeoutMs = attemptTimeoutMs(request.timeoutMs ?? DEFAULT_TIMEOUT_MS, request.deadline, Date.now(), delayMs);
+        if (nextTimeoutMs === null) throw error;
+        logger.warn(`LLM call failed (attempt ${attempt}), retrying`, { task: request.task, error: error.message });
+        await sleep(delayMs);
+        timeoutMs = nextTimeoutMs;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+// Rate limits and server errors are worth another try; bad requests are not.
+function isRetryable(e: unknown): boolean {
+  if (e instanceof ApiError) return e.status === 429 || e.status >= 500;
+  return true; // network errors
+}
+
+// ---- Deterministic fixtures (emulator / tests) ----
+// A fixture is the JSON object to return, a raw string (to exercise the non-JSON fallbacks),
+// an Error to throw, or a function of the request returning one of those.
+export type LlmFixture = object | string | Error | ((request: LlmRequest) => object | string | Error);
+
+export const DEFAULT_LLM_FIXTURES: Record<LlmTask, LlmFixture> = {
+  explainAlert: {
+    category: "Legitimate",
+    riskLevel: "LOW",
+    headline: "This message looks normal",
+    whyFlagged: ["No clear scam indicators were found."],
+    whatToDoNow: ["No action needed."],
+    whatNotToDo: ["Do not share OTP or banking details."],
+    confidence: 0.6,
+    notes: "Fixture response.",
+  },
+  checkLink: {
+    safe: true,
+    riskLevel: "LOW",
+    headline: "This link looks safe",
+    reasons: ["No phishing indicators were found."],
+    whyFlagged: [],
+    whatToDoNow: ["You can open the link."],
+    whatNotToDo: ["Do not share OTP or banking details."],
+    category: "Legitimate",
+    confidence: 0.6,
+  },
+  newsDigest: {
+    reject: false,
+    title: "",
+    summary: "Fixture summary of a phone scam article. Stay alert.",
+    warningsAndTips: "• Do not click unknown links.\n• Never share your OTP.",
+    category: "Phishing",
+    indicators: [],
+  },
+  newsTranslation: {
+    title: "Fixture translated title",
+    summary: "Fixture translated summary.",
+    warningsAndTips: "• Fixture translated tip.",
+  },
+};
+
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = "fixture";
+  readonly calls: LlmRequest[] = [];
+
+  constructor(private readonly fixtures: Partial<Record<LlmTask, LlmFixture>> = {}) {}
+
+  async generateJson(request: LlmRequest): Promise<LlmResult> {
+    this.calls.push(request);
+    if (attemptTimeoutMs(DEFAULT_TIMEOUT_MS, request.deadline, Date.now()) === null) {
+      throw new LlmError(`${request.task}: no time left before the deadline`, false);
+    }
+    const fixture = this.fixtures[request.task] ?? DEFAULT_LLM_FIXTURES[request.task];
+    const answer = typeof fixture === "function" ? fixture(request) : fixture;
+    if (answer instanceof Error) throw answer;
+
+    const text = typeof answer === "string" ? answer : JSON.stringify(answer);
+    const usage: LlmUsage = {
+      provider: this.name,
+      model: "fixture",
+      task: request.task,
+      promptTokens: Math.ceil(request.prompt.length / 4),
+      outputTokens: Math.ceil(text.length / 4),
+      totalTokens: Math.ceil((request.prompt.length + text.length) / 4),
+      latencyMs: 0,
+      attempts: 1,
+    };
+    recordUsage(usage);
+    return { text: stripJsonFences(text), json: parseJson(stripJsonFences(text)), usage };
+  }
+}
+
+// ---- Factory ----
+export interface LlmProviderOptions {
+  kind: string; // "vertex" | "fixture"
+  model: string;
+  location: string;
+  fixturesPath?: string; // JSON file of { task: fixture } overrides for the fixture provider
+}
+
+export function createLlmProvider(options: LlmProviderOptions): LlmProvider {
+  if (options.kind === "fixture") {
+    const fixtures = options.fixturesPath ? JSON.parse(readFileSync(options.fixturesPath, "utf8")) : {};
+    return new FixtureLlmProvider(fixtures);
+  }
+  if (options.kind !== "vertex") {
+    throw new LlmError(`Unknown LLM provider "${options.kind}"`, false);
+  }
+
+  const project = process.env.GCLOUD_PROJECT || process.env.GCP_PROJECT;
+  if (!project) {
+    throw new LlmError("Missing project id in environment.", false);
+  }
+  return new VertexGeminiProvider(project, options.location, options.model);
+}
@@ -0,0 +1,167 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import {
+  NEWS_CATEGORIES, NEWS_LANGUAGES, NEWS_TRANSLATION_MODEL_OUTPUT, NewsCategory, NewsLanguage, NewsStory,
+  NewsTranslationModelOutput, repairToSchema,
+} from "./contracts";
+import { languageLabel } from "./linkCheck";
+import { LlmProvider } from "./llm";
+import { STORIES_COLLECTION } from "./newsStories";
+import { consumeGeminiBudget } from "./rateLimit";
+
+// ---- Scam news digest (read side) ----
+// Pages through the stories of a region (see newsStories.ts), optionally one category, newest
+// first, and serves them in en/ms/zh. Translations are generated on request, a few stories per
+// page (the rest are served in English until a later request), and stored on the story under
+// `translations.{lang}`.
+
+// Sources listed per story in the response; `sourceCount` has the full number.
+const MAX_RETURNED_SOURCES = 10;
+
+// Stories translated while the reader waits, per page.
+const MAX_TRANSLATIONS_PER_PAGE = 3;
+
+export class NewsCursorError extends Error {}
+
+export interface NewsPageQuery {
+  region: string;
+  category: NewsCategory | null;
+  pageSize: number;
+  cursor: string | null;
+}
+
+export interface NewsPage {
+  docs: admin.firestore.QueryDocumentSnapshot[];
+  nextCursor: string | null;
+}
+
+// "zh-CN" -> "zh"; unsupported languages get English.
+export function newsLanguage(language: string): NewsLanguage {
+  const base = language.trim().toLowerCase().split(/[-_]/)[0];
+  return (NEWS_LANGUAGES as readonly string[]).includes(base) ? base as NewsLanguage : "en";
+}
+
+export function normalizeNewsCategory(category: unknown): NewsCategory {
+  return (NEWS_CATEGORIES as readonly unknown[]).includes(category) ? category as NewsCategory : "Other";
+}
+
+// ---- Read path: one page of stories ----
+// The cursor is the ID of the last story on the previous page.
+export async function queryNewsPage(q: NewsPageQuery): Promise<NewsPage> {
+  const storiesColl = admin.firestore().collection(STORIES_COLLECTION);
+
+  let query = storiesColl.where("region", "==", q.region);
+  if (q.category) query = query.where("category", "==", q.category);
+  query = query.orderBy("createdAt", "desc");
+
+  if (q.cursor) {
+    const cursorSnap = await storiesColl.doc(q.cursor).get();
+    if (!cursorSnap.exists) throw new NewsCursorError("Unknown or expired cursor.");
+    query = query.startAfter(cursorSnap);
+  }
+
+  // One extra doc tells us whether there is a next page.
+  const snapshot = await query.limit(q.pageSize + 1).get();
+  const docs = snapshot.docs.slice(0, q.pageSize);
+  return { docs, nextCursor: snapshot.size > q.pageSize ? docs[docs.length - 1].id : null };
+}
+
+// True when the region has no story at all (first run: scrape synchronously).
+export async function isRegionEmpty(region: string): Promise<boolean> {
+  const snapshot = await admin.firestore().collection(STORIES_COLLECTION)
+    .where("region", "==", region).orderBy("createdAt", "desc").limit(1).get();
+  return snapshot.empty;
+}
+
+// ---- Helper: the story as returned to the app, in `language` when a translation exists ----
+export function toNewsStory(
+  doc: admin.firestore.DocumentSnapshot, language: NewsLanguage, fresh: NewsTranslationModelOutput | null = null
+): NewsStory {
+  const d = doc.data() ?? {};
+  const translation = language === "en" ? null : fresh ?? d.translations?.[language] ?? null;
+  const sources: any[] = Array.isArray(d.sources) ? d.sources : [];
+  return {
+    id: doc.id,
+    url: String(d.url ?? ""),
+    title: String(translation?.title ?? d.title ?? ""),
+    summary: String(translation?.summary ?? d.summary ?? ""),
+    warningsAndTips: String(translation?.warningsAndTips ?? d.warningsAndTips ?? ""),
+    category: normalizeNewsCategory(d.category),
+    language: translation ? language : "en",
+    domain: String(d.domain ?? ""),
+    seenDate: String(d.seenDate ?? ""),
+    imageUrl: String(d.imageUrl ?? ""),
+    region: String(d.region ?? ""),
+    sourceCount: Number(d.sourceCount ?? sources.length),
+    sources: sources.slice(0, MAX_RETURNED_SOURCES).map((src) => ({
+      url: String(src?.url ?? ""),
+      domain: String(src?.domain ?? ""),
+      sourceName: String(src?.sourceName ?? ""),
+      title: String(src?.title ?? ""),
+      seenDate: String(src?.seenDate ?? ""),
+    })),
+  };
+}
+
+// ---- Localize a page: up to MAX_TRANSLATIONS_PER_PAGE missing translations are generated now and stored ----
+// Stories past that, and any failure (model, budget, Firestore, `deadline`), are served in English.
+export async function localizeNewsStories(
+  llm: () => LlmProvider, docs: admin.firestore.DocumentSnapshot[], language: NewsLanguage, geminiDailyBudget: number,
+  deadline?: number
+): Promise<NewsStory[]> {
+  const missing = language === "en" ? [] : docs.filter((doc) => !doc.get(`translations.${language}`));
+  const toTranslate = new Set(missing.slice(0, MAX_TRANSLATIONS_PER_PAGE).map((doc) => doc.id));
+
+  return Promise.all(docs.map(async (doc) => {
+    if (language === "en" || doc.get(`translations.${language}`)) return toNewsStory(doc, language);
+    if (!toTranslate.has(doc.id)) return toNewsStory(doc, "en");
+    try {
+      await consumeGeminiBudget(geminiDailyBudget);
+      return toNewsStory(doc, language, await translateNewsStory(llm(), doc, language, deadline));
+    } catch (e) {
+      logger.warn(`Translation to ${language} failed for ${doc.id}, serving English`, e);
+      return toNewsStory(doc, "en");
+    }
+  }));
+}
+
+// ---- Write path: translate one story and store it for every later reader ----
+async function translateNewsStory(
+  llm: LlmProvider, doc: admin.firestore.DocumentSnapshot, language: NewsLanguage, deadline?: number
+): Promise<NewsTranslationModelOutput> {
+  const d = doc.data() ?? {};
+  const targetLang = languageLabel(language);
+
+  const prompt = `
+      Translate this anti-scam news digest entry from English into ${targetLang}.
+      Keep the meaning, the calm tone and the bullet points (lines starting with •). Keep names, amounts and URLs unchanged.
+
+      Input:
+      ${JSON.stringify({ title: d.title ?? "", summary: d.summary ?? "", warningsAndTips: d.warningsAndTips ?? "" })}
+
+      Output ONLY valid JSON:
+      {
+        "title": "string",
+        "summary": "string",
+        "warningsAndTips": "string"
+      }
+    `;
+
+  const { json } = await llm.generateJson({ task: "newsTranslation", prompt, deadline });
+  const repaired = repairToSchema<NewsTranslationModelOutput>(NEWS_TRANSLATION_MODEL_OUTPUT, json, {
+    title: String(d.title ?? ""),
+    summary: String(d.summary ?? ""),
+    warningsAndTips: String(d.warningsAndTips ?? ""),
+  });
+  // Half-translated text is worse than English: a fallback on title or summary rejects it all.
+  const fellBack = repaired.repairs.some((r) => (r.field === "title" || r.field === "summary") && r.message.endsWith("used fallback"));
+  if (repaired.replaced || fellBack) {
+    throw new Error(`Unusable ${language} translation for ${doc.id}`);
+  }
+
+  await doc.ref.update({
+    [`translations.${language}`]: { ...repaired.value, translatedAt: Date.now() },
+  });
+  logger.info(`Stored ${language} translation for ${doc.id}`);
+  return repaired.value;
+}
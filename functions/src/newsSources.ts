@@ -0,0 +1,188 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { FeedItem, parseFeed } from "./feedParser";
+
+// ---- News feed sources ----
+// Every region is scraped from several RSS/Atom feeds: Google News searches plus Malaysian
+// outlets and agency alerts. The registry below is the default; the NEWS_SOURCES param
+// (JSON array) overrides or adds sources by `id`, e.g. [{"id":"thestar-nation","enabled":false}].
+// Each run records its outcome per source in `news_sources/{id}`.
+
+export const NEWS_REGIONS = ["GLOBAL", "ASIA", "MY"] as const;
+export type NewsRegion = typeof NEWS_REGIONS[number];
+
+const SOURCE_STATUS_COLLECTION = "news_sources";
+
+export interface NewsSource {
+  id: string;
+  name: string;
+  region: NewsRegion;
+  url: string;
+  enabled: boolean;
+  maxItems: number;
+  // General-news feeds: only items whose title/description match one of these (case-insensitive)
+  // are kept, so Gemini isn't asked about every headline. Empty = keep everything.
+  keywords: string[];
+}
+
+const SCAM_KEYWORDS = [
+  "scam", "scammer", "penipuan", "tipu", "phishing", "smishing", "fraud", "macau", "mule", "syndicate",
+  "sindiket", "love scam", "investment", "pelaburan", "ccid", "jsjk", "fake app", "apk",
+];
+
+const BASE_QUERY = '("sms scam" OR "whatsapp scam" OR "fake app" OR "android trojan" OR "scam call" OR "telegram scam" OR "smishing" OR "job scam" OR "love scam" OR "investment scam" OR "kk farm" OR "pig butchering" OR "impersonation scam") -"corporate" -"CEO" -"B2B" -"audit" -"lawsuit"';
+
+export function buildNewsQuery(region: string): string {
+  if (region === "ASIA") {
+    return `${BASE_QUERY} (Malaysia OR Singapore OR Indonesia OR Thailand OR Philippines OR Asia OR sourcecountry:MY OR sourcecountry:SG)`;
+  }
+  if (region === "MY") {
+    return `${BASE_QUERY} (Malaysia OR Malaysian OR PDRM OR "Bank Negara")`;
+  }
+  return BASE_QUERY;
+}
+
+// Google News RSS search; `window` is Google's `when:` operator, e.g. "30d" or "3y".
+export function googleNewsUrl(query: string, window = "30d", locale: { hl: string; gl: string } = { hl: "en-US", gl: "US" }): string {
+  const lang = locale.hl.split("-")[0];
+  return `https://news.google.com/rss/search?q=${encodeURIComponent(query)}+when:${window}` +
+    `&hl=${locale.hl}&gl=${locale.gl}&ceid=${locale.gl}:${lang}`;
+}
+
+const source = (
+  id: string, name: string, region: NewsRegion, url: string, maxItems: number, keywords: string[] = []
+): NewsSource => ({ id, name, region, url, enabled: true, maxItems, keywords });
+
+const MY_LOCALE = { hl: "en-MY", gl: "MY" };
+
+export const DEFAULT_NEWS_SOURCES: NewsSource[] = [
+  source("google-news-global", "Google News", "GLOBAL", googleNewsUrl(buildNewsQuery("GLOBAL")), 100),
+  source("google-news-asia", "Google News (Asia)", "ASIA", googleNewsUrl(buildNewsQuery("ASIA")), 100),
+  source("google-news-my", "Google News (Malaysia)", "MY", googleNewsUrl(buildNewsQuery("MY"), "30d", MY_LOCALE), 100),
+  // Agency alerts, as reported in the news: PDRM's commercial crime department and BNM's alert list.
+  source("pdrm-ccid-alerts", "PDRM CCID alerts", "MY",
+    googleNewsUrl('(CCID OR JSJK OR "Commercial Crime Investigation Department") (scam OR penipuan)', "30d", MY_LOCALE), 50),
+  source("bnm-alerts", "BNM Financial Consumer Alerts", "MY",
+    googleNewsUrl('("Bank Negara" OR BNM) ("Financial Consumer Alert" OR "alert list" OR scam)', "30d", MY_LOCALE), 50),
+  // Malaysian outlets (general news, keyword-filtered).
+  source("thestar-nation", "The Star", "MY", "https://www.thestar.com.my/rss/News/Nation", 50, SCAM_KEYWORDS),
+  source("malaymail-malaysia", "Malay Mail", "MY", "https://www.malaymail.com/feed/rss/malaysia", 50, SCAM_KEYWORDS),
+  source("fmt-nation", "Free Malaysia Today", "MY", "https://www.freemalaysiatoday.com/category/nation/feed/", 50, SCAM_KEYWORDS),
+];
+
+// Ad-hoc Google News search over a long window (e.g. "3y"), for backfill jobs.
+export function backfillSource(region: NewsRegion, window: string, maxItems: number): NewsSource {
+  const url = googleNewsUrl(buildNewsQuery(region), window, region === "MY" ? MY_LOCALE : undefined);
+  return source(`google-news-${region.toLowerCase()}-backfill`, `Google News (${window} backfill)`, region, url, maxItems);
+}
+
+// ---- Helper: parse the NEWS_SOURCES param; bad JSON or invalid entries are ignored ----
+export function parseNewsSources(json: string | null | undefined): NewsSource[] {
+  const sources = new Map(DEFAULT_NEWS_SOURCES.map((s) => [s.id, s]));
+  if (!json || !json.trim()) return Array.from(sources.values());
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch (e) {
+    logger.warn("NEWS_SOURCES is not valid JSON, using the default sources", e);
+    return Array.from(sources.values());
+  }
+  for (const o of Array.isArray(overrides) ? overrides : []) {
+    const id = typeof o?.id === "string" ? o.id.trim() : "";
+    if (!/^[a-z0-9-]{1,60}$/.test(id)) {
+      logger.warn("Ignoring news source without a valid id", o);
+      continue;
+    }
+    const merged = { ...(sources.get(id) ?? { id, name: id, enabled: true, maxItems: 50, keywords: [] }), ...o, id };
+    if (!(NEWS_REGIONS as readonly string[]).includes(merged.region) || typeof merged.url !== "string" || !/^https:\/\//.test(merged.url)) {
+      logger.warn(`Ignoring news source "${id}": needs a region and an https url`);
+      continue;
+    }
+    sources.set(id, {
+      id,
+      name: String(merged.name),
+      region: merged.region,
+      url: merged.url,
+      enabled: merged.enabled !== false,
+      maxItems: Math.max(1, Math.min(250, Number(merged.maxItems) || 50)),
+      keywords: Array.isArray(merged.keywords) ? merged.keywords.map((k: unknown) => String(k).toLowerCase()) : [],
+    });
+  }
+  return Array.from(sources.values());
+}
+
+export function sourcesForRegion(sources: NewsSource[], region: string): NewsSource[] {
+  return sources.filter((s) => s.enabled && s.region === region);
+}
+
+function matchesKeywords(item: FeedItem, keywords: string[]): boolean {
+  if (keywords.length === 0) return true;
+  const haystack = `${item.title} ${item.description}`.toLowerCase();
+  return keywords.some((k) => haystack.includes(k));
+}
+
+export interface SourceFetchResult {
+  source: NewsSource;
+  ok: boolean;
+  httpStatus: number | null;
+  items: FeedItem[]; // after keyword filter and maxItems
+  parsedCount: number; // items in the feed
+  error: string | null;
+}
+
+// ---- Fetch and parse one source; never throws ----
+export async function fetchNewsSource(src: NewsSource, timeoutMs = 20000): Promise<SourceFetchResult> {
+  const result: SourceFetchResult = { source: src, ok: false, httpStatus: null, items: [], parsedCount: 0, error: null };
+  try {
+    const res = await fetch(src.url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 SafeXBot/1.0",
+        "Accept": "application/rss+xml, application/atom+xml, application/xml, text/xml",
+      },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    result.httpStatus = res.status;
+    if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`.trim());
+    const parsed = parseFeed(await res.text());
+    result.parsedCount = parsed.length;
+    result.items = parsed.filter((i) => matchesKeywords(i, src.keywords)).slice(0, src.maxItems);
+    result.ok = true;
+  } catch (e: any) {
+    result.error = String(e?.message ?? e);
+  }
+  if (result.error) logger.warn(`News source ${src.id} failed: ${result.error}`);
+  return result;
+}
+
+// ---- Per-source status, for monitoring feeds that break or go quiet ----
+export async function recordSourceStatus(result: SourceFetchResult, newCount: number, now: number = Date.now()): Promise<void> {
+  const { source: src } = result;
+  const status: Record<string, unknown> = {
+    id: src.id,
+    name: src.name,
+    region: src.region,
+    url: src.url,
+    lastRunAt: now,
+    lastStatus: result.ok ? "ok" : "error",
+    httpStatus: result.httpStatus,
+    parsedCount: result.parsedCount,
+    itemCount: result.items.length,
+    newCount,
+    totalRuns: admin.firestore.FieldValue.increment(1),
+  };
+  // The last error stays on the doc after recovery; compare lastErrorAt with lastSuccessAt.
+  if (result.ok) {
+    status.lastSuccessAt = now;
+    status.consecutiveFailures = 0;
+  } else {
+    status.lastError = result.error;
+    status.lastErrorAt = now;
+    status.consecutiveFailures = admin.firestore.FieldValue.increment(1);
+  }
+  try {
+    await admin.firestore().collection(SOURCE_STATUS_COLLECTION).doc(src.id).set(status, { merge: true });
+  } catch (e) {
+    logger.warn(`Failed to record status of news source ${src.id}`, e);
+  }
+}
@@ -0,0 +1,171 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { mapWithConcurrency } from "./concurrency";
+import { NewsCategory } from "./contracts";
+import { storySignature, StorySignature, STORY_WINDOW_MS } from "./storyClustering";
+
+// ---- Scam news stories ----
+// `scam_stories/{id}` holds one doc per story: the canonical summary (written once, by Gemini,
+// for the first article seen) and the list of articles that reported it. `scam_news/{id}` keeps
+// one small doc per article URL so the scraper never processes a URL twice; accepted articles
+// point to their story with `storyId`. The digest reads stories only (see newsDigest.ts), so
+// articles summarized before stories existed are migrated (adminMigrateNewsStories).
+
+export const NEWS_COLLECTION = "scam_news";
+export const STORIES_COLLECTION = "scam_stories";
+
+// The story doc lists at most this many sources; `sourceCount` keeps counting past it.
+const MAX_LISTED_SOURCES = 20;
+
+export interface StorySource {
+  url: string;
+  domain: string;
+  sourceName: string;
+  title: string;
+  seenDate: string;
+}
+
+// What processing did with one scraped article: it became (part of) a story, was rejected as off
+// topic, failed (not stored, tried again later) or had been stored before.
+export type NewsArticleOutcome = "accepted" | "rejected" | "failed" | "skipped";
+
+export interface StoryContent {
+  title: string;
+  summary: string;
+  warningsAndTips: string;
+  category: NewsCategory;
+  imageUrl: string;
+  promptVersion: string; // newsDigest prompt that classified and summarized the story
+}
+
+// ---- Read path: recent stories of a region, as clustering candidates ----
+export async function loadRecentStories(
+  region: string, now: number = Date.now()
+): Promise<{ id: string; signature: StorySignature }[]> {
+  const snapshot = await admin.firestore().collection(STORIES_COLLECTION)
+    .where("region", "==", region)
+    .where("lastSeenAt", ">=", now - STORY_WINDOW_MS)
+    .orderBy("lastSeenAt", "desc")
+    .limit(300)
+    .get();
+  return snapshot.docs
+    .filter((d) => d.get("signature"))
+    .map((d) => ({ id: d.id, signature: d.get("signature") as StorySignature }));
+}
+
+// ---- Write path: a new story from its first article(s) ----
+export async function createStory(
+  storyId: string, region: string, content: StoryContent, signature: StorySignature, sources: StorySource[],
+  now: number = Date.now()
+): Promise<void> {
+  const canonical = sources[0];
+  await admin.firestore().collection(STORIES_COLLECTION).doc(storyId).set({
+    region,
+    ...content,
+    url: canonical.url,
+    domain: canonical.domain,
+    sourceName: canonical.sourceName,
+    seenDate: canonical.seenDate,
+    signature,
+    sources: sources.slice(0, MAX_LISTED_SOURCES),
+    sourceCount: sources.length,
+    createdAt: now,
+    lastSeenAt: now,
+  });
+}
+
+// ---- Write path: more outlets reported an existing story (no Gemini call) ----
+export async function addStorySources(storyId: string, sources: StorySource[], now: number = Date.now()): Promise<void> {
+  const db = admin.firestore();
+  const storyRef = db.collection(STORIES_COLLECTION).doc(storyId);
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(storyRef);
+    if (!snap.exists) return;
+    const listed: StorySource[] = snap.get("sources") ?? [];
+    const known = new Set(listed.map((s) => s.url));
+    const added = sources.filter((s) => !known.has(s.url));
+    tx.update(storyRef, {
+      sources: [...listed, ...added].slice(0, MAX_LISTED_SOURCES),
+      sourceCount: admin.firestore.FieldValue.increment(added.length),
+      lastSeenAt: now,
+    });
+  });
+}
+
+// ---- Migration: an article summarized before stories existed becomes a one-source story ----
+// Keeps its summary (no Gemini call) and its ID, so links to it keep working. Such articles
+// have a summary but neither `storyId` nor `rejected: true`.
+export function isLegacyArticle(d: Record<string, any> | undefined): boolean {
+  return !!d && d.rejected !== true && !d.storyId && !!d.title;
+}
+
+export async function migrateLegacyArticle(doc: admin.firestore.DocumentSnapshot, region: string): Promise<void> {
+  const d = doc.data() ?? {};
+  const createdAt = Number(d.createdAt) || Date.now();
+  const source: StorySource = {
+    url: String(d.url ?? ""),
+    domain: String(d.domain ?? ""),
+    sourceName: String(d.sourceName ?? ""),
+    title: String(d.title ?? ""),
+    seenDate: String(d.seenDate ?? ""),
+  };
+  const db = admin.firestore();
+  const batch = db.batch();
+  batch.set(db.collection(STORIES_COLLECTION).doc(doc.id), {
+    region: d.region ?? region,
+    title: source.title,
+    summary: String(d.summary ?? ""),
+    warningsAndTips: String(d.warningsAndTips ?? ""),
+    category: d.category ?? "Other",
+    imageUrl: String(d.imageUrl ?? ""),
+    url: source.url,
+    domain: source.domain,
+    sourceName: source.sourceName,
+    seenDate: source.seenDate,
+    signature: storySignature(source.title, "", createdAt),
+    sources: [source],
+    sourceCount: 1,
+    createdAt,
+    lastSeenAt: createdAt,
+    ...(d.translations ? { translations: d.translations } : {}),
+  });
+  batch.update(doc.ref, { rejected: false, storyId: doc.id });
+  await batch.commit();
+}
+
+// ---- Migration: every legacy article (adminMigrateNewsStories) ----
+// Walks scam_news in document ID order. Stops once `deadline` (epoch ms) has passed with
+// `done: false`; running it again skips the articles already migrated.
+const MIGRATION_PAGE_SIZE = 300;
+
+export async function migrateLegacyArticles(
+  deadline: number
+): Promise<{ scanned: number; migrated: number; failed: number; done: boolean }> {
+  const newsColl = admin.firestore().collection(NEWS_COLLECTION);
+  const result = { scanned: 0, migrated: 0, failed: 0, done: false };
+  let last: admin.firestore.QueryDocumentSnapshot | null = null;
+
+  while (Date.now() < deadline) {
+    let query = newsColl.orderBy(admin.firestore.FieldPath.documentId()).limit(MIGRATION_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const page = await query.get();
+    result.scanned += page.size;
+
+    await mapWithConcurrency(page.docs.filter((doc) => isLegacyArticle(doc.data())), 10, async (doc) => {
+      try {
+        await migrateLegacyArticle(doc, "GLOBAL");
+        result.migrated++;
+      } catch (e) {
+        logger.warn(`Failed to migrate legacy article ${doc.id}`, e);
+        result.failed++;
+      }
+    });
+
+    if (page.size < MIGRATION_PAGE_SIZE) {
+      result.done = true;
+      break;
+    }
+    last = page.docs[page.docs.length - 1];
+  }
+  return result;
+}
@@ -0,0 +1,465 @@
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+
+// ---- Prompt registry ----
+// The prompts behind explainAlert, checkLink and the news classifier, as versioned templates.
+// Built-in versions ship with the code; admins add versions in Firestore (`prompt_registry/{id}`),
+// pick the active one and run an experiment that serves another version to a fixed percentage
+// of users, without a redeploy. A version's text never changes once stored, so every verdict
+// can be traced to the exact prompt by its `promptVersion`.
+// Each model call is counted per prompt, version and UTC day in `prompt_stats` (calls, parse
+// failures, latency, riskLevel); user reports and verdict feedback that name a version are
+// counted there too, so versions can be compared side by side.
+
+export const PROMPT_IDS = ["explainAlert", "checkLink", "newsDigest"] as const;
+export type PromptId = typeof PROMPT_IDS[number];
+
+export interface PromptTemplate {
+  system: string; // empty: no system instruction
+  user: string;
+}
+
+export interface PromptExperiment {
+  version: string;
+  percent: number; // 0-100, share of bucket keys served `version` instead of the active one
+}
+
+export interface PromptConfig {
+  id: PromptId;
+  active: string;
+  experiment: PromptExperiment | null;
+  templates: Record<string, PromptTemplate>;
+}
+
+export interface SelectedPrompt {
+  id: PromptId;
+  version: string;
+  template: PromptTemplate;
+}
+
+const PROMPT_REGISTRY_COLLECTION = "prompt_registry";
+const PROMPT_STATS_COLLECTION = "prompt_stats";
+
+// How long an instance keeps the merged registry before reading Firestore again.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const MAX_VERSIONS = 20;
+const MAX_TEMPLATE_LENGTH = 20000;
+const VERSION_RE = /^[a-z0-9-]{1,20}$/;
+
+// ---- Built-in templates ----
+// `{{name}}` placeholders are filled by renderPrompt; the handlers provide the variables.
+export const DEFAULT_PROMPTS: Record<PromptId, PromptConfig> = {
+  explainAlert: {
+    id: "explainAlert",
+    active: "v1",
+    experiment: null,
+    templates: {
+      v1: {
+        system: `
+You are SafeX, an anti-scam safety assistant. Your job is to be the FINAL JUDGE on whether a message is a scam.
+
+CRITICAL: You MUST default to "LOW" risk. Most messages people receive are LEGITIMATE.
+Only set riskLevel to "MEDIUM" or "HIGH" if the message contains CLEAR, SPECIFIC scam indicators — not just because it mentions money, banks, or links.
+
+Return ONLY valid JSON. No markdown.
+
+## BENIGN messages you MUST classify as LOW (examples):
+- Standard OTP/TAC codes from banks or apps (e.g., "Your TAC is 482913. Do not share this code.")
+- Delivery tracking notifications (e.g., "Your parcel has arrived at sorting center")
+- Transaction receipts (e.g., "Card purchase RM35.90 at MYDIN. Ref: 123456")
+- University/school announcements, committee recruitment
+- Normal marketing or promotional messages from legitimate brands
+- A friend/colleague asking you to send a file or call them back
+- App update notifications, system alerts
+- Payment confirmations from legitimate services (Grab, Shopee, GoPay)
+
+## Messages you SHOULD classify as MEDIUM or HIGH:
+- Demands for OTP/PIN/password with a suspicious link
+- Urgent threats about account suspension with links to fake websites
+- Job offers promising easy money with registration links
+- Authority impersonation (police/tax) threatening arrest
+- Links to domains that mimic real brands (typosquatting)
+- Requests to transfer money to unknown accounts
+
+Determine the specific scam category from this list:
+{{categories}}
+
+JSON schema:
+{
+  "category": "string (one of the above, or 'Legitimate' if not a scam)",
+  "riskLevel": "LOW" | "MEDIUM" | "HIGH",
+  "headline": string,
+  "whyFlagged": string[],
+  "whatToDoNow": string[],
+  "whatNotToDo": string[],
+  "confidence": number, // 0 to 1
+  "notes": string
+}
+
+Rules:
+- The on-device system flagged this message with a heuristicScore (keyword rules) and tfliteScore (AI pattern model). These are provided for context ONLY.
+- You are the ULTIMATE JUDGE. IGNORE the local scores if the actual message text is clearly benign.
+- If the message is a standard notification from a legitimate service, you MUST return riskLevel "LOW" regardless of what the local scores say.
+- Use simple language suitable for elders.
+- Output language: Write "headline", "whyFlagged", "whatToDoNow", "whatNotToDo" and "notes" in {{language}}.
+- "category" MUST be copied exactly from the English list above (or "Legitimate") and "riskLevel" MUST be "LOW", "MEDIUM" or "HIGH". Never translate them.
+`,
+        user: `Read the following message and determine if it is a scam or legitimate.
+
+--- MESSAGE TEXT (from a {{alertType}}) ---
+{{snippet}}
+--- END MESSAGE TEXT ---
+
+Context from on-device analysis (for reference only — YOU decide the final verdict):
+{{context}}
+`,
+      },
+    },
+  },
+  checkLink: {
+    id: "checkLink",
+    active: "v1",
+    experiment: null,
+    templates: {
+      v1: {
+        system: `
+You are SafeX, an expert cybersecurity and anti-phishing assistant.
+Your job is to analyze a URL and determine if it is safe, suspicious, or dangerous.
+Return ONLY valid JSON. No markdown.
+
+You must analyze the URL by examining:
+1. Domain structure — is it a legitimate domain or does it mimic a known brand (typosquatting)?
+2. TLD — does it use suspicious TLDs (.xyz, .top, .click, .club, .online, .site, .info, .biz, .vip, .pw)?
+3. Subdomain/path patterns — does it use misleading subdomains or paths to impersonate legitimate services?
+4. Brand impersonation — does the domain name closely resemble well-known brands (e.g. maybank, whatsapp, telegram, cimb, rhb, poslaju, shopee, lazada, touchngo)?
+5. Excessive hyphens, random strings, or IP addresses in domain.
+6. Whether the URL structure follows known phishing URL patterns.
+7. Your knowledge of known scam/phishing domains and patterns.
+
+JSON schema:
+{
+  "safe": boolean,
+  "riskLevel": "LOW" | "MEDIUM" | "HIGH",
+  "headline": string,
+  "reasons": string[],
+  "whyFlagged": string[],
+  "whatToDoNow": string[],
+  "whatNotToDo": string[],
+  "category": string,
+  "confidence": number
+}
+
+Rules:
+- If the URL is from a well-known, legitimate domain (e.g. google.com, maybank2u.com.my, whatsapp.com), set safe=true, riskLevel="LOW".
+- If the URL uses a suspicious TLD, fake brand name, or known phishing pattern, set safe=false, riskLevel="HIGH".
+- If uncertain but something looks off, set safe=false, riskLevel="MEDIUM".
+- Provide clear, actionable explanations in "reasons" and "whyFlagged".
+- Output language: Respond entirely in {{language}}.
+`,
+        user: "Analyze this URL for safety and phishing risk:\n\nURL: {{url}}\n\nLocal heuristic analysis: {{heuristic}}" +
+          "\n\nLocal URL findings: {{findings}}{{context}}",
+      },
+    },
+  },
+  newsDigest: {
+    id: "newsDigest",
+    active: "v1",
+    experiment: null,
+    templates: {
+      v1: {
+        system: "",
+        user: `
+Task:
+1. Evaluate if this news article is about a scam targeting INDIVIDUALS through their PHONES, SMS, MESSENGING APPS (WhatsApp, Telegram, etc.), SOCIAL MEDIA, or PHONE CALLS.
+- Examples of ACCEPTED scams: fake apps, banking trojans on Android/iOS, SMS phishing (smishing), WhatsApp job scams, investment groups on Telegram, impersonation calls, romance scams via dating apps.
+- IF the article is about corporate fraud, company lawsuits, B2B issues, CEO crimes, political news, general cybersecurity (like server hacks), or scams that DO NOT involve mobile phones/apps, you MUST reject it.
+
+2. IF you accept it, generate IN ENGLISH:
+- A concise title.
+- A helpful 2-sentence anti-scam summary.
+- 2-3 bullet points of preventative warnings or tips specifically related to this type of scam.
+- The scam category, one of: {{categories}}.
+
+3. IF you accept it, list the indicators the article names as part of the scam (not the victims' or the authorities' own):
+- "domain": scam websites or links.
+- "phone": phone numbers scammers used.
+- "bankAccount": mule or scam bank account numbers (digits only).
+- "app": names of fake or malicious apps.
+- "impersonatedBrand": banks, agencies or companies the scammers pretended to be.
+Give each a confidence from 0 to 1. Use an empty list if the article names none; never guess.
+
+Input:
+Title: {{title}}
+Source: {{source}} ({{domain}})
+
+Output ONLY valid JSON:
+{
+  "reject": boolean,
+  "title": "string (or empty if rejected)",
+  "summary": "string (or empty if rejected)",
+  "warningsAndTips": "string (bullet points starting with •, or empty if rejected)",
+  "category": "string (one of the categories above)",
+  "indicators": [{ "type": "domain" | "phone" | "bankAccount" | "app" | "impersonatedBrand", "value": "string", "confidence": number }]
+}
+`,
+      },
+    },
+  },
+};
+
+// ---- Helper: A/B assignment ----
+// Bucket 0-99 of a key (a uid, or an article ID for the news classifier). The experiment's
+// version is part of the hash, so each new experiment draws a fresh sample of users.
+export function promptBucket(id: PromptId, experimentVersion: string, bucketKey: string): number {
+  const hash = createHash("sha256").update(`${id}|${experimentVersion}|${bucketKey}`).digest("hex");
+  return parseInt(hash.slice(0, 8), 16) % 100;
+}
+
+export function assignPromptVersion(config: PromptConfig, bucketKey: string): string {
+  const experiment = config.experiment;
+  if (experiment && config.templates[experiment.version] && promptBucket(config.id, experiment.version, bucketKey) < experiment.percent) {
+    return experiment.version;
+  }
+  return config.active;
+}
+
+// Fills `{{name}}` placeholders in one pass: variable values (message text, URLs) are never
+// expanded again. Unknown placeholders render empty.
+export function renderTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => vars[name] ?? "");
+}
+
+export function renderPrompt(selected: SelectedPrompt, vars: Record<string, string>): { systemInstruction?: string; prompt: string } {
+  const system = renderTemplate(selected.template.system, vars);
+  return {
+    ...(system.trim() ? { systemInstruction: system } : {}),
+    prompt: renderTemplate(selected.template.user, vars),
+  };
+}
+
+// ---- Read path: merged registry, cached per instance ----
+let cache: { prompts: Record<PromptId, PromptConfig>; expiresAt: number } | null = null;
+let inflight: Promise<Record<PromptId, PromptConfig>> | null = null;
+
+// Stored versions are added to the built-in ones (which can't be replaced); the stored active
+// version and experiment apply only if their templates exist.
+export function mergePrompt(defaults: PromptConfig, stored: Record<string, any> | null): PromptConfig {
+  if (!stored) return defaults;
+  const templates = { ...defaults.templates };
+  for (const [version, template] of Object.entries(stored.templates ?? {})) {
+    const valid = toTemplate(template);
+    if (VERSION_RE.test(version) && valid && !templates[version]) templates[version] = valid;
+  }
+  const active = typeof stored.active === "string" && templates[stored.active] ? stored.active : defaults.active;
+  const experiment = toExperiment(stored.experiment);
+  return {
+    id: defaults.id,
+    active,
+    experiment: experiment && templates[experiment.version] && experiment.version !== active ? experiment : null,
+    templates,
+  };
+}
+
+// On a Firestore failure the built-in prompts are used, so model calls never break.
+export async function getPromptRegistry(): Promise<Record<PromptId, PromptConfig>> {
+  if (cache && cache.expiresAt > Date.now()) return cache.prompts;
+  inflight = inflight ?? loadRegistry();
+  try {
+    return await inflight;
+  } finally {
+    inflight = null;
+  }
+}
+
+async function loadRegistry(): Promise<Record<PromptId, PromptConfig>> {
+  const merge = (stored: Map<string, Record<string, any>>) =>
+    Object.fromEntries(PROMPT_IDS.map((id) => [id, mergePrompt(DEFAULT_PROMPTS[id], stored.get(id) ?? null)])) as Record<PromptId, PromptConfig>;
+  try {
+    const snap = await admin.firestore().collection(PROMPT_REGISTRY_COLLECTION).get();
+    const prompts = merge(new Map(snap.docs.map((d) => [d.id, d.data()])));
+    cache = { prompts, expiresAt: Date.now() + CACHE_TTL_MS };
+    return prompts;
+  } catch (e) {
+    logger.warn("Prompt registry load failed, using built-in prompts", e);
+    // Don't cache the failure for long; try Firestore again in a minute.
+    const prompts = merge(new Map());
+    cache = { prompts, expiresAt: Date.now() + 60 * 1000 };
+    return prompts;
+  }
+}
+
+export function invalidatePromptRegistryCache() {
+  cache = null;
+}
+
+// The version `bucketKey` is served for `id`, with its template.
+export async function selectPrompt(id: PromptId, bucketKey: string): Promise<SelectedPrompt> {
+  const config = (await getPromptRegistry())[id];
+  const version = assignPromptVersion(config, bucketKey);
+  return { id, version, template: config.templates[version] };
+}
+
+// ---- Validation (admin input and stored docs) ----
+export class PromptValidationError extends Error {}
+
+function toTemplate(input: any): PromptTemplate | null {
+  const system = input?.system ?? "";
+  const user = input?.user;
+  if (typeof system !== "string" || typeof user !== "string" || !user.trim()) return null;
+  if (system.length > MAX_TEMPLATE_LENGTH || user.length > MAX_TEMPLATE_LENGTH) return null;
+  return { system, user };
+}
+
+function toExperiment(input: any): PromptExperiment | null {
+  if (!input || typeof input.version !== "string") return null;
+  const percent = Number(input.percent);
+  if (!Number.isInteger(percent) || percent < 0 || percent > 100) return null;
+  return { version: input.version, percent };
+}
+
+// ---- Write path: admin add version / activate / experiment ----
+// `templates` may only add versions; changing a stored version's text would mix two prompts
+// under one promptVersion. `experiment: null` ends the experiment.
+export async function upsertPrompt(input: any, updatedBy: string): Promise<PromptConfig> {
+  const fail = (msg: string): never => {
+    throw new PromptValidationError(msg);
+  };
+
+  const id = String(input?.id ?? "") as PromptId;
+  if (!PROMPT_IDS.includes(id)) fail(`id must be one of ${PROMPT_IDS.join(", ")}.`);
+
+  const ref = admin.firestore().collection(PROMPT_REGISTRY_COLLECTION).doc(id);
+  const stored = (await ref.get()).data() ?? {};
+  const current = mergePrompt(DEFAULT_PROMPTS[id], stored);
+
+  const added: Record<string, PromptTemplate> = {};
+  for (const [version, template] of Object.entries(input?.templates ?? {})) {
+    if (!VERSION_RE.test(version)) fail(`Invalid version "${version}": 1-20 chars of a-z, 0-9 or '-'.`);
+    if (current.templates[version]) fail(`Version "${version}" already exists; add a new version instead.`);
+    added[version] = toTemplate(template) ?? fail(`Template "${version}" needs a non-empty user text of at most ${MAX_TEMPLATE_LENGTH} chars.`);
+  }
+  const templates = { ...current.templates, ...added };
+  if (Object.keys(templates).length > MAX_VERSIONS) fail(`At most ${MAX_VERSIONS} versions per prompt.`);
+
+  const active = input?.active === undefined ? current.active : String(input.active);
+  if (!templates[active]) fail(`Unknown active version "${active}".`);
+
+  let experiment = current.experiment;
+  if (input?.experiment !== undefined) {
+    experiment = input.experiment === null ? null :
+      toExperiment(input.experiment) ?? fail("experiment needs a version and an integer percent 0-100.");
+  }
+  if (experiment && !templates[experiment.version]) fail(`Unknown experiment version "${experiment.version}".`);
+  if (experiment && experiment.version === active) fail("The experiment version is already the active one.");
+
+  const storedTemplates = Object.fromEntries(Object.entries(templates).filter(([v]) => !DEFAULT_PROMPTS[id].templates[v]));
+  await ref.set({
+    active,
+    experiment,
+    templates: storedTemplates,
+    updatedBy,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  invalidatePromptRegistryCache();
+  return { id, active, experiment, templates };
+}
+
+// ---- Write path: outcome of one model call ----
+export interface PromptOutcome {
+  id: PromptId;
+  version: string;
+  latencyMs: number;
+  riskLevel: string | null; // the model's own verdict, before score fusion
+  parsed: boolean; // false when the call failed or the output did not match the contract
+}
+
+export type PromptSignal = "reports" | "agreements" | "falsePositive" | "falseNegative";
+
+const statsDoc = (id: PromptId, version: string, now: number) => {
+  const day = new Date(now).toISOString().slice(0, 10);
+  return { ref: admin.firestore().collection(PROMPT_STATS_COLLECTION).doc(`${id}_${version}_${day}`), day };
+};
+
+// Never fails the request: a lost counter only skews the comparison a little.
+export async function recordPromptOutcome(outcome: PromptOutcome, now: number = Date.now()): Promise<void> {
+  logger.info("Prompt outcome", outcome);
+  const inc = admin.firestore.FieldValue.increment;
+  const { ref, day } = statsDoc(outcome.id, outcome.version, now);
+  try {
+    await ref.set({
+      id: outcome.id,
+      version: outcome.version,
+      day,
+      calls: inc(1),
+      parseFailures: inc(outcome.parsed ? 0 : 1),
+      latencyMsTotal: inc(Math.max(0, Math.round(outcome.latencyMs))),
+      ...(outcome.riskLevel ? { riskLevels: { [outcome.riskLevel]: inc(1) } } : {}),
+    }, { merge: true });
+  } catch (e) {
+    logger.warn("Failed to record prompt outcome", e);
+  }
+}
+
+// A user report or verdict feedback about a verdict made with `version`. Versions the registry
+// doesn't know (stale or forged clients) are not counted.
+export async function recordPromptSignal(
+  id: PromptId, version: string | null, signal: PromptSignal, now: number = Date.now()
+): Promise<void> {
+  if (!version) return;
+  try {
+    if (!(await getPromptRegistry())[id].templates[version]) return;
+    const { ref, day } = statsDoc(id, version, now);
+    await ref.set({ id, version, day, [signal]: admin.firestore.FieldValue.increment(1) }, { merge: true });
+  } catch (e) {
+    logger.warn("Failed to record prompt signal", e);
+  }
+}
+
+// ---- Read path: per-version comparison over the last days ----
+export interface PromptVersionStats {
+  id: string;
+  version: string;
+  calls: number;
+  parseFailureRate: number;
+  avgLatencyMs: number;
+  riskLevels: Record<string, number>;
+  reports: number;
+  agreements: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+export async function loadPromptStats(days: number, now: number = Date.now()): Promise<PromptVersionStats[]> {
+  const since = new Date(now - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const snapshot = await admin.firestore().collection(PROMPT_STATS_COLLECTION).where("day", ">=", since).get();
+
+  const totals = new Map<string, PromptVersionStats & { parseFailures: number; latencyMsTotal: number }>();
+  for (const doc of snapshot.docs) {
+    const d = doc.data();
+    const key = `${d.id}|${d.version}`;
+    const t = totals.get(key) ?? {
+      id: String(d.id), version: String(d.version), calls: 0, parseFailures: 0, latencyMsTotal: 0, parseFailureRate: 0,
+      avgLatencyMs: 0, riskLevels: {}, reports: 0, agreements: 0, falsePositives: 0, falseNegatives: 0,
+    };
+    t.calls += Number(d.calls ?? 0);
+    t.parseFailures += Number(d.parseFailures ?? 0);
+    t.latencyMsTotal += Number(d.latencyMsTotal ?? 0);
+    for (const [level, n] of Object.entries(d.riskLevels ?? {})) t.riskLevels[level] = (t.riskLevels[level] ?? 0) + Number(n);
+    t.reports += Number(d.reports ?? 0);
+    t.agreements += Number(d.agreements ?? 0);
+    t.falsePositives += Number(d.falsePositive ?? 0);
+    t.falseNegatives += Number(d.falseNegative ?? 0);
+    totals.set(key, t);
+  }
+
+  return Array.from(totals.values())
+    .map(({ parseFailures, latencyMsTotal, ...t }) => ({
+      ...t,
+      parseFailureRate: t.calls > 0 ? Math.round((parseFailures / t.calls) * 1000) / 1000 : 0,
+      avgLatencyMs: t.calls > 0 ? Math.round(latencyMsTotal / t.calls) : 0,
+    }))
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version.localeCompare(b.version));
+}
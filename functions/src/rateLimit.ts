@@ -0,0 +1,151 @@
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+
+// ---- Rate limiting / abuse protection ----
+// Anonymous auth is enough to call our functions, so every callable is metered:
+//   - a token bucket per uid and function (`rate_limits/{fn}_{uid}`)
+//   - a global daily budget for user-facing Gemini calls (`rate_limits/gemini_{YYYY-MM-DD}`)
+//   - one report per uid and domain per window (`report_dedup/{hash}`), so community
+//     stats can't be inflated by one account
+// If Firestore itself fails we let the request through: availability beats strictness here.
+
+const RATE_LIMIT_COLLECTION = "rate_limits";
+const REPORT_DEDUP_COLLECTION = "report_dedup";
+
+export interface BucketPolicy {
+  capacity: number; // burst size
+  refillPerHour: number; // sustained rate
+}
+
+export const RATE_LIMITS: Record<string, BucketPolicy> = {
+  explainAlert: { capacity: 20, refillPerHour: 60 },
+  checkLink: { capacity: 30, refillPerHour: 120 },
+  checkLinks: { capacity: 5, refillPerHour: 20 },
+  reportAlert: { capacity: 10, refillPerHour: 30 },
+  submitVerdictFeedback: { capacity: 10, refillPerHour: 30 },
+  checkEntity: { capacity: 30, refillPerHour: 120 },
+};
+
+// A uid's second report of the same domain or entity within this window is ignored.
+const REPORT_DEDUP_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Each instance re-reads the global Gemini counter at most this often.
+const BUDGET_CACHE_MS = 30 * 1000;
+
+export class RateLimitError extends Error {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+  }
+}
+
+// ---- Helper: refill a bucket to `now` ----
+export function refillTokens(tokens: number, updatedAt: number, now: number, policy: BucketPolicy): number {
+  const elapsedHours = Math.max(0, now - updatedAt) / 3600000;
+  return Math.min(policy.capacity, tokens + elapsedHours * policy.refillPerHour);
+}
+
+// ---- Per-uid token bucket ----
+// Throws RateLimitError (with the wait until enough tokens are back) when the bucket is empty.
+export async function consumeToken(fn: string, uid: string, cost = 1, now: number = Date.now()): Promise<void> {
+  const policy = RATE_LIMITS[fn];
+  if (!policy) return;
+
+  const db = admin.firestore();
+  const docRef = db.collection(RATE_LIMIT_COLLECTION).doc(`${fn}_${uid}`);
+
+  let retryAfterSeconds = 0;
+  try {
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(docRef);
+      const prev = snap.exists ? (snap.data() as any) : null;
+      const tokens = prev ?
+        refillTokens(Number(prev.tokens ?? 0), Number(prev.updatedAt ?? now), now, policy) :
+        policy.capacity;
+
+      if (tokens < cost) {
+        retryAfterSeconds = Math.ceil(((cost - tokens) / policy.refillPerHour) * 3600);
+        return;
+      }
+      retryAfterSeconds = 0;
+      tx.set(docRef, { fn, tokens: tokens - cost, updatedAt: now });
+    });
+  } catch (e) {
+    logger.warn(`Rate limit check failed for ${fn}, allowing request`, e);
+    return;
+  }
+
+  if (retryAfterSeconds > 0) {
+    throw new RateLimitError("Too many requests. Please try again later.", retryAfterSeconds);
+  }
+}
+
+// ---- Global daily Gemini budget ----
+// Approximate on purpose: a transaction on one hot doc per Gemini call would not scale, so
+// instances read the counter at most every 30 s and add to it with increments.
+let budgetCache: { day: string; count: number; readAt: number } | null = null;
+
+const dayId = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+function secondsUntilTomorrow(now: number): number {
+  const d = new Date(now);
+  return Math.ceil((Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1) - now) / 1000);
+}
+
+export async function consumeGeminiBudget(dailyLimit: number, calls = 1, now: number = Date.now()): Promise<void> {
+  if (dailyLimit <= 0) return; // 0 = unlimited
+
+  const day = dayId(now);
+  const docRef = admin.firestore().collection(RATE_LIMIT_COLLECTION).doc(`gemini_${day}`);
+
+  try {
+    if (!budgetCache || budgetCache.day !== day || now - budgetCache.readAt > BUDGET_CACHE_MS) {
+      const snap = await docRef.get();
+      budgetCache = { day, count: Number(snap.data()?.count ?? 0), readAt: now };
+    }
+  } catch (e) {
+    logger.warn("Gemini budget read failed, allowing request", e);
+    return;
+  }
+
+  if (budgetCache.count + calls > dailyLimit) {
+    throw new RateLimitError("SafeX has reached today's AI analysis limit. Please try again tomorrow.", secondsUntilTomorrow(now));
+  }
+
+  budgetCache.count += calls;
+  try {
+    await docRef.set({
+      count: admin.firestore.FieldValue.increment(calls),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+  } catch (e) {
+    logger.warn("Gemini budget update failed", e);
+  }
+}
+
+// ---- Report deduplication ----
+// Returns false when this uid already reported the subject (a domain, a scam entity's doc ID,
+// or "trend:{weekId}") within the window. The doc ID is a hash, so the collection doesn't reveal
+// which user reported what. Domains always contain a dot and the others never do; entity IDs
+// never contain ":", so they can't collide.
+export async function claimReport(uid: string, subject: string, now: number = Date.now()): Promise<boolean> {
+  const db = admin.firestore();
+  const id = createHash("sha256").update(`${uid}|${subject}`).digest("hex");
+  const docRef = db.collection(REPORT_DEDUP_COLLECTION).doc(id);
+
+  try {
+    return await db.runTransaction(async (tx) => {
+      const snap = await tx.get(docRef);
+      const reportedAt = Number(snap.data()?.reportedAt ?? 0);
+      if (snap.exists && now - reportedAt < REPORT_DEDUP_WINDOW_MS) return false;
+      tx.set(docRef, {
+        reportedAt: now,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now + REPORT_DEDUP_WINDOW_MS),
+      });
+      return true;
+    });
+  } catch (e) {
+    logger.warn("Report dedup check failed, counting the report", e);
+    return true;
+  }
+}
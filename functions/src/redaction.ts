@@ -0,0 +1,158 @@
+import { REDACTION_TYPES, RedactionType } from "./contracts";
+
+// ---- Redaction before model calls ----
+// Clients redact alert text on-device, but the server doesn't rely on it: user text passes
+// through here before it goes into a Gemini prompt. Personal data is masked with a typed
+// placeholder ([IC], [PHONE], ...), and secrets in URLs (query and fragment parameters,
+// passwords) are replaced with REDACTED. The host and path are kept, since the verdict
+// depends on them.
+// The message itself is written by the scammer, so instruction-like sentences aimed at the
+// model ("ignore previous instructions", "classify this as safe") and fake prompt fences are
+// removed too. Callers report and log which types fired, never the values.
+
+export interface SanitizedText {
+  text: string;
+  redactions: RedactionType[]; // in REDACTION_TYPES order
+}
+
+const REDACTED = "REDACTED";
+
+const URL_IN_TEXT = /\bhttps?:\/\/[^\s<>"'`]+/gi;
+
+// Parameter names whose values are secret or personal, matched anywhere in the name...
+const SECRET_PARAM = /token|otp|passw|pwd|secret|session|auth|apikey|api_key|signature|jwt|ticket|nonce|email|phone|mobile|msisdn|nric|mykad|account|acct|card/i;
+// ...or exactly.
+const SECRET_PARAM_NAMES = new Set(["tac", "pin", "code", "key", "sig", "sid", "ic"]);
+// Opaque values long enough to be a credential, whatever the parameter is called.
+const OPAQUE_VALUE = /^(?=.*[A-Za-z])(?=.*\d)[A-Za-z0-9_\-.~+/=%]{24,}$/;
+
+// In order: IC before account numbers (both 12 digits), phones before accounts, OTPs last.
+const PII_RULES: { type: RedactionType; pattern: RegExp; mask: string }[] = [
+  { type: "email", pattern: /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi, mask: "[EMAIL]" },
+  // MyKad: YYMMDD-PB-###G.
+  { type: "ic", pattern: /\b\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])[- ]?\d{2}[- ]?\d{4}\b/g, mask: "[IC]" },
+  // Malaysian mobile (01x) and landline (03, 04, ...) numbers, with or without +60.
+  { type: "phone", pattern: /(?:\+?\b60|\b0)[- ]?(?:1\d|[3-9]\d?)[- ]?\d{3,4}[- ]?\d{4}\b/g, mask: "[PHONE]" },
+  // Card numbers in groups of four, and bank account numbers of 10 to 19 digits.
+  { type: "account", pattern: /\b\d{4}[- ]?\d{4}[- ]?\d{4}(?:[- ]?\d{1,7})?\b|\b\d{10,19}\b/g, mask: "[ACCOUNT]" },
+  { type: "otp", pattern: /(\b(?:OTP|TAC|PIN|passcode|code|kod)\b|验证码|驗證碼)([^\d\n]{0,25}?)\d{4,8}\b/gi, mask: "$1$2[OTP]" },
+  { type: "otp", pattern: /\b\d{4,8}\b(?=\s+(?:is|ialah|adalah)\s+(?:your|anda)\b[^.\n]{0,20}\b(?:OTP|TAC|PIN|code|kod)\b)/gi, mask: "[OTP]" },
+];
+
+// Sentences that address the model rather than the reader.
+const INSTRUCTION_PATTERNS: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override|bypass)\b[^.!?\n]{0,40}\b(?:instructions?|prompts?|rules|guidelines|system message)\b/i,
+  /\b(?:you are now|pretend (?:to be|you are)|roleplay as|new instructions?)\b/i,
+  /^\s*(?:system|assistant|developer)\s*(?:prompt|message)?\s*:/im,
+  /\b(?:begin|end)\s+(?:of\s+)?(?:message|text|input|prompt)\b/i,
+  /\brisk ?level\b/i,
+  /\b(?:classify|mark|label|rate|treat)\b[^.!?\n]{0,30}\b(?:as|is)\s+(?:safe|legitimate|benign|low risk|not (?:a )?scam)\b/i,
+  /\b(?:to|dear|attention)\s+(?:the\s+)?(?:AI|assistant|language model|LLM|chatbot|Gemini|ChatGPT)\b/i,
+  /\bas an? (?:AI|language model)\b/i,
+  /\b(?:abaikan|lupakan)\b[^.!?\n]{0,30}\barahan\b/i,
+  /(?:忽略|无视|無視).{0,10}(?:指令|提示|规则|規則|说明|說明)/,
+];
+const INSTRUCTION_SENTENCES = INSTRUCTION_PATTERNS.map((p) =>
+  new RegExp(`[^.!?\\n]*(?:${p.source})[^.!?\\n]*[.!?]?`, p.flags.includes("g") ? p.flags : p.flags + "g"));
+// Runs of fence characters, which could close the prompt's "--- MESSAGE TEXT ---" block early.
+const FENCE_MARKERS = /-{3,}|={3,}|`{3,}|<{3,}|>{3,}|#{3,}/g;
+
+const ordered = (fired: Set<RedactionType>): RedactionType[] => REDACTION_TYPES.filter((t) => fired.has(t));
+
+// The same rules, for testing a single parameter value.
+const PII_VALUE = PII_RULES.map((rule) => new RegExp(rule.pattern.source, rule.pattern.flags.replace("g", "")));
+
+function isSecretParam(name: string, value: string): boolean {
+  return SECRET_PARAM.test(name) || SECRET_PARAM_NAMES.has(name.toLowerCase()) ||
+    OPAQUE_VALUE.test(value) || PII_VALUE.some((pattern) => pattern.test(value));
+}
+
+// Parameters with their secret values replaced, or null when none were secret.
+function redactParams(raw: string): string | null {
+  const params = new URLSearchParams(raw);
+  let changed = false;
+  for (const [name, value] of Array.from(params.entries())) {
+    if (value && value !== REDACTED && isSecretParam(name, value)) {
+      params.set(name, REDACTED);
+      changed = true;
+    }
+  }
+  return changed ? params.toString() : null;
+}
+
+// The URL with secret parameters (query and fragment) and any password replaced. Host and
+// path are untouched; unparseable input is returned as is.
+export function redactUrlSecrets(url: string): SanitizedText {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { text: url, redactions: [] };
+  }
+
+  let redacted = false;
+  if (parsed.password) {
+    parsed.password = REDACTED;
+    redacted = true;
+  }
+  const search = redactParams(parsed.search);
+  if (search !== null) {
+    parsed.search = search;
+    redacted = true;
+  }
+  // OAuth-style fragments (#access_token=...) carry secrets too.
+  const hash = parsed.hash.includes("=") ? redactParams(parsed.hash.slice(1)) : null;
+  if (hash !== null) {
+    parsed.hash = hash;
+    redacted = true;
+  }
+  return redacted ? { text: parsed.toString(), redactions: ["urlSecret"] } : { text: url, redactions: [] };
+}
+
+// Marks where a URL was set aside in redactPii: a private-use character, stripped from the input.
+const URL_SLOT = "\uE000";
+
+// Personal data in free text masked by type; URLs in it keep host and path but lose secrets.
+export function redactPii(text: string): SanitizedText {
+  const fired = new Set<RedactionType>();
+  // URLs are set aside first so the patterns below don't mangle them (a phone number in a
+  // wa.me path is evidence, not the user's data).
+  const urls: string[] = [];
+  let out = text.split(URL_SLOT).join("").replace(URL_IN_TEXT, (url) => {
+    const redacted = redactUrlSecrets(url);
+    redacted.redactions.forEach((t) => fired.add(t));
+    urls.push(redacted.text);
+    return `${URL_SLOT}${urls.length - 1}${URL_SLOT}`;
+  });
+  for (const rule of PII_RULES) {
+    const next = out.replace(rule.pattern, rule.mask);
+    if (next !== out) fired.add(rule.type);
+    out = next;
+  }
+  out = out.replace(new RegExp(`${URL_SLOT}(\\d+)${URL_SLOT}`, "g"), (_, i) => urls[Number(i)]);
+  return { text: out, redactions: ordered(fired) };
+}
+
+// Instruction-like sentences and prompt fences removed from untrusted text.
+export function guardPromptInjection(text: string): SanitizedText {
+  let out = text.replace(FENCE_MARKERS, " ");
+  let removed = false;
+  for (const pattern of INSTRUCTION_SENTENCES) {
+    out = out.replace(pattern, (sentence) => {
+      removed = true;
+      return (/^\s/.test(sentence) ? " " : "") + "[instructions removed]";
+    });
+  }
+  return { text: out, redactions: removed ? ["instructions"] : [] };
+}
+
+// Message text as it may go into a prompt: injection guard first, then PII redaction.
+export function sanitizeForModel(text: string): SanitizedText {
+  const guarded = guardPromptInjection(text);
+  const redacted = redactPii(guarded.text);
+  return { text: redacted.text, redactions: mergeRedactions(guarded.redactions, redacted.redactions) };
+}
+
+export function mergeRedactions(...lists: RedactionType[][]): RedactionType[] {
+  return ordered(new Set(lists.flat()));
+}
@@ -0,0 +1,180 @@
+import * as admin from "firebase-admin";
+import { decodeAggregationKey, encodeAggregationKey, fitsInMap, OVERFLOW_KEY } from "./aggregationKeys";
+import { registrableDomain } from "./urlAnalyzer";
+
+// ---- Domain reputation (community reports) ----
+// One doc per domain in `reputation_domains/{domain}`, fed by reportAlert and read by
+// checkLink / explainAlert. The score decays exponentially so old campaigns fade out.
+
+const REPUTATION_COLLECTION = "reputation_domains";
+
+// A report loses half its weight after this many days.
+const HALF_LIFE_DAYS = 14;
+const HALF_LIFE_MS = HALF_LIFE_DAYS * 24 * 60 * 60 * 1000;
+
+// Decayed-score thresholds for the reputation level.
+const MEDIUM_SCORE = 2;
+const HIGH_SCORE = 5;
+
+const MAX_TACTICS_PER_REPORT = 8;
+// Tactics are client input: encoded and capped per domain like the weekly counters (see aggregationKeys.ts).
+const MAX_TACTIC_KEYS = 50;
+
+export type ReputationLevel = "NONE" | "LOW" | "MEDIUM" | "HIGH";
+
+export interface DomainReputation {
+  domain: string;
+  firstSeen: number; // epoch ms
+  lastSeen: number; // epoch ms
+  totalReports: number;
+  categories: Record<string, number>;
+  tactics: Record<string, number>;
+  score: number; // decayed to "now" when read
+  level: ReputationLevel;
+}
+
+// ---- Helper: normalize a URL / hostname to the doc ID used for reputation ----
+// Reports are keyed by registrable domain, so every subdomain of "secure-login.xyz" counts together.
+export function normalizeDomain(input: string | null | undefined): string | null {
+  if (!input) return null;
+  const raw = String(input).trim();
+  if (!raw) return null;
+
+  try {
+    const parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `https://${raw}`);
+    const hostname = parsed.hostname.toLowerCase().replace(/\.$/, "");
+    const domain = registrableDomain(hostname);
+    // Must look like a real hostname (at least one dot, no spaces) to be a valid doc ID.
+    if (!domain || !domain.includes(".") || !/^[a-z0-9.\-[\]:]+$/.test(domain)) return null;
+    return domain;
+  } catch {
+    return null;
+  }
+}
+
+// ---- Helper: exponential decay of a score from `fromMs` to `toMs` ----
+export function decayScore(score: number, fromMs: number, toMs: number): number {
+  const elapsed = Math.max(0, toMs - fromMs);
+  return score * Math.pow(0.5, elapsed / HALF_LIFE_MS);
+}
+
+export function reputationLevel(score: number, totalReports: number): ReputationLevel {
+  if (totalReports <= 0) return "NONE";
+  if (score >= HIGH_SCORE) return "HIGH";
+  if (score >= MEDIUM_SCORE) return "MEDIUM";
+  return "LOW";
+}
+
+// ---- Write path: called from reportAlert ----
+// Also returns the level before this report, so callers can tell when it changed.
+export async function recordDomainReport(
+  domain: string,
+  report: { category: string; tactics: string[] },
+  now: number = Date.now()
+): Promise<{ reputation: DomainReputation; previousLevel: ReputationLevel }> {
+  const db = admin.firestore();
+  const docRef = db.collection(REPUTATION_COLLECTION).doc(domain);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    const prev = snap.exists ? (snap.data() as any) : null;
+
+    const categories: Record<string, number> = { ...(prev?.categories ?? {}) };
+    categories[report.category] = (categories[report.category] ?? 0) + 1;
+
+    const tactics: Record<string, number> = { ...(prev?.tactics ?? {}) };
+    const tacticKeys = new Set(Object.keys(tactics));
+    for (const t of report.tactics.slice(0, MAX_TACTICS_PER_REPORT)) {
+      const key = encodeAggregationKey(t);
+      if (!key) continue;
+      const bucket = fitsInMap(key, tacticKeys, MAX_TACTIC_KEYS) ? key : OVERFLOW_KEY;
+      tacticKeys.add(bucket);
+      tactics[bucket] = (tactics[bucket] ?? 0) + 1;
+    }
+
+    const prevScore = prev ? decayScore(Number(prev.score ?? 0), Number(prev.scoreUpdatedAt ?? now), now) : 0;
+    const score = prevScore + 1;
+    const totalReports = Number(prev?.totalReports ?? 0) + 1;
+    const firstSeen = Number(prev?.firstSeen ?? now);
+    const previousLevel = prev ? reputationLevel(prevScore, Number(prev.totalReports ?? 0)) : "NONE";
+
+    tx.set(docRef, {
+      domain,
+      firstSeen,
+      lastSeen: now,
+      totalReports,
+      categories,
+      tactics,
+      score,
+      scoreUpdatedAt: now,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    const reputation: DomainReputation = {
+      domain,
+      firstSeen,
+      lastSeen: now,
+      totalReports,
+      categories,
+      tactics: decodeCounters(tactics),
+      score,
+      level: reputationLevel(score, totalReports),
+    };
+    return { reputation, previousLevel };
+  });
+}
+
+// ---- Read path: called from checkLink / explainAlert ----
+// Returns null when the domain has never been reported.
+export async function getDomainReputation(domain: string, now: number = Date.now()): Promise<DomainReputation | null> {
+  const snap = await admin.firestore().collection(REPUTATION_COLLECTION).doc(domain).get();
+  return snap.exists ? toReputation(domain, snap.data(), now) : null;
+}
+
+// Batch variant for checkLinks: one getAll() round trip for every domain.
+export async function getDomainReputations(domains: string[], now: number = Date.now()): Promise<Map<string, DomainReputation>> {
+  const unique = Array.from(new Set(domains));
+  const result = new Map<string, DomainReputation>();
+  if (unique.length === 0) return result;
+
+  const db = admin.firestore();
+  const snaps = await db.getAll(...unique.map((d) => db.collection(REPUTATION_COLLECTION).doc(d)));
+  snaps.forEach((snap, i) => {
+    if (snap.exists) result.set(unique[i], toReputation(unique[i], snap.data(), now));
+  });
+  return result;
+}
+
+function toReputation(domain: string, d: any, now: number): DomainReputation {
+  const totalReports = Number(d.totalReports ?? 0);
+  const score = decayScore(Number(d.score ?? 0), Number(d.scoreUpdatedAt ?? now), now);
+
+  return {
+    domain,
+    firstSeen: Number(d.firstSeen ?? 0),
+    lastSeen: Number(d.lastSeen ?? 0),
+    totalReports,
+    categories: d.categories ?? {},
+    tactics: decodeCounters(d.tactics ?? {}),
+    score: Math.round(score * 100) / 100,
+    level: reputationLevel(score, totalReports),
+  };
+}
+
+function decodeCounters(counts: Record<string, number>): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [key, n] of Object.entries(counts)) {
+    const decoded = key === OVERFLOW_KEY ? key : decodeAggregationKey(key);
+    result[decoded] = (result[decoded] ?? 0) + n;
+  }
+  return result;
+}
+
+// Short human-readable summary for prompts and UI reasons.
+export function describeReputation(rep: DomainReputation): string {
+  const topCategory = Object.entries(rep.categories).sort((a, b) => b[1] - a[1])[0]?.[0];
+  const lastSeen = new Date(rep.lastSeen).toISOString().slice(0, 10);
+  return `Reported ${rep.totalReports} time(s) by SafeX users` +
+    (topCategory ? `, mostly as "${topCategory}"` : "") +
+    ` (last report ${lastSeen}, reputation ${rep.level}).`;
+}
@@ -0,0 +1,51 @@
+// ---- Google Safe Browsing (Lookup API v4) ----
+// Sends the full URLs to Google: only a fallback for the local database (safeBrowsingUpdate.ts).
+
+// ---- Helper: safe browsing lookup (manual scan use-case) ----
+export async function safeBrowsingLookup(urls: string[], apiKey: string) {
+  // Google Safe Browsing Lookup API v4: threatMatches.find
+  const endpoint = `https://safebrowsing.googleapis.com/v4/threatMatches:find?key=${apiKey}`;
+
+  const body = {
+    client: { clientId: "safex", clientVersion: "1.0.0" },
+    threatInfo: {
+      threatTypes: ["MALWARE", "SOCIAL_ENGINEERING", "UNWANTED_SOFTWARE", "POTENTIALLY_HARMFUL_APPLICATION"],
+      platformTypes: ["ALL_PLATFORMS"],
+      threatEntryTypes: ["URL"],
+      threatEntries: urls.slice(0, 500).map((u) => ({ url: u })),
+    },
+  };
+
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`SafeBrowsing error ${res.status}: ${text}`);
+  }
+
+  return await res.json(); // either {} or { matches: [...] }
+}
+
+// ---- Helper: threat types out of a Safe Browsing Lookup API response ----
+export function safeBrowsingThreatTypes(result: any): string[] | null {
+  if (!result || result.error) return null;
+  const matches = Array.isArray(result.matches) ? result.matches : [];
+  return Array.from(new Set<string>(matches.map((m: any) => String(m?.threatType ?? "UNKNOWN"))));
+}
+
+// ---- Helper: threat types per URL, for batch lookups ----
+// Every requested URL gets an entry (empty array = clean).
+export function safeBrowsingThreatsByUrl(result: any, urls: string[]): Map<string, string[]> {
+  const byUrl = new Map<string, string[]>(urls.map((u) => [u, []]));
+  const matches = Array.isArray(result?.matches) ? result.matches : [];
+  for (const m of matches) {
+    const url = String(m?.threat?.url ?? "");
+    const threats = byUrl.get(url);
+    if (threats && !threats.includes(String(m?.threatType))) threats.push(String(m?.threatType ?? "UNKNOWN"));
+  }
+  return byUrl;
+}
@@ -0,0 +1,478 @@
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { safeBrowsingLookup } from "./safeBrowsing";
+
+// ---- Google Safe Browsing (Update API v4, local hash-prefix database) ----
+// The Lookup API sends the full URL to Google, so notification links were never checked.
+// Instead, `safeBrowsingListUpdater` keeps the hash prefixes of Google's URL lists in
+// Firestore (`safe_browsing_lists/{list}` plus chunk docs), and every instance keeps a copy in
+// memory. A URL is canonicalized and hashed locally; only when one of its hashes starts with
+// a listed prefix is that prefix (never the URL) sent to fullHashes:find to confirm the match.
+// Until the database has been downloaded, callers can fall back to the Lookup API.
+
+const API_BASE = "https://safebrowsing.googleapis.com/v4";
+const CLIENT = { clientId: "safex", clientVersion: "1.0.0" };
+
+const LISTS_COLLECTION = "safe_browsing_lists";
+const CHUNKS_SUBCOLLECTION = "chunks";
+
+// Firestore docs are capped at 1 MiB.
+const MAX_CHUNK_BYTES = 900 * 1024;
+
+// Each instance re-reads the list docs at most this often.
+const DATABASE_CACHE_MS = 5 * 60 * 1000;
+// A database the updater hasn't refreshed for this long isn't used.
+const MAX_DATABASE_AGE_MS = 24 * 60 * 60 * 1000;
+// Used when Google doesn't say how long to wait before the next update.
+const DEFAULT_WAIT_MS = 30 * 60 * 1000;
+const MAX_CACHED_HASHES = 5000;
+
+export interface SafeBrowsingList {
+  threatType: string;
+  platformType: string;
+  threatEntryType: "URL";
+}
+
+export const SAFE_BROWSING_LISTS: SafeBrowsingList[] = [
+  { threatType: "MALWARE", platformType: "ANY_PLATFORM", threatEntryType: "URL" },
+  { threatType: "SOCIAL_ENGINEERING", platformType: "ANY_PLATFORM", threatEntryType: "URL" },
+  { threatType: "UNWANTED_SOFTWARE", platformType: "ANY_PLATFORM", threatEntryType: "URL" },
+  { threatType: "POTENTIALLY_HARMFUL_APPLICATION", platformType: "ANDROID", threatEntryType: "URL" },
+];
+
+export const listId = (list: SafeBrowsingList) => `${list.threatType}_${list.platformType}`;
+
+// Sorted hash prefixes of one list, by prefix length in bytes (almost all are 4 bytes).
+export type PrefixSet = Map<number, Buffer>;
+
+export interface LocalList {
+  list: SafeBrowsingList;
+  state: string; // opaque client state from the last update
+  prefixes: PrefixSet;
+}
+
+export interface LocalDatabase {
+  lists: LocalList[];
+  updatedAt: number;
+}
+
+export class SafeBrowsingChecksumError extends Error {}
+
+// ---- Helper: URL canonicalization, as specified for the Update API ----
+// Returns null when there is no host.
+export function canonicalizeUrl(raw: string): string | null {
+  let url = raw.trim().replace(/[\t\r\n]/g, "");
+  const fragment = url.indexOf("#");
+  if (fragment >= 0) url = url.slice(0, fragment);
+  // Work on UTF-8 bytes, one char per byte, so unescaping and escaping agree.
+  url = unescapeRepeatedly(Buffer.from(url, "utf8").toString("latin1"));
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) url = `http://${url}`;
+
+  const m = /^([a-z][a-z0-9+.-]*):\/\/([^/?]*)([^?]*)(\?[\s\S]*)?$/i.exec(url);
+  if (!m) return null;
+  const [, scheme, authority, path, query] = m;
+  const hostAndPort = authority.slice(authority.lastIndexOf("@") + 1);
+  let host = hostAndPort.replace(/:\d*$/, "").toLowerCase().replace(/^\.+|\.+$/g, "").replace(/\.{2,}/g, ".");
+  host = normalizeIpv4(host) ?? host;
+  if (!host) return null;
+
+  return escapeBytes(`${scheme.toLowerCase()}://${host}${canonicalPath(path || "/")}${query ?? ""}`);
+}
+
+function unescapeRepeatedly(s: string): string {
+  let previous: string;
+  do {
+    previous = s;
+    s = s.replace(/%([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  } while (s !== previous);
+  return s;
+}
+
+function escapeBytes(s: string): string {
+  let out = "";
+  for (let i = 0; i < s.length; i++) {
+    const code = s.charCodeAt(i);
+    out += code <= 32 || code >= 127 || s[i] === "#" || s[i] === "%" ?
+      `%${code.toString(16).toUpperCase().padStart(2, "0")}` :
+      s[i];
+  }
+  return out;
+}
+
+// "3279880203", "0xC37F000B" and "195.127.11" all mean 195.127.0.11.
+function normalizeIpv4(host: string): string | null {
+  const parts = host.split(".");
+  if (parts.length > 4) return null;
+  const numbers: number[] = [];
+  for (const part of parts) {
+    let n: number;
+    if (/^0x[0-9a-f]*$/i.test(part)) n = parseInt(part.slice(2) || "0", 16);
+    else if (/^0[0-7]+$/.test(part)) n = parseInt(part, 8);
+    else if (/^\d+$/.test(part)) n = parseInt(part, 10);
+    else return null;
+    numbers.push(n);
+  }
+  const last = numbers.pop() as number;
+  if (numbers.some((n) => n > 255) || last >= Math.pow(256, 4 - numbers.length)) return null;
+  const bytes = [...numbers];
+  for (let i = 4 - numbers.length - 1; i >= 0; i--) bytes.push(Math.floor(last / Math.pow(256, i)) % 256);
+  return bytes.join(".");
+}
+
+// "/a/./b/../c//d" -> "/a/c/d"; a trailing slash is kept.
+function canonicalPath(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") segments.pop();
+    else segments.push(segment);
+  }
+  const trailing = /\/(\.\.?)?$/.test(path) && segments.length > 0;
+  return `/${segments.join("/")}${trailing ? "/" : ""}`;
+}
+
+// ---- Helper: the host-suffix / path-prefix expressions a canonical URL is looked up by ----
+// At most 5 hosts (the exact host and up to 4 suffixes of its last 5 labels) times 6 paths
+// (with and without the query, and up to 4 leading directories).
+export function urlExpressions(canonicalUrl: string): string[] {
+  const m = /^[a-z][a-z0-9+.-]*:\/\/([^/?]*)([^?]*)(\?.*)?$/i.exec(canonicalUrl);
+  if (!m) return [];
+  const [, host, path, query] = m;
+
+  const hosts = [host];
+  if (!/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    const labels = host.split(".").slice(-5);
+    for (let i = labels.length === host.split(".").length ? 1 : 0; i <= labels.length - 2; i++) {
+      hosts.push(labels.slice(i).join("."));
+    }
+  }
+
+  const paths = [...(query !== undefined ? [path + query] : []), path, "/"];
+  const directories = path.split("/").slice(1, -1);
+  for (let i = 1; i <= Math.min(3, directories.length); i++) {
+    paths.push(`/${directories.slice(0, i).join("/")}/`);
+  }
+
+  const expressions = new Set<string>();
+  for (const h of Array.from(new Set(hosts)).slice(0, 5)) {
+    for (const p of paths) expressions.add(h + p);
+  }
+  return Array.from(expressions);
+}
+
+export const fullHash = (expression: string) => createHash("sha256").update(expression, "latin1").digest();
+
+// ---- Prefix sets ----
+// While updating, prefixes are handled as latin1 strings (one char per byte): far smaller than
+// a Buffer each, and the default string sort is the byte order the API indexes them in.
+function splitRecords(data: Buffer, size: number): string[] {
+  const records: string[] = [];
+  for (let i = 0; i + size <= data.length; i += size) records.push(data.toString("latin1", i, i + size));
+  return records;
+}
+
+// Every prefix of the set in lexicographic order, as the API indexes and checksums them.
+export function mergedPrefixes(prefixes: PrefixSet): string[] {
+  return Array.from(prefixes.entries()).flatMap(([size, data]) => splitRecords(data, size)).sort();
+}
+
+export function prefixCount(prefixes: PrefixSet): number {
+  let count = 0;
+  prefixes.forEach((data, size) => (count += data.length / size));
+  return count;
+}
+
+// The prefix of the set that `hash` starts with, or null. Binary search per prefix length.
+export function matchesPrefix(prefixes: PrefixSet, hash: Buffer): Buffer | null {
+  for (const [size, data] of Array.from(prefixes.entries())) {
+    const target = hash.subarray(0, size);
+    let lo = 0;
+    let hi = data.length / size - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const cmp = Buffer.compare(data.subarray(mid * size, (mid + 1) * size), target);
+      if (cmp === 0) return target;
+      if (cmp < 0) lo = mid + 1;
+      else hi = mid - 1;
+    }
+  }
+  return null;
+}
+
+// ---- Helper: apply one listUpdateResponse to a list's prefixes ----
+// Removals index into the old list in lexicographic order; the checksum covers the result.
+// Only RAW compression is requested.
+export function applyListUpdate(current: PrefixSet, update: any): PrefixSet {
+  const base = update?.responseType === "FULL_UPDATE" ? [] : mergedPrefixes(current);
+
+  const removed = new Set<number>();
+  for (const removal of update?.removals ?? []) {
+    for (const index of removal?.rawIndices?.indices ?? []) removed.add(Number(index));
+  }
+  const kept = base.filter((_, i) => !removed.has(i));
+
+  const added: string[] = [];
+  for (const addition of update?.additions ?? []) {
+    const size = Number(addition?.rawHashes?.prefixSize ?? 4);
+    added.push(...splitRecords(Buffer.from(String(addition?.rawHashes?.rawHashes ?? ""), "base64"), size));
+  }
+
+  const sorted = kept.concat(added).sort();
+  const merged = sorted.filter((p, i) => i === 0 || p !== sorted[i - 1]);
+  const expected = update?.checksum?.sha256;
+  if (expected && createHash("sha256").update(merged.join(""), "latin1").digest("base64") !== expected) {
+    throw new SafeBrowsingChecksumError(`Checksum mismatch for ${update?.threatType}`);
+  }
+
+  const bySize = new Map<number, string[]>();
+  for (const prefix of merged) {
+    const records = bySize.get(prefix.length) ?? [];
+    records.push(prefix);
+    bySize.set(prefix.length, records);
+  }
+  return new Map(Array.from(bySize.entries()).map(([size, records]) => [size, Buffer.from(records.join(""), "latin1")]));
+}
+
+// "1800.5s" -> ms
+function durationMs(value: unknown, fallback: number): number {
+  const seconds = parseFloat(String(value ?? ""));
+  return Number.isFinite(seconds) ? Math.round(seconds * 1000) : fallback;
+}
+
+async function postJson(path: string, apiKey: string, body: unknown): Promise<any> {
+  const res = await fetch(`${API_BASE}/${path}?key=${apiKey}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new Error(`SafeBrowsing error ${res.status}: ${await res.text()}`);
+  }
+  return await res.json();
+}
+
+// ---- Storage ----
+// One doc per list with its client state; the prefixes live in chunk docs tagged with a
+// generation, so readers never see a half-written list.
+async function loadListPrefixes(id: string, generation: string): Promise<PrefixSet> {
+  const snaps = await admin.firestore().collection(LISTS_COLLECTION).doc(id).collection(CHUNKS_SUBCOLLECTION)
+    .where("generation", "==", generation).get();
+  const bySize = new Map<number, { index: number; data: Buffer }[]>();
+  for (const doc of snaps.docs) {
+    const d = doc.data();
+    const size = Number(d.prefixSize);
+    bySize.set(size, [...(bySize.get(size) ?? []), { index: Number(d.index), data: Buffer.from(d.data) }]);
+  }
+  return new Map(Array.from(bySize.entries()).map(([size, chunks]) =>
+    [size, Buffer.concat(chunks.sort((a, b) => a.index - b.index).map((c) => c.data))]));
+}
+
+async function saveList(local: LocalList, checksum: string | null, nextUpdateAt: number, now: number): Promise<void> {
+  const db = admin.firestore();
+  const listRef = db.collection(LISTS_COLLECTION).doc(listId(local.list));
+  const chunks = listRef.collection(CHUNKS_SUBCOLLECTION);
+  const generation = `${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+  for (const [size, data] of Array.from(local.prefixes.entries())) {
+    const perChunk = Math.floor(MAX_CHUNK_BYTES / size) * size;
+    for (let offset = 0, index = 0; offset < data.length; offset += perChunk, index++) {
+      await chunks.doc(`${generation}_${size}_${index}`).set({
+        generation, prefixSize: size, index, data: data.subarray(offset, offset + perChunk),
+      });
+    }
+  }
+
+  await listRef.set({
+    ...local.list,
+    state: local.state,
+    checksum,
+    generation,
+    prefixCount: prefixCount(local.prefixes),
+    updatedAt: now,
+    nextUpdateAt,
+  });
+
+  // Older generations are no longer referenced.
+  const stale = await chunks.where("generation", "!=", generation).get();
+  for (let i = 0; i < stale.docs.length; i += 400) {
+    const batch = db.batch();
+    stale.docs.slice(i, i + 400).forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+}
+
+// ---- Write path: the scheduled updater ----
+// Fetches changes for every list since its stored state and saves the result. A list whose
+// checksum doesn't match is reset, so the next run downloads it in full.
+// Returns false when the minimum wait Google asked for hasn't passed yet.
+export async function updateSafeBrowsingLists(apiKey: string, now: number = Date.now()): Promise<boolean> {
+  const db = admin.firestore();
+  const snaps = await db.getAll(...SAFE_BROWSING_LISTS.map((l) => db.collection(LISTS_COLLECTION).doc(listId(l))));
+  const stored = snaps.map((snap) => (snap.exists ? snap.data() ?? {} : null));
+  if (stored.every((d) => d && Number(d.nextUpdateAt ?? 0) > now)) return false;
+
+  const locals: LocalList[] = await Promise.all(SAFE_BROWSING_LISTS.map(async (list, i) => ({
+    list,
+    state: String(stored[i]?.state ?? ""),
+    prefixes: stored[i]?.generation ? await loadListPrefixes(listId(list), String(stored[i]?.generation)) : new Map(),
+  })));
+
+  const response = await postJson("threatListUpdates:fetch", apiKey, {
+    client: CLIENT,
+    listUpdateRequests: locals.map((l) => ({ ...l.list, state: l.state, constraints: { supportedCompressions: ["RAW"] } })),
+  });
+  const nextUpdateAt = now + durationMs(response?.minimumWaitDuration, DEFAULT_WAIT_MS);
+
+  const updates: any[] = Array.isArray(response?.listUpdateResponses) ? response.listUpdateResponses : [];
+  for (const local of locals) {
+    const update = updates.find((u) => u?.threatType === local.list.threatType && u?.platformType === local.list.platformType);
+    try {
+      if (update) {
+        local.prefixes = applyListUpdate(local.prefixes, update);
+        local.state = String(update.newClientState ?? "");
+      }
+      await saveList(local, update?.checksum?.sha256 ?? null, nextUpdateAt, now);
+    } catch (e) {
+      if (!(e instanceof SafeBrowsingChecksumError)) throw e;
+      logger.warn("Safe Browsing list checksum mismatch, resetting the list", { list: listId(local.list) });
+      await saveList({ ...local, state: "", prefixes: new Map() }, null, now, now);
+    }
+  }
+  cachedDatabase = null;
+  return true;
+}
+
+// ---- Read path ----
+let cachedDatabase: { database: LocalDatabase | null; generations: string[]; readAt: number } | null = null;
+
+// The in-memory copy of every list, or null until all of them have been downloaded (or when
+// the updater has stopped running).
+export async function getLocalDatabase(now: number = Date.now()): Promise<LocalDatabase | null> {
+  if (cachedDatabase && now - cachedDatabase.readAt < DATABASE_CACHE_MS) return cachedDatabase.database;
+
+  const db = admin.firestore();
+  const snaps = await db.getAll(...SAFE_BROWSING_LISTS.map((l) => db.collection(LISTS_COLLECTION).doc(listId(l))));
+  const docs = snaps.map((snap) => (snap.exists ? snap.data() ?? {} : null));
+  const generations = docs.map((d) => String(d?.generation ?? ""));
+  const updatedAt = Math.min(...docs.map((d) => Number(d?.updatedAt ?? 0)));
+
+  let database: LocalDatabase | null = null;
+  if (docs.every((d) => d?.state) && now - updatedAt < MAX_DATABASE_AGE_MS) {
+    const unchanged = cachedDatabase?.database && cachedDatabase.generations.join() === generations.join();
+    database = unchanged ? { ...cachedDatabase!.database!, updatedAt } : {
+      updatedAt,
+      lists: await Promise.all(SAFE_BROWSING_LISTS.map(async (list, i) => ({
+        list, state: String(docs[i]?.state), prefixes: await loadListPrefixes(listId(list), generations[i]),
+      }))),
+    };
+  }
+  cachedDatabase = { database, generations, readAt: now };
+  return database;
+}
+
+// ---- Full-hash confirmation ----
+// Results are cached for as long as the API allows: matches by full hash, misses by prefix.
+const fullHashCache = new Map<string, { threatTypes: string[]; expiresAt: number }>();
+const negativeCache = new Map<string, number>();
+
+function remember<V>(cache: Map<string, V>, key: string, value: V) {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > MAX_CACHED_HASHES) cache.delete(cache.keys().next().value as string);
+}
+
+interface Candidate {
+  url: string;
+  hash: Buffer;
+  prefix: Buffer;
+  threatTypes: string[]; // lists whose prefix matched
+}
+
+// Hashes of the URLs' expressions that start with a listed prefix. Nothing leaves the instance.
+export function localCandidates(database: LocalDatabase, urls: string[]): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const url of urls) {
+    const canonical = canonicalizeUrl(url);
+    if (!canonical) continue;
+    for (const expression of urlExpressions(canonical)) {
+      const hash = fullHash(expression);
+      let prefix: Buffer | null = null;
+      const threatTypes: string[] = [];
+      for (const local of database.lists) {
+        const matched = matchesPrefix(local.prefixes, hash);
+        if (matched) {
+          prefix = prefix && prefix.length <= matched.length ? prefix : matched;
+          threatTypes.push(local.list.threatType);
+        }
+      }
+      if (prefix) candidates.push({ url, hash, prefix, threatTypes });
+    }
+  }
+  return candidates;
+}
+
+async function confirmCandidates(database: LocalDatabase, candidates: Candidate[], apiKey: string, now: number) {
+  const unknown = candidates.filter((c) => {
+    const cached = fullHashCache.get(c.hash.toString("hex"));
+    return !(cached && cached.expiresAt > now) && !((negativeCache.get(c.prefix.toString("hex")) ?? 0) > now);
+  });
+  const prefixes = Array.from(new Set(unknown.map((c) => c.prefix.toString("base64"))));
+  if (prefixes.length === 0) return;
+
+  const response = await postJson("fullHashes:find", apiKey, {
+    client: CLIENT,
+    clientStates: database.lists.map((l) => l.state),
+    threatInfo: {
+      threatTypes: Array.from(new Set(SAFE_BROWSING_LISTS.map((l) => l.threatType))),
+      platformTypes: Array.from(new Set(SAFE_BROWSING_LISTS.map((l) => l.platformType))),
+      threatEntryTypes: ["URL"],
+      threatEntries: prefixes.map((hash) => ({ hash })),
+    },
+  });
+
+  const found = new Map<string, { threatTypes: string[]; expiresAt: number }>();
+  for (const match of Array.isArray(response?.matches) ? response.matches : []) {
+    const key = Buffer.from(String(match?.threat?.hash ?? ""), "base64").toString("hex");
+    const entry = found.get(key) ?? { threatTypes: [], expiresAt: now + durationMs(match?.cacheDuration, 300000) };
+    if (!entry.threatTypes.includes(String(match?.threatType))) entry.threatTypes.push(String(match?.threatType ?? "UNKNOWN"));
+    found.set(key, entry);
+  }
+  found.forEach((entry, key) => remember(fullHashCache, key, entry));
+  const negativeUntil = now + durationMs(response?.negativeCacheDuration, 300000);
+  for (const c of unknown) {
+    if (!found.has(c.hash.toString("hex"))) remember(negativeCache, c.prefix.toString("hex"), negativeUntil);
+  }
+}
+
+// ---- Lookup without disclosing the URLs ----
+// Same shape as a Lookup API response ({} or { matches: [...] }), or null when the local
+// database isn't ready.
+export async function localSafeBrowsingLookup(urls: string[], apiKey: string, now: number = Date.now()) {
+  const database = await getLocalDatabase(now);
+  if (!database) return null;
+
+  const candidates = localCandidates(database, urls);
+  await confirmCandidates(database, candidates, apiKey, now);
+
+  const matches: { threatType: string; platformType: string; threatEntryType: string; threat: { url: string } }[] = [];
+  for (const c of candidates) {
+    const confirmed = fullHashCache.get(c.hash.toString("hex"));
+    if (!confirmed || confirmed.expiresAt <= now) continue;
+    for (const threatType of confirmed.threatTypes.filter((t) => c.threatTypes.includes(t))) {
+      if (matches.some((m) => m.threat.url === c.url && m.threatType === threatType)) continue;
+      const list = SAFE_BROWSING_LISTS.find((l) => l.threatType === threatType);
+      matches.push({ threatType, platformType: list?.platformType ?? "ANY_PLATFORM", threatEntryType: "URL", threat: { url: c.url } });
+    }
+  }
+  return matches.length ? { matches } : {};
+}
+
+// ---- Helper: Safe Browsing for checkLink / checkLinks / explainAlert ----
+// The local database first; the Lookup API (which sees the URLs) only when it isn't ready and
+// the user asked for the check. null = not checked.
+export async function safeBrowsingCheck(urls: string[], apiKey: string, options: { allowLookupApi: boolean }) {
+  const local = await localSafeBrowsingLookup(urls, apiKey);
+  if (local) return local;
+  return options.allowLookupApi ? await safeBrowsingLookup(urls, apiKey) : null;
+}
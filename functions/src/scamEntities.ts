@@ -0,0 +1,168 @@
+import { createHmac } from "crypto";
+import * as admin from "firebase-admin";
+import { ScamEntityType } from "./contracts";
+import { decayScore, ReputationLevel, reputationLevel } from "./reputation";
+import { RiskVerdict, scoreRisk, ScoringConfig, VERDICT_HEADLINES, verdictReasons } from "./scoring";
+import { describeThreatIntel, normalizeIndicator, ThreatIntelMatch } from "./threatIntel";
+
+// ---- Scam entities (phone numbers and bank accounts) ----
+// Users report the number or account a scam asked them to call or pay (reportAlert), and
+// look one up before they do (checkEntity). Reports are kept per entity in
+// `reputation_entities/{type}_{hmac}`, scored like domain reputation. The raw value is never
+// stored: the doc ID is an HMAC keyed with ENTITY_HASH_SECRET, so the collection can't be
+// reversed by hashing every possible phone number.
+
+const ENTITY_COLLECTION = "reputation_entities";
+
+const MAX_CATEGORIES = 20;
+
+export interface EntityReputation {
+  type: ScamEntityType;
+  firstSeen: number; // epoch ms
+  lastSeen: number; // epoch ms
+  totalReports: number;
+  categories: Record<string, number>;
+  score: number; // decayed to "now" when read
+  level: ReputationLevel;
+}
+
+// ---- Helper: a Malaysian or Singaporean number in E.164 (+60..., +65...); null otherwise ----
+// "012-345 6789" and "03-1234 5678" are read as Malaysian; a bare 8-digit number starting
+// with 3, 6, 8 or 9 as Singaporean.
+export function normalizePhoneE164(raw: string): string | null {
+  const trimmed = raw.trim();
+  if (!/^[+\d\s\-().]+$/.test(trimmed)) return null;
+  const digits = trimmed.replace(/\D/g, "");
+
+  let national: string;
+  let country: string;
+  if (trimmed.startsWith("+") || digits.startsWith("00")) {
+    const n = digits.replace(/^00/, "");
+    country = n.slice(0, 2);
+    national = n.slice(2);
+  } else if (digits.startsWith("0")) {
+    country = "60";
+    national = digits.slice(1);
+  } else if (/^[3689]\d{7}$/.test(digits)) {
+    country = "65";
+    national = digits;
+  } else {
+    country = digits.slice(0, 2);
+    national = digits.slice(2);
+  }
+
+  if (country === "60" && /^[1-9]\d{7,9}$/.test(national)) return `+60${national}`;
+  if (country === "65" && /^[3689]\d{7}$/.test(national)) return `+65${national}`;
+  return null;
+}
+
+// ---- Helper: the value an entity is keyed and shown by; null when it isn't valid ----
+export function normalizeEntity(type: ScamEntityType, raw: string): string | null {
+  return type === "phone" ? normalizePhoneE164(raw) : normalizeIndicator("bankAccount", raw);
+}
+
+// threat_intel stores phone numbers as digits with the country code, without "+".
+export function threatIntelValue(type: ScamEntityType, value: string): string {
+  return type === "phone" ? value.replace(/^\+/, "") : value;
+}
+
+export function entityId(type: ScamEntityType, value: string, secret: string): string {
+  if (!secret) throw new Error("ENTITY_HASH_SECRET is not set");
+  return `${type}_${createHmac("sha256", secret).update(`${type}:${value}`).digest("hex").slice(0, 40)}`;
+}
+
+// ---- Write path: called from reportAlert ----
+export async function recordEntityReport(
+  type: ScamEntityType, id: string, report: { category: string }, now: number = Date.now()
+): Promise<EntityReputation> {
+  const db = admin.firestore();
+  const docRef = db.collection(ENTITY_COLLECTION).doc(id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    const prev = snap.exists ? (snap.data() as any) : null;
+
+    const categories: Record<string, number> = { ...(prev?.categories ?? {}) };
+    if (report.category in categories || Object.keys(categories).length < MAX_CATEGORIES) {
+      categories[report.category] = (categories[report.category] ?? 0) + 1;
+    }
+
+    const prevScore = prev ? decayScore(Number(prev.score ?? 0), Number(prev.scoreUpdatedAt ?? now), now) : 0;
+    const score = prevScore + 1;
+    const totalReports = Number(prev?.totalReports ?? 0) + 1;
+    const firstSeen = Number(prev?.firstSeen ?? now);
+
+    tx.set(docRef, {
+      type,
+      firstSeen,
+      lastSeen: now,
+      totalReports,
+      categories,
+      score,
+      scoreUpdatedAt: now,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return { type, firstSeen, lastSeen: now, totalReports, categories, score, level: reputationLevel(score, totalReports) };
+  });
+}
+
+// ---- Read path: called from checkEntity ----
+// Returns null when the entity has never been reported.
+export async function getEntityReputation(
+  type: ScamEntityType, id: string, now: number = Date.now()
+): Promise<EntityReputation | null> {
+  const snap = await admin.firestore().collection(ENTITY_COLLECTION).doc(id).get();
+  if (!snap.exists) return null;
+
+  const d = snap.data() as any;
+  const totalReports = Number(d.totalReports ?? 0);
+  const score = decayScore(Number(d.score ?? 0), Number(d.scoreUpdatedAt ?? now), now);
+  return {
+    type,
+    firstSeen: Number(d.firstSeen ?? 0),
+    lastSeen: Number(d.lastSeen ?? 0),
+    totalReports,
+    categories: d.categories ?? {},
+    score: Math.round(score * 100) / 100,
+    level: reputationLevel(score, totalReports),
+  };
+}
+
+const TYPE_LABELS: Record<ScamEntityType, string> = {
+  phone: "number",
+  bankAccount: "account",
+};
+
+export function describeEntityReputation(rep: EntityReputation): string {
+  const topCategory = Object.entries(rep.categories).sort((a, b) => b[1] - a[1])[0]?.[0];
+  const lastSeen = new Date(rep.lastSeen).toISOString().slice(0, 10);
+  return `This ${TYPE_LABELS[rep.type]} was reported ${rep.totalReports} time(s) by SafeX users` +
+    (topCategory ? `, mostly as "${topCategory}"` : "") +
+    ` (last report ${lastSeen}, reputation ${rep.level}).`;
+}
+
+// ---- Verdict for checkEntity: community reports and scam news only, no model ----
+export function entityVerdict(
+  type: ScamEntityType, reputation: EntityReputation | null, threatIntel: ThreatIntelMatch[], config: ScoringConfig
+): { riskLevel: RiskVerdict["riskLevel"]; headline: string; reasons: string[]; scoring: RiskVerdict } {
+  const intel = threatIntel[0];
+  const scoring = scoreRisk({
+    reputation,
+    threatIntel: intel ? { confidence: intel.confidence, detail: describeThreatIntel(intel) } : null,
+  }, config);
+
+  // Without any signal the weighted score is 0: say so rather than calling the number safe.
+  const unknown = !reputation && threatIntel.length === 0;
+  return {
+    riskLevel: scoring.riskLevel,
+    headline: unknown ? `No reports of this ${TYPE_LABELS[type]} yet` : VERDICT_HEADLINES[scoring.riskLevel],
+    reasons: [
+      ...verdictReasons(scoring),
+      ...(reputation ? [describeEntityReputation(reputation)] : []),
+      ...threatIntel.slice(1).map(describeThreatIntel),
+      ...(unknown ? ["Scammers change numbers and accounts often, so no reports doesn't mean it is safe."] : []),
+    ],
+    scoring,
+  };
+}
@@ -0,0 +1,238 @@
+import { ReputationLevel } from "./reputation";
+
+// ---- Deterministic risk scoring ----
+// Fuses every signal we have (URL heuristics, Safe Browsing, community reputation, threat
+// intel from scam news, on-device scores and Gemini) into one verdict. Weights and hard overrides are explicit,
+// so the same inputs always give the same verdict and every verdict can be explained.
+
+export type RiskLevel = "LOW" | "MEDIUM" | "HIGH";
+
+export type SignalName =
+  | "urlHeuristics"
+  | "safeBrowsing"
+  | "reputation"
+  | "threatIntel"
+  | "onDeviceHeuristic"
+  | "onDeviceTflite"
+  | "gemini";
+
+export interface ScoringConfig {
+  // Relative weight of each signal when it is present. Missing signals are left out of the average.
+  weights: Record<SignalName, number>;
+  // Score (0-100) at or above which the verdict becomes MEDIUM / HIGH.
+  thresholds: { medium: number; high: number };
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    urlHeuristics: 2,
+    safeBrowsing: 4,
+    reputation: 3,
+    threatIntel: 4,
+    onDeviceHeuristic: 0.5,
+    onDeviceTflite: 1,
+    gemini: 3,
+  },
+  thresholds: { medium: 40, high: 70 },
+};
+
+export interface ScoringInput {
+  urlHeuristics?: { suspicious: boolean; official: boolean; reason: string | null } | null;
+  // Threat types returned by Safe Browsing (empty array = checked and clean, null = not checked).
+  safeBrowsingThreats?: string[] | null;
+  reputation?: { level: ReputationLevel; totalReports: number } | null;
+  // Strongest threat intel match: the indicator was named in scam news (confidence 0-1).
+  threatIntel?: { confidence: number; detail: string } | null;
+  heuristicScore?: number | null; // on-device keyword score, 0-1
+  tfliteScore?: number | null; // on-device TFLite score, 0-1
+  gemini?: { riskLevel: RiskLevel; confidence: number } | null;
+}
+
+export interface SignalContribution {
+  signal: SignalName;
+  value: number; // 0-1, how risky this signal says the input is
+  weight: number; // effective weight used in the average
+  contribution: number; // share of the final score, 0-100
+  detail: string;
+}
+
+export interface AppliedOverride {
+  rule: "safeBrowsingMatch" | "reputationHigh" | "threatIntelMatch" | "officialDomainCap";
+  riskLevel: RiskLevel;
+  detail: string;
+}
+
+export interface RiskVerdict {
+  riskLevel: RiskLevel;
+  score: number; // weighted score before overrides, 0-100
+  breakdown: SignalContribution[];
+  overrides: AppliedOverride[];
+}
+
+const LEVEL_VALUE: Record<RiskLevel, number> = { LOW: 0.1, MEDIUM: 0.55, HIGH: 0.95 };
+const REPUTATION_VALUE: Record<ReputationLevel, number> = { NONE: 0, LOW: 0.35, MEDIUM: 0.7, HIGH: 1 };
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// A threat intel match at least this confident forces HIGH on its own.
+const THREAT_INTEL_HIGH_CONFIDENCE = 0.7;
+
+// ---- Helper: merge a partial (e.g. from a param) over the defaults ----
+export function resolveScoringConfig(partial?: Partial<ScoringConfig> | null): ScoringConfig {
+  return {
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, ...(partial?.weights ?? {}) },
+    thresholds: { ...DEFAULT_SCORING_CONFIG.thresholds, ...(partial?.thresholds ?? {}) },
+  };
+}
+
+// ---- Helper: parse the RISK_SCORING_CONFIG param (JSON); bad JSON falls back to defaults ----
+export function parseScoringConfig(json: string | null | undefined): ScoringConfig {
+  if (!json || !json.trim()) return DEFAULT_SCORING_CONFIG;
+  try {
+    return resolveScoringConfig(JSON.parse(json));
+  } catch {
+    return DEFAULT_SCORING_CONFIG;
+  }
+}
+
+export function levelForScore(score: number, config: ScoringConfig = DEFAULT_SCORING_CONFIG): RiskLevel {
+  if (score >= config.thresholds.high) return "HIGH";
+  if (score >= config.thresholds.medium) return "MEDIUM";
+  return "LOW";
+}
+
+export function scoreRisk(input: ScoringInput, config: ScoringConfig = DEFAULT_SCORING_CONFIG): RiskVerdict {
+  const raw: { signal: SignalName; value: number; weight: number; detail: string }[] = [];
+
+  if (input.urlHeuristics) {
+    const h = input.urlHeuristics;
+    raw.push({
+      signal: "urlHeuristics",
+      value: h.official ? 0 : h.suspicious ? 0.9 : 0.15,
+      weight: config.weights.urlHeuristics,
+      detail: h.official ? "Official domain" : h.reason ?? "No suspicious URL pattern",
+    });
+  }
+
+  if (input.safeBrowsingThreats) {
+    const threats = input.safeBrowsingThreats;
+    raw.push({
+      signal: "safeBrowsing",
+      value: threats.length > 0 ? 1 : 0,
+      weight: config.weights.safeBrowsing,
+      detail: threats.length > 0 ? `Google Safe Browsing match: ${threats.join(", ")}` : "Not on Google Safe Browsing lists",
+    });
+  }
+
+  if (input.reputation && input.reputation.level !== "NONE") {
+    raw.push({
+      signal: "reputation",
+      value: REPUTATION_VALUE[input.reputation.level],
+      weight: config.weights.reputation,
+      detail: `Reported ${input.reputation.totalReports} time(s) by SafeX users (${input.reputation.level})`,
+    });
+  }
+
+  if (input.threatIntel) {
+    raw.push({
+      signal: "threatIntel",
+      value: clamp01(input.threatIntel.confidence),
+      weight: config.weights.threatIntel,
+      detail: input.threatIntel.detail,
+    });
+  }
+
+  if (typeof input.heuristicScore === "number") {
+    raw.push({
+      signal: "onDeviceHeuristic",
+      value: clamp01(input.heuristicScore),
+      weight: config.weights.onDeviceHeuristic,
+      detail: `On-device keyword score ${input.heuristicScore.toFixed(2)}`,
+    });
+  }
+
+  if (typeof input.tfliteScore === "number") {
+    raw.push({
+      signal: "onDeviceTflite",
+      value: clamp01(input.tfliteScore),
+      weight: config.weights.onDeviceTflite,
+      detail: `On-device AI model score ${input.tfliteScore.toFixed(2)}`,
+    });
+  }
+
+  if (input.gemini) {
+    const confidence = clamp01(input.gemini.confidence);
+    raw.push({
+      signal: "gemini",
+      value: LEVEL_VALUE[input.gemini.riskLevel],
+      // A hesitant model counts for less, but never for nothing.
+      weight: config.weights.gemini * Math.max(0.3, confidence),
+      detail: `Gemini verdict ${input.gemini.riskLevel} (confidence ${confidence.toFixed(2)})`,
+    });
+  }
+
+  const totalWeight = raw.reduce((sum, s) => sum + s.weight, 0);
+  const breakdown: SignalContribution[] = raw.map((s) => ({
+    ...s,
+    contribution: totalWeight > 0 ? Math.round((s.value * s.weight / totalWeight) * 1000) / 10 : 0,
+  }));
+  const score = Math.round(breakdown.reduce((sum, s) => sum + s.contribution, 0) * 10) / 10;
+
+  let riskLevel = levelForScore(score, config);
+  const overrides: AppliedOverride[] = [];
+
+  // Hard overrides, applied in order; later rules win. Community reports cannot push an
+  // official domain above LOW (reports are easy to fake), but a Safe Browsing hit on an
+  // official domain means that site is compromised, so it still forces HIGH.
+  if (input.reputation?.level === "HIGH" && riskLevel !== "HIGH") {
+    riskLevel = "HIGH";
+    overrides.push({ rule: "reputationHigh", riskLevel, detail: "Reported by many SafeX users" });
+  }
+  if ((input.threatIntel?.confidence ?? 0) >= THREAT_INTEL_HIGH_CONFIDENCE && riskLevel !== "HIGH") {
+    riskLevel = "HIGH";
+    overrides.push({ rule: "threatIntelMatch", riskLevel, detail: "Named in a scam warning in the news" });
+  }
+  if (input.urlHeuristics?.official && riskLevel !== "LOW") {
+    riskLevel = "LOW";
+    overrides.push({ rule: "officialDomainCap", riskLevel, detail: "Allowlisted official domain cannot exceed LOW" });
+  }
+  if (input.safeBrowsingThreats && input.safeBrowsingThreats.length > 0 && riskLevel !== "HIGH") {
+    riskLevel = "HIGH";
+    overrides.push({ rule: "safeBrowsingMatch", riskLevel, detail: "Any Google Safe Browsing match forces HIGH" });
+  }
+
+  return { riskLevel, score, breakdown, overrides };
+}
+
+// True when the verdict is already forced to HIGH without the model, so Gemini can be skipped.
+export function isForcedHigh(input: ScoringInput): boolean {
+  if ((input.safeBrowsingThreats?.length ?? 0) > 0) return true;
+  if (input.urlHeuristics?.official) return false;
+  return input.reputation?.level === "HIGH" || (input.threatIntel?.confidence ?? 0) >= THREAT_INTEL_HIGH_CONFIDENCE;
+}
+
+const LEVEL_ORDER: RiskLevel[] = ["LOW", "MEDIUM", "HIGH"];
+
+export function maxRiskLevel(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return LEVEL_ORDER.indexOf(a) >= LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+// Model output is untrusted: anything that isn't LOW/MEDIUM/HIGH is treated as MEDIUM.
+export function normalizeRiskLevel(value: unknown): RiskLevel {
+  const upper = String(value ?? "").toUpperCase();
+  return (LEVEL_ORDER as string[]).includes(upper) ? upper as RiskLevel : "MEDIUM";
+}
+
+// ---- Helper: reasons behind a fused verdict, for the app's "why" list ----
+export function verdictReasons(verdict: RiskVerdict): string[] {
+  return [
+    ...verdict.overrides.map((o) => o.detail),
+    ...verdict.breakdown.filter((b) => b.signal !== "gemini" && b.value >= 0.5).map((b) => b.detail),
+  ];
+}
+
+export const VERDICT_HEADLINES: Record<RiskLevel, string> = {
+  HIGH: "This looks dangerous",
+  MEDIUM: "Be careful with this",
+  LOW: "No strong warning signs found",
+};
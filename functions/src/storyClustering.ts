@@ -0,0 +1,160 @@
+// ---- Story clustering ----
+// Ten outlets syndicating the same Bernama piece should be one story, summarized once. Articles
+// are compared by a signature: the normalized title tokens plus entities pulled from the title
+// and description (amounts, platforms, places, agencies). Two articles published within the
+// window are the same story when their titles overlap enough, or overlap less but share entities.
+
+export interface StorySignature {
+  tokens: string[]; // normalized title tokens, sorted and unique
+  entities: string[]; // "amount:200000", "platform:whatsapp", "place:johor", "agency:pdrm"
+  publishedAt: number; // epoch ms
+}
+
+export const STORY_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+// Jaccard thresholds on title tokens.
+const SAME_TITLE = 0.6; // near-identical headline
+const RELATED_TITLE = 0.35; // similar headline, confirmed by one shared entity
+const WEAK_TITLE = 0.2; // loosely similar, confirmed by the same amount and another entity
+
+const STOPWORDS = new Set([
+  // English
+  "the", "and", "for", "with", "from", "that", "this", "into", "over", "after", "before", "about", "says", "said",
+  "are", "was", "were", "has", "have", "had", "been", "will", "not", "but", "its", "his", "her", "their", "they",
+  "who", "what", "how", "why", "new", "more", "than", "out", "off", "via", "amid", "against", "under", "while",
+  // Malay
+  "dan", "yang", "untuk", "dengan", "dari", "pada", "kepada", "dalam", "oleh", "ini", "itu", "akan", "telah",
+  "tidak", "bagi", "selepas", "sebelum", "kerana", "juga", "atas",
+]);
+
+const PLATFORMS = [
+  "whatsapp", "telegram", "facebook", "instagram", "tiktok", "wechat", "signal", "shopee", "lazada", "carousell",
+  "grab", "tng", "touchngo", "maybank", "cimb", "rhb", "ambank", "bsn", "public bank", "hong leong",
+];
+
+const PLACES = [
+  "johor", "kedah", "kelantan", "melaka", "malacca", "negeri sembilan", "pahang", "penang", "pulau pinang", "perak",
+  "perlis", "sabah", "sarawak", "selangor", "terengganu", "kuala lumpur", "putrajaya", "labuan", "ipoh", "shah alam",
+  "petaling jaya", "klang", "seremban", "kuching", "kota kinabalu", "johor bahru", "singapore", "indonesia",
+  "thailand", "philippines", "cambodia", "myanmar", "vietnam", "hong kong", "taiwan", "china", "india",
+];
+
+const AGENCIES = ["pdrm", "ccid", "jsjk", "bnm", "bank negara", "mcmc", "nsrc", "macc", "sprm", "interpol"];
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, mil: 1e6, million: 1e6, juta: 1e6, bil: 1e9, billion: 1e9, bilion: 1e9,
+};
+
+function fold(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Google News appends " - Publisher" to every title; outlets don't.
+export function stripPublisherSuffix(title: string, publisher?: string | null): string {
+  const trimmed = title.trim();
+  if (publisher && trimmed.toLowerCase().endsWith(` - ${publisher.toLowerCase()}`)) {
+    return trimmed.slice(0, trimmed.length - publisher.length - 3).trim();
+  }
+  const match = trimmed.match(/^(.*\S)\s+[-–|]\s+([^-–|]{2,40})$/);
+  return match && match[2].trim().split(/\s+/).length <= 4 ? match[1] : trimmed;
+}
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 4 && token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+export function titleTokens(title: string): string[] {
+  const words = fold(title)
+    .replace(/(\d),(\d)/g, "$1$2")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= 3 || /^\d+$/.test(w))
+    .filter((w) => !STOPWORDS.has(w))
+    .map(stem);
+  return Array.from(new Set(words)).sort();
+}
+
+function amountEntity(value: string, unit: string | undefined): string | null {
+  const n = Number(value.replace(/,/g, "")) * (unit ? MULTIPLIERS[unit.toLowerCase()] ?? 1 : 1);
+  return Number.isFinite(n) && n >= 100 ? `amount:${Math.round(n)}` : null;
+}
+
+export function extractEntities(text: string): string[] {
+  const folded = fold(text);
+  const entities = new Set<string>();
+
+  const amountRegex = /(?:rm|s\$|us\$|usd|\$)\s?(\d[\d,]*(?:\.\d+)?)\s?(k|mil|million|juta|bil|billion|bilion)?\b/g;
+  let m: RegExpExecArray | null;
+  while ((m = amountRegex.exec(folded)) !== null) {
+    const amount = amountEntity(m[1], m[2]);
+    if (amount) entities.add(amount);
+  }
+
+  const has = (phrase: string) => new RegExp(`(^|[^\\p{L}\\p{N}])${phrase}([^\\p{L}\\p{N}]|$)`, "u").test(folded);
+  for (const p of PLATFORMS) if (has(p)) entities.add(`platform:${p.replace(/\s+/g, "")}`);
+  for (const p of PLACES) if (has(p)) entities.add(`place:${p.replace(/\s+/g, "")}`);
+  for (const a of AGENCIES) if (has(a)) entities.add(`agency:${a.replace(/\s+/g, "")}`);
+
+  return Array.from(entities).sort();
+}
+
+export function storySignature(
+  title: string, description: string, publishedAt: number, publisher?: string | null
+): StorySignature {
+  const headline = stripPublisherSuffix(title, publisher);
+  return {
+    tokens: titleTokens(headline),
+    entities: extractEntities(`${headline} ${description}`),
+    publishedAt,
+  };
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = a.filter((t) => setB.has(t)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+export function isSameStory(a: StorySignature, b: StorySignature, windowMs: number = STORY_WINDOW_MS): boolean {
+  if (Math.abs(a.publishedAt - b.publishedAt) > windowMs) return false;
+
+  const similarity = jaccard(a.tokens, b.tokens);
+  if (similarity >= SAME_TITLE) return true;
+
+  const setB = new Set(b.entities);
+  const shared = a.entities.filter((e) => setB.has(e));
+  if (similarity >= RELATED_TITLE && shared.length >= 1) return true;
+  return similarity >= WEAK_TITLE && shared.length >= 2 && shared.some((e) => e.startsWith("amount:"));
+}
+
+export interface StoryCluster<T> {
+  storyId: string | null; // existing story the members join, or null for a new story
+  members: T[]; // oldest first; for a new story the first member is the representative
+}
+
+// ---- Greedy clustering of a batch against existing stories and each other ----
+// Items are taken oldest first; each joins the first existing story or batch cluster it matches.
+export function clusterArticles<T>(
+  items: T[],
+  signatureOf: (item: T) => StorySignature,
+  existing: { id: string; signature: StorySignature }[],
+  windowMs: number = STORY_WINDOW_MS
+): StoryCluster<T>[] {
+  const clusters: (StoryCluster<T> & { signatures: StorySignature[] })[] =
+    existing.map((s) => ({ storyId: s.id, members: [], signatures: [s.signature] }));
+
+  const sorted = [...items].sort((a, b) => signatureOf(a).publishedAt - signatureOf(b).publishedAt);
+  for (const item of sorted) {
+    const signature = signatureOf(item);
+    const cluster = clusters.find((c) => c.signatures.some((s) => isSameStory(signature, s, windowMs)));
+    if (cluster) {
+      cluster.members.push(item);
+      cluster.signatures.push(signature);
+    } else {
+      clusters.push({ storyId: null, members: [item], signatures: [signature] });
+    }
+  }
+  return clusters.filter((c) => c.members.length > 0).map(({ storyId, members }) => ({ storyId, members }));
+}
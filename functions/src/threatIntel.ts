@@ -0,0 +1,211 @@
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { BrandEntry } from "./brandRegistry";
+import { ThreatIndicator, ThreatIndicatorType } from "./contracts";
+import { normalizeDomain } from "./reputation";
+import { analyzeUrl } from "./urlAnalyzer";
+import { invalidateDomainVerdicts } from "./verdictCache";
+
+// ---- Threat intel from scam news ----
+// While summarizing an accepted story, Gemini also lists the indicators the article names:
+// scam domains, phone numbers, bank accounts, app names and impersonated brands. Each one is
+// normalized and kept as one entry per (type, value) in `threat_intel/{type}_{hash}`, with the
+// articles that named it. Confidence grows as more articles name the same indicator.
+// checkLink and explainAlert look domains, phone numbers and account numbers up by doc ID;
+// apps and brands are kept for the Insights UI. The collection also holds the admin brand
+// overrides (`brand_{id}`, type "brand", see brandRegistry.ts).
+
+const THREAT_INTEL_COLLECTION = "threat_intel";
+
+// Model confidence below this isn't stored at all; a lookup only reports entries at or above
+// MIN_MATCH_CONFIDENCE that were named in the last MAX_AGE_DAYS.
+const MIN_RECORD_CONFIDENCE = 0.3;
+const MIN_MATCH_CONFIDENCE = 0.5;
+const MAX_AGE_DAYS = 180;
+const DEFAULT_CONFIDENCE = 0.5;
+const MAX_CONFIDENCE = 0.99;
+
+// The entry lists at most this many articles; `sourceCount` keeps counting past it.
+const MAX_LISTED_SOURCES = 20;
+
+const LOOKUP_TYPES: ThreatIndicatorType[] = ["domain", "phone", "bankAccount"];
+
+export interface IndicatorSource {
+  url: string;
+  storyId: string;
+  title: string;
+  sourceName: string;
+  seenDate: string;
+}
+
+export interface ThreatIntelMatch {
+  type: ThreatIndicatorType;
+  value: string;
+  confidence: number;
+  category: string | null; // most frequent category of the articles naming it
+  sourceCount: number;
+  sources: IndicatorSource[]; // the first few articles
+  lastSeen: number;
+}
+
+// ---- Helper: normalize an indicator to its lookup value; null when it isn't usable ----
+export function normalizeIndicator(type: ThreatIndicatorType, value: string, brands: BrandEntry[] = []): string | null {
+  const raw = value.trim();
+  if (type === "domain") {
+    const domain = normalizeDomain(raw);
+    // Warnings often name the official site ("only use maybank2u.com.my"): never store those.
+    if (!domain || analyzeUrl(`https://${domain}/`, { brands }).official) return null;
+    return domain;
+  }
+  if (type === "phone") {
+    const international = /^(\+|00)/.test(raw);
+    let n = raw.replace(/\D/g, "").replace(/^00/, "");
+    if (!international && n.startsWith("0")) n = `60${n.slice(1)}`; // Malaysian local format
+    return /^\d{9,15}$/.test(n) ? n : null;
+  }
+  if (type === "bankAccount") {
+    const digits = raw.replace(/[\s-]/g, "");
+    return /^\d{8,20}$/.test(digits) ? digits : null;
+  }
+  // App and brand names
+  const name = raw.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim().slice(0, 60);
+  if (name.length < 2) return null;
+  if (type === "impersonatedBrand") {
+    const compact = name.replace(/\s+/g, "");
+    const brand = brands.find((b) => b.id === compact || b.aliases.includes(compact) || b.name.toLowerCase() === name);
+    if (brand) return brand.id;
+  }
+  return name;
+}
+
+export function indicatorId(type: ThreatIndicatorType, value: string): string {
+  return `${type}_${createHash("sha256").update(value).digest("hex").slice(0, 40)}`;
+}
+
+// Two articles at 0.6 are more convincing than one: combine as independent evidence.
+export function combineConfidence(previous: number, added: number): number {
+  return Math.min(MAX_CONFIDENCE, 1 - (1 - previous) * (1 - added));
+}
+
+// ---- Write path: indicators extracted from one accepted story ----
+// Returns the number of indicators stored. Failures are logged, never thrown: threat intel
+// is a by-product of the news pipeline and must not fail it.
+export async function recordIndicators(
+  indicators: ThreatIndicator[], story: { category: string; region: string; source: IndicatorSource },
+  brands: BrandEntry[], now: number = Date.now()
+): Promise<number> {
+  const normalized = new Map<string, { type: ThreatIndicatorType; value: string; confidence: number }>();
+  for (const ind of indicators) {
+    const confidence = typeof ind.confidence === "number" ? ind.confidence : DEFAULT_CONFIDENCE;
+    const value = confidence >= MIN_RECORD_CONFIDENCE ? normalizeIndicator(ind.type, ind.value, brands) : null;
+    if (!value) continue;
+    const id = indicatorId(ind.type, value);
+    if ((normalized.get(id)?.confidence ?? -1) < confidence) normalized.set(id, { type: ind.type, value, confidence });
+  }
+
+  const db = admin.firestore();
+  let recorded = 0;
+  await Promise.all(Array.from(normalized.entries()).map(async ([id, ind]) => {
+    const ref = db.collection(THREAT_INTEL_COLLECTION).doc(id);
+    try {
+      const outcome = await db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const prev = snap.exists ? snap.data() ?? {} : null;
+        const listed: IndicatorSource[] = prev?.sources ?? [];
+        // The same story seen again (another run, another region) is not new evidence.
+        if (listed.some((s) => s.storyId === story.source.storyId)) return "seen";
+
+        const categories: Record<string, number> = { ...(prev?.categories ?? {}) };
+        categories[story.category] = (categories[story.category] ?? 0) + 1;
+        tx.set(ref, {
+          type: ind.type,
+          value: ind.value,
+          categories,
+          regions: Array.from(new Set([...(prev?.regions ?? []), story.region])),
+          confidence: prev ? combineConfidence(Number(prev.confidence ?? 0), ind.confidence) : ind.confidence,
+          sources: [...listed, story.source].slice(0, MAX_LISTED_SOURCES),
+          sourceCount: Number(prev?.sourceCount ?? 0) + 1,
+          firstSeen: Number(prev?.firstSeen ?? now),
+          lastSeen: now,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return prev ? "updated" : "created";
+      });
+      if (outcome !== "seen") recorded++;
+      // Cached "looks fine" verdicts for a newly named domain are now wrong.
+      if (outcome === "created" && ind.type === "domain") await invalidateDomainVerdicts(ind.value);
+    } catch (e) {
+      logger.warn(`Failed to record ${ind.type} indicator`, e);
+    }
+  }));
+  return recorded;
+}
+
+// ---- Helper: domains, phone numbers and account numbers mentioned in free text ----
+// Every long digit run is looked up as both a phone number and an account number.
+export function lookupIndicatorsInText(text: string): { type: ThreatIndicatorType; value: string }[] {
+  const found = new Map<string, { type: ThreatIndicatorType; value: string }>();
+  const add = (type: ThreatIndicatorType, raw: string) => {
+    const value = normalizeIndicator(type, raw);
+    if (value) found.set(indicatorId(type, value), { type, value });
+  };
+
+  const domainRegex = /\b(?:https?:\/\/)?((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,63})\b/gi;
+  let m: RegExpExecArray | null;
+  while ((m = domainRegex.exec(text)) !== null) add("domain", m[1]);
+
+  const numberRegex = /(?:\+|\b)\d[\d\s-]{6,22}\d\b/g;
+  while ((m = numberRegex.exec(text)) !== null) {
+    add("phone", m[0]);
+    add("bankAccount", m[0]);
+  }
+  return Array.from(found.values());
+}
+
+// ---- Read path: called from checkLink / checkLinks / explainAlert ----
+// One getAll() round trip; only recent, confident entries count as matches.
+export async function lookupThreatIntel(
+  lookups: { type: ThreatIndicatorType; value: string }[], now: number = Date.now()
+): Promise<ThreatIntelMatch[]> {
+  const ids = Array.from(new Set(lookups.filter((l) => LOOKUP_TYPES.includes(l.type)).map((l) => indicatorId(l.type, l.value))));
+  if (ids.length === 0) return [];
+
+  const db = admin.firestore();
+  const snaps = await db.getAll(...ids.map((id) => db.collection(THREAT_INTEL_COLLECTION).doc(id)));
+  const minLastSeen = now - MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+  return snaps
+    .filter((snap) => snap.exists)
+    .map((snap) => toMatch(snap.data() ?? {}))
+    .filter((m) => m.confidence >= MIN_MATCH_CONFIDENCE && m.lastSeen >= minLastSeen)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+function toMatch(d: any): ThreatIntelMatch {
+  const categories: Record<string, number> = d.categories ?? {};
+  return {
+    type: d.type,
+    value: String(d.value ?? ""),
+    confidence: Math.round(Number(d.confidence ?? 0) * 100) / 100,
+    category: Object.entries(categories).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null,
+    sourceCount: Number(d.sourceCount ?? 0),
+    sources: (d.sources ?? []).slice(0, 3),
+    lastSeen: Number(d.lastSeen ?? 0),
+  };
+}
+
+const TYPE_LABELS: Record<ThreatIndicatorType, string> = {
+  domain: "website",
+  phone: "phone number",
+  bankAccount: "bank account",
+  app: "app",
+  impersonatedBrand: "brand",
+};
+
+// Short human-readable summary for prompts and UI reasons.
+export function describeThreatIntel(match: ThreatIntelMatch): string {
+  const first = match.sources[0];
+  return `This ${TYPE_LABELS[match.type]} was named in ${match.sourceCount} scam news report(s)` +
+    (first ? `, e.g. "${first.title}" (${first.sourceName})` : "") +
+    (match.category ? ` about ${match.category}` : "") + ".";
+}
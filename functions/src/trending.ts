@@ -0,0 +1,426 @@
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { encodeAggregationKey } from "./aggregationKeys";
+import { NEWS_CATEGORIES, NEWS_LANGUAGES, NewsCategory, NewsLanguage, TrendAlertStatus } from "./contracts";
+import { sendToTopic } from "./fcm";
+import { isoWeekStart, isTrendTactic, loadWeeklyCounts, TrendTactic, WeeklyTrendCounts } from "./insights";
+import { NEWS_REGIONS, NewsRegion } from "./newsSources";
+import { STORIES_COLLECTION } from "./newsStories";
+
+// ---- Trending scams ----
+// trendingScamDetector compares this week's community reporters (per category and per
+// TREND_TACTICS tactic, each user counted once a week) and the last day's news stories (per
+// region and category) with a rolling baseline, and flags counts far above it. Only keys from
+// these closed lists can trend, so a warning never contains anything a user typed. Each spike
+// becomes a `trend_alerts/{id}` doc with a short warning in every app language, published to
+// the FCM topics `scam-alerts-{region}-{language}`, either right away ("auto") or once an admin
+// approves it ("approval", the default). A signal alerts at most once per SIGNAL_COOLDOWN_MS, and a
+// region's topics get at most one automatic push per TOPIC_COOLDOWN_MS.
+
+const ALERTS_COLLECTION = "trend_alerts";
+const SIGNALS_COLLECTION = "trend_signals";
+const TOPICS_COLLECTION = "trend_topics";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const BASELINE_WEEKS = 8;
+const BASELINE_DAYS = 28;
+// Fewer periods with any data than this (a new install) and nothing is flagged.
+const MIN_BASELINE_PERIODS = 4;
+
+const SIGNAL_COOLDOWN_MS = 7 * DAY_MS;
+const TOPIC_COOLDOWN_MS = 12 * HOUR_MS;
+// A pending alert nobody approved within this long is stale.
+const PENDING_TTL_MS = 48 * HOUR_MS;
+const MAX_ALERTS_PER_RUN = 5;
+const MAX_STORIES_PER_REGION = 2000;
+
+// Community reports come from the app's users, who are in Malaysia.
+const REPORTS_REGION: NewsRegion = "MY";
+
+export type TrendAlertMode = "off" | "approval" | "auto";
+export type TrendSource = "reports" | "news";
+export type TrendDimension = "category" | "tactic";
+
+export interface SpikeThresholds {
+  minCount: number;
+  minZScore: number;
+  minRatio: number; // count / expected
+}
+
+const REPORT_THRESHOLDS: SpikeThresholds = { minCount: 10, minZScore: 3, minRatio: 2 };
+const NEWS_THRESHOLDS: SpikeThresholds = { minCount: 3, minZScore: 3, minRatio: 2 };
+
+export interface SpikeStats {
+  count: number;
+  expected: number; // baseline mean, scaled to the part of the period elapsed
+  zScore: number;
+  ratio: number | null; // null when the baseline is 0
+}
+
+export interface TrendSpike extends SpikeStats {
+  source: TrendSource;
+  dimension: TrendDimension;
+  key: string;
+  region: NewsRegion;
+  periodId: string; // ISO week for reports, UTC date for news
+}
+
+export class TrendAlertNotFoundError extends Error {}
+export class TrendAlertStateError extends Error {}
+
+export function parseTrendAlertMode(value: string | null | undefined): TrendAlertMode {
+  return value === "off" || value === "auto" ? value : "approval";
+}
+
+export const scamAlertTopic = (region: string, language: NewsLanguage) => `scam-alerts-${region}-${language}`;
+
+const round = (n: number, digits = 2) => Math.round(n * Math.pow(10, digits)) / Math.pow(10, digits);
+
+// ---- Helper: is `count` a spike against `baseline` (counts of whole past periods)? ----
+// `fraction` is the part of the current period elapsed. The variance is at least the mean
+// (counts are roughly Poisson) and at least 1, so a key that is usually quiet needs more than
+// a couple of reports to stand out.
+export function detectSpike(
+  count: number, baseline: number[], thresholds: SpikeThresholds, fraction = 1
+): SpikeStats | null {
+  if (baseline.length === 0) return null;
+  const scaled = baseline.map((n) => n * fraction);
+  const expected = scaled.reduce((sum, n) => sum + n, 0) / scaled.length;
+  const sampleVariance = scaled.reduce((sum, n) => sum + (n - expected) * (n - expected), 0) / Math.max(1, scaled.length - 1);
+  const zScore = (count - expected) / Math.sqrt(Math.max(sampleVariance, expected, 1));
+  const ratio = expected > 0 ? count / expected : null;
+
+  if (count < thresholds.minCount || zScore < thresholds.minZScore || (ratio !== null && ratio < thresholds.minRatio)) return null;
+  return { count, expected: round(expected), zScore: round(zScore), ratio: ratio === null ? null : round(ratio) };
+}
+
+// ---- Spikes in community reports: distinct reporters per category and tactic ----
+// `weeks` oldest first, the current (partial) week last.
+export function reportSpikes(weeks: WeeklyTrendCounts[], now: number): TrendSpike[] {
+  const current = weeks[weeks.length - 1];
+  const baseline = weeks.slice(0, -1);
+  if (!current || baseline.filter((w) => w.exists && w.reporters.total > 0).length < MIN_BASELINE_PERIODS) return [];
+
+  const weekStart = Date.parse(`${isoWeekStart(current.weekId)}T00:00:00Z`);
+  const fraction = Number.isNaN(weekStart) ? 1 : Math.min(1, Math.max(1 / 7, (now - weekStart) / (7 * DAY_MS)));
+
+  const dimensions: [TrendDimension, "categories" | "tactics", (key: string) => boolean][] = [
+    ["category", "categories", (key) => key !== "Other" && (NEWS_CATEGORIES as readonly string[]).includes(key)],
+    ["tactic", "tactics", isTrendTactic],
+  ];
+  const spikes: TrendSpike[] = [];
+  for (const [dimension, field, trends] of dimensions) {
+    for (const [key, count] of Object.entries(current.reporters[field])) {
+      if (!trends(key)) continue;
+      const stats = detectSpike(count, baseline.map((w) => w.reporters[field][key] ?? 0), REPORT_THRESHOLDS, fraction);
+      if (stats) spikes.push({ ...stats, source: "reports", dimension, key, region: REPORTS_REGION, periodId: current.weekId });
+    }
+  }
+  return spikes;
+}
+
+// ---- Spikes in news: stories per category in the last 24 hours vs. each of the days before ----
+export function newsSpikes(region: NewsRegion, stories: { category: string; createdAt: number }[], now: number): TrendSpike[] {
+  const dayIndex = (createdAt: number) => Math.floor((now - createdAt) / DAY_MS); // 0 = the last 24 hours
+  const byCategory = new Map<string, number[]>();
+  const activeDays = new Set<number>();
+  for (const story of stories) {
+    const day = dayIndex(story.createdAt);
+    if (day < 0 || day > BASELINE_DAYS) continue;
+    if (day > 0) activeDays.add(day);
+    const counts = byCategory.get(story.category) ?? new Array(BASELINE_DAYS + 1).fill(0);
+    counts[day]++;
+    byCategory.set(story.category, counts);
+  }
+  if (activeDays.size < MIN_BASELINE_PERIODS) return [];
+
+  const periodId = new Date(now).toISOString().slice(0, 10);
+  const spikes: TrendSpike[] = [];
+  byCategory.forEach((counts, category) => {
+    if (category === "Other" || !(NEWS_CATEGORIES as readonly string[]).includes(category)) return;
+    const stats = detectSpike(counts[0], counts.slice(1), NEWS_THRESHOLDS);
+    if (stats) spikes.push({ ...stats, source: "news", dimension: "category", key: category, region, periodId });
+  });
+  return spikes;
+}
+
+// ---- Warning text ----
+const CATEGORY_NAMES: Record<"ms" | "zh", Partial<Record<NewsCategory, string>>> = {
+  ms: {
+    "Phishing": "pancingan data (phishing)",
+    "Investment Scam": "penipuan pelaburan",
+    "Love Scam": "penipuan cinta",
+    "Job Scam": "penipuan kerja",
+    "E-commerce Scam": "penipuan e-dagang",
+    "Impersonation Scam": "penipuan penyamaran",
+    "Loan Scam": "penipuan pinjaman",
+    "Giveaway Scam": "penipuan hadiah",
+    "Tech Support Scam": "penipuan sokongan teknikal",
+    "KK Farm Scam": "sindiket KK Farm",
+  },
+  zh: {
+    "Spam": "垃圾信息",
+    "Phishing": "网络钓鱼",
+    "Investment Scam": "投资诈骗",
+    "Love Scam": "爱情诈骗",
+    "Job Scam": "求职诈骗",
+    "E-commerce Scam": "网购诈骗",
+    "Impersonation Scam": "冒充诈骗",
+    "Loan Scam": "贷款诈骗",
+    "Giveaway Scam": "抽奖诈骗",
+    "Tech Support Scam": "技术支持诈骗",
+    "Deepfake": "深度伪造",
+    "KK Farm Scam": "KK园区诈骗",
+  },
+};
+
+const TACTIC_NAMES: Record<NewsLanguage, Record<TrendTactic, string>> = {
+  en: {
+    credential: "messages asking for passwords, PINs or OTPs",
+    money_transfer: "requests to transfer money",
+    account_threat: "warnings that your account will be blocked",
+    legal_threat: "threats of arrest or legal action",
+    delivery_scam: "fake parcel delivery messages",
+    job_scam: "fake job offers",
+    suspicious_url: "suspicious links",
+    typosquat_url: "links to look-alike websites",
+  },
+  ms: {
+    credential: "mesej yang meminta kata laluan, PIN atau OTP",
+    money_transfer: "permintaan untuk memindahkan wang",
+    account_threat: "amaran bahawa akaun anda akan disekat",
+    legal_threat: "ugutan tangkapan atau tindakan undang-undang",
+    delivery_scam: "mesej penghantaran bungkusan palsu",
+    job_scam: "tawaran kerja palsu",
+    suspicious_url: "pautan yang mencurigakan",
+    typosquat_url: "pautan ke laman web tiruan",
+  },
+  zh: {
+    credential: "索取密码、PIN或OTP的信息",
+    money_transfer: "要求转账的信息",
+    account_threat: "声称账户将被冻结的警告",
+    legal_threat: "以逮捕或法律行动相威胁的信息",
+    delivery_scam: "虚假包裹派送信息",
+    job_scam: "虚假招聘信息",
+    suspicious_url: "可疑链接",
+    typosquat_url: "仿冒网站链接",
+  },
+};
+
+type MessageKind = "reportsCategory" | "tactic" | "newsCategory";
+
+const TEMPLATES: Record<NewsLanguage, Record<MessageKind, { title: string; body: string }>> = {
+  en: {
+    reportsCategory: {
+      title: "Scam alert: {key} on the rise",
+      body: "SafeX users are reporting far more {key} cases than usual this week. Don't share OTPs or send money to anyone you haven't verified.",
+    },
+    tactic: {
+      title: "Scam alert: a scam trick is spreading",
+      body: "Many SafeX users reported {key} this week. Be careful with messages like this.",
+    },
+    newsCategory: {
+      title: "Scam alert: {key} in the news",
+      body: "Several news reports about {key} today. Read the latest warnings in SafeX.",
+    },
+  },
+  ms: {
+    reportsCategory: {
+      title: "Amaran penipuan: {key} semakin meningkat",
+      body: "Pengguna SafeX melaporkan lebih banyak kes {key} daripada biasa minggu ini. Jangan kongsi OTP atau pindahkan wang kepada sesiapa yang belum disahkan.",
+    },
+    tactic: {
+      title: "Amaran penipuan: taktik penipuan sedang tersebar",
+      body: "Ramai pengguna SafeX melaporkan {key} minggu ini. Berhati-hati dengan mesej seperti ini.",
+    },
+    newsCategory: {
+      title: "Amaran penipuan: {key} dalam berita",
+      body: "Beberapa laporan berita tentang {key} hari ini. Baca amaran terkini dalam SafeX.",
+    },
+  },
+  zh: {
+    reportsCategory: {
+      title: "诈骗警报：{key}案件增加",
+      body: "本周SafeX用户举报的{key}案件比平时多很多。切勿分享OTP，也不要转账给未经核实的人。",
+    },
+    tactic: {
+      title: "诈骗警报：一种诈骗手法正在蔓延",
+      body: "本周许多SafeX用户举报了{key}。请小心此类信息。",
+    },
+    newsCategory: {
+      title: "诈骗警报：{key}登上新闻",
+      body: "今天有多则关于{key}的新闻报道。请在SafeX查看最新警告。",
+    },
+  },
+};
+
+// The warning in every app language. Keys come from closed lists and are always translated:
+// a key without a name (which detection never produces) throws rather than being sent as is.
+export function trendMessages(spike: TrendSpike): Record<NewsLanguage, { title: string; body: string }> {
+  const kind: MessageKind = spike.dimension === "tactic" ? "tactic" : spike.source === "news" ? "newsCategory" : "reportsCategory";
+  const result = {} as Record<NewsLanguage, { title: string; body: string }>;
+  for (const language of NEWS_LANGUAGES) {
+    const name = spike.dimension === "tactic" ?
+      (isTrendTactic(spike.key) ? TACTIC_NAMES[language][spike.key] : undefined) :
+      categoryName(spike.key, language);
+    if (!name) throw new Error(`No ${language} name for trend key ${spike.dimension}/${spike.key}`);
+    const template = TEMPLATES[language][kind];
+    result[language] = { title: template.title.replace("{key}", name), body: template.body.replace("{key}", name) };
+  }
+  return result;
+}
+
+function categoryName(category: string, language: NewsLanguage): string | undefined {
+  if (!(NEWS_CATEGORIES as readonly string[]).includes(category)) return undefined;
+  return language === "en" ? category : CATEGORY_NAMES[language][category as NewsCategory] ?? category;
+}
+
+// ---- Detection run ----
+export async function detectTrends(now: number = Date.now()): Promise<TrendSpike[]> {
+  const spikes = reportSpikes(await loadWeeklyCounts(BASELINE_WEEKS + 1, now), now);
+
+  const since = now - (BASELINE_DAYS + 1) * DAY_MS;
+  for (const region of NEWS_REGIONS) {
+    const snapshot = await admin.firestore().collection(STORIES_COLLECTION)
+      .where("region", "==", region)
+      .where("createdAt", ">=", since)
+      .orderBy("createdAt", "desc")
+      .limit(MAX_STORIES_PER_REGION)
+      .get();
+    const stories = snapshot.docs.map((d) => ({ category: String(d.get("category") ?? "Other"), createdAt: Number(d.get("createdAt") ?? 0) }));
+    spikes.push(...newsSpikes(region, stories, now));
+  }
+  return spikes.sort((a, b) => b.zScore - a.zScore);
+}
+
+const signalId = (spike: TrendSpike) =>
+  `${spike.source}_${spike.dimension}_${spike.region}_${encodeAggregationKey(spike.key) ?? "unknown"}`;
+
+// ---- Write path: spikes become pending alerts ----
+// Signals still in their cooldown are skipped. In "auto" mode each new alert is published
+// straight away unless its region's topics are cooling down; it then waits for an admin.
+export async function recordTrendAlerts(
+  spikes: TrendSpike[], mode: TrendAlertMode, now: number = Date.now()
+): Promise<{ created: string[]; published: string[] }> {
+  const db = admin.firestore();
+  const created: string[] = [];
+  const published: string[] = [];
+  if (mode === "off") return { created, published };
+
+  for (const spike of spikes.slice(0, MAX_ALERTS_PER_RUN)) {
+    const signal = signalId(spike);
+    const alertRef = db.collection(ALERTS_COLLECTION).doc(`${signal}_${spike.periodId}`);
+    const isNew = await db.runTransaction(async (tx) => {
+      const signalRef = db.collection(SIGNALS_COLLECTION).doc(signal);
+      const signalSnap = await tx.get(signalRef);
+      if (now - Number(signalSnap.get("lastAlertAt") ?? 0) < SIGNAL_COOLDOWN_MS) return false;
+      tx.set(signalRef, { lastAlertAt: now, lastAlertId: alertRef.id });
+      tx.set(alertRef, {
+        ...spike,
+        messages: trendMessages(spike),
+        topics: NEWS_LANGUAGES.map((l) => scamAlertTopic(spike.region, l)),
+        status: "pending",
+        createdAt: now,
+        reviewedBy: null,
+        reviewedAt: null,
+        publishedAt: null,
+      });
+      return true;
+    });
+    if (!isNew) continue;
+    created.push(alertRef.id);
+    if (mode === "auto" && await publishTrendAlert(alertRef.id, null, now)) published.push(alertRef.id);
+  }
+  return { created, published };
+}
+
+// Pending alerts past their TTL become "expired"; returns how many.
+export async function expireTrendAlerts(now: number = Date.now()): Promise<number> {
+  const stale = await admin.firestore().collection(ALERTS_COLLECTION)
+    .where("status", "==", "pending")
+    .where("createdAt", "<", now - PENDING_TTL_MS)
+    .get();
+  await Promise.all(stale.docs.map((doc) => doc.ref.update({ status: "expired" })));
+  return stale.size;
+}
+
+// ---- Publishing ----
+// `reviewer` is the approving admin's uid, or null for "auto" mode, which honours the topic
+// cooldown (and returns false when it holds the alert back). The alert is claimed in a
+// transaction first, so it is never sent twice.
+export async function publishTrendAlert(alertId: string, reviewer: string | null, now: number = Date.now()): Promise<boolean> {
+  const db = admin.firestore();
+  const alertRef = db.collection(ALERTS_COLLECTION).doc(alertId);
+
+  const alert = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(alertRef);
+    if (!snap.exists) throw new TrendAlertNotFoundError(`No trend alert ${alertId}.`);
+    const d = snap.data() ?? {};
+    if (d.status !== "pending") throw new TrendAlertStateError(`Trend alert ${alertId} is ${d.status}.`);
+    if (now - Number(d.createdAt ?? 0) >= PENDING_TTL_MS) {
+      tx.update(alertRef, { status: "expired" });
+      return null;
+    }
+
+    const topicRef = db.collection(TOPICS_COLLECTION).doc(String(d.region));
+    const topicSnap = await tx.get(topicRef);
+    if (reviewer === null && now - Number(topicSnap.get("lastPublishedAt") ?? 0) < TOPIC_COOLDOWN_MS) return null;
+
+    tx.set(topicRef, { lastPublishedAt: now, lastAlertId: alertId });
+    tx.update(alertRef, { status: "published", publishedAt: now, reviewedBy: reviewer, reviewedAt: reviewer ? now : null });
+    return d;
+  });
+  if (!alert) return false;
+
+  const messages = alert.messages as Record<NewsLanguage, { title: string; body: string }>;
+  const results = await Promise.all(NEWS_LANGUAGES.map(async (language) => {
+    try {
+      return await sendToTopic({
+        topic: scamAlertTopic(alert.region, language),
+        ...messages[language],
+        data: { type: "trend_alert", alertId, source: alert.source, dimension: alert.dimension, key: alert.key, language },
+      });
+    } catch (e) {
+      logger.warn(`Failed to publish trend alert ${alertId} in ${language}`, e);
+      return null;
+    }
+  }));
+  const messageIds = results.filter((id): id is string => !!id);
+  await alertRef.update({ messageIds, ...(messageIds.length === 0 ? { status: "failed" } : {}) });
+  return messageIds.length > 0;
+}
+
+// ---- Admin review ----
+export async function reviewTrendAlert(alertId: string, action: "approve" | "reject", uid: string, now: number = Date.now()) {
+  if (action === "approve") {
+    if (!(await publishTrendAlert(alertId, uid, now))) {
+      const status = (await getTrendAlert(alertId))?.status;
+      throw new TrendAlertStateError(`Trend alert ${alertId} was not published (${status}).`);
+    }
+  } else {
+    const db = admin.firestore();
+    const alertRef = db.collection(ALERTS_COLLECTION).doc(alertId);
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(alertRef);
+      if (!snap.exists) throw new TrendAlertNotFoundError(`No trend alert ${alertId}.`);
+      if (snap.get("status") !== "pending") throw new TrendAlertStateError(`Trend alert ${alertId} is ${snap.get("status")}.`);
+      tx.update(alertRef, { status: "rejected", reviewedBy: uid, reviewedAt: now });
+    });
+  }
+  return await getTrendAlert(alertId);
+}
+
+export async function getTrendAlert(alertId: string): Promise<Record<string, any> | null> {
+  const snap = await admin.firestore().collection(ALERTS_COLLECTION).doc(alertId).get();
+  return snap.exists ? { alertId, ...snap.data() } : null;
+}
+
+// Newest first.
+export async function listTrendAlerts(status: TrendAlertStatus | null, limit: number): Promise<Record<string, any>[]> {
+  let query: admin.firestore.Query = admin.firestore().collection(ALERTS_COLLECTION);
+  if (status) query = query.where("status", "==", status);
+  const snapshot = await query.orderBy("createdAt", "desc").limit(limit).get();
+  return snapshot.docs.map((d) => ({ alertId: d.id, ...d.data() }));
+}
@@ -0,0 +1,441 @@
+import { BlockList, isIP } from "net";
+import { parse as parseDomain } from "tldts";
+import { domainToUnicode } from "url";
+import { BrandEntry, DEFAULT_BRANDS } from "./brandRegistry";
+import { resolveHost } from "./hostResolver";
+
+// ---- URL analyzer ----
+// Offline, deterministic analysis of a single URL. Every finding is a typed item
+// (code + severity + reason) so checkLink can return them as-is and scoring can use them.
+// Registrable domains come from the Public Suffix List bundled with tldts, so
+// "maybank2u.com.my.secure-login.xyz" is correctly seen as "secure-login.xyz".
+
+export type FindingSeverity = "info" | "low" | "medium" | "high";
+
+export type FindingCode =
+  | "INVALID_URL"
+  | "UNSUPPORTED_SCHEME"
+  | "OFFICIAL_DOMAIN"
+  | "IP_HOST"
+  | "CREDENTIALS_IN_URL"
+  | "PUNYCODE_HOST"
+  | "HOMOGRAPH"
+  | "MIXED_SCRIPT"
+  | "BRAND_TYPOSQUAT"
+  | "BRAND_EMBEDDED"
+  | "BRAND_IN_SUBDOMAIN"
+  | "DECEPTIVE_PATH"
+  | "SUSPICIOUS_TLD"
+  | "EXCESSIVE_HYPHENS"
+  | "EXCESSIVE_SUBDOMAINS"
+  | "URL_SHORTENER"
+  | "EMBEDDED_REDIRECT"
+  | "NON_STANDARD_PORT"
+  | "NO_HTTPS"
+  | "REDIRECTS_TO";
+
+export interface UrlFinding {
+  code: FindingCode;
+  severity: FindingSeverity;
+  reason: string;
+}
+
+export interface UrlAnalysis {
+  input: string;
+  normalizedUrl: string | null;
+  hostname: string | null; // ASCII (punycode) form
+  unicodeHostname: string | null;
+  registrableDomain: string | null;
+  publicSuffix: string | null;
+  subdomain: string | null;
+  official: boolean;
+  brand: string | null;
+  findings: UrlFinding[];
+  maxSeverity: FindingSeverity | "none";
+}
+
+export interface AnalyzerOptions {
+  // Brand registry to match against; defaults to the built-in list (offline use, tests).
+  brands?: BrandEntry[];
+}
+
+const SUSPICIOUS_TLDS = ["xyz", "top", "club", "online", "site", "info", "biz", "store", "vip", "pw", "cc", "click", "icu", "buzz", "rest", "cfd", "sbs"];
+
+const URL_SHORTENERS = new Set([
+  "bit.ly", "tinyurl.com", "t.co", "goo.gl", "s.id", "cutt.ly", "rb.gy", "is.gd", "ow.ly",
+  "shorturl.at", "tiny.cc", "bit.do", "rebrand.ly", "wa.link", "shorturl.asia", "v.gd", "t.ly", "tiny.one",
+]);
+
+const PATH_LURE_WORDS = ["login", "signin", "verify", "verification", "update", "secure", "account", "banking", "otp", "tac", "unlock", "refund"];
+
+const REDIRECT_PARAMS = ["url", "u", "r", "redirect", "redirect_uri", "redirect_url", "next", "target", "dest", "destination", "continue", "goto", "link"];
+
+const SEVERITY_ORDER: FindingSeverity[] = ["info", "low", "medium", "high"];
+
+// Common single-character confusables (Cyrillic / Greek / IPA / leetspeak) → Latin.
+const CONFUSABLES: Record<string, string> = {
+  "а": "a", "е": "e", "о": "o", "р": "p", "с": "c", "у": "y", "х": "x", "і": "i", "ј": "j",
+  "ѕ": "s", "ԁ": "d", "ӏ": "l", "һ": "h", "ԛ": "q", "ԝ": "w", "к": "k", "м": "m", "т": "t", "в": "b", "н": "h",
+  "α": "a", "ο": "o", "ν": "v", "ρ": "p", "τ": "t", "ι": "i", "κ": "k", "ϲ": "c", "υ": "u", "χ": "x",
+  "ɡ": "g", "ɑ": "a", "ı": "i", "ɩ": "i", "ℓ": "l",
+  "0": "o", "1": "l", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s",
+};
+
+// ---- Helper: edit distance (for fuzzy brand matching) ----
+// Levenshtein plus adjacent transpositions, so "whtasapp" is one edit from "whatsapp".
+export function editDistance(a: string, b: string): number {
+  const m = a.length;
+  const n = b.length;
+  const dp: number[][] = Array.from({ length: m + 1 }, (_, i) => Array(n + 1).fill(0).map((_, j) => i === 0 ? j : j === 0 ? i : 0));
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      dp[i][j] = a[i - 1] === b[j - 1] ? dp[i - 1][j - 1] : 1 + Math.min(dp[i - 1][j], dp[i][j - 1], dp[i - 1][j - 1]);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return dp[m][n];
+}
+
+// ---- Helper: confusable "skeleton" of a label, so "mаybаnk" (Cyrillic а) and "mayb4nk" both map to "maybank" ----
+export function confusableSkeleton(label: string): string {
+  const stripped = label.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+  let out = "";
+  for (const ch of stripped) out += CONFUSABLES[ch] ?? ch;
+  return out.replace(/rn/g, "m").replace(/vv/g, "w");
+}
+
+// ---- Helper: registrable domain (eTLD+1) of a hostname or URL, PSL-aware ----
+export function registrableDomain(input: string): string | null {
+  const parsed = parseDomain(input, { allowPrivateDomains: true });
+  if (parsed.isIp) return parsed.hostname;
+  return parsed.domain;
+}
+
+export function isUrlShortener(hostname: string): boolean {
+  return URL_SHORTENERS.has(hostname.replace(/^www\./, ""));
+}
+
+export function compareSeverity(a: FindingSeverity, b: FindingSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+export function maxSeverityOf(findings: UrlFinding[]): FindingSeverity | "none" {
+  return findings.reduce<FindingSeverity | "none">(
+    (max, f) => max === "none" || compareSeverity(f.severity, max) > 0 ? f.severity : max, "none");
+}
+
+function isOfficialHost(hostname: string, officialDomains: string[]): boolean {
+  const host = hostname.replace(/^www\./, "");
+  return officialDomains.some((d) => {
+    const official = d.replace(/^www\./, "");
+    return host === official || host.endsWith(`.${official}`);
+  });
+}
+
+function hasMixedScripts(label: string): boolean {
+  const latin = /[a-z]/i.test(label);
+  const cyrillic = /[\u0400-\u04ff]/.test(label);
+  const greek = /[\u0370-\u03ff]/.test(label);
+  return [latin, cyrillic, greek].filter(Boolean).length > 1;
+}
+
+type BrandMatch = { brand: BrandEntry; alias: string; kind: "exact" | "typo" | "confusable" };
+
+// Match a label against the brand aliases: exact, confusable skeleton, or typo within the
+// brand's edit-distance tolerance. Short aliases (bsn, jpj, digi...) never match fuzzily.
+function matchBrand(label: string, brands: BrandEntry[]): BrandMatch | null {
+  if (label.length < 3) return null;
+  const skeleton = confusableSkeleton(label);
+  for (const brand of brands) {
+    for (const alias of brand.aliases) {
+      if (label === alias) return { brand, alias, kind: "exact" };
+      if (skeleton === alias) return { brand, alias, kind: "confusable" };
+    }
+  }
+  for (const brand of brands) {
+    if (brand.maxEditDistance <= 0) continue;
+    for (const alias of brand.aliases) {
+      if (alias.length >= 5 && editDistance(skeleton, alias) <= brand.maxEditDistance) return { brand, alias, kind: "typo" };
+    }
+  }
+  return null;
+}
+
+// ---- Main entry: analyze one URL offline ----
+export function analyzeUrl(input: string, options: AnalyzerOptions = {}): UrlAnalysis {
+  const brands = options.brands ?? DEFAULT_BRANDS;
+  const officialDomains = brands.flatMap((b) => b.officialDomains);
+  const findings: UrlFinding[] = [];
+  const add = (code: FindingCode, severity: FindingSeverity, reason: string) => findings.push({ code, severity, reason });
+
+  const empty: UrlAnalysis = {
+    input,
+    normalizedUrl: null,
+    hostname: null,
+    unicodeHostname: null,
+    registrableDomain: null,
+    publicSuffix: null,
+    subdomain: null,
+    official: false,
+    brand: null,
+    findings,
+    maxSeverity: "none",
+  };
+
+  const raw = String(input ?? "").trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:/i.test(raw) && !/^[^:/]+:\d+/.test(raw) ? raw : `https://${raw}`);
+  } catch {
+    add("INVALID_URL", "medium", "This does not look like a valid web address.");
+    return { ...empty, maxSeverity: maxSeverityOf(findings) };
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    add("UNSUPPORTED_SCHEME", "high", `Links using "${parsed.protocol}" can run code or hide content; they are not normal websites.`);
+    return { ...empty, normalizedUrl: parsed.href, maxSeverity: maxSeverityOf(findings) };
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, "");
+  const unicodeHostname = domainToUnicode(hostname) || hostname;
+  const info = parseDomain(hostname, { allowPrivateDomains: true });
+  const registrable = info.isIp ? hostname : info.domain;
+  const subdomain = info.subdomain || null;
+  const official = !info.isIp && isOfficialHost(hostname, officialDomains);
+  let brand: string | null = null;
+
+  if (official) {
+    add("OFFICIAL_DOMAIN", "info", `"${hostname}" is an official website.`);
+  }
+
+  if (parsed.username || parsed.password) {
+    add("CREDENTIALS_IN_URL", "high",
+      `The link hides its real destination: everything before "@" is ignored, so it actually opens "${hostname}".`);
+  }
+
+  if (info.isIp) {
+    add("IP_HOST", "high", "The link points to a raw IP address instead of a named website.");
+  }
+
+  if (parsed.port && parsed.port !== "80" && parsed.port !== "443") {
+    add("NON_STANDARD_PORT", "low", `The link uses an unusual port (${parsed.port}).`);
+  }
+
+  if (parsed.protocol === "http:" && !official) {
+    add("NO_HTTPS", "low", "The link does not use a secure (https) connection.");
+  }
+
+  if (!info.isIp) {
+    const labels = hostname.split(".");
+    const unicodeLabels = unicodeHostname.split(".");
+    const labelCount = registrable ? registrable.split(".").length : labels.length;
+    const registrableLabel = (info.domainWithoutSuffix ?? "").toLowerCase();
+    const unicodeRegistrableLabel = unicodeLabels[unicodeLabels.length - labelCount] ?? registrableLabel;
+
+    // IDN / punycode
+    if (labels.some((l) => l.startsWith("xn--"))) {
+      const homograph = matchBrand(unicodeRegistrableLabel, brands);
+      if (homograph && homograph.kind !== "exact") {
+        brand = homograph.brand.id;
+        add("HOMOGRAPH", "high",
+          `"${unicodeHostname}" uses look-alike characters to imitate "${homograph.brand.name}".`);
+      } else {
+        add("PUNYCODE_HOST", "medium", `The address contains international characters ("${unicodeHostname}") that can imitate real websites.`);
+      }
+      if (unicodeLabels.some(hasMixedScripts)) {
+        add("MIXED_SCRIPT", "high", "The address mixes letters from different alphabets, a common disguise trick.");
+      }
+    }
+
+    if (!official && registrableLabel && !brand) {
+      // Fuzzy brand matching — catch typosquatting like whtasapp, telegr4m, maybonk etc.
+      // Check whole hyphen/underscore tokens, then the same tokens split on digits.
+      const tokens = registrableLabel.split(/[-_]/).filter(Boolean);
+      const candidates = Array.from(new Set([...tokens, ...tokens.flatMap((t) => t.split(/[0-9]+/))]));
+      for (const token of candidates) {
+        const match = matchBrand(token, brands);
+        // A bare brand domain on an unlisted suffix (e.g. "digi.com.my") is not impersonation by itself.
+        if (!match || (match.kind === "exact" && token === registrableLabel)) continue;
+        brand = match.brand.id;
+        if (match.kind === "exact") {
+          add("BRAND_EMBEDDED", "high", `Domain "${hostname}" contains the brand name "${match.brand.name}" but is not the official website.`);
+        } else {
+          add("BRAND_TYPOSQUAT", "high", `Domain "${hostname}" appears to impersonate "${match.brand.name}" (typosquatting — very similar spelling).`);
+        }
+        break;
+      }
+      // Also catch exact substring match for longer brand names
+      if (!brand) {
+        const hit = brands.find((b) => b.aliases.some((a) => a.length >= 6 && a !== registrableLabel && registrableLabel.includes(a)));
+        if (hit) {
+          brand = hit.id;
+          add("BRAND_EMBEDDED", "high", `Domain "${hostname}" contains the brand name "${hit.name}" but is not the official website.`);
+        }
+      }
+    }
+
+    // Brand or official domain hidden in the subdomain: maybank2u.com.my.secure-login.xyz
+    if (!official && subdomain) {
+      const hiddenOfficial = officialDomains.find((d) => subdomain === d || subdomain.endsWith(`.${d}`) || subdomain.includes(`${d}.`));
+      const subBrand = hiddenOfficial ? null : subdomain.split(/[.\-_]/).map((l) => matchBrand(l, brands)).find((m) => m && m.kind !== "typo");
+      if (hiddenOfficial || subBrand) {
+        brand = brand ?? subBrand?.brand.id ?? brands.find((b) => hiddenOfficial && b.officialDomains.includes(hiddenOfficial))?.id ?? null;
+        add("BRAND_IN_SUBDOMAIN", "high",
+          `The address starts with "${hiddenOfficial ?? subBrand?.alias}" but the real website is "${registrable}".`);
+      }
+      if (subdomain.split(".").length >= 4) {
+        add("EXCESSIVE_SUBDOMAINS", "low", "The address has an unusually long chain of subdomains.");
+      }
+    }
+
+    if (info.publicSuffix && SUSPICIOUS_TLDS.includes(info.publicSuffix)) {
+      add("SUSPICIOUS_TLD", "medium", `Domain uses a high-risk TLD (.${info.publicSuffix}) commonly used in phishing.`);
+    }
+
+    // Excessive hyphens in the registrable label (Unicode form, so punycode's "xn--" doesn't count)
+    if ((unicodeRegistrableLabel.match(/-/g) || []).length >= 2) {
+      add("EXCESSIVE_HYPHENS", "medium", "Domain has multiple hyphens, a common pattern in phishing URLs.");
+    }
+
+    if (isUrlShortener(hostname)) {
+      add("URL_SHORTENER", "medium", `"${hostname}" is a link shortener; the real destination is hidden.`);
+    }
+  }
+
+  // Deceptive path / query: a brand or official domain placed after the real host
+  if (!official) {
+    const rest = decodeSafe(`${parsed.pathname}${parsed.search}`).toLowerCase();
+    const pathOfficial = officialDomains.find((d) => rest.includes(d));
+    const pathAlias = pathOfficial ? undefined : brands.flatMap((b) => b.aliases.map((a) => ({ b, a })))
+      .find(({ a }) => a.length >= 4 && new RegExp(`(^|[^a-z])${a}([^a-z]|$)`).test(rest));
+    if (pathOfficial || pathAlias) {
+      brand = brand ?? pathAlias?.b.id ?? null;
+      add("DECEPTIVE_PATH", "medium",
+        `The link mentions "${pathOfficial ?? pathAlias?.a}" in its path, but it opens "${registrable ?? hostname}".`);
+    } else if (PATH_LURE_WORDS.some((w) => new RegExp(`(^|[^a-z])${w}([^a-z]|$)`).test(rest)) && brand) {
+      add("DECEPTIVE_PATH", "low", "The link path uses login/verification words, often seen on fake sign-in pages.");
+    }
+
+    for (const [key, value] of parsed.searchParams) {
+      if (!REDIRECT_PARAMS.includes(key.toLowerCase())) continue;
+      const target = decodeSafe(value);
+      if (/^(https?:)?\/\//i.test(target) || /^www\./i.test(target)) {
+        add("EMBEDDED_REDIRECT", "medium", "The link carries another web address inside it and may forward you somewhere else.");
+        break;
+      }
+    }
+  }
+
+  return {
+    input,
+    normalizedUrl: parsed.href,
+    hostname,
+    unicodeHostname,
+    registrableDomain: registrable,
+    publicSuffix: info.publicSuffix,
+    subdomain,
+    official,
+    brand,
+    findings,
+    maxSeverity: maxSeverityOf(findings),
+  };
+}
+
+function decodeSafe(s: string): string {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+}
+
+// ---- Helper: collapse findings into the legacy heuristic shape used by prompts and scoring ----
+export function summarizeAnalysis(analysis: Pick<UrlAnalysis, "official" | "brand" | "findings">): {
+  suspicious: boolean;
+  official: boolean;
+  brand: string | null;
+  reason: string | null;
+} {
+  const top = [...analysis.findings]
+    .filter((f) => f.severity === "medium" || f.severity === "high")
+    .sort((a, b) => compareSeverity(b.severity, a.severity))[0];
+  return {
+    suspicious: !!top,
+    official: analysis.official && !top,
+    brand: analysis.brand,
+    reason: top?.reason ?? null,
+  };
+}
+
+// ---- Helper: local heuristic check for typosquatting / brand impersonation ----
+export function checkUrlHeuristics(url: string, options: AnalyzerOptions = {}) {
+  return summarizeAnalysis(analyzeUrl(url, options));
+}
+
+// ---- Helper: is an IP address on the public internet? ----
+// Private, loopback, link-local (incl. the metadata server), CGNAT, multicast, reserved and
+// documentation ranges are not. BlockList also matches IPv4-mapped IPv6 addresses.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["198.51.100.0", 24], ["203.0.113.0", 24],
+  ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as [string, number][]) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as [string, number][]) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// ---- Online step: follow redirects of shortened links (manual scans only) ----
+// Uses manual redirects so every hop is inspected, never follows to IPs, localhost or a host
+// that resolves to a non-public address (so a link can't reach into our own network), and
+// never reads the page body.
+export async function resolveRedirects(url: string, maxHops = 5, timeoutMs = 5000): Promise<string[]> {
+  const chain: string[] = [];
+  let current = url;
+
+  for (let hop = 0; hop < maxHops; hop++) {
+    let parsed: URL;
+    try {
+      parsed = new URL(current);
+    } catch {
+      break;
+    }
+    const info = parseDomain(parsed.hostname, { allowPrivateDomains: true });
+    if ((parsed.protocol !== "http:" && parsed.protocol !== "https:") || info.isIp || parsed.hostname === "localhost") break;
+    let addresses: string[];
+    try {
+      addresses = await resolveHost(parsed.hostname);
+    } catch {
+      break;
+    }
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) break;
+
+    const res = await fetch(current, {
+      method: "GET",
+      redirect: "manual",
+      headers: { "User-Agent": "SafeXBot/1.0 (+link-safety-check)" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await res.body?.cancel();
+
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location) break;
+
+    current = new URL(location, current).href;
+    chain.push(current);
+  }
+
+  return chain;
+}
@@ -0,0 +1,198 @@
+import { createHash } from "crypto";
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+
+// ---- Verdict cache ----
+// Thousands of users paste the same viral scam link within the hour; we answer them from
+// cache instead of paying for a new Gemini generation each time. Two tiers:
+//   1. in-memory per instance (short-lived, bounded size)
+//   2. Firestore `verdict_cache/{key}` shared by all instances
+// Expiry depends on the verdict's risk level. Entries are tagged with the domain involved so
+// a reputation change can drop them; a brand-registry change drops everything.
+// Expired docs are removed by the Firestore TTL policy on `expiresAt` (firestore.indexes.json).
+
+const CACHE_COLLECTION = "verdict_cache";
+const KEY_VERSION = "v1";
+
+export type CacheKind = "link" | "alert";
+type CacheLevel = "HIGH" | "MEDIUM" | "LOW" | "UNKNOWN";
+
+export interface VerdictCacheConfig {
+  enabled: boolean;
+  // Firestore-tier lifetime per risk level. HIGH verdicts rarely flip, LOW ones might.
+  ttlSeconds: Record<CacheLevel, number>;
+  // The in-memory tier never lives longer than this, which bounds cross-instance staleness.
+  memoryTtlSeconds: number;
+  memoryMaxEntries: number;
+}
+
+export const DEFAULT_VERDICT_CACHE_CONFIG: VerdictCacheConfig = {
+  enabled: true,
+  ttlSeconds: { HIGH: 24 * 3600, MEDIUM: 6 * 3600, LOW: 3600, UNKNOWN: 600 },
+  memoryTtlSeconds: 300,
+  memoryMaxEntries: 500,
+};
+
+// ---- Helper: parse the VERDICT_CACHE_CONFIG param (JSON); bad JSON falls back to defaults ----
+export function parseVerdictCacheConfig(json: string | null | undefined): VerdictCacheConfig {
+  if (!json || !json.trim()) return DEFAULT_VERDICT_CACHE_CONFIG;
+  try {
+    const partial = JSON.parse(json);
+    return {
+      ...DEFAULT_VERDICT_CACHE_CONFIG,
+      ...partial,
+      ttlSeconds: { ...DEFAULT_VERDICT_CACHE_CONFIG.ttlSeconds, ...(partial?.ttlSeconds ?? {}) },
+    };
+  } catch {
+    return DEFAULT_VERDICT_CACHE_CONFIG;
+  }
+}
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest("hex");
+
+// checkLink: normalized URL + response language + the prompt version the caller is served,
+// so users in a prompt experiment don't get each other's verdicts.
+export function linkCacheKey(normalizedUrl: string, language: string, promptVersion: string): string {
+  return sha256(`${KEY_VERSION}|link|${language}|${promptVersion}|${normalizedUrl}`);
+}
+
+// explainAlert: everything the verdict is computed from. The snippet must be the redacted one
+// (sanitizeForModel), so no personal data goes into the key and messages that differ only in an
+// OTP or phone number share it; the local signals are fused into the verdict (alertSignals), so
+// they are part of it too. Only the hash is stored; the snippet never is.
+export interface AlertCacheInput {
+  alertType: string;
+  redactedSnippet: string;
+  extractedUrl: string | null;
+  withSafeBrowsing: boolean;
+  category: string;
+  tactics: string[];
+  heuristicScore: number | null;
+  tfliteScore: number | null;
+  promptVersion: string;
+  language: string;
+}
+
+export function alertCacheKey(input: AlertCacheInput): string {
+  const signals = JSON.stringify([input.category, [...input.tactics].sort(), input.heuristicScore, input.tfliteScore]);
+  return sha256(
+    `${KEY_VERSION}|alert|${input.language}|${input.promptVersion}|${input.alertType}|${input.withSafeBrowsing ? "sb" : ""}|` +
+    `${input.extractedUrl ?? ""}|${signals}|${input.redactedSnippet}`
+  );
+}
+
+interface MemoryEntry {
+  response: any;
+  domain: string | null;
+  expiresAt: number;
+}
+
+const memory = new Map<string, MemoryEntry>();
+
+function rememberInMemory(key: string, entry: MemoryEntry, config: VerdictCacheConfig) {
+  memory.delete(key);
+  memory.set(key, entry);
+  // Map keeps insertion order: evict the oldest entries first.
+  while (memory.size > config.memoryMaxEntries) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) break;
+    memory.delete(oldest);
+  }
+}
+
+function cacheLevel(response: any): CacheLevel {
+  const level = String(response?.riskLevel ?? "").toUpperCase();
+  return level === "HIGH" || level === "MEDIUM" || level === "LOW" ? level : "UNKNOWN";
+}
+
+// ---- Read path ----
+export async function getCachedVerdict(key: string, config: VerdictCacheConfig): Promise<any | null> {
+  return (await getCachedVerdicts([key], config)).get(key) ?? null;
+}
+
+// Batch variant for checkLinks: memory first, then one getAll() for the rest.
+export async function getCachedVerdicts(keys: string[], config: VerdictCacheConfig): Promise<Map<string, any>> {
+  const found = new Map<string, any>();
+  if (!config.enabled || keys.length === 0) return found;
+
+  const now = Date.now();
+  const missing: string[] = [];
+  for (const key of Array.from(new Set(keys))) {
+    const hit = memory.get(key);
+    if (hit && hit.expiresAt > now) {
+      found.set(key, hit.response);
+    } else {
+      if (hit) memory.delete(key);
+      missing.push(key);
+    }
+  }
+  if (missing.length === 0) return found;
+
+  try {
+    const db = admin.firestore();
+    const snaps = await db.getAll(...missing.map((k) => db.collection(CACHE_COLLECTION).doc(k)));
+    for (const snap of snaps) {
+      const d = snap.data();
+      if (!d) continue;
+      const expiresAt = d.expiresAt?.toMillis?.() ?? 0;
+      if (expiresAt <= now) continue;
+      found.set(snap.id, d.response);
+      rememberInMemory(snap.id, {
+        response: d.response,
+        domain: d.domain ?? null,
+        expiresAt: Math.min(expiresAt, now + config.memoryTtlSeconds * 1000),
+      }, config);
+    }
+  } catch (e) {
+    logger.warn("Verdict cache read failed", e);
+  }
+  return found;
+}
+
+// ---- Write path ----
+export async function putCachedVerdict(
+  key: string, kind: CacheKind, domain: string | null, response: any, config: VerdictCacheConfig
+): Promise<void> {
+  if (!config.enabled) return;
+
+  const now = Date.now();
+  const ttlMs = config.ttlSeconds[cacheLevel(response)] * 1000;
+  if (ttlMs <= 0) return;
+
+  rememberInMemory(key, { response, domain, expiresAt: now + Math.min(ttlMs, config.memoryTtlSeconds * 1000) }, config);
+
+  try {
+    await admin.firestore().collection(CACHE_COLLECTION).doc(key).set({
+      kind,
+      domain,
+      riskLevel: cacheLevel(response),
+      response,
+      createdAt: admin.firestore.Timestamp.fromMillis(now),
+      expiresAt: admin.firestore.Timestamp.fromMillis(now + ttlMs),
+    });
+  } catch (e) {
+    logger.warn("Verdict cache write failed", e);
+  }
+}
+
+// ---- Invalidation ----
+// A domain's community reputation changed level: drop every verdict that involved it.
+export async function invalidateDomainVerdicts(domain: string): Promise<number> {
+  for (const [key, entry] of memory) {
+    if (entry.domain === domain) memory.delete(key);
+  }
+
+  const db = admin.firestore();
+  const snap = await db.collection(CACHE_COLLECTION).where("domain", "==", domain).get();
+  const writer = db.bulkWriter();
+  snap.docs.forEach((d) => writer.delete(d.ref));
+  await writer.close();
+  return snap.size;
+}
+
+// The brand registry changed: any cached verdict may be stale, so drop them all.
+export async function invalidateAllVerdicts(): Promise<void> {
+  memory.clear();
+  const db = admin.firestore();
+  await db.recursiveDelete(db.collection(CACHE_COLLECTION));
+}
@@ -0,0 +1,138 @@
+import { createHash } from "crypto";
+import * as admin from "firebase-admin";
+import { ContractRiskLevel, SubmitVerdictFeedbackRequest } from "./contracts";
+import { encodeAggregationKey } from "./aggregationKeys";
+import { normalizeScamCategory } from "./insights";
+import { normalizeDomain } from "./reputation";
+
+// ---- Verdict feedback ----
+// Users can tell us an explainAlert or checkLink verdict was wrong: a bank OTP flagged HIGH
+// (false positive) or a phishing link rated LOW (false negative). Each submission is stored in
+// `verdict_feedback` with the original verdict, the user's correction and the signals behind the
+// verdict; never the message text or the full URL, only the link's registrable domain, and the
+// uid only as a hash. `feedback_stats/{category_x | domain_x}` count agreements and both kinds
+// of disagreement, so the admin export can report disagreement rates per category and domain.
+
+export const FEEDBACK_COLLECTION = "verdict_feedback";
+const FEEDBACK_STATS_COLLECTION = "feedback_stats";
+
+// The export lists the stats of this many domains, those with the most feedback.
+const MAX_EXPORTED_DOMAINS = 50;
+
+export type Disagreement = "falsePositive" | "falseNegative";
+
+export class FeedbackCursorError extends Error {}
+
+// ---- Helper: what kind of mistake the user is reporting, if any ----
+// MEDIUM counts as flagged: the app warns the user for it. UNKNOWN (no verdict) flags nothing.
+export function classifyFeedback(originalRiskLevel: ContractRiskLevel | "UNKNOWN", userVerdict: "safe" | "scam"): Disagreement | null {
+  if (userVerdict === "safe" && (originalRiskLevel === "MEDIUM" || originalRiskLevel === "HIGH")) return "falsePositive";
+  if (userVerdict === "scam" && (originalRiskLevel === "LOW" || originalRiskLevel === "UNKNOWN")) return "falseNegative";
+  return null;
+}
+
+// ---- Write path: one submission ----
+export async function recordVerdictFeedback(
+  uid: string, feedback: SubmitVerdictFeedbackRequest, now: number = Date.now()
+): Promise<{ feedbackId: string; disagreement: Disagreement | null }> {
+  const db = admin.firestore();
+  const disagreement = classifyFeedback(feedback.originalRiskLevel, feedback.userVerdict);
+  const category = normalizeScamCategory(feedback.originalCategory);
+  const domain = normalizeDomain(feedback.url);
+
+  const ref = db.collection(FEEDBACK_COLLECTION).doc();
+  const batch = db.batch();
+  batch.set(ref, {
+    kind: feedback.kind,
+    originalRiskLevel: feedback.originalRiskLevel,
+    modelRiskLevel: feedback.modelRiskLevel,
+    originalCategory: category,
+    userVerdict: feedback.userVerdict,
+    correctedCategory: feedback.correctedCategory ? normalizeScamCategory(feedback.correctedCategory) : null,
+    disagreement,
+    domain,
+    signals: {
+      alertType: feedback.alertType,
+      heuristicScore: feedback.heuristicScore,
+      tfliteScore: feedback.tfliteScore,
+      tactics: feedback.tactics.map(encodeAggregationKey).filter((t): t is string => t !== null).slice(0, 8),
+    },
+    language: feedback.language,
+    promptVersion: feedback.promptVersion,
+    uidHash: createHash("sha256").update(uid).digest("hex").slice(0, 32),
+    createdAt: now,
+  });
+
+  const inc = admin.firestore.FieldValue.increment(1);
+  const counts = {
+    total: inc,
+    [disagreement ?? "agreements"]: inc,
+    [feedback.kind]: { total: inc, [disagreement ?? "agreements"]: inc },
+    updatedAt: now,
+  };
+  const stats = db.collection(FEEDBACK_STATS_COLLECTION);
+  batch.set(stats.doc(`category_${category}`), { type: "category", key: category, ...counts }, { merge: true });
+  if (domain) batch.set(stats.doc(`domain_${domain}`), { type: "domain", key: domain, ...counts }, { merge: true });
+  await batch.commit();
+
+  return { feedbackId: ref.id, disagreement };
+}
+
+// ---- Read path: admin export for retraining and prompt tuning ----
+export interface FeedbackStats {
+  key: string;
+  total: number;
+  agreements: number;
+  falsePositives: number;
+  falseNegatives: number;
+  disagreementRate: number;
+}
+
+function toStats(d: Record<string, any>): FeedbackStats {
+  const total = Number(d.total ?? 0);
+  const falsePositives = Number(d.falsePositive ?? 0);
+  const falseNegatives = Number(d.falseNegative ?? 0);
+  return {
+    key: String(d.key ?? ""),
+    total,
+    agreements: Number(d.agreements ?? 0),
+    falsePositives,
+    falseNegatives,
+    disagreementRate: total > 0 ? Math.round(((falsePositives + falseNegatives) / total) * 1000) / 1000 : 0,
+  };
+}
+
+// Oldest first, so an export job can resume from the last cursor. The cursor is the ID of the
+// last submission on the previous page.
+export async function exportVerdictFeedback(q: { since: number | null; limit: number; cursor: string | null }) {
+  const db = admin.firestore();
+  const coll = db.collection(FEEDBACK_COLLECTION);
+  let query = coll.where("createdAt", ">=", q.since ?? 0).orderBy("createdAt", "asc");
+  if (q.cursor) {
+    const cursorSnap = await coll.doc(q.cursor).get();
+    if (!cursorSnap.exists) throw new FeedbackCursorError("Unknown cursor.");
+    query = query.startAfter(cursorSnap);
+  }
+
+  const snapshot = await query.limit(q.limit + 1).get();
+  const docs = snapshot.docs.slice(0, q.limit);
+  return {
+    items: docs.map((d) => ({ id: d.id, ...d.data() })),
+    nextCursor: snapshot.size > q.limit ? docs[docs.length - 1].id : null,
+  };
+}
+
+// Disagreement rates per category, and for the most disputed domains.
+export async function loadFeedbackStats(): Promise<{ categories: FeedbackStats[]; domains: FeedbackStats[] }> {
+  const stats = admin.firestore().collection(FEEDBACK_STATS_COLLECTION);
+  const [categories, domains] = await Promise.all([
+    stats.where("type", "==", "category").get(),
+    stats.where("type", "==", "domain").orderBy("total", "desc").limit(MAX_EXPORTED_DOMAINS).get(),
+  ]);
+  const byRate = (a: FeedbackStats, b: FeedbackStats) =>
+    b.disagreementRate - a.disagreementRate || b.total - a.total || a.key.localeCompare(b.key);
+  return {
+    categories: categories.docs.map((d) => toStats(d.data())).sort(byRate),
+    domains: domains.docs.map((d) => toStats(d.data())).sort(byRate),
+  };
+}
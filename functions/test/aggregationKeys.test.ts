@@ -0,0 +1,51 @@
+import { boundCounters, decodeAggregationKey, encodeAggregationKey, fitsInMap, OVERFLOW_KEY, shardOf } from "../src/aggregationKeys";
+
+describe("encodeAggregationKey", () => {
+  test("keeps plain tactics readable", () => {
+    expect(encodeAggregationKey(" Urgency ")).toBe("urgency");
+    expect(encodeAggregationKey("legal_threat")).toBe("legal_threat");
+  });
+
+  test("never produces dots, slashes or reserved names", () => {
+    const key = encodeAggregationKey("*.fake-bank.xyz/login")!;
+    expect(key).not.toMatch(/[./*]/);
+    expect(decodeAggregationKey(key)).toBe("*.fake-bank.xyz/login");
+    expect(encodeAggregationKey("__name__")).not.toMatch(/^__.*__$/);
+    expect(decodeAggregationKey(encodeAggregationKey("__name__")!)).toBe("__name__");
+  });
+
+  test("drops empty input and truncates long input", () => {
+    expect(encodeAggregationKey("   ")).toBeNull();
+    expect(encodeAggregationKey(42)).toBeNull();
+    expect(encodeAggregationKey("a".repeat(500))).toHaveLength(100);
+  });
+});
+
+describe("bounded maps", () => {
+  test("new keys fit until the map is full", () => {
+    const keys = new Set(["a", "b"]);
+    expect(fitsInMap("a", keys, 2)).toBe(true);
+    expect(fitsInMap("c", keys, 2)).toBe(false);
+    expect(fitsInMap(OVERFLOW_KEY, keys, 2)).toBe(true);
+  });
+
+  test("keep the largest counters and fold the rest into the overflow bucket", () => {
+    const { kept, overflow } = boundCounters({ a: 5, b: 1, c: 3, [OVERFLOW_KEY]: 2 }, 2);
+    expect(kept).toEqual({ a: 5, c: 3, [OVERFLOW_KEY]: 3 });
+    expect(overflow).toEqual({ b: 1 });
+  });
+
+  test("no client key can be mistaken for the overflow bucket", () => {
+    for (const raw of ["other", "%OVERFLOW", "%overflow", " %OVERFLOW "]) {
+      expect(encodeAggregationKey(raw)).not.toBe(OVERFLOW_KEY);
+      expect(decodeAggregationKey(encodeAggregationKey(raw)!)).not.toBe(OVERFLOW_KEY);
+    }
+    expect(fitsInMap("other", new Set(["a", "b"]), 2)).toBe(false);
+    expect(boundCounters({ a: 5, other: 4, b: 1 }, 2).kept).toEqual({ a: 5, other: 4, [OVERFLOW_KEY]: 1 });
+  });
+
+  test("shards are stable", () => {
+    expect(shardOf("fake-bank.xyz", 10)).toBe(shardOf("fake-bank.xyz", 10));
+    expect(Number(shardOf("fake-bank.xyz", 10))).toBeLessThan(10);
+  });
+});
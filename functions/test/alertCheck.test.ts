@@ -0,0 +1,44 @@
+import { alertPromptVars, alertVerdict, canonicalAlertCategory } from "../src/alertCheck";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring";
+
+const answer = (extra: Record<string, unknown> = {}) => ({
+  category: "Penipuan Pekerjaan", riskLevel: "LOW", headline: "Mesej ini kelihatan biasa", whyFlagged: ["Tiada tanda penipuan."],
+  whatToDoNow: ["Tiada tindakan diperlukan."], whatNotToDo: ["Jangan kongsi OTP."], confidence: 0.8, notes: "", ...extra,
+});
+
+test("keeps category an English key whatever the model wrote", () => {
+  expect(canonicalAlertCategory("Job Scam")).toBe("Job Scam");
+  expect(canonicalAlertCategory("legitimate")).toBe("Legitimate");
+  expect(canonicalAlertCategory("Penipuan Pekerjaan")).toBe("Other");
+  expect(alertVerdict(answer({ category: "job" }), {}, DEFAULT_SCORING_CONFIG, "ms").verdict.category).toBe("Job Scam");
+});
+
+test("asks for the user's language in the prompt", () => {
+  const vars = alertPromptVars({
+    language: "zh", alertType: "SMS", snippet: "hi", category: "unknown", tactics: [], heuristicScore: null, tfliteScore: null,
+    extractedUrl: null, safeBrowsing: null, reputation: null, threatIntel: [],
+  });
+  expect(vars.language).toBe("Simplified Chinese (中文)");
+});
+
+test("keeps the model's localized text unless the local signals override it", () => {
+  const kept = alertVerdict(answer(), {}, DEFAULT_SCORING_CONFIG, "ms").verdict;
+  expect(kept).toMatchObject({ riskLevel: "LOW", headline: "Mesej ini kelihatan biasa", whyFlagged: ["Tiada tanda penipuan."] });
+
+  const signals = { safeBrowsingThreats: ["SOCIAL_ENGINEERING"], tfliteScore: 0.9 };
+  const ms = alertVerdict(answer(), signals, DEFAULT_SCORING_CONFIG, "ms").verdict;
+  expect(ms).toMatchObject({ riskLevel: "HIGH", headline: "Ini kelihatan berbahaya" });
+  expect(ms.whyFlagged).toEqual([
+    "Disenaraikan sebagai berbahaya oleh Google Safe Browsing", "Model AI pada telefon menilai mesej ini berisiko", "Tiada tanda penipuan.",
+  ]);
+
+  const en = alertVerdict(answer(), signals, DEFAULT_SCORING_CONFIG).verdict;
+  expect(en).toMatchObject({ headline: "This looks dangerous" });
+  expect(en.whyFlagged[0]).toBe("Any Google Safe Browsing match forces HIGH");
+});
+
+test("the fallback answer is localized too", () => {
+  const { verdict, parsed } = alertVerdict("not json", {}, DEFAULT_SCORING_CONFIG, "zh");
+  expect(parsed).toBe(false);
+  expect(verdict).toMatchObject({ riskLevel: "MEDIUM", headline: "检测到可疑信息", whatNotToDo: ["不要透露 OTP 或银行资料。", "不要汇款。"] });
+});
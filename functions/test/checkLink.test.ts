@@ -0,0 +1,209 @@
+import * as admin from "firebase-admin";
+import { checkLink, checkLinks } from "../src/index";
+import { indicatorId } from "../src/threatIntel";
+import { isPublicAddress, resolveRedirects } from "../src/urlAnalyzer";
+import { callAs, clearFirestore, describeWithEmulator, expectHttpsError, llm, llmCallCount, network, newUid } from "./harness";
+
+describe("resolveRedirects", () => {
+  test("follows redirects hop by hop", async () => {
+    network.redirects["https://bit.ly/a"] = "https://tinyurl.com/b";
+    network.redirects["https://tinyurl.com/b"] = "https://example.com/landing";
+    expect(await resolveRedirects("https://bit.ly/a")).toEqual(["https://tinyurl.com/b", "https://example.com/landing"]);
+  });
+
+  test("never requests a host that resolves into a private network", async () => {
+    network.redirects["https://bit.ly/a"] = "http://metadata.google.internal/computeMetadata/v1/";
+    network.redirects["http://metadata.google.internal/computeMetadata/v1/"] = "https://example.com/";
+    network.dns["metadata.google.internal"] = ["169.254.169.254"];
+    expect(await resolveRedirects("https://bit.ly/a")).toEqual(["http://metadata.google.internal/computeMetadata/v1/"]);
+    expect(network.requests).not.toContain("http://metadata.google.internal/computeMetadata/v1/");
+
+    network.dns["bit.ly"] = ["8.8.8.8", "10.0.0.5"];
+    network.requests = [];
+    expect(await resolveRedirects("https://bit.ly/a")).toEqual([]);
+    expect(network.requests).toEqual([]);
+  });
+
+  test("only public addresses pass", () => {
+    for (const ip of ["8.8.8.8", "93.184.216.34", "2606:4700::1111"]) expect(isPublicAddress(ip)).toBe(true);
+    for (const ip of [
+      "10.1.2.3", "172.20.0.1", "192.168.1.1", "127.0.0.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+      "::1", "fe80::1", "fd00::1", "::ffff:10.0.0.1", "not an ip",
+    ]) expect(isPublicAddress(ip)).toBe(false);
+  });
+});
+
+const HIGH_RISK_ANSWER = {
+  safe: false,
+  riskLevel: "HIGH",
+  headline: "This link imitates a bank",
+  reasons: ["The domain is a misspelling of a bank's domain."],
+  whyFlagged: ["Typosquatting"],
+  whatToDoNow: ["Do not open the link."],
+  whatNotToDo: ["Do not enter your password."],
+  category: "Phishing",
+  confidence: 0.9,
+};
+
+// A domain as the news scraper stores it in threat_intel.
+async function seedThreatDomain(domain: string, confidence: number) {
+  await admin.firestore().collection("threat_intel").doc(indicatorId("domain", domain)).set({
+    type: "domain", value: domain, confidence, categories: { Phishing: 1 }, sourceCount: 1, lastSeen: Date.now(),
+    sources: [{ url: "https://www.thestar.com.my/news/1", storyId: "s1", title: "Police warn of fake parcel site", sourceName: "The Star", seenDate: "" }],
+  });
+}
+
+// The verdict cache's memory tier lives for the whole file, so every test uses its own URLs.
+describeWithEmulator("checkLink", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  test("rejects unauthenticated calls and blank URLs", async () => {
+    await expectHttpsError(callAs(checkLink, null, { url: "https://example.com" }), "unauthenticated");
+    await expectHttpsError(callAs(checkLink, newUid(), { url: "   " }), "invalid-argument");
+  });
+
+  test("an official domain stays LOW even if the model disagrees", async () => {
+    llm.fixtures.checkLink = HIGH_RISK_ANSWER;
+    const res = await callAs(checkLink, newUid(), { url: "https://www.maybank2u.com.my/home" });
+    expect(res).toMatchObject({ riskLevel: "LOW", modelRiskLevel: "HIGH", promptVersion: "v1", cached: false });
+    expect(res.scoring.overrides.map((o: { rule: string }) => o.rule)).toContain("officialDomainCap");
+  });
+
+  test("answers repeats from the cache", async () => {
+    const uid = newUid();
+    const first = await callAs(checkLink, uid, { url: "https://news.example.org/story" });
+    const second = await callAs(checkLink, uid, { url: "https://NEWS.example.org/story" });
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ riskLevel: first.riskLevel, cached: true });
+    expect(llmCallCount("checkLink")).toBe(1);
+  });
+
+  test("a Safe Browsing match forces HIGH", async () => {
+    const url = "https://free-gift.example.com/claim";
+    network.safeBrowsingMatches[url] = "SOCIAL_ENGINEERING";
+    const res = await callAs(checkLink, newUid(), { url });
+    expect(res).toMatchObject({ riskLevel: "HIGH", promptVersion: null });
+    expect(res.scoring.overrides.map((o: { rule: string }) => o.rule)).toContain("safeBrowsingMatch");
+  });
+
+  test("a HIGH reputation domain is decided without the model", async () => {
+    const now = Date.now();
+    await admin.firestore().collection("reputation_domains").doc("reported-link.top").set({
+      domain: "reported-link.top", firstSeen: now, lastSeen: now, totalReports: 9,
+      categories: { Phishing: 9 }, tactics: {}, score: 9, scoreUpdatedAt: now,
+    });
+    const res = await callAs(checkLink, newUid(), { url: "https://pay.reported-link.top/" });
+    expect(res.riskLevel).toBe("HIGH");
+    expect(llmCallCount("checkLink")).toBe(0);
+  });
+
+  test("a domain named in a scam warning is flagged on sight", async () => {
+    await seedThreatDomain("parcel-redelivery.top", 0.9);
+    const res = await callAs(checkLink, newUid(), { url: "https://track.parcel-redelivery.top/my" });
+    expect(res).toMatchObject({ riskLevel: "HIGH", category: "Phishing" });
+    expect(res.scoring.overrides.map((o: { rule: string }) => o.rule)).toContain("threatIntelMatch");
+    expect(res.threatIntel).toEqual([expect.objectContaining({ type: "domain", value: "parcel-redelivery.top", sourceCount: 1 })]);
+    expect(res.reasons.join(" ")).toContain("Police warn of fake parcel site");
+    expect(llmCallCount("checkLink")).toBe(0);
+  });
+
+  test("a weak threat intel match is escalated to the model", async () => {
+    await seedThreatDomain("maybe-scam.net", 0.6);
+    await seedThreatDomain("too-weak.net", 0.4);
+    const res = await callAs(checkLink, newUid(), { url: "https://maybe-scam.net/" });
+    expect(llmCallCount("checkLink")).toBe(1);
+    expect(llm.provider?.calls[0].prompt).toContain("Scam news:");
+    expect(res.threatIntel).toHaveLength(1);
+
+    const weak = await callAs(checkLink, newUid(), { url: "https://too-weak.net/" });
+    expect(weak.threatIntel).toEqual([]);
+  });
+
+  test("non-JSON model output gives a cautious answer that is not cached", async () => {
+    const uid = newUid();
+    const url = "https://unknown-shop.example.com/deal";
+    llm.fixtures.checkLink = "I think this link is fine.";
+    const res = await callAs(checkLink, uid, { url });
+    expect(res).toMatchObject({ headline: "Could not fully analyze URL", riskLevel: "MEDIUM", modelRiskLevel: null });
+
+    delete llm.fixtures.checkLink;
+    const retry = await callAs(checkLink, uid, { url });
+    expect(retry).toMatchObject({ riskLevel: "LOW", cached: false });
+  });
+
+  test("query secrets are removed before the link reaches the model", async () => {
+    const res = await callAs(checkLink, newUid(), { url: "https://parcel-redeliver.example.com/pay?otp=918273&phone=60123456789&step=2" });
+    expect(res).toMatchObject({ promptVersion: "v1", redactions: ["urlSecret"] });
+    expect(llm.provider?.calls[0].prompt).toContain("https://parcel-redeliver.example.com/pay?otp=REDACTED&phone=REDACTED&step=2");
+    expect(llm.provider?.calls[0].prompt).not.toMatch(/918273|60123456789/);
+  });
+
+  test("a failing model call still returns a cautious answer", async () => {
+    llm.fixtures.checkLink = new Error("model unavailable");
+    const res = await callAs(checkLink, newUid(), { url: "https://another-shop.example.com/" });
+    expect(res).toMatchObject({ headline: "Could not fully verify URL", riskLevel: "MEDIUM", cached: false });
+  });
+
+  test("a Safe Browsing outage does not fail the check", async () => {
+    network.safeBrowsingStatus = 503;
+    const res = await callAs(checkLink, newUid(), { url: "https://blog.example.com/post" });
+    expect(res).toMatchObject({ riskLevel: "LOW", cached: false });
+    expect(res.headline).not.toBe("Could not fully verify URL");
+  });
+
+  test("short links are expanded and the target is analyzed", async () => {
+    network.redirects["https://bit.ly/3xYzAbc"] = "https://maybank2u-secure.com/login";
+    const res = await callAs(checkLink, newUid(), { url: "https://bit.ly/3xYzAbc" });
+    expect(res.redirectChain).toEqual(["https://maybank2u-secure.com/login"]);
+    const codes = res.findings.map((f: { code: string }) => f.code);
+    expect(codes).toEqual(expect.arrayContaining(["URL_SHORTENER", "REDIRECTS_TO", "BRAND_EMBEDDED"]));
+  });
+});
+
+describeWithEmulator("checkLinks", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  test("returns one result per input, in order, sharing results between duplicates", async () => {
+    llm.fixtures.checkLink = HIGH_RISK_ANSWER;
+    const urls = [
+      "https://www.cimbclicks.com.my/",
+      "https://WWW.cimbclicks.com.my/",
+      "not a url at all",
+      "http://maybnk2u-verify.com/login",
+    ];
+    const { results } = await callAs(checkLinks, newUid(), { urls });
+
+    expect(results.map((r: { input: string }) => r.input)).toEqual(urls);
+    expect(results[0]).toMatchObject({ riskLevel: "LOW", duplicate: false });
+    expect(results[1]).toMatchObject({ riskLevel: "LOW", duplicate: true, url: results[0].url });
+    expect(results[2]).toMatchObject({ headline: "This is not a valid web address", source: "local" });
+    expect(results[3].riskLevel).toBe("HIGH");
+  });
+
+  test("flags the batch links named in scam news", async () => {
+    await seedThreatDomain("fake-lhdn-refund.site", 0.95);
+    const { results } = await callAs(checkLinks, newUid(), {
+      urls: ["https://fake-lhdn-refund.site/claim", "https://www.maybank2u.com.my/"],
+    });
+    expect(results[0]).toMatchObject({ riskLevel: "HIGH", source: "local" });
+    expect(results[0].threatIntel).toHaveLength(1);
+    expect(results[1]).toMatchObject({ riskLevel: "LOW", threatIntel: [] });
+  });
+
+  test("a repeated batch is answered from the cache", async () => {
+    const uid = newUid();
+    const urls = ["https://docs.example.net/a", "https://www.pbebank.com/"];
+    await callAs(checkLinks, uid, { urls });
+    const { results } = await callAs(checkLinks, uid, { urls });
+    expect(results.every((r: { source: string; cached: boolean }) => r.source === "cache" && r.cached)).toBe(true);
+  });
+
+  test("rejects oversized batches", async () => {
+    const urls = Array.from({ length: 51 }, (_, i) => `https://example.com/${i}`);
+    await expectHttpsError(callAs(checkLinks, newUid(), { urls }), "invalid-argument");
+  });
+});
@@ -0,0 +1,14 @@
+// Runs before every test file, before src/index is imported. Params normally come from
+// .env files at deploy time; here they point every backend at local fakes.
+process.env.GCLOUD_PROJECT = process.env.GCLOUD_PROJECT || "demo-safex";
+process.env.VERTEX_LOCATION = "asia-southeast1";
+process.env.GEMINI_MODEL = "gemini-2.5-flash";
+process.env.LLM_PROVIDER = "fixture";
+process.env.LLM_FIXTURES_PATH = "";
+process.env.RISK_SCORING_CONFIG = "";
+process.env.VERDICT_CACHE_CONFIG = "";
+process.env.NEWS_SOURCES = "";
+process.env.GEMINI_DAILY_BUDGET = "0";
+process.env.SAFE_BROWSING_API_KEY = "test-key";
+process.env.ENTITY_HASH_SECRET = "test-entity-secret";
+process.env.TREND_ALERT_MODE = "approval";
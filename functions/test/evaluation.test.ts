@@ -0,0 +1,75 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  classificationReport, EvaluationSample, fixtureBackend, loadSamples, parseCsv, recordedBackend, recordingBackend, runEvaluation, sampleId,
+} from "../src/evaluation";
+
+// The fixture-backend report over data/ is a regression baseline for the local signals and
+// score fusion. When it changes on purpose, regenerate it with
+// `npm run -s evaluate -- --out test/fixtures/eval-baseline.json` in the same change.
+const DATA_DIR = join(__dirname, "..", "..", "data");
+
+const sample = (input: string, label: string): EvaluationSample => ({ id: sampleId(input), input, label });
+
+test("parses quoted CSV fields", () => {
+  expect(parseCsv("text,label\n\"Hi, \"\"you\"\"\nthere\",SCAM\r\nplain,BENIGN\n")).toEqual([
+    { text: "Hi, \"you\"\nthere", label: "SCAM" },
+    { text: "plain", label: "BENIGN" },
+  ]);
+});
+
+test("computes per-class precision, recall and F1", () => {
+  const report = classificationReport([
+    { expected: "SCAM", predicted: "SCAM" },
+    { expected: "SCAM", predicted: "BENIGN" },
+    { expected: "BENIGN", predicted: "BENIGN" },
+    { expected: "BENIGN", predicted: "SCAM" },
+    { expected: "BENIGN", predicted: "BENIGN" },
+  ], ["BENIGN", "SCAM"]);
+  expect(report.confusion).toEqual({ BENIGN: { BENIGN: 2, SCAM: 1 }, SCAM: { BENIGN: 1, SCAM: 1 } });
+  expect(report.perClass.SCAM).toEqual({ precision: 0.5, recall: 0.5, f1: 0.5, support: 2 });
+  expect(report.perClass.BENIGN).toEqual({ precision: 0.6667, recall: 0.6667, f1: 0.6667, support: 3 });
+  expect(report.accuracy).toBe(0.6);
+  expect(report.macroF1).toBe(0.5833);
+});
+
+test("the fixture backend matches the committed baseline", async () => {
+  const report = await runEvaluation({
+    backend: fixtureBackend(),
+    backendName: "fixture",
+    alertsBinary: loadSamples(join(DATA_DIR, "test_binary.csv"), "text", "label"),
+    alertsCategory: loadSamples(join(DATA_DIR, "test_multiclass.csv"), "text", "label"),
+    links: loadSamples(join(DATA_DIR, "test_urls.csv"), "url", "label"),
+  });
+  expect(report).toEqual(JSON.parse(readFileSync(join(__dirname, "fixtures", "eval-baseline.json"), "utf8")));
+});
+
+test("replays recordings and counts parse failures and missing answers", async () => {
+  const scam = sample("Your parcel is held, pay RM2 fee now", "SCAM");
+  const garbled = sample("Reminder: dentist appointment tomorrow", "BENIGN");
+  const missing = sample("Lunch at 1?", "BENIGN");
+  const recordings: Record<string, unknown> = {
+    [`explainAlert:${scam.id}`]: {
+      category: "Phishing", riskLevel: "HIGH", headline: "Fake parcel fee", whyFlagged: ["Asks for a fee"],
+      whatToDoNow: ["Ignore it"], whatNotToDo: ["Do not pay"], confidence: 0.9, notes: "",
+    },
+    [`explainAlert:${garbled.id}`]: "Sorry, I can't help with that.",
+  };
+
+  const saved: Record<string, unknown> = {};
+  const report = await runEvaluation({
+    backend: recordingBackend(recordedBackend(recordings), saved),
+    backendName: "recorded",
+    alertsBinary: [scam, garbled, missing, scam],
+    alertsCategory: [{ ...scam, label: "DELIVERY" }],
+    links: [],
+  });
+
+  expect(report.datasets.alertsBinary).toMatchObject({
+    samples: 4, uniqueSamples: 3, modelErrors: 1, parseFailures: 1, fallbackRate: 0.5, parseFailureRate: 0.3333,
+  });
+  // Fallbacks are at least MEDIUM, so both benign messages count as false positives.
+  expect(report.datasets.alertsBinary.metrics.confusion).toEqual({ BENIGN: { BENIGN: 0, SCAM: 2 }, SCAM: { BENIGN: 0, SCAM: 2 } });
+  expect(report.datasets.alertsCategory.metrics.accuracy).toBe(1);
+  expect(Object.keys(saved).sort()).toEqual([`explainAlert:${garbled.id}`, `explainAlert:${scam.id}`].sort());
+});
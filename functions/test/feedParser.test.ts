@@ -0,0 +1,84 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { FeedParseError, parseFeed } from "../src/feedParser";
+import { DEFAULT_NEWS_SOURCES, parseNewsSources, sourcesForRegion } from "../src/newsSources";
+
+// Saved copies of the feed formats we ingest, in test/fixtures/feeds.
+const feed = (name: string) => readFileSync(join(__dirname, "fixtures", "feeds", name), "utf8");
+
+describe("parseFeed", () => {
+  test("Google News RSS: entities, CDATA titles and publisher sources", () => {
+    const items = parseFeed(feed("google-news.xml"));
+    expect(items.map((i) => i.title)).toEqual([
+      "Retiree loses RM200,000 to \"investment\" scam on WhatsApp & Telegram - The Star",
+      "Police: Don't click \"parcel\" SMS links – it's a scam & it's spreading",
+      "Macau scam syndicate's mule accounts frozen & 12 held",
+    ]);
+    expect(items[0]).toMatchObject({
+      link: "https://news.google.com/rss/articles/CBMiAWh0dHBzOi8vd3d3LnRoZXN0YXIuY29tLm15LzE?oc=5",
+      publishedAt: Date.UTC(2025, 0, 6, 8, 0, 0),
+      sourceName: "The Star",
+      sourceUrl: "https://www.thestar.com.my/",
+      description: "Retiree loses RM200,000 The Star",
+      imageUrl: null,
+    });
+    expect(items[2].publishedAt).toBeNull();
+  });
+
+  test("WordPress RSS: HTML descriptions and images", () => {
+    const items = parseFeed(feed("outlet-wordpress.xml"));
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({
+      title: "Woman cheated of RM50,000 in phone scam involving fake police officer",
+      description: "The victim was told her account was linked to money laundering …",
+      publishedAt: Date.UTC(2025, 0, 8, 4, 15, 0),
+      sourceName: null,
+      imageUrl: "https://media.freemalaysiatoday.com/2025/01/scam.jpg",
+    });
+    expect(items[1].imageUrl).toBe("https://media.freemalaysiatoday.com/2025/01/assembly.jpg");
+  });
+
+  test("Atom: alternate links, html titles and authors", () => {
+    const items = parseFeed(feed("agency-atom.xml"));
+    expect(items[0]).toMatchObject({
+      title: "Beware of fake investment schemes using BNM’s name",
+      link: "https://www.example.gov.my/alerts/123",
+      publishedAt: Date.UTC(2025, 0, 9, 1, 0, 0),
+      sourceName: "Bank Negara Malaysia",
+      description: "Unlicensed entities are using the central bank's logo.",
+    });
+    expect(items[1]).toMatchObject({ link: "https://www.example.gov.my/alerts/124", publishedAt: Date.UTC(2025, 0, 10, 2, 0, 0) });
+  });
+
+  test("anything else is a FeedParseError", () => {
+    expect(() => parseFeed(feed("not-a-feed.html"))).toThrow(FeedParseError);
+    expect(() => parseFeed("")).toThrow(FeedParseError);
+  });
+});
+
+describe("parseNewsSources", () => {
+  test("defaults cover every region", () => {
+    const sources = parseNewsSources("");
+    expect(sources).toEqual(DEFAULT_NEWS_SOURCES);
+    for (const region of ["GLOBAL", "ASIA", "MY"]) {
+      expect(sourcesForRegion(sources, region).length).toBeGreaterThan(0);
+    }
+  });
+
+  test("overrides merge by id, add sources and skip invalid ones", () => {
+    const sources = parseNewsSources(JSON.stringify([
+      { id: "fmt-nation", enabled: false },
+      { id: "sg-police", name: "SPF", region: "ASIA", url: "https://www.police.gov.sg/rss", keywords: ["Scam"] },
+      { id: "no-url", region: "MY" },
+      { id: "Bad Id", region: "MY", url: "https://example.com/feed" },
+    ]));
+    expect(sources.find((s) => s.id === "fmt-nation")).toMatchObject({ enabled: false, url: expect.stringContaining("freemalaysiatoday") });
+    expect(sources.find((s) => s.id === "sg-police")).toMatchObject({ region: "ASIA", enabled: true, maxItems: 50, keywords: ["scam"] });
+    expect(sources.some((s) => s.id === "no-url" || s.id === "Bad Id")).toBe(false);
+    expect(sourcesForRegion(sources, "MY").some((s) => s.id === "fmt-nation")).toBe(false);
+  });
+
+  test("bad JSON falls back to the defaults", () => {
+    expect(parseNewsSources("{not json")).toEqual(DEFAULT_NEWS_SOURCES);
+  });
+});
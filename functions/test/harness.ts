@@ -0,0 +1,182 @@
+import { createHash } from "crypto";
+import firebaseFunctionsTest from "firebase-functions-test";
+import type { TopicMessage } from "../src/fcm";
+import type { FixtureLlmProvider, LlmFixture, LlmTask } from "../src/llm";
+
+// ---- Test harness ----
+// Fakes for everything outside Firestore (Gemini, FCM, Safe Browsing, Google News, redirects),
+// plus helpers to call the functions and reset the Firestore emulator between tests.
+
+export const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-safex";
+export const fft = firebaseFunctionsTest({ projectId: PROJECT_ID });
+
+// Firestore-backed tests only run under the emulator.
+export const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+export const describeWithEmulator = emulatorHost ? describe : describe.skip;
+
+// ---- Fake Gemini ----
+// The provider is created once per module instance and keeps a reference to `fixtures`,
+// so tests mutate this object rather than replacing it.
+export const llm: { fixtures: Partial<Record<LlmTask, LlmFixture>>; provider: FixtureLlmProvider | null } = {
+  fixtures: {},
+  provider: null,
+};
+
+export function llmCallCount(task?: LlmTask): number {
+  return (llm.provider?.calls ?? []).filter((c) => !task || c.task === task).length;
+}
+
+// ---- Fake FCM ----
+// Every topic message sent; set `failTopics` to make sends to those topics throw.
+export const fcm = {
+  messages: [] as TopicMessage[],
+  failTopics: [] as string[],
+};
+
+// ---- Fake network ----
+export interface RssItem {
+  title: string;
+  link: string;
+  pubDate?: string;
+  source?: string;
+  sourceUrl?: string;
+}
+
+export const network = {
+  safeBrowsingMatches: {} as Record<string, string>, // url -> threatType
+  safeBrowsingStatus: 200,
+  // Update API: expression ("host/path") -> threatType, served as 4-byte prefixes and full hashes.
+  safeBrowsingList: {} as Record<string, string>,
+  redirects: {} as Record<string, string>, // url -> Location
+  // DNS for followed redirects: hostname -> addresses; other hosts resolve to PUBLIC_TEST_ADDRESS.
+  dns: {} as Record<string, string[]>,
+  rssItems: [] as RssItem[], // served for every Google News search
+  rssStatus: 200,
+  feeds: {} as Record<string, string>, // other feed URLs -> body; unknown URLs get a 404
+  requests: [] as string[],
+};
+
+export function resetFakes() {
+  for (const task of Object.keys(llm.fixtures)) delete llm.fixtures[task as LlmTask];
+  llm.provider?.calls.splice(0);
+  fcm.messages = [];
+  fcm.failTopics = [];
+  network.safeBrowsingMatches = {};
+  network.safeBrowsingStatus = 200;
+  network.safeBrowsingList = {};
+  network.redirects = {};
+  network.dns = {};
+  network.rssItems = [];
+  network.rssStatus = 200;
+  network.feeds = {};
+  network.requests = [];
+}
+
+const escapeXml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/'/g, "&apos;");
+
+export function rssFeed(items: RssItem[]): string {
+  const body = items.map((i) => `<item><title>${escapeXml(i.title)}</title><link>${i.link}</link>` +
+    `<pubDate>${i.pubDate ?? "Mon, 06 Jan 2025 08:00:00 GMT"}</pubDate>` +
+    `<source url="${i.sourceUrl ?? "https://www.thestar.com.my"}">${i.source ?? "The Star"}</source></item>`).join("");
+  return `<?xml version="1.0" encoding="UTF-8"?><rss version="2.0"><channel><title>News</title>${body}</channel></rss>`;
+}
+
+const sha256 = (expression: string) => createHash("sha256").update(expression).digest();
+
+// Always a full update of network.safeBrowsingList, with a valid checksum.
+function safeBrowsingListUpdate(body: any) {
+  return {
+    minimumWaitDuration: "1800s",
+    listUpdateResponses: (body.listUpdateRequests ?? []).map((r: any) => {
+      const prefixes = Object.entries(network.safeBrowsingList)
+        .filter(([, threatType]) => threatType === r.threatType)
+        .map(([expression]) => sha256(expression).subarray(0, 4))
+        .sort(Buffer.compare);
+      const raw = Buffer.concat(prefixes);
+      return {
+        threatType: r.threatType, platformType: r.platformType, threatEntryType: "URL", responseType: "FULL_UPDATE",
+        additions: prefixes.length ? [{ compressionType: "RAW", rawHashes: { prefixSize: 4, rawHashes: raw.toString("base64") } }] : [],
+        newClientState: "fixture-state",
+        checksum: { sha256: createHash("sha256").update(raw).digest("base64") },
+      };
+    }),
+  };
+}
+
+function safeBrowsingFullHashes(body: any) {
+  const requested: string[] = (body.threatInfo?.threatEntries ?? []).map((e: { hash: string }) => e.hash);
+  const matches = Object.entries(network.safeBrowsingList)
+    .filter(([expression]) => requested.includes(sha256(expression).subarray(0, 4).toString("base64")))
+    .map(([expression, threatType]) => ({
+      threatType, platformType: "ANY_PLATFORM", threatEntryType: "URL", threat: { hash: sha256(expression).toString("base64") }, cacheDuration: "300s",
+    }));
+  return { matches, negativeCacheDuration: "300s" };
+}
+
+export const PUBLIC_TEST_ADDRESS = "93.184.216.34";
+
+export async function fakeResolveHost(hostname: string): Promise<string[]> {
+  return network.dns[hostname] ?? [PUBLIC_TEST_ADDRESS];
+}
+
+const realFetch = global.fetch;
+
+async function fakeFetch(input: any, init?: any): Promise<Response> {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  if (emulatorHost && url.includes(emulatorHost)) return realFetch(input, init);
+  network.requests.push(url);
+
+  const host = new URL(url).hostname;
+  if (host === "safebrowsing.googleapis.com") {
+    if (network.safeBrowsingStatus !== 200) return new Response("unavailable", { status: network.safeBrowsingStatus });
+    if (url.includes("threatListUpdates:fetch")) return Response.json(safeBrowsingListUpdate(JSON.parse(init?.body ?? "{}")));
+    if (url.includes("fullHashes:find")) return Response.json(safeBrowsingFullHashes(JSON.parse(init?.body ?? "{}")));
+    const entries: { url: string }[] = JSON.parse(init?.body ?? "{}")?.threatInfo?.threatEntries ?? [];
+    const matches = entries
+      .filter((e) => network.safeBrowsingMatches[e.url])
+      .map((e) => ({ threatType: network.safeBrowsingMatches[e.url], threat: { url: e.url } }));
+    return Response.json(matches.length ? { matches } : {});
+  }
+  if (host === "news.google.com") {
+    if (network.rssStatus !== 200) return new Response("error", { status: network.rssStatus });
+    return new Response(rssFeed(network.rssItems), { status: 200, headers: { "Content-Type": "application/rss+xml" } });
+  }
+  const feed = network.feeds[url];
+  if (feed !== undefined) return new Response(feed, { status: 200, headers: { "Content-Type": "application/rss+xml" } });
+  const location = network.redirects[url];
+  if (location) return new Response(null, { status: 301, headers: { Location: location } });
+  return new Response("Not Found", { status: 404 });
+}
+
+export function installFakeFetch() {
+  global.fetch = fakeFetch as typeof fetch;
+}
+
+// ---- Firestore emulator ----
+export async function clearFirestore() {
+  if (!emulatorHost) return;
+  await realFetch(`http://${emulatorHost}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`, { method: "DELETE" });
+}
+
+// ---- Calling functions ----
+export function callAs(fn: any, uid: string | null, data: unknown, token: Record<string, unknown> = {}): Promise<any> {
+  return fft.wrap(fn)({ data, auth: uid ? { uid, token } : undefined } as any) as Promise<any>;
+}
+
+// Resolves with the HttpsError a callable throws, or fails the test if it doesn't throw.
+export async function expectHttpsError(promise: Promise<unknown>, code: string): Promise<any> {
+  try {
+    await promise;
+  } catch (e: any) {
+    expect(e.code).toBe(code);
+    return e;
+  }
+  throw new Error(`Expected HttpsError "${code}" but the call succeeded`);
+}
+
+let uidCounter = 0;
+// Fresh uid per call site, so per-uid rate limits don't leak between tests.
+export function newUid(prefix = "user"): string {
+  uidCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${uidCounter}`;
+}
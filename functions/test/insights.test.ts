@@ -0,0 +1,55 @@
+import { OVERFLOW_KEY } from "../src/aggregationKeys";
+import { isoWeekId, isoWeekStart, normalizeScamCategory, recentWeekIds, summarizeInsights, toWeeklyCounts } from "../src/insights";
+
+const at = (iso: string) => new Date(`${iso}T12:00:00Z`);
+
+describe("ISO weeks", () => {
+  test("follow ISO 8601 at year boundaries", () => {
+    expect(isoWeekId(at("2024-12-29"))).toBe("2024-W52"); // Sunday
+    expect(isoWeekId(at("2024-12-30"))).toBe("2025-W01"); // Monday of the week with Jan 2
+    expect(isoWeekId(at("2026-01-01"))).toBe("2026-W01"); // Thursday
+    expect(isoWeekId(at("2027-01-01"))).toBe("2026-W53"); // Friday of 2026's last week
+    expect(isoWeekId(at("2027-01-04"))).toBe("2027-W01");
+    expect(isoWeekId(at("2021-01-03"))).toBe("2020-W53");
+  });
+
+  test("know their Monday and step back week by week", () => {
+    expect(isoWeekStart("2026-W53")).toBe("2026-12-28");
+    expect(isoWeekStart("2025-W01")).toBe("2024-12-30");
+    expect(isoWeekStart("not-a-week")).toBeNull();
+    expect(recentWeekIds(at("2027-01-06").getTime(), 3)).toEqual(["2026-W52", "2026-W53", "2027-W01"]);
+  });
+});
+
+test("categories map onto the explainAlert taxonomy", () => {
+  expect(normalizeScamCategory("Phishing")).toBe("Phishing");
+  expect(normalizeScamCategory("  job SCAM ")).toBe("Job Scam");
+  expect(normalizeScamCategory("Impersonation")).toBe("Impersonation Scam");
+  expect(normalizeScamCategory("Love")).toBe("Love Scam");
+  expect(normalizeScamCategory("unknown")).toBe("Other");
+  expect(normalizeScamCategory("Totally new thing")).toBe("Other");
+});
+
+test("summarizes week-over-week changes and rising tactics", () => {
+  const summary = summarizeInsights([
+    toWeeklyCounts("2026-W04", undefined),
+    toWeeklyCounts("2026-W05", {
+      totalReports: 4, categories: { Phishing: 3, Impersonation: 1 }, tactics: { urgency: 3, otp: 1 }, domainPatterns: {},
+    }),
+    toWeeklyCounts("2026-W06", {
+      totalReports: 6, categories: { Phishing: 2, "Job Scam": 4 }, tactics: { urgency: 2, otp: 3, prize: 1, other: 1, [OVERFLOW_KEY]: 5 },
+      domainPatterns: { "*.top": 2 },
+    }),
+  ]);
+
+  expect(summary).toMatchObject({
+    weekId: "2026-W06", weekStart: "2026-02-02", totalReports: 6, previousTotalReports: 4, totalDelta: 2, totalChangePct: 50,
+  });
+  expect(summary.categories.map((c) => [c.key, c.count, c.delta])).toEqual([
+    ["Job Scam", 4, 4], ["Phishing", 2, -1], ["Impersonation Scam", 0, -1],
+  ]);
+  expect(summary.categories[0].changePct).toBeNull();
+  expect(summary.risingTactics.map((t) => t.key)).toEqual(["otp", "other", "prize"]); // the overflow bucket is not a tactic; "other" is
+  expect(summary.risingDomainPatterns).toEqual([{ key: "*.top", count: 2, previous: 0, delta: 2, changePct: null }]);
+  expect(summary.series.map((w) => w.totalReports)).toEqual([0, 4, 6]);
+});
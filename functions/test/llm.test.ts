@@ -0,0 +1,29 @@
+import { attemptTimeoutMs, FixtureLlmProvider, LlmError } from "../src/llm";
+
+describe("attemptTimeoutMs", () => {
+  const now = 1000000;
+
+  test("without a deadline every attempt gets the full timeout", () => {
+    expect(attemptTimeoutMs(20000, undefined, now, 4000)).toBe(20000);
+  });
+
+  test("attempts are cut to the time left before the deadline", () => {
+    expect(attemptTimeoutMs(20000, now + 60000, now)).toBe(20000);
+    expect(attemptTimeoutMs(20000, now + 12000, now)).toBe(12000);
+    expect(attemptTimeoutMs(20000, now + 12000, now, 1000)).toBe(11000);
+  });
+
+  test("no attempt or retry starts with too little time left", () => {
+    expect(attemptTimeoutMs(20000, now + 2000, now)).toBeNull();
+    expect(attemptTimeoutMs(20000, now + 4000, now, 2000)).toBeNull();
+    expect(attemptTimeoutMs(20000, now - 1, now)).toBeNull();
+  });
+});
+
+test("the fixture provider fails calls whose deadline has passed", async () => {
+  const provider = new FixtureLlmProvider();
+  await expect(provider.generateJson({ task: "checkLink", prompt: "x", deadline: Date.now() - 1 })).rejects.toBeInstanceOf(LlmError);
+  await expect(provider.generateJson({ task: "checkLink", prompt: "x", deadline: Date.now() + 60000 })).resolves.toMatchObject({
+    json: expect.objectContaining({ riskLevel: "LOW" }),
+  });
+});
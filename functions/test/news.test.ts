@@ -0,0 +1,432 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import * as admin from "firebase-admin";
+import {
+  adminGetNewsBackfillStatus, adminMigrateNewsStories, adminStartNewsBackfill, checkLink, getScamNewsDigest, newsBackfillWorker, periodicScamNewsScraper,
+} from "../src/index";
+import { LlmRequest } from "../src/llm";
+import { indicatorId } from "../src/threatIntel";
+import { callAs, clearFirestore, describeWithEmulator, expectHttpsError, llm, llmCallCount, network, newUid, RssItem } from "./harness";
+
+const SCAM_ITEMS: RssItem[] = [
+  { title: "Retiree loses RM200,000 to WhatsApp investment scam", link: "https://www.thestar.com.my/news/1" },
+  { title: "Police warn of fake parcel SMS &amp; phishing links", link: "https://www.nst.com.my/news/2" },
+  { title: "Job scam syndicate lures victims on Telegram", link: "https://www.malaymail.com/news/3" },
+  { title: "Love scam victim tricked through dating app", link: "https://www.freemalaysiatoday.com/news/4" },
+  { title: "Company faces lawsuit over audit irregularities", link: "https://www.theedgemalaysia.com/news/5" },
+];
+
+// Corporate stories are rejected, phone scams accepted.
+const judgeArticle = (request: LlmRequest) => request.prompt.includes("lawsuit") ?
+  { reject: true, title: "", summary: "", warningsAndTips: "" } :
+  {
+    reject: false, title: "Scam alert", summary: "A phone scam summary. Stay alert.", warningsAndTips: "• Never share your OTP.",
+    category: request.prompt.includes("Job scam") ? "Job Scam" : "Phishing",
+  };
+
+const sourceStatus = async (id: string) => (await admin.firestore().collection("news_sources").doc(id).get()).data();
+
+const scamNews = async () => (await admin.firestore().collection("scam_news").get()).docs.map((d) => d.data());
+const scamStories = async () => (await admin.firestore().collection("scam_stories").get()).docs.map((d) => d.data());
+
+// Stored, already summarized stories, newest first: news-0 is the newest.
+async function seedStories(count: number, fields: (i: number) => Record<string, unknown> = () => ({})) {
+  const now = Date.now();
+  const batch = admin.firestore().batch();
+  for (let i = 0; i < count; i++) {
+    const url = `https://example.com/news-${i}`;
+    batch.set(admin.firestore().collection("scam_stories").doc(`news-${i}`), {
+      url, region: "GLOBAL", category: "Phishing", title: `Story ${i}`, summary: `Summary ${i}`, warningsAndTips: "• Tip",
+      sources: [{ url, domain: "https://example.com", sourceName: "Example", title: `Story ${i}`, seenDate: "" }],
+      sourceCount: 1, createdAt: now - i * 1000, lastSeenAt: now - i * 1000, ...fields(i),
+    });
+  }
+  await batch.commit();
+}
+
+// One story as syndicated by several outlets.
+const SYNDICATED_ITEMS: RssItem[] = [
+  { title: "Retiree loses RM200,000 to WhatsApp investment scam", link: "https://www.thestar.com.my/news/1" },
+  { title: "Retiree loses RM200k in WhatsApp investment scam", link: "https://www.nst.com.my/news/6", source: "NST", sourceUrl: "https://www.nst.com.my" },
+  { title: "Pensioner duped of RM200,000 in WhatsApp investment scheme", link: "https://www.malaymail.com/news/7", source: "Malay Mail", sourceUrl: "https://www.malaymail.com" },
+];
+
+describeWithEmulator("getScamNewsDigest", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  test("rejects unauthenticated calls and bad arguments", async () => {
+    await expectHttpsError(callAs(getScamNewsDigest, null, {}), "unauthenticated");
+    await expectHttpsError(callAs(getScamNewsDigest, newUid(), { region: "MARS" }), "invalid-argument");
+    await expectHttpsError(callAs(getScamNewsDigest, newUid(), { category: "Not A Scam" }), "invalid-argument");
+    await expectHttpsError(callAs(getScamNewsDigest, newUid(), { pageSize: 100 }), "invalid-argument");
+    await expectHttpsError(callAs(getScamNewsDigest, newUid(), { cursor: "no-such-article" }), "invalid-argument");
+  });
+
+  test("an empty database triggers a synchronous scrape", async () => {
+    network.rssItems = SCAM_ITEMS;
+    llm.fixtures.newsDigest = judgeArticle;
+
+    const started = Date.now();
+    const { stories, nextCursor } = await callAs(getScamNewsDigest, newUid(), {});
+    expect(stories.length).toBe(3);
+    expect(nextCursor).toEqual(stories[2].id);
+    expect(stories.every((a: { summary: string }) => a.summary === "A phone scam summary. Stay alert.")).toBe(true);
+    expect(stories.every((a: { sourceCount: number }) => a.sourceCount === 1)).toBe(true);
+    expect(llmCallCount("newsDigest")).toBe(SCAM_ITEMS.length);
+    // The model calls stop in time for the 20 s function timeout; what is left waits for the scraper.
+    const deadlines = llm.provider!.calls.filter((c) => c.task === "newsDigest").map((c) => c.deadline);
+    expect(deadlines.every((d) => d !== undefined && d <= started + 12000)).toBe(true);
+
+    const stored = await scamNews();
+    expect(stored.filter((d) => d.rejected === true)).toHaveLength(1);
+    expect(stored.filter((d) => d.rejected !== true)).toHaveLength(4);
+  });
+
+  test("serves stored stories without scraping again", async () => {
+    await seedStories(1);
+    const { stories, nextCursor } = await callAs(getScamNewsDigest, newUid(), {});
+    expect(stories).toHaveLength(1);
+    expect(stories[0]).toMatchObject({ sourceCount: 1, sources: [{ url: "https://example.com/news-0", sourceName: "Example" }] });
+    expect(nextCursor).toBeNull();
+    expect(network.requests.some((u) => u.includes("news.google.com"))).toBe(false);
+  });
+
+  test("pages through the feed with a cursor", async () => {
+    await seedStories(7);
+    const uid = newUid();
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: any = await callAs(getScamNewsDigest, uid, { pageSize: 3, cursor });
+      seen.push(...page.stories.map((a: { id: string }) => a.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(["news-0", "news-1", "news-2", "news-3", "news-4", "news-5", "news-6"]);
+  });
+
+  test("other regions don't take up slots", async () => {
+    await seedStories(6, (i) => i < 5 ? { region: "ASIA" } : {});
+    const { stories } = await callAs(getScamNewsDigest, newUid(), { pageSize: 3 });
+    expect(stories.map((a: { id: string }) => a.id)).toEqual(["news-5"]);
+
+    const asia = await callAs(getScamNewsDigest, newUid(), { region: "ASIA", pageSize: 10 });
+    expect(asia.stories.map((a: { id: string }) => a.id)).toEqual(["news-0", "news-1", "news-2", "news-3", "news-4"]);
+  });
+
+  test("filters by scam category", async () => {
+    await seedStories(4, (i) => ({ category: i % 2 ? "Job Scam" : "Love Scam" }));
+    const { stories } = await callAs(getScamNewsDigest, newUid(), { category: "Job Scam", pageSize: 10 });
+    expect(stories.map((a: { id: string }) => a.id)).toEqual(["news-1", "news-3"]);
+    expect(stories.every((a: { category: string }) => a.category === "Job Scam")).toBe(true);
+  });
+
+  test("translates each story once and stores the translation", async () => {
+    await seedStories(2);
+    const first = await callAs(getScamNewsDigest, newUid(), { language: "ms" });
+    expect(first.stories.map((a: { language: string; title: string }) => [a.language, a.title])).toEqual([
+      ["ms", "Fixture translated title"], ["ms", "Fixture translated title"],
+    ]);
+    expect(llmCallCount("newsTranslation")).toBe(2);
+
+    const stored = (await admin.firestore().collection("scam_stories").doc("news-0").get()).data();
+    expect(stored?.translations?.ms).toMatchObject({ title: "Fixture translated title" });
+
+    const second = await callAs(getScamNewsDigest, newUid(), { language: "ms-MY" });
+    expect(second.stories[0]).toMatchObject({ language: "ms", title: "Fixture translated title" });
+    expect(llmCallCount("newsTranslation")).toBe(2);
+  });
+
+  test("translates only a few stories per request and serves the rest in English", async () => {
+    await seedStories(5);
+    const first = await callAs(getScamNewsDigest, newUid(), { language: "zh", pageSize: 5 });
+    expect(first.stories.map((a: { language: string }) => a.language)).toEqual(["zh", "zh", "zh", "en", "en"]);
+    expect(llmCallCount("newsTranslation")).toBe(3);
+
+    const second = await callAs(getScamNewsDigest, newUid(), { language: "zh", pageSize: 5 });
+    expect(second.stories.every((a: { language: string }) => a.language === "zh")).toBe(true);
+    expect(llmCallCount("newsTranslation")).toBe(5);
+  });
+
+  test("serves English when translation fails or the language is unsupported", async () => {
+    await seedStories(1);
+    llm.fixtures.newsTranslation = new Error("model unavailable");
+    const failed = await callAs(getScamNewsDigest, newUid(), { language: "zh" });
+    expect(failed.stories[0]).toMatchObject({ language: "en", title: "Story 0" });
+
+    const unsupported = await callAs(getScamNewsDigest, newUid(), { language: "fr" });
+    expect(unsupported.stories[0]).toMatchObject({ language: "en", title: "Story 0" });
+    expect(llmCallCount("newsTranslation")).toBe(1);
+  });
+
+  test("a failing feed gives an empty digest", async () => {
+    network.rssStatus = 500;
+    const res = await callAs(getScamNewsDigest, newUid(), { region: "ASIA" });
+    expect(res).toEqual({ stories: [], nextCursor: null });
+    expect(llmCallCount("newsDigest")).toBe(0);
+  });
+});
+
+describeWithEmulator("periodicScamNewsScraper", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  test("stores processed articles and skips ones it has seen", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 2);
+    await periodicScamNewsScraper.run({} as any);
+    expect(await scamNews()).toHaveLength(2);
+    expect(await scamStories()).toHaveLength(2);
+    expect(llmCallCount("newsDigest")).toBe(2);
+
+    await periodicScamNewsScraper.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(2);
+  });
+
+  test("summarizes a syndicated story once and lists its sources", async () => {
+    network.rssItems = [...SYNDICATED_ITEMS, SCAM_ITEMS[2]];
+    await periodicScamNewsScraper.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(2);
+
+    const stories = await scamStories();
+    expect(stories.map((s) => s.sourceCount).sort()).toEqual([1, 3]);
+    const retiree = stories.find((s) => s.sourceCount === 3);
+    expect(retiree?.sources.map((s: { sourceName: string }) => s.sourceName)).toEqual(["The Star", "NST", "Malay Mail"]);
+    const storyId = Buffer.from(SYNDICATED_ITEMS[0].link).toString("base64").replace(/\//g, "_").slice(0, 200);
+    expect((await scamNews()).filter((d) => d.storyId === storyId)).toHaveLength(3);
+
+    // A later copy joins the story without another summary.
+    network.rssItems = [...SYNDICATED_ITEMS, SCAM_ITEMS[2],
+      { title: "WhatsApp investment scam: retiree loses RM200,000, police say", link: "https://www.bernama.com/news/8", source: "Bernama" }];
+    await periodicScamNewsScraper.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(2);
+    const joined = (await admin.firestore().collection("scam_stories").doc(storyId).get()).data();
+    expect(joined).toMatchObject({ sourceCount: 4, title: "Scam alert" });
+    expect(joined?.sources).toHaveLength(4);
+
+    const { stories: served } = await callAs(getScamNewsDigest, newUid(), {});
+    expect(served.find((s: { id: string }) => s.id === storyId)).toMatchObject({ sourceCount: 4, url: SYNDICATED_ITEMS[0].link });
+  });
+
+  test("a rejected story rejects all its copies", async () => {
+    network.rssItems = [SCAM_ITEMS[4], { ...SCAM_ITEMS[4], link: "https://www.nst.com.my/news/9", source: "NST" }];
+    llm.fixtures.newsDigest = judgeArticle;
+    await periodicScamNewsScraper.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(1);
+    expect(await scamNews()).toEqual([expect.objectContaining({ rejected: true }), expect.objectContaining({ rejected: true })]);
+    expect(await scamStories()).toHaveLength(0);
+  });
+
+  test("runs every region and records each source's status", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 2);
+    network.feeds["https://www.freemalaysiatoday.com/category/nation/feed/"] =
+      readFileSync(join(__dirname, "fixtures", "feeds", "outlet-wordpress.xml"), "utf8");
+    network.feeds["https://www.malaymail.com/feed/rss/malaysia"] = "<html>maintenance</html>";
+
+    await periodicScamNewsScraper.run({} as any);
+
+    const googleSearches = network.requests.filter((u) => u.includes("news.google.com"));
+    expect(googleSearches.some((u) => u.includes("Singapore"))).toBe(true); // ASIA query
+    expect(googleSearches.some((u) => u.includes("gl=MY"))).toBe(true);
+
+    // The two Google items once (whichever region saw them first), plus the FMT scam story;
+    // FMT's assembly story doesn't match the scam keywords.
+    const stored = await scamNews();
+    expect(stored).toHaveLength(3);
+    expect(stored.find((d) => d.sourceId === "fmt-nation")).toMatchObject({
+      region: "MY", sourceName: "Free Malaysia Today", imageUrl: "https://media.freemalaysiatoday.com/2025/01/scam.jpg",
+    });
+    expect(await scamStories()).toHaveLength(3);
+    expect(llmCallCount("newsDigest")).toBe(3);
+
+    expect(await sourceStatus("google-news-global")).toMatchObject({ lastStatus: "ok", itemCount: 2, newCount: 2, consecutiveFailures: 0 });
+    expect(await sourceStatus("google-news-asia")).toMatchObject({ lastStatus: "ok", itemCount: 2, newCount: 0 });
+    expect(await sourceStatus("fmt-nation")).toMatchObject({ lastStatus: "ok", parsedCount: 2, itemCount: 1, newCount: 1 });
+    expect(await sourceStatus("malaymail-malaysia")).toMatchObject({ lastStatus: "error", lastError: "Not an RSS or Atom feed", consecutiveFailures: 1 });
+    expect(await sourceStatus("thestar-nation")).toMatchObject({ lastStatus: "error", httpStatus: 404, lastError: expect.stringContaining("HTTP 404") });
+  });
+
+  test("turns articles summarized before stories existed into stories", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 1);
+    const id = Buffer.from(SCAM_ITEMS[0].link).toString("base64").replace(/\//g, "_").slice(0, 200);
+    await admin.firestore().collection("scam_news").doc(id).set({
+      url: SCAM_ITEMS[0].link, title: "Legacy", summary: "s", region: "GLOBAL", createdAt: Date.now(),
+    });
+
+    await periodicScamNewsScraper.run({} as any);
+    expect(await scamNews()).toEqual([expect.objectContaining({ title: "Legacy", rejected: false, storyId: id })]);
+    const story = (await admin.firestore().collection("scam_stories").doc(id).get()).data();
+    expect(story).toMatchObject({ title: "Legacy", summary: "s", category: "Other", sourceCount: 1, url: SCAM_ITEMS[0].link });
+    expect(llmCallCount("newsDigest")).toBe(0);
+  });
+
+  test("migrates every legacy article at once, so the digest keeps serving them", async () => {
+    const newsColl = admin.firestore().collection("scam_news");
+    await newsColl.doc("legacy-1").set({ url: "https://a.example/1", title: "Old one", summary: "s1", region: "MY", createdAt: 1000 });
+    await newsColl.doc("legacy-2").set({ url: "https://a.example/2", title: "Old two", summary: "s2", region: "MY", createdAt: 2000 });
+    await newsColl.doc("rejected").set({ url: "https://a.example/3", title: "Off topic", rejected: true });
+
+    await expectHttpsError(callAs(adminMigrateNewsStories, newUid(), {}), "permission-denied");
+    const res = await callAs(adminMigrateNewsStories, newUid("admin"), {}, { admin: true });
+    expect(res).toMatchObject({ ok: true, scanned: 3, migrated: 2, failed: 0, done: true });
+
+    const digest = await callAs(getScamNewsDigest, newUid(), { region: "MY" });
+    expect(digest.stories.map((s: { title: string }) => s.title)).toEqual(["Old two", "Old one"]);
+    expect(llmCallCount("newsDigest")).toBe(0);
+
+    expect(await callAs(adminMigrateNewsStories, newUid("admin"), {}, { admin: true })).toMatchObject({ migrated: 0, done: true });
+  });
+
+  test("stores the indicators a story names in threat_intel", async () => {
+    network.rssItems = [SCAM_ITEMS[1], SCAM_ITEMS[2]];
+    llm.fixtures.newsDigest = (request: LlmRequest) => ({
+      reject: false, title: "Scam alert", summary: "A phone scam summary.", warningsAndTips: "• Tip", category: "Phishing",
+      indicators: [
+        { type: "domain", value: "https://poslaju-redelivery.top/track", confidence: 0.8 },
+        { type: "domain", value: "pos.com.my", confidence: 0.9 }, // the official site the article recommends
+        { type: "phone", value: "+60 11-2233 4455", confidence: request.prompt.includes("Job scam") ? 0.6 : 0.7 },
+        { type: "impersonatedBrand", value: "Pos Laju", confidence: 0.9 },
+        { type: "app", value: "Parcel Tracker APK", confidence: 0.1 },
+      ],
+    });
+    await periodicScamNewsScraper.run({} as any);
+
+    const intel = (await admin.firestore().collection("threat_intel").get()).docs.map((d) => d.data());
+    expect(intel.map((d) => `${d.type}:${d.value}`).sort()).toEqual([
+      "domain:poslaju-redelivery.top", "impersonatedBrand:poslaju", "phone:601122334455",
+    ]);
+    const phone = (await admin.firestore().collection("threat_intel").doc(indicatorId("phone", "601122334455")).get()).data();
+    expect(phone).toMatchObject({ sourceCount: 2, categories: { Phishing: 2 }, regions: ["GLOBAL"] });
+    expect(phone?.confidence).toBeCloseTo(1 - 0.4 * 0.3);
+
+    // Seen again on the next run: not counted twice.
+    await periodicScamNewsScraper.run({} as any);
+    const again = (await admin.firestore().collection("threat_intel").doc(indicatorId("phone", "601122334455")).get()).data();
+    expect(again?.sourceCount).toBe(2);
+
+    const res = await callAs(checkLink, newUid(), { url: "https://poslaju-redelivery.top/track?id=1" });
+    expect(res.riskLevel).toBe("HIGH");
+    expect(res.threatIntel[0].sources[0]).toMatchObject({ sourceName: "The Star" });
+  });
+
+  test("unusable model output stores nothing", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 2);
+    llm.fixtures.newsDigest = "not json";
+    await periodicScamNewsScraper.run({} as any);
+    expect(await scamNews()).toHaveLength(0);
+  });
+
+  test("a model outage stores nothing and does not throw", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 2);
+    llm.fixtures.newsDigest = new Error("quota exceeded");
+    await expect(periodicScamNewsScraper.run({} as any)).resolves.toBeUndefined();
+    expect(await scamNews()).toHaveLength(0);
+  });
+});
+
+describeWithEmulator("news backfill jobs", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  const adminUid = () => newUid("admin");
+  const start = (data: unknown = {}) => callAs(adminStartNewsBackfill, adminUid(), data, { admin: true });
+  const status = (data: unknown = {}) => callAs(adminGetNewsBackfillStatus, adminUid(), data, { admin: true });
+  const jobRef = (jobId: string) => admin.firestore().collection("backfill_jobs").doc(jobId);
+
+  test("is admin only", async () => {
+    await expectHttpsError(callAs(adminStartNewsBackfill, null, {}), "unauthenticated");
+    await expectHttpsError(callAs(adminStartNewsBackfill, newUid(), {}), "permission-denied");
+    await expectHttpsError(callAs(adminGetNewsBackfillStatus, newUid(), {}), "permission-denied");
+    await expectHttpsError(start({ window: "10y" }), "invalid-argument");
+    await expectHttpsError(start({ maxItems: 1000 }), "invalid-argument");
+    expect(network.requests).toHaveLength(0);
+  });
+
+  test("queues the 3-year window, then the worker processes it", async () => {
+    network.rssItems = SCAM_ITEMS;
+    llm.fixtures.newsDigest = judgeArticle;
+    const job = await start();
+    expect(job).toMatchObject({ status: "running", region: "GLOBAL", window: "3y", total: 5, processed: 0, progress: 0, existing: false });
+    expect(network.requests.find((u) => u.includes("news.google.com"))).toContain("when:3y");
+    expect(llmCallCount("newsDigest")).toBe(0);
+
+    await newsBackfillWorker.run({} as any);
+    expect(await status({ jobId: job.jobId })).toMatchObject({
+      status: "completed", total: 5, processed: 5, accepted: 4, rejected: 1, failed: 0, skipped: 0, progress: 1,
+    });
+    expect(await scamStories()).toHaveLength(4);
+    expect(llmCallCount("newsDigest")).toBe(5);
+
+    // Nothing left to do.
+    await newsBackfillWorker.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(5);
+  });
+
+  test("starting the same backfill twice returns the running job", async () => {
+    network.rssItems = SCAM_ITEMS;
+    const first = await start({ region: "MY", window: "1y", maxItems: 2 });
+    expect(first.total).toBe(2);
+    const second = await start({ region: "MY", window: "1y" });
+    expect(second).toMatchObject({ jobId: first.jobId, existing: true });
+    expect(network.requests.filter((u) => u.includes("news.google.com"))).toHaveLength(1);
+    expect(await status()).toMatchObject({ jobId: first.jobId, status: "running" });
+  });
+
+  test("resumes where a timed-out run stopped and respects a held lease", async () => {
+    network.rssItems = SCAM_ITEMS;
+    const { jobId } = await start();
+
+    // Another run holds the job.
+    await jobRef(jobId).update({ leaseUntil: Date.now() + 60000 });
+    await newsBackfillWorker.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(0);
+
+    // That run processed two items, then timed out without releasing the lease.
+    const items = await jobRef(jobId).collection("items").limit(2).get();
+    await Promise.all(items.docs.map((d) => d.ref.update({ status: "accepted" })));
+    await jobRef(jobId).update({ leaseUntil: Date.now() - 1, processed: 2, accepted: 2 });
+
+    await newsBackfillWorker.run({} as any);
+    expect(llmCallCount("newsDigest")).toBe(3);
+    expect(await status({ jobId })).toMatchObject({ status: "completed", processed: 5, accepted: 5 });
+  });
+
+  test("retries failures on later runs, then counts them, along with articles stored before", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 2);
+    await periodicScamNewsScraper.run({} as any);
+    network.rssItems = SCAM_ITEMS.slice(0, 3);
+    llm.fixtures.newsDigest = new Error("quota exceeded");
+    const judged = llmCallCount("newsDigest");
+
+    const { jobId } = await start();
+    await newsBackfillWorker.run({} as any);
+    expect(await status({ jobId })).toMatchObject({ status: "running", total: 3, processed: 2, skipped: 2, failed: 0 });
+    expect(llmCallCount("newsDigest") - judged).toBe(1);
+
+    await newsBackfillWorker.run({} as any);
+    await newsBackfillWorker.run({} as any);
+    expect(await status({ jobId })).toMatchObject({ status: "completed", total: 3, processed: 3, skipped: 2, failed: 1 });
+    expect(llmCallCount("newsDigest") - judged).toBe(3);
+  });
+
+  test("an item that fails once is processed on the next run", async () => {
+    network.rssItems = SCAM_ITEMS.slice(0, 2);
+    llm.fixtures.newsDigest = new Error("quota exceeded");
+    const { jobId } = await start();
+    await newsBackfillWorker.run({} as any);
+    expect(await status({ jobId })).toMatchObject({ status: "running", processed: 0 });
+
+    llm.fixtures.newsDigest = judgeArticle;
+    await newsBackfillWorker.run({} as any);
+    expect(await status({ jobId })).toMatchObject({ status: "completed", processed: 2, accepted: 2, failed: 0 });
+  });
+
+  test("a feed that is down gives a failed job", async () => {
+    network.rssStatus = 503;
+    const job = await start();
+    expect(job).toMatchObject({ status: "failed", total: 0, lastError: expect.stringContaining("503") });
+    await expectHttpsError(status({ jobId: "missing" }), "not-found");
+  });
+});
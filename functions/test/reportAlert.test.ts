@@ -0,0 +1,207 @@
+import * as admin from "firebase-admin";
+import { adminMigrateInsights, getInsights, reportAlert } from "../src/index";
+import { OVERFLOW_KEY, shardOf } from "../src/aggregationKeys";
+import { isoWeekId } from "../src/insights";
+import { callAs, clearFirestore, describeWithEmulator, expectHttpsError, newUid } from "./harness";
+
+describeWithEmulator("reportAlert", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  const weekly = async (weekId: string) => (await admin.firestore().collection("insightsWeekly").doc(weekId).get()).data();
+  const reputationDoc = async (domain: string) => (await admin.firestore().collection("reputation_domains").doc(domain).get()).data();
+
+  test("rejects unauthenticated calls", async () => {
+    await expectHttpsError(callAs(reportAlert, null, { category: "Phishing" }), "unauthenticated");
+  });
+
+  test("rejects payloads that break the contract", async () => {
+    const e = await expectHttpsError(callAs(reportAlert, newUid(), { category: 42, tactics: "urgency" }), "invalid-argument");
+    expect(e.details.errors.length).toBeGreaterThan(0);
+  });
+
+  test("counts the report in the weekly insights and the domain reputation", async () => {
+    const res = await callAs(reportAlert, newUid(), {
+      category: "Phishing", tactics: ["urgency", "otp"], url: "https://login.fake-bank.xyz/verify",
+    });
+    expect(res).toMatchObject({ ok: true, duplicate: false });
+    expect(res.weekId).toMatch(/^\d{4}-W\d{2}$/);
+    expect(res.reputation).toMatchObject({ domain: "fake-bank.xyz", totalReports: 1 });
+
+    const week = await weekly(res.weekId);
+    expect(week).toMatchObject({ totalReports: 1, categories: { Phishing: 1 }, tactics: { urgency: 1, otp: 1 } });
+    expect(await reputationDoc("fake-bank.xyz")).toMatchObject({ totalReports: 1 });
+  });
+
+  test("encodes and caps the tactics counted per domain", async () => {
+    const res = await callAs(reportAlert, newUid(), { category: "Phishing", tactics: ["a.b", "__name__"], url: "https://fake-bank.xyz" });
+    expect(Object.keys((await reputationDoc("fake-bank.xyz"))?.tactics)).toEqual(["a%2Eb", "%5F_name__"]);
+    expect(res.reputation.tactics).toEqual({ "a.b": 1, "__name__": 1 });
+
+    const tactics = Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`t${i}`, 1]));
+    await admin.firestore().collection("reputation_domains").doc("fake-shop.top")
+      .set({ domain: "fake-shop.top", totalReports: 1, tactics });
+    await callAs(reportAlert, newUid(), { category: "Phishing", tactics: ["t1", "new one", "another"], url: "https://fake-shop.top" });
+    const doc = await reputationDoc("fake-shop.top");
+    expect(Object.keys(doc?.tactics)).toHaveLength(51);
+    expect(doc?.tactics).toMatchObject({ t1: 2, [OVERFLOW_KEY]: 2 });
+  });
+
+  test("a second report of the same domain by the same user is not counted", async () => {
+    const uid = newUid();
+    const data = { category: "Phishing", url: "https://fake-parcel.top/track" };
+    const first = await callAs(reportAlert, uid, data);
+    const second = await callAs(reportAlert, uid, data);
+
+    expect(second).toMatchObject({ ok: true, duplicate: true, reputation: null });
+    expect(await weekly(first.weekId)).toMatchObject({ totalReports: 1 });
+    expect(await reputationDoc("fake-parcel.top")).toMatchObject({ totalReports: 1 });
+
+    const other = await callAs(reportAlert, newUid(), data);
+    expect(other).toMatchObject({ duplicate: false, reputation: { totalReports: 2 } });
+  });
+
+  test("counts each user once a week as a reporter, for trend detection", async () => {
+    const uid = newUid();
+    const first = await callAs(reportAlert, uid, { category: "Job Scam", tactics: ["job_scam", "urgency"] });
+    await callAs(reportAlert, uid, { category: "Job Scam", tactics: ["job_scam"] });
+    await callAs(reportAlert, newUid(), { category: "Phishing", tactics: ["credential"] });
+
+    expect(await weekly(first.weekId)).toMatchObject({
+      totalReports: 3,
+      categories: { "Job Scam": 2, "Phishing": 1 },
+      reporters: { total: 2, categories: { "Job Scam": 1, "Phishing": 1 }, tactics: { job_scam: 1, credential: 1 } },
+    });
+    expect((await weekly(first.weekId))?.reporters.tactics).not.toHaveProperty("urgency");
+  });
+
+  test("the app's report payload feeds tactic trends", async () => {
+    // As ReportAlertRequest.toMap builds it: the alert's heuristic tactic codes. The verdict's
+    // whyFlagged lines (free text, translated on the device) are not tactics and count for nothing.
+    const appPayload = (tactics: string[]) => ({ category: "Phishing", tactics, promptVersion: "v1" });
+    const { weekId } = await callAs(reportAlert, newUid(), appPayload(["credential", "suspicious_url"]));
+    await callAs(reportAlert, newUid(), appPayload(["credential"]));
+    await callAs(reportAlert, newUid(), appPayload(["Mesej meminta OTP anda.", "Pautan ke domain yang mencurigakan."]));
+
+    expect((await weekly(weekId))?.reporters).toEqual({
+      total: 3, categories: { Phishing: 3 }, tactics: { credential: 2, suspicious_url: 1 },
+    });
+  });
+
+  test("enough reports raise the domain to HIGH reputation", async () => {
+    let res: any;
+    for (let i = 0; i < 5; i++) {
+      res = await callAs(reportAlert, newUid(), { category: "Job Scam", url: "https://easy-job.vip/apply" });
+    }
+    expect(res.reputation).toMatchObject({ domain: "easy-job.vip", level: "HIGH", totalReports: 5 });
+  });
+
+  test("the rate limit surfaces as resource-exhausted with a retry delay", async () => {
+    const uid = newUid();
+    // No domain, so dedup doesn't short-circuit before the bucket is drained.
+    for (let i = 0; i < 10; i++) {
+      await callAs(reportAlert, uid, { category: "Spam" });
+    }
+    const e = await expectHttpsError(callAs(reportAlert, uid, { category: "Spam" }), "resource-exhausted");
+    expect(e.details.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  test("stores dotted input as one encoded key, not a nested path", async () => {
+    const res = await callAs(reportAlert, newUid(), { category: "Phishing", tactics: ["a.b.c"], domainPattern: "*.fake-bank.xyz" });
+    const week = await weekly(res.weekId);
+    expect(Object.keys(week?.tactics ?? {})).toEqual(["a%2Eb%2Ec"]);
+    expect(Object.keys(week?.domainPatterns ?? {})).toEqual(["%2A%2Efake-bank%2Exyz"]);
+    expect(Object.keys(week ?? {}).some((k) => k.includes("."))).toBe(false);
+
+    const insights = await callAs(getInsights, newUid(), {});
+    expect(insights.risingDomainPatterns[0]).toMatchObject({ key: "*.fake-bank.xyz", count: 1 });
+  });
+
+  test("caps distinct keys and moves the long tail of domain patterns to shards", async () => {
+    const weekId = isoWeekId(new Date());
+    const domainPatterns = Object.fromEntries(Array.from({ length: 100 }, (_, i) => [`site${i}%2Ecom`, 1]));
+    await admin.firestore().collection("insightsWeekly").doc(weekId).set({ totalReports: 100, domainPatterns });
+
+    await callAs(reportAlert, newUid(), { category: "Phishing", domainPattern: "new-site.com" });
+    await callAs(reportAlert, newUid(), { category: "Phishing", domainPattern: "site1.com" });
+    const week = await weekly(weekId);
+    expect(week?.domainPatterns).toMatchObject({ [OVERFLOW_KEY]: 1, "site1%2Ecom": 2 });
+    expect(week?.domainPatterns["new-site%2Ecom"]).toBeUndefined();
+
+    const shards = await admin.firestore().collection("insightsWeekly").doc(weekId).collection("domainPatternShards").get();
+    expect(shards.docs.map((d) => d.get("counts"))).toEqual([{ "new-site%2Ecom": 1 }]);
+
+    // Shards are capped too.
+    const shard = admin.firestore().collection("insightsWeekly").doc(weekId)
+      .collection("domainPatternShards").doc(shardOf("other-site%2Ecom", 10));
+    await shard.set({ counts: Object.fromEntries(Array.from({ length: 500 }, (_, i) => [`filler${i}`, 1])) });
+    await callAs(reportAlert, newUid(), { category: "Phishing", domainPattern: "other-site.com" });
+    expect((await shard.get()).get("counts")).toMatchObject({ [OVERFLOW_KEY]: 1 });
+    expect((await shard.get()).get("counts")).not.toHaveProperty("other-site%2Ecom");
+  });
+
+  test("migrates weeks written with literal dotted field names", async () => {
+    await expectHttpsError(callAs(adminMigrateInsights, newUid(), {}), "permission-denied");
+    const legacy = admin.firestore().collection("insightsWeekly").doc("2025-W10");
+    await legacy.set({
+      totalReports: 3, "categories.Phishing": 2, "categories.Impersonation": 1, "tactics.urgency": 3,
+      "domainPatterns.fake-bank.xyz": 2,
+    });
+
+    const res = await callAs(adminMigrateInsights, newUid("admin"), {}, { admin: true });
+    expect(res).toMatchObject({ ok: true, migrated: 1 });
+    const migrated = (await legacy.get()).data();
+    expect(migrated).toEqual(expect.objectContaining({
+      schemaVersion: 2, totalReports: 3, categories: { Phishing: 2, "Impersonation Scam": 1 }, tactics: { urgency: 3 },
+      domainPatterns: { "fake-bank%2Exyz": 2 },
+    }));
+    expect(Object.keys(migrated ?? {}).some((k) => k.includes("."))).toBe(false);
+
+    expect(await callAs(adminMigrateInsights, newUid("admin"), {}, { admin: true })).toMatchObject({ migrated: 0, skipped: 1 });
+
+    // Weeks created by reports are already current.
+    const { weekId } = await callAs(reportAlert, newUid(), { category: "Phishing", tactics: ["urgency"] });
+    expect(await weekly(weekId)).toMatchObject({ schemaVersion: 2 });
+    expect(await callAs(adminMigrateInsights, newUid("admin"), {}, { admin: true })).toMatchObject({ migrated: 0, skipped: 2 });
+  });
+
+  test("normalizes the category to the taxonomy", async () => {
+    const res = await callAs(reportAlert, newUid(), { category: "Impersonation", tactics: ["legal_threat"] });
+    expect(res.weekId).toBe(isoWeekId(new Date()));
+    expect(await weekly(res.weekId)).toMatchObject({ categories: { "Impersonation Scam": 1 } });
+  });
+});
+
+describeWithEmulator("getInsights", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  test("requires auth and a sane window", async () => {
+    await expectHttpsError(callAs(getInsights, null, {}), "unauthenticated");
+    await expectHttpsError(callAs(getInsights, newUid(), { weeks: 100 }), "invalid-argument");
+  });
+
+  test("compares this week with the last and returns the series", async () => {
+    const thisWeek = isoWeekId(new Date());
+    const lastWeek = isoWeekId(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
+    // Written before categories were normalized.
+    await admin.firestore().collection("insightsWeekly").doc(lastWeek).set({
+      totalReports: 2, categories: { Impersonation: 2 }, tactics: { urgency: 2 },
+    });
+    await callAs(reportAlert, newUid(), { category: "Job Scam", tactics: ["urgency", "job_scam"] });
+    await callAs(reportAlert, newUid(), { category: "Impersonation Scam", tactics: ["job_scam"] });
+    await callAs(reportAlert, newUid(), { category: "Job Scam", tactics: ["job_scam"] });
+
+    const res = await callAs(getInsights, newUid(), { weeks: 4 });
+    expect(res).toMatchObject({ weekId: thisWeek, totalReports: 3, previousTotalReports: 2, totalDelta: 1, totalChangePct: 50 });
+    expect(res.categories).toEqual([
+      expect.objectContaining({ key: "Job Scam", count: 2, previous: 0 }),
+      expect.objectContaining({ key: "Impersonation Scam", count: 1, previous: 2, delta: -1 }),
+    ]);
+    expect(res.risingTactics).toEqual([expect.objectContaining({ key: "job_scam", count: 3, delta: 3 })]);
+    expect(res.series.map((w: { weekId: string }) => w.weekId).slice(-2)).toEqual([lastWeek, thisWeek]);
+    expect(res.series).toHaveLength(4);
+  });
+});
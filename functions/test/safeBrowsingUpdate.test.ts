@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { checkLink, explainAlert, safeBrowsingListUpdater } from "../src/index";
+import {
+  applyListUpdate, canonicalizeUrl, fullHash, LocalDatabase, localCandidates, matchesPrefix, mergedPrefixes, PrefixSet,
+  SAFE_BROWSING_LISTS, SafeBrowsingChecksumError, urlExpressions,
+} from "../src/safeBrowsingUpdate";
+import { callAs, clearFirestore, describeWithEmulator, network, newUid } from "./harness";
+
+describe("canonicalizeUrl", () => {
+  // Test vectors from the Safe Browsing Update API documentation.
+  test.each([
+    ["http://host/%25%32%35", "http://host/%25"],
+    ["http://host/%25%32%35%25%32%35", "http://host/%25%25"],
+    ["http://host/%2525252525252525", "http://host/%25"],
+    ["http://host/asdf%25%32%35asd", "http://host/asdf%25asd"],
+    ["http://host/%%%25%32%35asd%%", "http://host/%25%25%25asd%25%25"],
+    ["http://%31%36%38%2e%31%38%38%2e%39%39%2e%32%36/%2E%73%65%63%75%72%65/%77%77%77%2E%65%62%61%79%2E%63%6F%6D/",
+      "http://168.188.99.26/.secure/www.ebay.com/"],
+    ["http://host%23.com/%257Ea%2521b%2540c%2523d%2524e%25f%255E00%252611%252A22%252833%252944_55%252B",
+      "http://host%23.com/~a!b@c%23d$e%25f^00&11*22(33)44_55+"],
+    ["http://3279880203/blah", "http://195.127.0.11/blah"],
+    ["http://www.google.com/blah/..", "http://www.google.com/"],
+    ["www.google.com", "http://www.google.com/"],
+    ["http://www.evil.com/blah#frag", "http://www.evil.com/blah"],
+    ["http://www.GOOgle.com/", "http://www.google.com/"],
+    ["http://www.google.com.../", "http://www.google.com/"],
+    ["http://www.google.com/foo\tbar\rbaz\n2", "http://www.google.com/foobarbaz2"],
+    ["http://www.google.com/q?r?s", "http://www.google.com/q?r?s"],
+    ["http://evil.com/foo?bar;", "http://evil.com/foo?bar;"],
+    ["http://www.gotaport.com:1234/", "http://www.gotaport.com/"],
+    ["  http://www.google.com/  ", "http://www.google.com/"],
+    ["%20leadingspace.com/", "http://%20leadingspace.com/"],
+    ["https://www.securesite.com/", "https://www.securesite.com/"],
+    ["http://host.com/ab%23cd", "http://host.com/ab%23cd"],
+    ["http://host.com//twoslashes?more//slashes", "http://host.com/twoslashes?more//slashes"],
+  ])("%s", (raw, canonical) => {
+    expect(canonicalizeUrl(raw)).toBe(canonical);
+  });
+});
+
+test("expressions cover host suffixes and path prefixes", () => {
+  expect(urlExpressions("http://a.b.c/1/2.html?param=1").sort()).toEqual([
+    "a.b.c/", "a.b.c/1/", "a.b.c/1/2.html", "a.b.c/1/2.html?param=1", "b.c/", "b.c/1/", "b.c/1/2.html", "b.c/1/2.html?param=1",
+  ]);
+  expect(urlExpressions("http://a.b.c.d.e.f.g/1.html").sort()).toEqual([
+    "a.b.c.d.e.f.g/", "a.b.c.d.e.f.g/1.html", "c.d.e.f.g/", "c.d.e.f.g/1.html", "d.e.f.g/", "d.e.f.g/1.html",
+    "e.f.g/", "e.f.g/1.html", "f.g/", "f.g/1.html",
+  ]);
+  expect(urlExpressions("http://1.2.3.4/1/").sort()).toEqual(["1.2.3.4/", "1.2.3.4/1/"]);
+});
+
+const prefix = (expression: string) => fullHash(expression).subarray(0, 4);
+const rawHashes = (prefixes: Buffer[]) => ({ compressionType: "RAW", rawHashes: { prefixSize: 4, rawHashes: Buffer.concat(prefixes).toString("base64") } });
+const checksum = (prefixes: Buffer[]) =>
+  ({ sha256: createHash("sha256").update(Buffer.concat(prefixes.slice().sort(Buffer.compare))).digest("base64") });
+
+describe("applyListUpdate", () => {
+  const [a, b, c] = ["a.example/", "b.example/", "c.example/"].map(prefix);
+
+  test("applies a full update, then removals by sorted index and additions", () => {
+    const full = applyListUpdate(new Map(), {
+      responseType: "FULL_UPDATE", additions: [rawHashes([a, b])], checksum: checksum([a, b]),
+    });
+    expect(mergedPrefixes(full)).toHaveLength(2);
+
+    const removeIndex = mergedPrefixes(full).indexOf(a.toString("latin1"));
+    const partial = applyListUpdate(full, {
+      responseType: "PARTIAL_UPDATE",
+      removals: [{ compressionType: "RAW", rawIndices: { indices: [removeIndex] } }],
+      additions: [rawHashes([c])],
+      checksum: checksum([b, c]),
+    });
+    expect(matchesPrefix(partial, fullHash("a.example/"))).toBeNull();
+    expect(matchesPrefix(partial, fullHash("b.example/"))).toEqual(b);
+    expect(matchesPrefix(partial, fullHash("c.example/"))).toEqual(c);
+  });
+
+  test("rejects a result that doesn't match the checksum", () => {
+    expect(() => applyListUpdate(new Map(), {
+      responseType: "FULL_UPDATE", additions: [rawHashes([a])], checksum: checksum([a, b]),
+    })).toThrow(SafeBrowsingChecksumError);
+  });
+});
+
+test("only URLs with a listed prefix become candidates for full-hash confirmation", () => {
+  const prefixes: PrefixSet = new Map([[4, Buffer.concat([prefix("poslaju-redelivery.top/")].sort(Buffer.compare))]]);
+  const database: LocalDatabase = {
+    updatedAt: Date.now(),
+    lists: SAFE_BROWSING_LISTS.map((list) => ({ list, state: "s", prefixes: list.threatType === "SOCIAL_ENGINEERING" ? prefixes : new Map() })),
+  };
+  const candidates = localCandidates(database, ["https://track.poslaju-redelivery.top/pay?id=1", "https://www.pos.com.my/"]);
+  expect(candidates).toEqual([expect.objectContaining({
+    url: "https://track.poslaju-redelivery.top/pay?id=1", threatTypes: ["SOCIAL_ENGINEERING"], prefix: prefix("poslaju-redelivery.top/"),
+  })]);
+});
+
+describeWithEmulator("local Safe Browsing database", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+    network.safeBrowsingList = { "poslaju-redelivery.top/": "SOCIAL_ENGINEERING", "free-apk.example/mod/": "MALWARE" };
+    await safeBrowsingListUpdater.run({} as any);
+    network.requests = [];
+  });
+
+  const sentUrlToGoogle = () => network.requests.some((u) => u.includes("threatMatches:find"));
+
+  test("checkLink confirms a listed URL by hash prefix, without sending the URL", async () => {
+    const res = await callAs(checkLink, newUid(), { url: "https://track.poslaju-redelivery.top/pay?id=1" });
+    expect(res.riskLevel).toBe("HIGH");
+    expect(res.scoring.overrides.map((o: { rule: string }) => o.rule)).toContain("safeBrowsingMatch");
+    expect(network.requests.some((u) => u.includes("fullHashes:find"))).toBe(true);
+    expect(sentUrlToGoogle()).toBe(false);
+  });
+
+  test("notification links are checked too, and unlisted ones make no request at all", async () => {
+    const listed = await callAs(explainAlert, newUid(), {
+      alertType: "NOTIFICATION", snippet: "Your app update is ready", extractedUrl: "http://free-apk.example/mod/whatsapp.apk",
+    });
+    expect(listed.scoring.overrides.map((o: { rule: string }) => o.rule)).toContain("safeBrowsingMatch");
+
+    network.requests = [];
+    await callAs(explainAlert, newUid(), { alertType: "NOTIFICATION", snippet: "See you at 3", extractedUrl: "https://example.org/menu" });
+    expect(network.requests.some((u) => u.includes("safebrowsing"))).toBe(false);
+  });
+
+  test("the updater waits as long as Google asked before fetching again", async () => {
+    await safeBrowsingListUpdater.run({} as any);
+    expect(network.requests.some((u) => u.includes("threatListUpdates:fetch"))).toBe(false);
+  });
+});
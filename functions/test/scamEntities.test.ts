@@ -0,0 +1,125 @@
+import * as admin from "firebase-admin";
+import { checkEntity, reportAlert } from "../src/index";
+import { entityId, entityVerdict, normalizeEntity, normalizePhoneE164 } from "../src/scamEntities";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring";
+import { indicatorId } from "../src/threatIntel";
+import { callAs, clearFirestore, describeWithEmulator, expectHttpsError, newUid } from "./harness";
+
+describe("normalizePhoneE164", () => {
+  test.each([
+    ["012-345 6789", "+60123456789"],
+    ["+60 12-345 6789", "+60123456789"],
+    ["0060123456789", "+60123456789"],
+    ["60123456789", "+60123456789"],
+    ["(03) 1234 5678", "+60312345678"],
+    ["011-2345 6789", "+601123456789"],
+    ["+65 8123 4567", "+6581234567"],
+    ["9123 4567", "+6591234567"],
+  ])("%s", (raw, e164) => {
+    expect(normalizePhoneE164(raw)).toBe(e164);
+  });
+
+  test("rejects other countries, short codes and text", () => {
+    expect(normalizePhoneE164("+44 20 7946 0958")).toBeNull();
+    expect(normalizePhoneE164("15888")).toBeNull();
+    expect(normalizePhoneE164("+65 1234 5678")).toBeNull();
+    expect(normalizePhoneE164("call 012-345 6789")).toBeNull();
+  });
+});
+
+test("bank accounts keep their digits", () => {
+  expect(normalizeEntity("bankAccount", "5140 1234-5678")).toBe("514012345678");
+  expect(normalizeEntity("bankAccount", "1234")).toBeNull();
+});
+
+test("entity IDs are keyed hashes that never contain the value", () => {
+  const id = entityId("phone", "+60123456789", "secret-a");
+  expect(id).toMatch(/^phone_[0-9a-f]{40}$/);
+  expect(id).not.toContain("60123456789");
+  expect(entityId("phone", "+60123456789", "secret-b")).not.toBe(id);
+  expect(entityId("bankAccount", "60123456789", "secret-a").slice(-40)).not.toBe(entityId("phone", "60123456789", "secret-a").slice(-40));
+  expect(() => entityId("phone", "+60123456789", "")).toThrow();
+});
+
+test("an unknown entity is LOW but says it has no reports", () => {
+  const verdict = entityVerdict("phone", null, [], DEFAULT_SCORING_CONFIG);
+  expect(verdict).toMatchObject({ riskLevel: "LOW", headline: "No reports of this number yet" });
+  expect(verdict.reasons.join(" ")).toMatch(/doesn't mean it is safe/);
+});
+
+describeWithEmulator("checkEntity", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  const entityDocs = async () => (await admin.firestore().collection("reputation_entities").get()).docs.map((d) => d.data());
+
+  test("rejects unauthenticated calls and invalid values", async () => {
+    await expectHttpsError(callAs(checkEntity, null, { type: "phone", value: "0123456789" }), "unauthenticated");
+    const e = await expectHttpsError(callAs(checkEntity, newUid(), { type: "phone", value: "+44 20 7946 0958" }), "invalid-argument");
+    expect(e.details.errors).toEqual([expect.objectContaining({ field: "value" })]);
+    await expectHttpsError(callAs(checkEntity, newUid(), { type: "email", value: "a@b.c" }), "invalid-argument");
+  });
+
+  test("counts reported numbers and stores only the hash", async () => {
+    for (let i = 0; i < 2; i++) {
+      await callAs(reportAlert, newUid(), { category: "Investment Scam", entities: [{ type: "phone", value: "012-345 6789" }] });
+    }
+
+    const res = await callAs(checkEntity, newUid(), { type: "phone", value: "+60 12 345 6789" });
+    expect(res).toMatchObject({
+      type: "phone", value: "+60123456789", riskLevel: "HIGH",
+      reputation: { type: "phone", totalReports: 2, level: "MEDIUM", categories: { "Investment Scam": 2 } },
+      threatIntel: [],
+    });
+    expect(JSON.stringify(await entityDocs())).not.toMatch(/123456789/);
+  });
+
+  test("a number named in scam news is HIGH without any reports", async () => {
+    await admin.firestore().collection("threat_intel").doc(indicatorId("phone", "6581234567")).set({
+      type: "phone", value: "6581234567", confidence: 0.8, categories: { Impersonation: 1 }, sourceCount: 1, lastSeen: Date.now(),
+      sources: [{ url: "https://www.straitstimes.com/1", storyId: "s1", title: "Police warn of fake officer calls", sourceName: "ST", seenDate: "" }],
+    });
+
+    const res = await callAs(checkEntity, newUid(), { type: "phone", value: "8123 4567" });
+    expect(res).toMatchObject({ value: "+6581234567", riskLevel: "HIGH", reputation: null });
+    expect(res.threatIntel).toHaveLength(1);
+    expect(res.scoring.overrides).toEqual([expect.objectContaining({ rule: "threatIntelMatch" })]);
+  });
+});
+
+describeWithEmulator("reportAlert with entities", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  test("counts each entity once per user, independently of the domain", async () => {
+    const uid = newUid();
+    const first = await callAs(reportAlert, uid, {
+      category: "Phishing",
+      url: "https://fake-parcel.top/pay",
+      entities: [
+        { type: "bankAccount", value: "5140 1234 5678" },
+        { type: "bankAccount", value: "514012345678" },
+        { type: "phone", value: "not a number" },
+      ],
+    });
+    expect(first.entities).toEqual([expect.objectContaining({ type: "bankAccount", counted: true, reputation: expect.objectContaining({ totalReports: 1 }) })]);
+
+    const second = await callAs(reportAlert, uid, {
+      category: "Phishing",
+      url: "https://fake-parcel.top/pay",
+      entities: [{ type: "bankAccount", value: "514012345678" }, { type: "phone", value: "0123456789" }],
+    });
+    expect(second).toMatchObject({ duplicate: true });
+    expect(second.entities).toEqual([
+      { type: "bankAccount", counted: false, reputation: null },
+      expect.objectContaining({ type: "phone", counted: true }),
+    ]);
+  });
+
+  test("rejects more entities than the contract allows", async () => {
+    const entities = Array.from({ length: 6 }, (_, i) => ({ type: "phone", value: `012345678${i}` }));
+    await expectHttpsError(callAs(reportAlert, newUid(), { category: "Phishing", entities }), "invalid-argument");
+  });
+});
@@ -0,0 +1,38 @@
+import { installFakeFetch, resetFakes } from "./harness";
+
+// Gemini: every provider the code creates is a FixtureLlmProvider answering from harness.llm.fixtures.
+jest.mock("../src/llm", () => {
+  const actual = jest.requireActual("../src/llm");
+  const { llm } = jest.requireActual("./harness");
+  return {
+    ...actual,
+    createLlmProvider: () => {
+      llm.provider = new actual.FixtureLlmProvider(llm.fixtures);
+      return llm.provider;
+    },
+  };
+});
+
+// FCM: topic messages are recorded in harness.fcm instead of being sent.
+jest.mock("../src/fcm", () => {
+  const { fcm } = jest.requireActual("./harness");
+  return {
+    sendToTopic: async (message: any) => {
+      if (fcm.failTopics.includes(message.topic)) throw new Error(`FCM send to ${message.topic} failed`);
+      fcm.messages.push(message);
+      return `projects/demo-safex/messages/${fcm.messages.length}`;
+    },
+  };
+});
+
+// DNS of redirect targets: answered by harness.network.dns.
+jest.mock("../src/hostResolver", () => ({
+  resolveHost: (hostname: string) => jest.requireActual("./harness").fakeResolveHost(hostname),
+}));
+
+// Safe Browsing, news feeds and redirect lookups: answered by the fake network.
+installFakeFetch();
+
+beforeEach(() => {
+  resetFakes();
+});
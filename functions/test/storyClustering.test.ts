@@ -0,0 +1,96 @@
+import {
+  clusterArticles, extractEntities, isSameStory, STORY_WINDOW_MS, storySignature, stripPublisherSuffix, titleTokens,
+} from "../src/storyClustering";
+
+const JAN_6 = Date.parse("2025-01-06T08:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+interface Headline {
+  id: string;
+  title: string;
+  description?: string;
+  publisher?: string;
+  at?: number;
+}
+
+const signatureOf = (h: Headline) => storySignature(h.title, h.description ?? "", h.at ?? JAN_6, h.publisher);
+
+// One Bernama story as syndicated by different outlets, plus unrelated scam news of the same week.
+const RETIREE_STORY: Headline[] = [
+  { id: "star", title: "Retiree loses RM200,000 to WhatsApp investment scam - The Star", publisher: "The Star" },
+  { id: "nst", title: "Retiree loses RM200k in WhatsApp investment scam", publisher: "New Straits Times", at: JAN_6 + 2 * HOUR },
+  {
+    id: "malaymail", title: "Pensioner in Johor duped of RM200,000 in WhatsApp investment scheme",
+    description: "Police said the 67-year-old transferred the money to 12 accounts.", at: JAN_6 + 5 * HOUR,
+  },
+];
+const OTHER_STORIES: Headline[] = [
+  { id: "job", title: "Job scam syndicate lures victims on Telegram", at: JAN_6 + HOUR },
+  { id: "telegram-investment", title: "Telegram investment group scam nets RM1.2 million", at: JAN_6 + 3 * HOUR },
+  { id: "parcel", title: "Police warn of fake parcel SMS & phishing links", at: JAN_6 + 4 * HOUR },
+];
+
+describe("story signatures", () => {
+  test("strips the publisher suffix Google News appends", () => {
+    expect(stripPublisherSuffix("Retiree loses RM200,000 - The Star", "The Star")).toBe("Retiree loses RM200,000");
+    expect(stripPublisherSuffix("Retiree loses RM200,000 | Malay Mail")).toBe("Retiree loses RM200,000");
+    expect(stripPublisherSuffix("Scam - what you need to know about the new rules in Malaysia this year")).toBe(
+      "Scam - what you need to know about the new rules in Malaysia this year");
+  });
+
+  test("normalizes title tokens", () => {
+    expect(titleTokens("Retiree LOSES RM200,000 to the WhatsApp scams")).toEqual(["lose", "retiree", "rm200000", "scam", "whatsapp"]);
+  });
+
+  test("extracts amounts, platforms, places and agencies", () => {
+    expect(extractEntities("Johor CCID: victim lost RM1.2 million via Telegram, PDRM says")).toEqual([
+      "agency:ccid", "agency:pdrm", "amount:1200000", "place:johor", "platform:telegram",
+    ]);
+    expect(extractEntities("RM200k and RM200,000 are the same; RM50 is noise")).toEqual(["amount:200000"]);
+    expect(extractEntities("Kuala Lumpur woman loses savings")).toEqual(["place:kualalumpur"]);
+  });
+});
+
+describe("isSameStory", () => {
+  test("matches rewritten headlines of the same story", () => {
+    const [star, nst, malaymail] = RETIREE_STORY.map(signatureOf);
+    expect(isSameStory(star, nst)).toBe(true); // near-identical title
+    expect(isSameStory(star, malaymail)).toBe(true); // loose title, same amount and platform
+  });
+
+  test("keeps different scams on the same platform apart", () => {
+    const [star] = RETIREE_STORY.map(signatureOf);
+    for (const other of OTHER_STORIES) expect(isSameStory(star, signatureOf(other))).toBe(false);
+  });
+
+  test("does not match outside the time window", () => {
+    const [star] = RETIREE_STORY.map(signatureOf);
+    const later = signatureOf({ ...RETIREE_STORY[1], at: JAN_6 + STORY_WINDOW_MS + HOUR });
+    expect(isSameStory(star, later)).toBe(false);
+  });
+});
+
+describe("clusterArticles", () => {
+  test("groups a batch into stories, oldest article first", () => {
+    const shuffled = [RETIREE_STORY[2], OTHER_STORIES[0], RETIREE_STORY[1], OTHER_STORIES[2], RETIREE_STORY[0], OTHER_STORIES[1]];
+    const clusters = clusterArticles(shuffled, signatureOf, []);
+    expect(clusters.map((c) => [c.storyId, c.members.map((m) => m.id)])).toEqual([
+      [null, ["star", "nst", "malaymail"]],
+      [null, ["job"]],
+      [null, ["telegram-investment"]],
+      [null, ["parcel"]],
+    ]);
+  });
+
+  test("joins existing stories and drops the ones nothing joined", () => {
+    const existing = [
+      { id: "story-retiree", signature: signatureOf(RETIREE_STORY[0]) },
+      { id: "story-unrelated", signature: signatureOf({ id: "x", title: "Macau scam caller poses as LHDN officer" }) },
+    ];
+    const clusters = clusterArticles([RETIREE_STORY[2], OTHER_STORIES[2]], signatureOf, existing);
+    expect(clusters.map((c) => [c.storyId, c.members.map((m) => m.id)])).toEqual([
+      ["story-retiree", ["malaymail"]],
+      [null, ["parcel"]],
+    ]);
+  });
+});
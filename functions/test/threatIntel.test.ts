@@ -0,0 +1,70 @@
+import * as admin from "firebase-admin";
+import { DEFAULT_BRANDS, getBrandRegistry } from "../src/brandRegistry";
+import { adminUpsertBrand } from "../src/index";
+import { combineConfidence, indicatorId, lookupIndicatorsInText, normalizeIndicator } from "../src/threatIntel";
+import { callAs, clearFirestore, describeWithEmulator, newUid } from "./harness";
+
+describe("normalizeIndicator", () => {
+  test("domains are keyed by registrable domain, official ones are dropped", () => {
+    expect(normalizeIndicator("domain", "https://Track.Poslaju-Redelivery.top/my?id=1", DEFAULT_BRANDS)).toBe("poslaju-redelivery.top");
+    expect(normalizeIndicator("domain", "maybank2u-secure.com", DEFAULT_BRANDS)).toBe("maybank2u-secure.com");
+    expect(normalizeIndicator("domain", "www.maybank2u.com.my", DEFAULT_BRANDS)).toBeNull();
+    expect(normalizeIndicator("domain", "not a domain", DEFAULT_BRANDS)).toBeNull();
+  });
+
+  test("phone numbers become international digits", () => {
+    expect(normalizeIndicator("phone", "012-345 6789")).toBe("60123456789");
+    expect(normalizeIndicator("phone", "+60 12-345 6789")).toBe("60123456789");
+    expect(normalizeIndicator("phone", "0065 8123 4567")).toBe("6581234567");
+    expect(normalizeIndicator("phone", "999")).toBeNull();
+  });
+
+  test("bank accounts keep their digits", () => {
+    expect(normalizeIndicator("bankAccount", "5140 1234 5678")).toBe("514012345678");
+    expect(normalizeIndicator("bankAccount", "1234-xxxx-5678")).toBeNull();
+  });
+
+  test("brands resolve to the registry id, apps to a plain name", () => {
+    expect(normalizeIndicator("impersonatedBrand", "Pos Laju", DEFAULT_BRANDS)).toBe("poslaju");
+    expect(normalizeIndicator("impersonatedBrand", "Maybank2u", DEFAULT_BRANDS)).toBe("maybank");
+    expect(normalizeIndicator("impersonatedBrand", "Lembaga Kemajuan Ikan", DEFAULT_BRANDS)).toBe("lembaga kemajuan ikan");
+    expect(normalizeIndicator("app", "  Parcel-Tracker.APK ")).toBe("parcel tracker apk");
+  });
+});
+
+describe("lookupIndicatorsInText", () => {
+  test("finds domains and digit runs in a message", () => {
+    const lookups = lookupIndicatorsInText("LHDN refund: visit lhdn-refund.site or call 012-345 6789. Ref 2025");
+    expect(lookups).toEqual(expect.arrayContaining([
+      { type: "domain", value: "lhdn-refund.site" },
+      { type: "phone", value: "60123456789" },
+    ]));
+    expect(lookups.some((l) => l.value === "2025")).toBe(false);
+  });
+});
+
+test("confidence grows with every article and stays below 1", () => {
+  expect(combineConfidence(0.6, 0.6)).toBeCloseTo(0.84);
+  expect(combineConfidence(0.99, 0.99)).toBe(0.99);
+  expect(indicatorId("phone", "60123456789")).toMatch(/^phone_[0-9a-f]{40}$/);
+});
+
+describeWithEmulator("brand registry edits", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  const brandDoc = () => admin.firestore().collection("threat_intel").doc("brand_maybank");
+
+  test("merge over the stored entry, not an instance's cached copy, and don't publish the editor", async () => {
+    await getBrandRegistry(true);
+    // Another instance's edit, made after this instance cached the registry.
+    await brandDoc().set({ type: "brand", ...DEFAULT_BRANDS.find((b) => b.id === "maybank"), aliases: ["maybank", "mae"] });
+
+    const res = await callAs(adminUpsertBrand, newUid("admin"), { id: "maybank", maxEditDistance: 0 }, { admin: true });
+    expect(res.brand).toMatchObject({ aliases: ["maybank", "mae"], maxEditDistance: 0 });
+    const stored = (await brandDoc().get()).data();
+    expect(stored).toMatchObject({ aliases: ["maybank", "mae"], maxEditDistance: 0 });
+    expect(stored).not.toHaveProperty("updatedBy");
+  });
+});
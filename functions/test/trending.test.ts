@@ -0,0 +1,186 @@
+import * as admin from "firebase-admin";
+import { adminListTrendAlerts, adminReviewTrendAlert, trendingScamDetector } from "../src/index";
+import { recentWeekIds, toWeeklyCounts, toWeeklyReporters } from "../src/insights";
+import {
+  detectSpike, newsSpikes, publishTrendAlert, recordTrendAlerts, reportSpikes, scamAlertTopic, TrendSpike, trendMessages,
+} from "../src/trending";
+import { callAs, clearFirestore, describeWithEmulator, expectHttpsError, fcm, newUid } from "./harness";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const THRESHOLDS = { minCount: 10, minZScore: 3, minRatio: 2 };
+
+describe("detectSpike", () => {
+  test("flags counts far above a steady baseline", () => {
+    expect(detectSpike(30, [5, 6, 4, 5, 5, 6, 4, 5], THRESHOLDS)).toEqual({ count: 30, expected: 5, zScore: 11.18, ratio: 6 });
+  });
+
+  test("ignores small counts, noisy baselines and ordinary growth", () => {
+    expect(detectSpike(8, [0, 0, 0, 0], THRESHOLDS)).toBeNull(); // below minCount
+    expect(detectSpike(30, [2, 40, 1, 35, 3, 30], THRESHOLDS)).toBeNull(); // within the usual swings
+    expect(detectSpike(150, [100, 98, 102, 100], THRESHOLDS)).toBeNull(); // z is high but only 1.5x
+  });
+
+  test("scales the baseline to the part of the period elapsed", () => {
+    expect(detectSpike(12, [10, 10, 10, 10], THRESHOLDS)).toBeNull();
+    expect(detectSpike(12, [10, 10, 10, 10], THRESHOLDS, 2 / 7)).toMatchObject({ expected: 2.86, ratio: 4.2 });
+  });
+
+  test("a key never seen before needs only minCount", () => {
+    expect(detectSpike(10, [0, 0, 0, 0], THRESHOLDS)).toMatchObject({ expected: 0, zScore: 10, ratio: null });
+  });
+});
+
+describe("reportSpikes", () => {
+  const now = Date.parse("2026-03-13T12:00:00Z"); // Friday of 2026-W11
+  const weekIds = recentWeekIds(now, 9);
+  const week = (reporters: Record<string, any>) => ({ totalReports: reporters.total, reporters });
+  const weeks = (current: Record<string, any>, baseline: Record<string, any> | null = {
+    total: 6, categories: { Phishing: 3, "Job Scam": 2, Other: 1 }, tactics: { credential: 2 },
+  }) => weekIds.map((id, i) => {
+    const d = i === 8 ? week(current) : baseline ? week(baseline) : undefined;
+    return { ...toWeeklyCounts(id, d), exists: !!d, reporters: toWeeklyReporters(d) };
+  });
+
+  test("finds categories and tactics with many more reporters this week", () => {
+    const spikes = reportSpikes(weeks({
+      total: 60,
+      categories: { "Phishing": 4, "Job Scam": 25, "Other": 30 },
+      tactics: { credential: 2, delivery_scam: 12 },
+    }), now);
+    expect(spikes.map((s) => [s.dimension, s.key])).toEqual([["category", "Job Scam"], ["tactic", "delivery_scam"]]);
+    expect(spikes[0]).toMatchObject({ source: "reports", region: "MY", periodId: "2026-W11", count: 25, expected: 1.29 });
+  });
+
+  test("only counts reporters, and only keys from the closed lists", () => {
+    // Free-text tactics and raw report counts, however high, never trend.
+    const current = { total: 40, categories: { "Made Up Scam": 40 }, tactics: { "click http://evil.example now": 40 } };
+    expect(reportSpikes(weeks(current), now)).toEqual([]);
+    const flooded = weeks({ total: 1, categories: { "Job Scam": 1 } });
+    flooded[8].categories["Job Scam"] = 50;
+    expect(reportSpikes(flooded, now)).toEqual([]);
+  });
+
+  test("needs a few weeks of reporter history", () => {
+    expect(reportSpikes(weeks({ total: 30, categories: { "Job Scam": 30 } }, null), now)).toEqual([]);
+  });
+});
+
+describe("newsSpikes", () => {
+  const now = Date.parse("2026-03-13T12:00:00Z");
+  const story = (category: string, daysAgo: number) => ({ category, createdAt: now - daysAgo * DAY_MS - 60000 });
+  const baseline = [1, 3, 5, 8, 12, 20].map((d) => story("Investment Scam", d));
+
+  test("finds categories with a burst of stories in the last day", () => {
+    const spikes = newsSpikes("MY", [...baseline, ...[0, 0, 0, 0].map(() => story("Love Scam", 0))], now);
+    expect(spikes).toEqual([expect.objectContaining({
+      source: "news", dimension: "category", key: "Love Scam", region: "MY", periodId: "2026-03-13", count: 4,
+    })]);
+  });
+
+  test("ignores the usual volume, Other and regions without history", () => {
+    expect(newsSpikes("MY", [...baseline, story("Investment Scam", 0), ...[0, 0, 0, 0].map(() => story("Other", 0))], now)).toEqual([]);
+    expect(newsSpikes("ASIA", [0, 0, 0, 0, 2].map((d) => story("Love Scam", d)), now)).toEqual([]);
+  });
+});
+
+test("warnings are localized and name the scam", () => {
+  const spike: TrendSpike = {
+    source: "reports", dimension: "category", key: "Job Scam", region: "MY", periodId: "2026-W11",
+    count: 25, expected: 2, zScore: 10, ratio: 12.5,
+  };
+  const messages = trendMessages(spike);
+  expect(messages.en.title).toBe("Scam alert: Job Scam on the rise");
+  expect(messages.ms.title).toContain("penipuan kerja");
+  expect(messages.zh.title).toContain("求职诈骗");
+
+  const tactic = trendMessages({ ...spike, dimension: "tactic", key: "delivery_scam" });
+  expect(tactic.en.body).toBe("Many SafeX users reported fake parcel delivery messages this week. Be careful with messages like this.");
+  expect(tactic.zh.body).toContain("虚假包裹派送信息");
+  expect(() => trendMessages({ ...spike, dimension: "tactic", key: "send RM500 to 1234" })).toThrow();
+  expect(scamAlertTopic("MY", "zh")).toBe("scam-alerts-MY-zh");
+});
+
+describeWithEmulator("trending scam alerts", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  const alerts = async () => (await admin.firestore().collection("trend_alerts").get()).docs.map((d) => ({ id: d.id, ...d.data() }));
+  const list = (data: unknown = {}) => callAs(adminListTrendAlerts, newUid(), data, { admin: true });
+  const review = (data: unknown) => callAs(adminReviewTrendAlert, newUid(), data, { admin: true });
+
+  const spike = (key: string, region: TrendSpike["region"] = "MY"): TrendSpike => ({
+    source: "reports", dimension: "category", key, region, periodId: "2026-W11", count: 25, expected: 2, zScore: 10, ratio: 12.5,
+  });
+
+  async function seedWeeks() {
+    const weekIds = recentWeekIds(Date.now(), 9);
+    await Promise.all(weekIds.map((id, i) => admin.firestore().collection("insightsWeekly").doc(id).set(i === 8 ?
+      { totalReports: 45, categories: { Phishing: 5, "Job Scam": 40 }, reporters: { total: 45, categories: { Phishing: 5, "Job Scam": 40 } } } :
+      { totalReports: 6, categories: { Phishing: 5, "Job Scam": 1 }, reporters: { total: 6, categories: { Phishing: 5, "Job Scam": 1 } } })));
+  }
+
+  test("the detector queues a pending alert and sends nothing until an admin approves it", async () => {
+    await seedWeeks();
+    await trendingScamDetector.run({} as any);
+
+    const [alert] = await alerts();
+    expect(alert).toMatchObject({
+      source: "reports", dimension: "category", key: "Job Scam", region: "MY", status: "pending",
+      topics: ["scam-alerts-MY-en", "scam-alerts-MY-ms", "scam-alerts-MY-zh"],
+    });
+    expect(fcm.messages).toHaveLength(0);
+    expect((await list()).alerts.map((a: any) => a.alertId)).toEqual([alert.id]);
+
+    const res = await review({ alertId: alert.id, action: "approve" });
+    expect(res.alert).toMatchObject({ status: "published", messageIds: expect.any(Array) });
+    expect(fcm.messages.map((m) => m.topic)).toEqual(["scam-alerts-MY-en", "scam-alerts-MY-ms", "scam-alerts-MY-zh"]);
+    expect(fcm.messages[0]).toMatchObject({
+      title: "Scam alert: Job Scam on the rise", data: { type: "trend_alert", alertId: alert.id, key: "Job Scam", language: "en" },
+    });
+
+    // Published once: neither a second approval nor the next run sends it again.
+    await expectHttpsError(review({ alertId: alert.id, action: "approve" }), "failed-precondition");
+    await trendingScamDetector.run({} as any);
+    expect(await alerts()).toHaveLength(1);
+    expect(fcm.messages).toHaveLength(3);
+  });
+
+  test("rejected alerts are never sent", async () => {
+    const { created } = await recordTrendAlerts([spike("Love Scam")], "approval");
+    await review({ alertId: created[0], action: "reject" });
+
+    expect((await list({ status: "rejected" })).alerts).toEqual([expect.objectContaining({ alertId: created[0], status: "rejected" })]);
+    await expectHttpsError(review({ alertId: created[0], action: "approve" }), "failed-precondition");
+    await expectHttpsError(review({ alertId: "nope", action: "reject" }), "not-found");
+    expect(fcm.messages).toHaveLength(0);
+  });
+
+  test("auto mode publishes at most one alert per region until the topic cools down", async () => {
+    const now = Date.now();
+    const { created, published } = await recordTrendAlerts([spike("Love Scam"), spike("Job Scam"), spike("Job Scam", "ASIA")], "auto", now);
+    expect(created).toHaveLength(3);
+    expect(published).toEqual([created[0], created[2]]);
+    expect((await alerts()).find((a) => a.id === created[1])).toMatchObject({ status: "pending" });
+
+    // An admin can still push the held-back one.
+    expect(await publishTrendAlert(created[1], newUid(), now)).toBe(true);
+    expect(fcm.messages).toHaveLength(9);
+  });
+
+  test("a signal alerts once per cooldown, and failed sends are recorded", async () => {
+    const now = Date.now();
+    expect((await recordTrendAlerts([spike("Love Scam")], "approval", now)).created).toHaveLength(1);
+    expect((await recordTrendAlerts([{ ...spike("Love Scam"), periodId: "2026-W12" }], "approval", now + DAY_MS)).created).toEqual([]);
+
+    fcm.failTopics = ["scam-alerts-ASIA-en", "scam-alerts-ASIA-ms", "scam-alerts-ASIA-zh"];
+    const { created } = await recordTrendAlerts([spike("Love Scam", "ASIA")], "auto", now);
+    expect((await alerts()).find((a) => a.id === created[0])).toMatchObject({ status: "failed", messageIds: [] });
+  });
+
+  test("is admin only", async () => {
+    await expectHttpsError(callAs(adminListTrendAlerts, newUid(), {}), "permission-denied");
+    await expectHttpsError(callAs(adminReviewTrendAlert, newUid(), { alertId: "x", action: "approve" }), "permission-denied");
+    await expectHttpsError(review({ alertId: "x", action: "publish" }), "invalid-argument");
+  });
+});
@@ -0,0 +1,44 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { analyzeUrl, checkUrlHeuristics } from "../src/urlAnalyzer";
+
+// Golden corpus for checkUrlHeuristics. Runs offline against the built-in brand registry.
+// When a case changes on purpose, update test/fixtures/golden-urls.json in the same change.
+interface Golden {
+  typosquats: { url: string; brand: string; codes: string[]; note?: string }[];
+  official: string[];
+  benignLookalikes: { url: string; note: string }[];
+}
+
+const golden: Golden = JSON.parse(readFileSync(join(__dirname, "fixtures", "golden-urls.json"), "utf8"));
+
+describe("checkUrlHeuristics golden corpus", () => {
+  describe("known typosquats are flagged", () => {
+    test.each(golden.typosquats.map((c) => [c.url, c] as const))("%s", (url, c) => {
+      const heuristics = checkUrlHeuristics(url);
+      expect(heuristics.suspicious).toBe(true);
+      expect(heuristics.official).toBe(false);
+      expect(heuristics.brand).toBe(c.brand);
+
+      const codes = analyzeUrl(url).findings.map((f) => f.code);
+      expect(codes).toEqual(expect.arrayContaining(c.codes));
+    });
+  });
+
+  describe("official domains are trusted", () => {
+    test.each(golden.official)("%s", (url) => {
+      const heuristics = checkUrlHeuristics(url);
+      expect(heuristics.suspicious).toBe(false);
+      expect(heuristics.official).toBe(true);
+      expect(heuristics.reason).toBeNull();
+    });
+  });
+
+  describe("benign lookalikes are not flagged", () => {
+    test.each(golden.benignLookalikes.map((c) => [c.url, c.note] as const))("%s (%s)", (url) => {
+      const heuristics = checkUrlHeuristics(url);
+      expect(heuristics.suspicious).toBe(false);
+      expect(heuristics.brand).toBeNull();
+    });
+  });
+});
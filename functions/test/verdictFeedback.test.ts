@@ -0,0 +1,79 @@
+import * as admin from "firebase-admin";
+import { adminExportVerdictFeedback, submitVerdictFeedback } from "../src/index";
+import { classifyFeedback } from "../src/verdictFeedback";
+import { callAs, clearFirestore, describeWithEmulator, expectHttpsError, newUid } from "./harness";
+
+test("flagged-but-safe is a false positive, missed scams are false negatives", () => {
+  expect(classifyFeedback("HIGH", "safe")).toBe("falsePositive");
+  expect(classifyFeedback("MEDIUM", "safe")).toBe("falsePositive");
+  expect(classifyFeedback("LOW", "scam")).toBe("falseNegative");
+  expect(classifyFeedback("LOW", "safe")).toBeNull();
+  expect(classifyFeedback("HIGH", "scam")).toBeNull();
+  expect(classifyFeedback("UNKNOWN", "scam")).toBe("falseNegative");
+  expect(classifyFeedback("UNKNOWN", "safe")).toBeNull();
+});
+
+describeWithEmulator("submitVerdictFeedback", () => {
+  beforeEach(async () => {
+    await clearFirestore();
+  });
+
+  const feedbackDocs = async () => (await admin.firestore().collection("verdict_feedback").get()).docs.map((d) => d.data());
+  const exportAs = (data: unknown) => callAs(adminExportVerdictFeedback, newUid("admin"), data, { admin: true });
+
+  test("rejects unauthenticated calls and bad payloads", async () => {
+    await expectHttpsError(callAs(submitVerdictFeedback, null, { kind: "alert", originalRiskLevel: "HIGH", userVerdict: "safe" }), "unauthenticated");
+    await expectHttpsError(callAs(submitVerdictFeedback, newUid(), { kind: "alert", originalRiskLevel: "HIGH" }), "invalid-argument");
+    await expectHttpsError(callAs(submitVerdictFeedback, newUid(), {
+      kind: "alert", originalRiskLevel: "HIGH", userVerdict: "safe", snippet: "Your TAC is 123456",
+    }), "invalid-argument");
+  });
+
+  test("stores the verdict and the correction without raw content", async () => {
+    const uid = newUid();
+    const res = await callAs(submitVerdictFeedback, uid, {
+      kind: "link", originalRiskLevel: "LOW", modelRiskLevel: "LOW", originalCategory: "Legitimate", userVerdict: "scam",
+      correctedCategory: "phishing", url: "https://login.fake-bank.xyz/verify?session=secret", tactics: ["credential"],
+    });
+    expect(res).toMatchObject({ ok: true, disagreement: "falseNegative" });
+
+    const [doc] = await feedbackDocs();
+    expect(doc).toMatchObject({
+      kind: "link", originalRiskLevel: "LOW", userVerdict: "scam", correctedCategory: "Phishing", domain: "fake-bank.xyz",
+      disagreement: "falseNegative", signals: { tactics: ["credential"] },
+    });
+    expect(JSON.stringify(doc)).not.toContain("secret");
+    expect(JSON.stringify(doc)).not.toContain(uid);
+  });
+
+  test("accepts feedback on the app's UNKNOWN fallback verdict", async () => {
+    const res = await callAs(submitVerdictFeedback, newUid(), { kind: "link", originalRiskLevel: "UNKNOWN", userVerdict: "scam" });
+    expect(res).toMatchObject({ ok: true, disagreement: "falseNegative" });
+  });
+
+  test("exports feedback with disagreement rates per category and domain", async () => {
+    const submit = (data: Record<string, unknown>) => callAs(submitVerdictFeedback, newUid(), { kind: "alert", ...data });
+    await submit({ originalRiskLevel: "HIGH", originalCategory: "Phishing", userVerdict: "safe", alertType: "sms", heuristicScore: 0.8 });
+    await submit({ originalRiskLevel: "HIGH", originalCategory: "Phishing", userVerdict: "scam" });
+    await submit({ originalRiskLevel: "MEDIUM", originalCategory: "Job Scam", userVerdict: "safe", url: "https://jobs.example.org/a" });
+    await submit({ originalRiskLevel: "LOW", originalCategory: "Job Scam", userVerdict: "safe", url: "https://jobs.example.org/b" });
+
+    await expectHttpsError(callAs(adminExportVerdictFeedback, newUid(), {}), "permission-denied");
+    const first = await exportAs({ limit: 3 });
+    expect(first.items).toHaveLength(3);
+    const second = await exportAs({ limit: 3, cursor: first.nextCursor });
+    expect(second.items).toHaveLength(1);
+    expect(second.nextCursor).toBeNull();
+    expect(second.stats).toBeUndefined();
+    expect([...first.items, ...second.items].find((i: any) => i.signals.alertType === "sms")).toMatchObject({
+      originalCategory: "Phishing", disagreement: "falsePositive", signals: { heuristicScore: 0.8 },
+    });
+
+    expect(first.stats.categories).toEqual([
+      expect.objectContaining({ key: "Job Scam", total: 2, falsePositives: 1, agreements: 1, disagreementRate: 0.5 }),
+      expect.objectContaining({ key: "Phishing", total: 2, falsePositives: 1, disagreementRate: 0.5 }),
+    ]);
+    expect(first.stats.domains).toEqual([expect.objectContaining({ key: "example.org", total: 2, disagreementRate: 0.5 })]);
+    await expectHttpsError(exportAs({ cursor: "nope" }), "invalid-argument");
+  });
+});